@@ -8,6 +8,7 @@ import session, { type Session } from "express-session";
 import crypto from "crypto";
 import axios from "axios";
 import analysisRoutes from "./routes/analysis.routes.js";
+import queryLibraryRoutes from "./routes/query-library.routes.js";
 import { graphStorageService } from "./services/graph-storage.service.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -852,6 +853,9 @@ app.get("/debug/test-cookie", (req: Request, res: Response) => {
 // Analysis routes for graph storage
 app.use("/api/analysis", analysisRoutes);
 
+// Saved query library on stored graphs
+app.use("/api/queries", queryLibraryRoutes);
+
 app.listen(port, async () => {
   // Initialize graph storage service
   await graphStorageService.initialize();
@@ -0,0 +1,99 @@
+/**
+ * Query Library Routes
+ *
+ * API endpoints for running the built-in saved queries (callers_of, unused_functions,
+ * ...) against stored graph analyses. User-defined queries live in the browser.
+ */
+
+import { Router, type Request, type Response } from "express";
+import { graphStorageService } from "../services/graph-storage.service.js";
+import type {
+  GraphNode,
+  GraphRelationship,
+} from "../../src/core/graph/types.ts";
+import { SimpleKnowledgeGraph } from "../../src/core/graph/graph.ts";
+import {
+  QueryLibrary,
+  QueryLibraryError,
+  createGraphQueryExecutor,
+  describeSavedQuery,
+} from "../../src/core/graph/query-library.ts";
+
+const router = Router();
+const queryLibrary = new QueryLibrary();
+
+/**
+ * GET /api/queries
+ * List the saved queries with their parameters and result columns
+ */
+router.get("/", (_req: Request, res: Response) => {
+  const queries = queryLibrary.list().map((query) => ({
+    ...query,
+    signature: describeSavedQuery(query),
+  }));
+  res.json({
+    success: true,
+    queries,
+    count: queries.length,
+  });
+});
+
+/**
+ * POST /api/queries/:name/run
+ * Run a saved query against the graph stored for a commit
+ */
+router.post("/:name/run", async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    const { owner, repo, commitSha, args } = req.body;
+
+    if (!owner || !repo || !commitSha) {
+      res.status(400).json({
+        error: "Missing required fields: owner, repo, commitSha",
+      });
+      return;
+    }
+
+    console.log(
+      `🧭 Running ${name} on ${owner}/${repo}@${commitSha.substring(0, 7)}`
+    );
+
+    const stored = await graphStorageService.loadGraph(owner, repo, commitSha);
+
+    if (!stored) {
+      res.status(404).json({
+        error: "Graph not found for this commit",
+      });
+      return;
+    }
+
+    const graph = new SimpleKnowledgeGraph();
+    stored.nodes.forEach((node) => graph.addNode(node as GraphNode));
+    stored.relationships.forEach((relationship) =>
+      graph.addRelationship(relationship as GraphRelationship)
+    );
+
+    const result = await queryLibrary.run(
+      name,
+      args || {},
+      createGraphQueryExecutor(graph)
+    );
+
+    res.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    if (error instanceof QueryLibraryError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error("Failed to run saved query:", error);
+    res.status(500).json({
+      error: "Failed to run saved query",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
@@ -110,6 +110,26 @@ export interface GitNexusConfig {
     customPatterns: string[];
   };
 
+  // ========================================
+  // TEST DETECTION
+  // ========================================
+  testing: {
+    enabled: boolean;
+    filePatterns: string[];   // Globs (`**`, `*`, `{a,b}`) matched against repository-relative paths
+    maxCallDepth: number;     // How many CALLS hops a test is followed to the code it exercises
+  };
+
+  // ========================================
+  // LANGUAGE BUILTINS
+  // ========================================
+  // Per-language changes to the builtin and external-module lists in src/config/language-config.ts,
+  // keyed by language id (python, javascript, typescript, go, java, rust, csharp). A `.gitnexus.json`
+  // at the repository root can carry the same `languages` section and is applied after this one.
+  languages: Record<string, {
+    builtins?: { add?: string[]; remove?: string[] };         // Call names ignored unless the project defines them
+    externalModules?: { add?: string[]; remove?: string[] };  // Module prefixes whose calls are library calls
+  }>;
+
   // ========================================
   // LOGGING & DEBUGGING
   // ========================================
@@ -302,6 +322,29 @@ const config: GitNexusConfig = {
     customPatterns: []
   },
 
+  // ========================================
+  // TEST DETECTION
+  // ========================================
+  testing: {
+    enabled: true,
+    filePatterns: [
+      // Jest / Vitest
+      '**/*.{test,spec}.{js,jsx,ts,tsx,mjs,cjs}',
+      '**/__tests__/**/*.{js,jsx,ts,tsx,mjs,cjs}',
+      // pytest
+      '**/test_*.py',
+      '**/*_test.py',
+      '**/conftest.py'
+    ],
+    maxCallDepth: 5
+  },
+
+  // ========================================
+  // LANGUAGE BUILTINS
+  // ========================================
+  // e.g. python: { builtins: { remove: ['find', 'create'] }, externalModules: { add: ['boto3'] } }
+  languages: {},
+
   // ========================================
   // LOGGING & DEBUGGING
   // ========================================
@@ -29,6 +29,10 @@ async function initializeWorker() {
         const language = await TreeSitter.Language.load('/wasm/typescript/tree-sitter-typescript.wasm');
         return language;
       },
+      tsx: async () => {
+        const language = await TreeSitter.Language.load('/wasm/typescript/tree-sitter-tsx.wasm');
+        return language;
+      },
       javascript: async () => {
         const language = await TreeSitter.Language.load('/wasm/javascript/tree-sitter-javascript.wasm');
         return language;
@@ -36,6 +40,22 @@ async function initializeWorker() {
       python: async () => {
         const language = await TreeSitter.Language.load('/wasm/python/tree-sitter-python.wasm');
         return language;
+      },
+      go: async () => {
+        const language = await TreeSitter.Language.load('/wasm/go/tree-sitter-go.wasm');
+        return language;
+      },
+      java: async () => {
+        const language = await TreeSitter.Language.load('/wasm/java/tree-sitter-java.wasm');
+        return language;
+      },
+      rust: async () => {
+        const language = await TreeSitter.Language.load('/wasm/rust/tree-sitter-rust.wasm');
+        return language;
+      },
+      csharp: async () => {
+        const language = await TreeSitter.Language.load('/wasm/csharp/tree-sitter-c_sharp.wasm');
+        return language;
       }
     };
 
@@ -64,12 +84,22 @@ function detectLanguage(filePath) {
   switch (ext) {
     case 'ts':
     case 'tsx':
+    case 'vue':     // Single-file components arrive as their script blocks
+    case 'svelte':
       return 'typescript';
     case 'js':
     case 'jsx':
       return 'javascript';
     case 'py':
       return 'python';
+    case 'go':
+      return 'go';
+    case 'java':
+      return 'java';
+    case 'rs':
+      return 'rust';
+    case 'cs':
+      return 'csharp';
     default:
       return 'javascript'; // Default fallback
   }
@@ -113,6 +143,7 @@ function getDefinitionType(queryName) {
     case 'classes': 
     case 'exportClasses': return 'class';
     case 'methods': 
+    case 'constructors':
     case 'properties':
     case 'staticmethods':
     case 'classmethods': return 'method';
@@ -252,7 +283,7 @@ function processMatch(match, filePath, queryName) {
         if (parametersNode) {
           const params = [];
           for (const param of parametersNode.namedChildren) {
-            if (param.type === 'identifier' || param.type === 'formal_parameter') {
+            if (param.type === 'identifier' || param.type === 'formal_parameter' || param.type === 'parameter_declaration' || param.type === 'parameter') {
               params.push(param.text);
             }
           }
@@ -272,7 +303,29 @@ function processMatch(match, filePath, queryName) {
         // Try to extract inheritance information
         const superclassNode = node.childForFieldName('superclass');
         if (superclassNode) {
-          definition.extends = [superclassNode.text];
+          // Java wraps the type in a (superclass) node whose text includes the 'extends' keyword
+          const typeNode = superclassNode.type === 'superclass' ? superclassNode.firstNamedChild : superclassNode;
+          definition.extends = [(typeNode || superclassNode).text];
+        }
+      }
+      
+      // Python and TypeScript decorators (@app.get, @Injectable), as written without arguments
+      if (definition.type === 'function' || definition.type === 'method' || definition.type === 'class') {
+        const decorators = getDecoratorNames(node);
+        if (decorators.length > 0) definition.decorators = decorators;
+      }
+      
+      // JSDoc / TSDoc / Javadoc comments and Python docstrings
+      const docstring = getDocCommentText(node, detectLanguage(filePath));
+      if (docstring) definition.docstring = docstring;
+      
+      // C# types are identified by namespace-qualified name; partial ones may span files
+      if (detectLanguage(filePath) === 'csharp' &&
+          (definition.type === 'class' || definition.type === 'interface' || definition.type === 'enum')) {
+        definition.namespace = getCSharpNamespace(node);
+        definition.qualifiedName = getCSharpQualifiedName(node);
+        if (node.namedChildren.some(child => child.type === 'modifier' && child.text === 'partial')) {
+          definition.isPartial = true;
         }
       }
       
@@ -303,11 +356,93 @@ function processMatch(match, filePath, queryName) {
   }
 }
 
+// Decorator names of a definition, outermost first (matches decorator-extractor.ts)
+function getDecoratorNames(definition) {
+  const parent = definition.parent;
+  let decorators;
+
+  if (parent && parent.type === 'decorated_definition') {
+    decorators = parent.namedChildren.filter(child => child.type === 'decorator');
+  } else {
+    decorators = definition.namedChildren.filter(child => child.type === 'decorator');
+    if (parent && parent.type === 'export_statement') {
+      decorators.unshift(...parent.namedChildren.filter(child => child.type === 'decorator'));
+    }
+    if (parent && parent.type === 'class_body') {
+      for (let sibling = definition.previousNamedSibling; sibling && sibling.type === 'decorator'; sibling = sibling.previousNamedSibling) {
+        decorators.unshift(sibling);
+      }
+    }
+  }
+
+  return decorators.map(decorator => {
+    const expression = decorator.firstNamedChild;
+    if (!expression) return null;
+    if (expression.type === 'call' || expression.type === 'call_expression') {
+      const callee = expression.childForFieldName('function');
+      return callee ? callee.text : null;
+    }
+    return expression.text;
+  }).filter(name => !!name);
+}
+
+// Doc comment or docstring of a definition as written (matches doc-comment-extractor.ts)
+function getDocCommentText(node, language) {
+  if (language === 'python') {
+    const body = node.childForFieldName('body');
+    const first = body && body.firstNamedChild;
+    const literal = first && first.type === 'expression_statement' ? first.firstNamedChild : null;
+    return literal && literal.type === 'string' ? literal.text : null;
+  }
+
+  const wrappers = ['export_statement', 'lexical_declaration', 'variable_declaration', 'variable_declarator', 'ambient_declaration'];
+  let anchor = node;
+  while (anchor.parent && wrappers.includes(anchor.parent.type)) anchor = anchor.parent;
+
+  let previous = anchor.previousNamedSibling;
+  let startRow = anchor.startPosition.row;
+  while (previous && previous.type === 'decorator') {
+    startRow = previous.startPosition.row;
+    previous = previous.previousNamedSibling;
+  }
+
+  if (!previous || (previous.type !== 'comment' && previous.type !== 'block_comment')) return null;
+  if (!previous.text.startsWith('/**') || previous.endPosition.row < startRow - 1) return null;
+  return previous.text;
+}
+
+// C# namespace of a declaration, including enclosing block namespaces (matches csharp-resolver.ts)
+function getCSharpNamespace(node) {
+  const segments = [];
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === 'namespace_declaration' || current.type === 'file_scoped_namespace_declaration') {
+      const nameNode = current.childForFieldName('name');
+      if (nameNode) segments.unshift(nameNode.text.replace(/\s+/g, '').replace(/^global::/, '').replace(/<.*>/g, ''));
+    }
+  }
+  return segments.join('.');
+}
+
+// Namespace-qualified C# type name, with enclosing types for nested ones
+function getCSharpQualifiedName(node) {
+  const typeDeclarations = ['class_declaration', 'struct_declaration', 'record_declaration', 'record_struct_declaration', 'interface_declaration', 'enum_declaration'];
+  const segments = [];
+  for (let current = node; current; current = current.parent) {
+    if (typeDeclarations.includes(current.type)) {
+      const nameNode = current.childForFieldName('name');
+      if (nameNode) segments.unshift(nameNode.text);
+    }
+  }
+  const namespace = getCSharpNamespace(node);
+  return namespace ? `${namespace}.${segments.join('.')}` : segments.join('.');
+}
+
 // Parse a single file
 async function parseFile(filePath, content) {
   try {
     const language = detectLanguage(filePath);
-    const languageParser = languageParsers.get(language);
+    // JSX needs the TSX grammar; the TypeScript queries apply to both
+    const languageParser = languageParsers.get(filePath.toLowerCase().endsWith('.tsx') ? 'tsx' : language);
     
     if (!languageParser) {
       throw new Error(`No parser available for language: ${language}`);
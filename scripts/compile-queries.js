@@ -29,8 +29,11 @@ function compileQueries() {
     const javascriptMatch = queriesContent.match(/export const JAVASCRIPT_QUERIES = ({[\s\S]*?});/);
     const pythonMatch = queriesContent.match(/export const PYTHON_QUERIES = ({[\s\S]*?});/);
     const javaMatch = queriesContent.match(/export const JAVA_QUERIES = ({[\s\S]*?});/);
+    const goMatch = queriesContent.match(/export const GO_QUERIES = ({[\s\S]*?});/);
+    const rustMatch = queriesContent.match(/export const RUST_QUERIES = ({[\s\S]*?});/);
+    const csharpMatch = queriesContent.match(/export const CSHARP_QUERIES = ({[\s\S]*?});/);
     
-    if (!typescriptMatch || !javascriptMatch || !pythonMatch || !javaMatch) {
+    if (!typescriptMatch || !javascriptMatch || !pythonMatch || !javaMatch || !goMatch || !rustMatch || !csharpMatch) {
       throw new Error('Could not extract queries from TypeScript file');
     }
     
@@ -53,6 +56,12 @@ const PYTHON_QUERIES = ${pythonMatch[1]};
 
 const JAVA_QUERIES = ${javaMatch[1]};
 
+const GO_QUERIES = ${goMatch[1]};
+
+const RUST_QUERIES = ${rustMatch[1]};
+
+const CSHARP_QUERIES = ${csharpMatch[1]};
+
 // Helper function to get queries for a specific language
 function getQueriesForLanguage(language) {
   switch (language) {
@@ -64,6 +73,12 @@ function getQueriesForLanguage(language) {
       return PYTHON_QUERIES;
     case 'java':
       return JAVA_QUERIES;
+    case 'go':
+      return GO_QUERIES;
+    case 'rust':
+      return RUST_QUERIES;
+    case 'csharp':
+      return CSHARP_QUERIES;
     default:
       return null;
   }
@@ -74,7 +89,10 @@ const queries = {
   typescript: TYPESCRIPT_QUERIES,
   javascript: JAVASCRIPT_QUERIES,
   python: PYTHON_QUERIES,
-  java: JAVA_QUERIES
+  java: JAVA_QUERIES,
+  go: GO_QUERIES,
+  rust: RUST_QUERIES,
+  csharp: CSHARP_QUERIES
 };
 `;
     
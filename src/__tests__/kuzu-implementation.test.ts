@@ -271,7 +271,8 @@ describe('KuzuKnowledgeGraph', () => {
 
     const nodes = await kuzuGraph.findNodesByLabel('Function');
     expect(mockQueryEngine.executeQuery).toHaveBeenCalledWith(
-      'MATCH (n:Function) RETURN n'
+      'MATCH (n:Function) RETURN n',
+      { params: {} }
     );
   });
 
@@ -292,7 +293,8 @@ describe('KuzuKnowledgeGraph', () => {
 
     const node = await kuzuGraph.findNodeById('func1');
     expect(mockQueryEngine.executeQuery).toHaveBeenCalledWith(
-      "MATCH (n) WHERE n.id = 'func1' RETURN n LIMIT 1"
+      'MATCH (n) WHERE n.id = $id RETURN n LIMIT 1',
+      { params: { id: 'func1' } }
     );
   });
 
@@ -6,6 +6,7 @@ import type { KnowledgeGraph } from '../core/graph/types.ts';
 
 export interface CypherQuery {
   cypher: string;
+  params?: Record<string, unknown>;
   explanation: string;
   confidence: number;
   warnings?: string[];
@@ -20,6 +21,7 @@ export interface CypherGenerationOptions {
 // Define Zod schema for structured output
 const CypherQuerySchema = z.object({
   cypher: z.string().describe("The Cypher query to execute"),
+  params: z.record(z.unknown()).optional().describe("Values of the $name placeholders in the query, e.g. file paths and names"),
   explanation: z.string().describe("Brief explanation of what the query does and why this pattern was chosen"),
   confidence: z.number().min(0).max(1).describe("Confidence level between 0 and 1")
 });
@@ -45,7 +47,11 @@ export class CypherGenerator {
     },
     {
       question: "What classes inherit from BaseService?",
-      cypher: "MATCH (child:CodeElement {elementType: 'Class'})-[r:CodeRelationship {relationshipType: 'INHERITS'}]->(parent:CodeElement {elementType: 'Class', name: 'BaseService'}) RETURN child.name, child.filePath"
+      cypher: "MATCH (child:CodeElement {elementType: 'Class'})-[r:CodeRelationship {relationshipType: 'EXTENDS'}]->(parent:CodeElement {elementType: 'Class', name: 'BaseService'}) RETURN child.name, child.filePath"
+    },
+    {
+      question: "Which classes implement the Repository interface?",
+      cypher: "MATCH (c:CodeElement {elementType: 'Class'})-[r:CodeRelationship {relationshipType: 'IMPLEMENTS'}]->(i:CodeElement {elementType: 'Interface', name: 'Repository'}) RETURN c.name, c.filePath"
     },
     {
       question: "Find all methods in the UserService class",
@@ -59,9 +65,34 @@ export class CypherGenerator {
       question: "Show all interfaces and the classes that implement them",
       cypher: "MATCH (c:CodeElement {elementType: 'Class'})-[r:CodeRelationship {relationshipType: 'IMPLEMENTS'}]->(i:CodeElement {elementType: 'Interface'}) RETURN i.name, c.name"
     },
+    {
+      question: "Which functions modify the global variable config?",
+      cypher: "MATCH (f:CodeElement)-[r:CodeRelationship {relationshipType: 'ACCESSES', mode: 'write'}]->(v:CodeElement {elementType: 'Variable', name: 'config'}) RETURN f.name, f.filePath, r.line_number"
+    },
     {
       question: "Find functions decorated with @app.route",
-      cypher: "MATCH (d:CodeElement {elementType: 'Decorator', name: 'app.route'})-[r:CodeRelationship {relationshipType: 'DECORATES'}]->(f:CodeElement {elementType: 'Function'}) RETURN f.name, f.filePath"
+      cypher: "MATCH (d:CodeElement)-[r:CodeRelationship {relationshipType: 'DECORATES', decorator: 'app.route'}]->(f:CodeElement {elementType: 'Function'}) RETURN f.name, f.filePath"
+    },
+    {
+      question: "Which API endpoints are affected by a change to validate_user?",
+      cypher: "MATCH (h:CodeElement)-[:CodeRelationship {relationshipType: 'CALLS'}]->(f:CodeElement {name: 'validate_user'}) MATCH (h)-[:CodeRelationship {relationshipType: 'HANDLES'}]->(r:CodeElement {elementType: 'Route'}) RETURN r.name, r.filePath"
+    },
+    {
+      question: "Which unresolved calls are most frequent?",
+      cypher: "MATCH (u:CodeElement {elementType: 'UnresolvedCall'}) RETURN u.name, u.category, count(*) AS occurrences ORDER BY occurrences DESC"
+    },
+    {
+      question: "Which deprecated APIs are still called?",
+      cypher: "MATCH (caller:CodeElement)-[:CodeRelationship {relationshipType: 'CALLS'}]->(f:CodeElement {deprecated: true}) RETURN f.name, f.filePath, f.deprecationMessage, collect(caller.name) AS callers"
+    },
+    {
+      question: "Which workspace packages import each other?",
+      cypher: "MATCH (f:CodeElement {elementType: 'File'})-[r:CodeRelationship {relationshipType: 'IMPORTS', crossPackage: true}]->(target:CodeElement) RETURN r.sourcePackage, r.targetPackage, count(*) AS imports ORDER BY imports DESC"
+    },
+    {
+      question: "Which functions are defined in src/it's-legacy.ts?",
+      cypher: "MATCH (f:CodeElement {elementType: 'File', filePath: $filePath})-[r:CodeRelationship {relationshipType: 'DEFINES'}]->(func:CodeElement {elementType: 'Function'}) RETURN func.name, func.startLine",
+      params: { filePath: "src/it's-legacy.ts" }
     },
     {
       question: "What files import the requests module?",
@@ -183,7 +214,7 @@ export class CypherGenerator {
         }
         
         // Validate the generated query
-        const validation = this.validateQuery(result.cypher);
+        const validation = this.validateQuery(result.cypher, result.params);
         if (!validation.isValid) {
           lastError = validation.error!;
           if (attempt < maxRetries) {
@@ -234,12 +265,12 @@ ${this.graphSchema}
 NODE STRUCTURE:
 - Single node type: CodeElement
 - Discriminator property: elementType
-- Element types: 'Project', 'Folder', 'File', 'Module', 'Class', 'Function', 'Method', 'Variable', 'Interface', 'Type', 'Import'
+- Element types: 'Project', 'Folder', 'File', 'Module', 'Class', 'Function', 'Method', 'Variable', 'Interface', 'Type', 'Import', 'BasicBlock', 'Component', 'Package', 'Route', 'Test', 'UnresolvedCall', 'UnresolvedImport'
 
 RELATIONSHIP STRUCTURE:
 - Single relationship type: CodeRelationship  
 - Discriminator property: relationshipType
-- Relationship types: 'CONTAINS', 'CALLS', 'INHERITS', 'IMPORTS', 'OVERRIDES', 'IMPLEMENTS', 'DECORATES', 'DEFINES', 'USES', 'ACCESSES', 'EXTENDS'
+- Relationship types: 'CONTAINS', 'CALLS', 'IMPORTS', 'OVERRIDES', 'IMPLEMENTS', 'DECORATES', 'DEFINES', 'USES', 'ACCESSES', 'EXTENDS', 'FLOWS_TO', 'DEPENDS_ON', 'RENDERS', 'HANDLES', 'TESTS'
 
 CRITICAL QUERY PATTERNS:
 - Nodes: MATCH (n:CodeElement {elementType: 'Function'}) 
@@ -278,8 +309,11 @@ KUZUDB OPTIMIZATION GUIDELINES:
    FIND CALLERS OF FUNCTION:
    MATCH (caller:CodeElement)-[r:CodeRelationship {relationshipType: 'CALLS'}]->(target:CodeElement {elementType: 'Function', name: 'functionName'}) RETURN caller.name
 
-   FIND INHERITANCE CHAIN:
-   MATCH (child:CodeElement {elementType: 'Class'})-[r:CodeRelationship {relationshipType: 'INHERITS'}*1..5]->(parent:CodeElement {elementType: 'Class'}) RETURN child.name, parent.name
+   FIND INHERITANCE CHAIN (EXTENDS for base classes and interfaces extending interfaces, IMPLEMENTS for implemented interfaces and Rust traits):
+   MATCH (child:CodeElement {elementType: 'Class'})-[r:CodeRelationship {relationshipType: 'EXTENDS'}*1..5]->(parent:CodeElement {elementType: 'Class'}) RETURN child.name, parent.name
+
+   FIND IMPLEMENTATIONS OF AN INTERFACE:
+   MATCH (c:CodeElement)-[r:CodeRelationship {relationshipType: 'IMPLEMENTS'}]->(i:CodeElement {elementType: 'Interface', name: 'interfaceName'}) RETURN c.name, c.filePath
 
    FIND IMPORTS:
    MATCH (f:CodeElement {elementType: 'File'})-[r:CodeRelationship {relationshipType: 'IMPORTS'}]->(module:CodeElement) WHERE module.name CONTAINS 'requests' RETURN f.name
@@ -290,12 +324,20 @@ KUZUDB OPTIMIZATION GUIDELINES:
    COMPLEX DEPENDENCY ANALYSIS:
    MATCH (start:CodeElement {elementType: 'Function'})-[r:CodeRelationship {relationshipType: 'CALLS'}*1..5]->(target:CodeElement {elementType: 'Function'}) 
    WHERE start.name = 'main' AND target.name CONTAINS 'db'
-   RETURN start.name, target.name, LENGTH(shortestPath((start)-[r2:CodeRelationship {relationshipType: 'CALLS'}*]->(target))) as depth`;
+   RETURN start.name, target.name, LENGTH(shortestPath((start)-[r2:CodeRelationship {relationshipType: 'CALLS'}*]->(target))) as depth
+
+4. PARAMETERS: Pass file paths, names and other user-supplied values as $name placeholders
+   with their values in "params" instead of quoting them in the query, so quotes in them cannot break it:
+   MATCH (f:CodeElement {elementType: 'File', filePath: $filePath}) RETURN f.name   with params {"filePath": "src/it's.ts"}`;
 
     if (includeExamples) {
       prompt += `\n\nEXAMPLE QUERIES:\n`;
       CypherGenerator.CYPHER_EXAMPLES.forEach((example, index) => {
-        prompt += `${index + 1}. Question: "${example.question}"\n   Cypher: ${example.cypher}\n\n`;
+        prompt += `${index + 1}. Question: "${example.question}"\n   Cypher: ${example.cypher}\n`;
+        if (example.params) {
+          prompt += `   Params: ${JSON.stringify(example.params)}\n`;
+        }
+        prompt += '\n';
       });
     }
 
@@ -324,7 +366,7 @@ KUZUDB OPTIMIZATION GUIDELINES:
   /**
    * Validate the generated Cypher query
    */
-  private validateQuery(cypher: string): { isValid: boolean; error?: string; warnings?: string[] } {
+  private validateQuery(cypher: string, params: Record<string, unknown> = {}): { isValid: boolean; error?: string; warnings?: string[] } {
     const warnings: string[] = [];
     
     if (!cypher || cypher.trim().length === 0) {
@@ -360,6 +402,13 @@ KUZUDB OPTIMIZATION GUIDELINES:
       return { isValid: false, error: 'Unbalanced braces in query' };
     }
     
+    // Every $name placeholder needs a value
+    const missingParams = [...new Set(Array.from(cypher.matchAll(/\$([A-Za-z_][A-Za-z0-9_]*)/g), match => match[1]))]
+      .filter(name => !(name in params));
+    if (missingParams.length > 0) {
+      return { isValid: false, error: `No value in params for ${missingParams.map(name => `$${name}`).join(', ')}` };
+    }
+    
     // Warn about potentially expensive operations
     if (upperCypher.includes('MATCH ()') || upperCypher.includes('MATCH (*)')) {
       warnings.push('Query matches all nodes - this could be expensive');
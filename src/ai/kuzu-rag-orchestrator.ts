@@ -45,7 +45,8 @@ export interface KuzuRAGResult {
 
 // Define tool schemas using Zod
 const QueryGraphSchema = z.object({
-  query: z.string().describe("The Cypher query to execute on the knowledge graph")
+  query: z.string().describe("The Cypher query to execute on the knowledge graph"),
+  params: z.record(z.unknown()).optional().describe("Values of the $name placeholders in the query, e.g. file paths and names")
 });
 
 const GetCodeSchema = z.object({
@@ -119,12 +120,13 @@ export class KuzuRAGOrchestrator {
 
     // Define tools using LangChain's tool calling
     const queryGraphTool = tool(
-      async ({ query }: { query: string }) => {
+      async ({ query, params }: { query: string; params?: Record<string, unknown> }) => {
         if (useKuzuDB && this.kuzuQueryEngine.isReady()) {
           const kuzuResult = await this.kuzuQueryEngine.executeQuery(query, {
             timeout: queryTimeout,
             maxResults,
-            includeExecutionTime: true
+            includeExecutionTime: true,
+            params
           });
           return this.formatKuzuQueryResult(kuzuResult);
         } else {
@@ -273,7 +275,8 @@ export class KuzuRAGOrchestrator {
             const kuzuResult = await this.kuzuQueryEngine.executeQuery(toolCall.args.query, {
               timeout: options.queryTimeout,
               maxResults: options.maxResults,
-              includeExecutionTime: true
+              includeExecutionTime: true,
+              params: toolCall.args.params
             });
             
             return {
@@ -0,0 +1,47 @@
+import { ReActAgent } from './react-agent';
+import type { LLMService } from './llm-service';
+import type { CypherGenerator } from './cypher-generator';
+import { createGraphFixture } from '../core/graph/graph-fixtures';
+
+const mockCypherGenerator = {
+  updateSchema: () => {}
+};
+
+const llmConfig = {
+  provider: 'openai' as const,
+  apiKey: 'test-key'
+};
+
+// A DualWriteKnowledgeGraph as the chat gets it: the polymorphic KuzuDB schema has no
+// :Function or :CALLS, so the built-in queries fail to bind there
+const buildGraph = (kuzuQueries: string[]) => {
+  const { graph, node, rel } = createGraphFixture();
+  node('main', 'Function', { filePath: 'app.ts' });
+  node('load', 'Function', { filePath: 'app.ts' });
+  rel('main', 'CALLS', 'load');
+
+  return Object.assign(graph, {
+    getKuzuGraph: () => ({
+      executeQuery: async (cypher: string) => {
+        kuzuQueries.push(cypher);
+        throw new Error('Binder exception: Table CALLS does not exist.');
+      }
+    })
+  });
+};
+
+describe('ReActAgent - saved queries', () => {
+  test('should run a saved query on the JSON graph when KuzuDB rejects it', async () => {
+    const kuzuQueries: string[] = [];
+    const graph = buildGraph(kuzuQueries);
+    const reactAgent = new ReActAgent({} as LLMService, mockCypherGenerator as unknown as CypherGenerator, graph);
+    await reactAgent.setContext({ graph, fileContents: new Map() }, llmConfig);
+    kuzuQueries.length = 0;
+
+    const result = await reactAgent['executeAction']('callers_of', '{"name": "load"}', llmConfig);
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(result.output).rows).toEqual([{ name: 'main', filePath: 'app.ts', distance: 1 }]);
+    expect(kuzuQueries).toHaveLength(1);
+  });
+});
@@ -4,7 +4,15 @@ import type { LLMService, LLMConfig } from './llm-service.ts';
 import type { CypherGenerator } from './cypher-generator.ts';
 import type { KnowledgeGraph } from '../core/graph/types.ts';
 import type { LocalStorageChatHistory } from '../lib/chat-history.ts';
+import type { KuzuQueryTarget, SavedQuery, SavedQueryExecutor } from '../core/graph/query-library.ts';
 import { configLoader } from '../config/config-loader.ts';
+import {
+  QueryLibrary,
+  createGraphQueryExecutor,
+  createKuzuQueryExecutor,
+  describeSavedQuery,
+  withFallbackExecutor
+} from '../core/graph/query-library.ts';
 
 export interface ReActContext {
   graph: KnowledgeGraph;
@@ -51,12 +59,16 @@ export interface ReActOptions {
   similarityThreshold?: number;
 }
 
-// Define Zod schema for ReAct step
-const ReActStepSchema = z.object({
-  thought: z.string().describe("The reasoning process - what you're thinking about"),
-  action: z.enum(['query_graph', 'get_code', 'search_files', 'final_answer']).describe("The action to take - must be one of: query_graph, get_code, search_files, or final_answer"),
-  actionInput: z.string().describe("Input for the action - the query, file path, search pattern, or final answer")
-});
+const CORE_ACTIONS = ['query_graph', 'get_code', 'search_files', 'final_answer'];
+
+// Define Zod schema for ReAct step; every saved query is an action of its own
+function createReActStepSchema(actions: string[]) {
+  return z.object({
+    thought: z.string().describe("The reasoning process - what you're thinking about"),
+    action: z.enum(actions as [string, ...string[]]).describe(`The action to take - must be one of: ${actions.join(', ')}`),
+    actionInput: z.string().describe("Input for the action - the query, file path, search pattern, saved query arguments as JSON, or final answer")
+  });
+}
 
 export class ReActAgent {
   private llmService: LLMService;
@@ -64,17 +76,28 @@ export class ReActAgent {
   private context: ReActContext | null = null;
   private chatHistory: LocalStorageChatHistory | null = null;
   private graph?: KnowledgeGraph;
+  private queryLibrary: QueryLibrary;
 
-  constructor(llmService: LLMService, cypherGenerator: CypherGenerator, graph?: KnowledgeGraph) {
+  /**
+   * @param queryLibrary Saved queries offered as tools; built-ins only, kept in memory, by default
+   */
+  constructor(llmService: LLMService, cypherGenerator: CypherGenerator, graph?: KnowledgeGraph, queryLibrary: QueryLibrary = new QueryLibrary()) {
     this.llmService = llmService;
     this.cypherGenerator = cypherGenerator;
     this.graph = graph; // Store graph reference for KuzuDB access
+    this.queryLibrary = queryLibrary;
   }
 
   /**
    * Initialize the ReAct agent
    */
   public async initialize(): Promise<void> {
+    // User-defined saved queries are tools too
+    try {
+      await this.queryLibrary.load();
+    } catch (error) {
+      console.warn('Failed to load saved queries:', error);
+    }
     console.log('ReActAgent initialized');
   }
 
@@ -153,6 +176,9 @@ export class ReActAgent {
       temperature: temperature
     };
 
+    const savedQueries = this.getSavedQueryTools();
+    const validActions = [...CORE_ACTIONS, ...savedQueries.map(query => query.name)];
+
     let currentStep = 1;
     let finalAnswer = '';
     let confidence = 0.5;
@@ -162,7 +188,7 @@ export class ReActAgent {
       const conversation: BaseMessage[] = [];
       
       // Add system prompt
-      const systemPrompt = this.buildReActSystemPrompt(strictMode);
+      const systemPrompt = this.buildReActSystemPrompt(strictMode, savedQueries);
       conversation.push(new SystemMessage(systemPrompt));
 
       // Add chat history if available
@@ -190,13 +216,12 @@ export class ReActAgent {
           
           if (model && typeof model.withStructuredOutput === 'function') {
             console.log('Model supports structured output, attempting to use it...');
-            const structuredModel = model.withStructuredOutput(ReActStepSchema);
+            const structuredModel = model.withStructuredOutput(createReActStepSchema(validActions));
             const structuredResponse = await structuredModel.invoke(conversation);
             
             console.log('Structured output successful:', structuredResponse);
             
             // Validate the structured response
-            const validActions = ['query_graph', 'get_code', 'search_files', 'final_answer'];
             if (!validActions.includes(structuredResponse.action)) {
               console.warn(`Invalid action from structured output: ${structuredResponse.action}, falling back to regex parsing`);
               const response = await this.llmService.chat(reasoningConfig, conversation);
@@ -244,6 +269,14 @@ export class ReActAgent {
             confidence: confidence
           });
         }
+        const savedQuery = savedQueries.find(query => query.name === reasoning_step.action);
+        if (savedQuery && toolResult.success) {
+          cypherQueries.push({
+            cypher: savedQuery.cypher,
+            explanation: `Saved query ${reasoning_step.action} with ${reasoning_step.actionInput || 'default arguments'}`,
+            confidence: confidence
+          });
+        }
 
         // Add sources if successful
         if (toolResult.success && toolResult.output) {
@@ -283,7 +316,14 @@ export class ReActAgent {
   /**
    * Build the ReAct system prompt with chat history context
    */
-  private buildReActSystemPrompt(strictMode: boolean): string {
+  private buildReActSystemPrompt(strictMode: boolean, savedQueries: SavedQuery[] = []): string {
+    const actionList = [...CORE_ACTIONS.slice(0, -1), ...savedQueries.map(query => query.name)].join(', ');
+    const savedQuerySection = savedQueries.length === 0 ? '' : `
+Saved queries - vetted graph analyses, more reliable than query_graph when one fits the question.
+The Action Input is a JSON object with the arguments, e.g. {"name": "parseFile"}; parameters with a default may be left out:
+${savedQueries.map(query => `- ${describeSavedQuery(query)}: ${query.description}. Returns ${query.columns.map(column => column.name).join(', ')}`).join('\n')}
+`;
+
     const prompt = `You are an expert code analyst using a ReAct (Reasoning + Acting) approach to answer questions about a codebase.
 
 You have access to the following tools:
@@ -291,11 +331,11 @@ You have access to the following tools:
 2. get_code: Retrieve the source code content of a specific file
 3. search_files: Search for files matching a pattern or containing specific text
 4. final_answer: Provide the final answer to the user's question
-
+${savedQuerySection}
 IMPORTANT INSTRUCTIONS:
 - You have access to the conversation history above, so you can reference previous questions and answers
 - Think step by step and provide your reasoning in the "thought" field
-- Choose the appropriate action from the available tools (ONLY: query_graph, get_code, search_files, or final_answer)
+- Choose the appropriate action from the available tools (ONLY: ${actionList}, or final_answer)
 - Provide the necessary input for the chosen action
 - Use the tools to gather information before providing final answers
 - Be precise and thorough in your analysis
@@ -306,12 +346,12 @@ ${strictMode ? 'STRICT MODE: Only use exact matches and precise queries.' : 'FLE
 
 You must respond with a structured output containing:
 - thought: Your reasoning process for this step
-- action: The tool you want to use (MUST be one of: query_graph, get_code, search_files, or final_answer)
+- action: The tool you want to use (MUST be one of: ${actionList}, or final_answer)
 - actionInput: The input for the chosen tool
 
 When providing a final_answer, make sure to give a complete, comprehensive response in the actionInput field.
 
-CRITICAL: The action field must be exactly one of these four values: query_graph, get_code, search_files, or final_answer.`;
+CRITICAL: The action field must be exactly one of these values: ${actionList}, or final_answer.`;
 
     return prompt;
   }
@@ -332,7 +372,7 @@ CRITICAL: The action field must be exactly one of these four values: query_graph
     
     // Normalize action names to handle variations
     if (action) {
-      action = action.toLowerCase().replace(/[^a-z_]/g, '');
+      action = action.toLowerCase().replace(/[^a-z0-9_]/g, '');
       
       // Map common variations to expected actions
       const actionMap: Record<string, string> = {
@@ -392,7 +432,7 @@ CRITICAL: The action field must be exactly one of these four values: query_graph
             }
             
             // Execute the query
-            const results = await this.executeGraphQuery(finalCypher);
+            const results = await this.executeGraphQuery(finalCypher, cypherQuery.params);
             
             // Truncate large responses if truncation is enabled
             if (config.ai.cypher.enableTruncation && results.rows && results.rows.length > config.ai.cypher.maxLimit) {
@@ -446,13 +486,28 @@ CRITICAL: The action field must be exactly one of these four values: query_graph
 
         case 'unknown':
         case '':
-          output = `No action specified. Available actions: query_graph, get_code, search_files, final_answer`;
+          output = `No action specified. Available actions: ${this.describeAvailableActions()}`;
           success = false;
           break;
 
-        default:
-          output = `Unknown action: "${action}". Available actions: query_graph, get_code, search_files, final_answer`;
-          success = false;
+        default: {
+          const savedQuery = this.getSavedQueryTools().find(query => query.name === normalizedAction);
+          if (!savedQuery) {
+            output = `Unknown action: "${action}". Available actions: ${this.describeAvailableActions()}`;
+            success = false;
+            break;
+          }
+
+          try {
+            const args = this.parseSavedQueryInput(savedQuery, input);
+            const results = await this.queryLibrary.run(savedQuery.name, args, this.createSavedQueryExecutor());
+            output = JSON.stringify(results, null, 2);
+            success = true;
+          } catch (error) {
+            output = `Error running saved query ${savedQuery.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            success = false;
+          }
+        }
       }
 
       return {
@@ -472,11 +527,63 @@ CRITICAL: The action field must be exactly one of these four values: query_graph
     }
   }
 
+  /**
+   * Saved queries offered as tools; a name taken by a built-in action stays that action
+   */
+  private getSavedQueryTools(): SavedQuery[] {
+    return this.queryLibrary.list().filter(query => !CORE_ACTIONS.includes(query.name));
+  }
+
+  /**
+   * Saved queries run on KuzuDB when the graph has it and on the JSON graph otherwise.
+   * The built-ins use the JSON graph's labels (:Function, :CALLS), which the polymorphic
+   * KuzuDB schema doesn't have, so a query KuzuDB rejects runs on the JSON graph.
+   */
+  private createSavedQueryExecutor(): SavedQueryExecutor {
+    const graph = this.context?.graph ?? this.graph;
+    if (!graph) {
+      throw new Error('No graph context available');
+    }
+
+    const runOnJSON = createGraphQueryExecutor(graph);
+    const kuzuGraph = this.graph && 'getKuzuGraph' in this.graph
+      ? (this.graph as { getKuzuGraph(): KuzuQueryTarget | null }).getKuzuGraph()
+      : null;
+    return kuzuGraph ? withFallbackExecutor(createKuzuQueryExecutor(kuzuGraph), runOnJSON) : runOnJSON;
+  }
+
+  private describeAvailableActions(): string {
+    return [...CORE_ACTIONS, ...this.getSavedQueryTools().map(query => query.name)].join(', ');
+  }
+
+  /**
+   * Arguments of a saved query tool: a JSON object, or the bare value when the query
+   * takes a single parameter
+   */
+  private parseSavedQueryInput(query: SavedQuery, input: string): Record<string, unknown> {
+    const trimmed = input.trim();
+    if (trimmed === '' || trimmed === '{}') return {};
+
+    if (trimmed.startsWith('{')) {
+      const parsed = JSON.parse(trimmed);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('Action Input must be a JSON object of arguments');
+      }
+      return parsed;
+    }
+
+    const required = query.parameters.filter(parameter => parameter.default === undefined);
+    if (required.length === 1) {
+      return { [required[0].name]: trimmed.replace(/^["']|["']$/g, '') };
+    }
+    throw new Error(`Action Input must be a JSON object with ${query.parameters.map(parameter => parameter.name).join(', ')}`);
+  }
+
   /**
    * Execute a graph query using KuzuDB if available, fallback to JSON graph
    */
-  private async executeGraphQuery(cypher: string): Promise<any> {
-    console.log('🔍 ReActAgent executing Cypher query:', cypher);
+  private async executeGraphQuery(cypher: string, params?: Record<string, unknown>): Promise<any> {
+    console.log('🔍 ReActAgent executing Cypher query:', cypher, params ?? '');
     
     // Try to get KuzuQueryEngine from DualWriteKnowledgeGraph
     if (this.graph && 'getKuzuGraph' in this.graph) {
@@ -484,7 +591,7 @@ CRITICAL: The action field must be exactly one of these four values: query_graph
       if (kuzuGraph && 'executeQuery' in kuzuGraph) {
         try {
           console.log('🚀 Using KuzuDB for query execution');
-          const result = await kuzuGraph.executeQuery(cypher);
+          const result = await kuzuGraph.executeQuery(cypher, params);
           
           // Format result for AI consumption
           const formattedResult = {
@@ -518,13 +625,13 @@ CRITICAL: The action field must be exactly one of these four values: query_graph
     
     // Fallback to JSON graph query
     console.log('📊 Using JSON graph fallback');
-    return this.fallbackGraphQuery(cypher);
+    return this.fallbackGraphQuery(cypher, params);
   }
 
   /**
    * Fallback graph query using the JSON graph and GraphQueryEngine
    */
-  private async fallbackGraphQuery(cypher: string): Promise<any> {
+  private async fallbackGraphQuery(cypher: string, params?: Record<string, unknown>): Promise<any> {
     if (!this.context?.graph) {
       return { 
         nodes: [], 
@@ -541,7 +648,7 @@ CRITICAL: The action field must be exactly one of these four values: query_graph
       const queryEngine = new GraphQueryEngine(this.context.graph);
       
       console.log('📄 Using JSON graph fallback for query execution');
-      const result = queryEngine.executeQuery(cypher);
+      const result = queryEngine.executeQuery(cypher, { params });
       return {
         nodes: result.nodes,
         relationships: result.relationships,
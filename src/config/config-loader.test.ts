@@ -0,0 +1,8 @@
+import { configLoader } from './config-loader.js';
+import config from '../../gitnexus.config.js';
+
+describe('ConfigLoader', () => {
+  test('should fall back to the test detection settings of gitnexus.config.ts', () => {
+    expect(configLoader['getMinimalConfig']().testing).toEqual(config.testing);
+  });
+});
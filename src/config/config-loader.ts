@@ -99,6 +99,22 @@ const IgnoreConfigSchema = z.object({
   customPatterns: z.array(z.string())
 });
 
+const TestingConfigSchema = z.object({
+  enabled: z.boolean(),
+  filePatterns: z.array(z.string()),
+  maxCallDepth: z.number().min(1).max(20)
+});
+
+const ListOverrideSchema = z.object({
+  add: z.array(z.string()).optional(),
+  remove: z.array(z.string()).optional()
+});
+
+export const LanguagesConfigSchema = z.record(z.string(), z.object({
+  builtins: ListOverrideSchema.optional(),
+  externalModules: ListOverrideSchema.optional()
+}));
+
 const LoggingConfigSchema = z.object({
   level: z.enum(['debug', 'info', 'warn', 'error']),
   enableMetrics: z.boolean(),
@@ -147,6 +163,8 @@ const GitNexusConfigSchema = z.object({
   kuzu: KuzuConfigSchema,
   ai: AIConfigSchema,
   ignore: IgnoreConfigSchema,
+  testing: TestingConfigSchema,
+  languages: LanguagesConfigSchema,
   logging: LoggingConfigSchema,
   github: GitHubConfigSchema,
   features: FeaturesConfigSchema,
@@ -274,6 +292,18 @@ export class ConfigLoader {
         fileExtensions: ['.pyc', '.zip', '.jpg'],
         customPatterns: []
       },
+      testing: {
+        enabled: true,
+        filePatterns: [
+          '**/*.{test,spec}.{js,jsx,ts,tsx,mjs,cjs}',
+          '**/__tests__/**/*.{js,jsx,ts,tsx,mjs,cjs}',
+          '**/test_*.py',
+          '**/*_test.py',
+          '**/conftest.py'
+        ],
+        maxCallDepth: 5
+      },
+      languages: {},
       logging: {
         level: 'info',
         enableMetrics: true,
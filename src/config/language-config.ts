@@ -8,6 +8,7 @@ export interface LanguageConfig {
   extensions: string[];
   builtinFunctions: Set<string>;
   builtinTypes: Set<string>;
+  externalModules: string[];  // Module prefixes whose calls are library calls (`numpy` covers `numpy.linalg`, `node` covers `node:fs`)
   commentPatterns: {
     singleLine: string[];
     multiLineStart: string[];
@@ -149,18 +150,187 @@ const JAVASCRIPT_BUILTINS = new Set([
   
   // Types
   'Object', 'Array', 'String', 'Number', 'Boolean', 'Function', 'Date',
-  'RegExp', 'Error', 'Promise', 'Map', 'Set', 'WeakMap', 'WeakSet'
+  'RegExp', 'Error', 'Promise', 'Map', 'Set', 'WeakMap', 'WeakSet',
+
+  // Namespace objects
+  'Math', 'JSON', 'Intl'
+]);
+
+// Browser, Node.js, React, test runner and build tool APIs commonly called from JS/TS
+const JAVASCRIPT_LIBRARY_FUNCTIONS = new Set([
+  // Core JavaScript functions
+  'parseInt', 'parseFloat', 'isNaN', 'isFinite', 'encodeURI', 'decodeURI',
+  'encodeURIComponent', 'decodeURIComponent', 'escape', 'unescape',
+  // Array methods
+  'push', 'pop', 'shift', 'unshift', 'slice', 'splice', 'concat', 'join',
+  'reverse', 'sort', 'indexOf', 'lastIndexOf', 'includes', 'find', 'findIndex',
+  'filter', 'map', 'reduce', 'reduceRight', 'forEach', 'some', 'every',
+  'flat', 'flatMap', 'fill', 'copyWithin', 'from', 'of', 'isArray',
+  // Object methods
+  'keys', 'values', 'entries', 'assign', 'create', 'defineProperty',
+  'defineProperties', 'freeze', 'seal', 'preventExtensions', 'hasOwnProperty',
+  'isPrototypeOf', 'propertyIsEnumerable', 'toString', 'valueOf', 'toLocaleString',
+  // String methods
+  'charAt', 'charCodeAt', 'codePointAt', 'concat', 'endsWith', 'includes',
+  'indexOf', 'lastIndexOf', 'localeCompare', 'match', 'normalize', 'padEnd',
+  'padStart', 'repeat', 'replace', 'search', 'slice', 'split', 'startsWith',
+  'substring', 'substr', 'toLowerCase', 'toUpperCase', 'trim', 'trimEnd',
+  'trimStart', 'trimLeft', 'trimRight',
+  // Number methods
+  'toFixed', 'toExponential', 'toPrecision', 'isInteger', 'isSafeInteger',
+  'isFinite', 'isNaN', 'parseFloat', 'parseInt',
+  // Date methods
+  'getTime', 'getDate', 'getDay', 'getFullYear', 'getHours', 'getMinutes',
+  'getSeconds', 'getMilliseconds', 'getMonth', 'setDate', 'setFullYear',
+  'setHours', 'setMinutes', 'setSeconds', 'setMilliseconds', 'setMonth',
+  'toDateString', 'toTimeString', 'toISOString', 'toJSON', 'now', 'parse',
+  // Promise methods
+  'then', 'catch', 'finally', 'resolve', 'reject', 'all', 'race', 'allSettled',
+  // Console methods
+  'log', 'error', 'warn', 'info', 'debug', 'trace', 'assert', 'clear',
+  'count', 'dir', 'dirxml', 'group', 'groupCollapsed', 'groupEnd', 'table',
+  'time', 'timeEnd', 'timeLog', 'profile', 'profileEnd',
+  // DOM methods (common ones)
+  'getElementById', 'getElementsByClassName', 'getElementsByTagName',
+  'querySelector', 'querySelectorAll', 'createElement', 'createTextNode',
+  'appendChild', 'removeChild', 'insertBefore', 'replaceChild', 'cloneNode',
+  'getAttribute', 'setAttribute', 'removeAttribute', 'hasAttribute',
+  'addEventListener', 'removeEventListener', 'dispatchEvent',
+  'preventDefault', 'stopPropagation', 'stopImmediatePropagation',
+  'focus', 'blur', 'click', 'submit', 'reset', 'scrollIntoView',
+  // Common library methods (React, etc.)
+  'useState', 'useEffect', 'useContext', 'useReducer', 'useCallback',
+  'useMemo', 'useRef', 'useImperativeHandle', 'useLayoutEffect', 'useDebugValue',
+  'useId', 'useTransition', 'useDeferredValue', 'useSyncExternalStore', 'useInsertionEffect',
+  'memo', 'forwardRef', 'lazy', 'Suspense', 'Fragment', 'StrictMode', 'Profiler', 'createElement',
+  'cloneElement', 'isValidElement', 'render', 'hydrate', 'unmountComponentAtNode',
+  // HTTP/Fetch
+  'fetch', 'get', 'post', 'put', 'delete', 'patch', 'head', 'options',
+  // JSON
+  'stringify', 'parse',
+  // Math
+  'abs', 'acos', 'asin', 'atan', 'atan2', 'ceil', 'cos', 'exp', 'floor',
+  'log', 'max', 'min', 'pow', 'random', 'round', 'sin', 'sqrt', 'tan',
+  // Common testing functions
+  'describe', 'it', 'test', 'expect', 'beforeEach', 'afterEach', 'beforeAll', 'afterAll',
+  'mock', 'spy', 'stub', 'restore', 'reset', 'resetAllMocks', 'clearAllMocks',
+  // Node.js specific
+  'require', 'module', 'exports', '__dirname', '__filename', 'process', 'global',
+  'Buffer', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval',
+  'setTimeout', 'clearTimeout',
+  // Worker API
+  'postMessage', 'onmessage', 'onerror', 'close', 'importScripts',
+  // JavaScript constructors and built-ins
+  'Array', 'Object', 'String', 'Number', 'Boolean', 'Function', 'Date',
+  'RegExp', 'Error', 'TypeError', 'ReferenceError', 'SyntaxError',
+  'RangeError', 'EvalError', 'URIError', 'AggregateError',
+  'Set', 'Map', 'WeakSet', 'WeakMap', 'Symbol', 'BigInt',
+  'Promise', 'Proxy', 'Reflect', 'ArrayBuffer', 'SharedArrayBuffer',
+  'DataView', 'Int8Array', 'Uint8Array', 'Int16Array', 'Uint16Array',
+  'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array',
+  'BigInt64Array', 'BigUint64Array',
+  // Configuration and build tools
+  'config', 'define', 'plugin', 'preset', 'loader', 'rule',
+  'extend', 'override', 'merge', 'concat', 'apply',
+  // ESLint specific
+  'rules', 'extends', 'parser', 'parserOptions', 'env', 'globals',
+  // Bundler/build tools
+  'bundle', 'chunk', 'entry', 'output', 'optimization', 'resolve',
+  'devtool', 'target', 'externals', 'stats', 'performance',
+  // Process and execution
+  'exec', 'spawn', 'fork', 'execSync', 'spawnSync',
+  // File system operations
+  'readFile', 'writeFile', 'readdir', 'stat', 'mkdir', 'rmdir',
+  'unlink', 'rename', 'copyFile', 'access', 'watch', 'createReadStream',
+  'createWriteStream'
 ]);
 
 // TypeScript built-ins (extends JavaScript)
 const TYPESCRIPT_BUILTINS = new Set([
   ...JAVASCRIPT_BUILTINS,
+  ...JAVASCRIPT_LIBRARY_FUNCTIONS,
   // TypeScript specific
   'Partial', 'Required', 'Readonly', 'Pick', 'Omit', 'Exclude', 'Extract',
   'Record', 'Parameters', 'ConstructorParameters', 'ReturnType',
   'InstanceType', 'ThisParameterType', 'OmitThisParameter', 'ThisType'
 ]);
 
+// Go built-in functions and predeclared types
+const GO_BUILTINS = new Set([
+  // Predeclared functions
+  'append', 'cap', 'clear', 'close', 'complex', 'copy', 'delete', 'imag',
+  'len', 'make', 'max', 'min', 'new', 'panic', 'print', 'println', 'real',
+  'recover',
+
+  // Predeclared types (used as conversions, e.g. string(b))
+  'bool', 'byte', 'complex64', 'complex128', 'error', 'float32', 'float64',
+  'int', 'int8', 'int16', 'int32', 'int64', 'rune', 'string',
+  'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr', 'any',
+
+  // error interface
+  'Error'
+]);
+
+// Java methods inherited from java.lang.Object and the members of System (System.out
+// included). Library calls such as list.add() are left to fail resolution: a project
+// method named get or add must keep its CALLS edges.
+const JAVA_BUILTINS = new Set([
+  // java.lang.Object
+  'equals', 'hashCode', 'toString', 'getClass', 'clone', 'finalize',
+  'notify', 'notifyAll', 'wait',
+
+  // java.lang.System and System.out / System.err
+  'arraycopy', 'currentTimeMillis', 'nanoTime', 'exit', 'gc', 'getenv',
+  'getProperty', 'setProperty', 'identityHashCode', 'lineSeparator',
+  'println', 'print', 'printf'
+]);
+
+// Rust prelude items and common std method calls
+const RUST_BUILTINS = new Set([
+  // Prelude constructors and types
+  'Some', 'None', 'Ok', 'Err', 'Box', 'Vec', 'String', 'Option', 'Result',
+  'Rc', 'Arc', 'RefCell', 'Cell', 'Mutex', 'RwLock', 'HashMap', 'HashSet',
+  'BTreeMap', 'BTreeSet', 'VecDeque',
+
+  // Conversions and cloning
+  'clone', 'to_string', 'to_owned', 'into', 'as_ref', 'as_mut', 'borrow',
+  'borrow_mut', 'default',
+
+  // Option / Result combinators
+  'unwrap', 'expect', 'unwrap_or', 'unwrap_or_else', 'unwrap_or_default',
+  'ok', 'err', 'ok_or', 'ok_or_else', 'is_some', 'is_none', 'is_ok', 'is_err',
+  'and_then', 'map_err',
+
+  // Iterators and collections
+  'iter', 'iter_mut', 'into_iter', 'map', 'filter', 'collect', 'fold',
+  'enumerate', 'zip', 'rev', 'next', 'len', 'is_empty', 'push', 'pop',
+  'insert', 'remove', 'get', 'get_mut', 'contains', 'contains_key', 'extend',
+  'lock', 'read', 'write'
+]);
+
+// System.Object members and common BCL / LINQ calls
+const CSHARP_BUILTINS = new Set([
+  // System.Object
+  'Equals', 'GetHashCode', 'ToString', 'GetType', 'MemberwiseClone', 'ReferenceEquals',
+
+  // Collections and LINQ
+  'Add', 'AddRange', 'Remove', 'RemoveAt', 'Contains', 'ContainsKey', 'TryGetValue',
+  'Clear', 'Count', 'Any', 'All', 'Where', 'Select', 'SelectMany', 'First',
+  'FirstOrDefault', 'Single', 'SingleOrDefault', 'Last', 'LastOrDefault', 'OrderBy',
+  'OrderByDescending', 'GroupBy', 'ToList', 'ToArray', 'ToDictionary', 'Sum', 'Max',
+  'Min', 'Distinct', 'Skip', 'Take', 'ForEach',
+
+  // Strings, console and tasks
+  'Format', 'Join', 'Split', 'Trim', 'Substring', 'StartsWith', 'EndsWith',
+  'IsNullOrEmpty', 'IsNullOrWhiteSpace', 'WriteLine', 'Write', 'ReadLine',
+  'ConfigureAwait', 'FromResult', 'WhenAll', 'nameof',
+
+  // Common BCL types used with `new`
+  'Object', 'String', 'StringBuilder', 'List', 'Dictionary', 'HashSet', 'Exception',
+  'ArgumentException', 'ArgumentNullException', 'InvalidOperationException',
+  'NotImplementedException', 'NotSupportedException'
+]);
+
 // Note: Ignore patterns have been moved to the centralized IgnoreService
 // See src/config/ignore-service.ts and gitnexus.config.ts
 
@@ -171,6 +341,7 @@ export const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
     extensions: ['.py', '.pyx', '.pyi'],
     builtinFunctions: new Set([...PYTHON_BUILTINS, ...PYTHON_LIBRARY_FUNCTIONS]),
     builtinTypes: new Set(['int', 'str', 'float', 'bool', 'list', 'dict', 'set', 'tuple']),
+    externalModules: ['os', 'sys', 'logging', 'datetime', 'time', 'random', 'json', 're', 'math', 'statistics', 'collections', 'itertools', 'functools', 'asyncio', 'threading', 'subprocess', 'uuid', 'urllib', 'numpy', 'pandas', 'requests', 'dotenv', 'pymongo', 'motor', 'bson', 'openai'],
     commentPatterns: {
       singleLine: ['#'],
       multiLineStart: ['"""', "'''"],
@@ -186,8 +357,9 @@ export const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
   javascript: {
     name: 'JavaScript',
     extensions: ['.js', '.mjs', '.cjs', '.jsx'],
-    builtinFunctions: JAVASCRIPT_BUILTINS,
+    builtinFunctions: new Set([...JAVASCRIPT_BUILTINS, ...JAVASCRIPT_LIBRARY_FUNCTIONS]),
     builtinTypes: new Set(['Object', 'Array', 'String', 'Number', 'Boolean', 'Function']),
+    externalModules: ['node', 'fs', 'path', 'child_process', 'os', 'util', 'events', 'crypto', 'http', 'https'],
     commentPatterns: {
       singleLine: ['//'],
       multiLineStart: ['/*'],
@@ -205,6 +377,7 @@ export const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
     extensions: ['.ts', '.tsx'],
     builtinFunctions: TYPESCRIPT_BUILTINS,
     builtinTypes: new Set(['Object', 'Array', 'String', 'Number', 'Boolean', 'Function']),
+    externalModules: ['node', 'fs', 'path', 'child_process', 'os', 'util', 'events', 'crypto', 'http', 'https'],
     commentPatterns: {
       singleLine: ['//'],
       multiLineStart: ['/*'],
@@ -215,6 +388,93 @@ export const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
       fromImport: [],
       require: [/require\s*\(\s*['"'](.+)['"]\s*\)/]
     }
+  },
+
+  go: {
+    name: 'Go',
+    extensions: ['.go'],
+    builtinFunctions: GO_BUILTINS,
+    builtinTypes: new Set([
+      'bool', 'byte', 'complex64', 'complex128', 'error', 'float32', 'float64',
+      'int', 'int8', 'int16', 'int32', 'int64', 'rune', 'string',
+      'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr', 'any'
+    ]),
+    externalModules: [],
+    commentPatterns: {
+      singleLine: ['//'],
+      multiLineStart: ['/*'],
+      multiLineEnd: ['*/']
+    },
+    importPatterns: {
+      import: [/^import\s+(?:\w+\s+)?"(.+)"$/],
+      fromImport: [],
+      require: []
+    }
+  },
+
+  java: {
+    name: 'Java',
+    extensions: ['.java'],
+    builtinFunctions: JAVA_BUILTINS,
+    builtinTypes: new Set([
+      'boolean', 'byte', 'char', 'short', 'int', 'long', 'float', 'double', 'void',
+      'Boolean', 'Byte', 'Character', 'Short', 'Integer', 'Long', 'Float', 'Double',
+      'String', 'Object', 'Void'
+    ]),
+    externalModules: ['java', 'javax'],
+    commentPatterns: {
+      singleLine: ['//'],
+      multiLineStart: ['/*'],
+      multiLineEnd: ['*/']
+    },
+    importPatterns: {
+      import: [/^import\s+(?:static\s+)?([\w.]+(?:\.\*)?);$/],
+      fromImport: [],
+      require: []
+    }
+  },
+
+  rust: {
+    name: 'Rust',
+    extensions: ['.rs'],
+    builtinFunctions: RUST_BUILTINS,
+    builtinTypes: new Set([
+      'bool', 'char', 'str', 'i8', 'i16', 'i32', 'i64', 'i128', 'isize',
+      'u8', 'u16', 'u32', 'u64', 'u128', 'usize', 'f32', 'f64', 'Self'
+    ]),
+    externalModules: ['std', 'core', 'alloc'],
+    commentPatterns: {
+      singleLine: ['//'],
+      multiLineStart: ['/*'],
+      multiLineEnd: ['*/']
+    },
+    importPatterns: {
+      import: [/^(?:pub(?:\([^)]*\))?\s+)?use\s+(.+);$/],
+      fromImport: [/^(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+);$/],
+      require: []
+    }
+  },
+
+  csharp: {
+    name: 'C#',
+    extensions: ['.cs'],
+    builtinFunctions: CSHARP_BUILTINS,
+    builtinTypes: new Set([
+      'bool', 'byte', 'sbyte', 'char', 'decimal', 'double', 'float', 'int', 'uint',
+      'long', 'ulong', 'short', 'ushort', 'object', 'string', 'void', 'dynamic',
+      'nint', 'nuint', 'var'
+    ]),
+    externalModules: ['System', 'Microsoft'],
+    commentPatterns: {
+      singleLine: ['//'],
+      multiLineStart: ['/*'],
+      multiLineEnd: ['*/']
+    },
+    importPatterns: {
+      import: [/^(?:global\s+)?using\s+(?:static\s+)?(?:\w+\s*=\s*)?([\w.]+);$/],
+      fromImport: [],
+      require: []
+    }
   }
 };
 
@@ -0,0 +1,80 @@
+import { analyzeCycles } from './cycle-analysis.js';
+import { createGraphFixture } from './graph-fixtures.js';
+import type { NodeLabel, RelationshipType } from './types.js';
+
+const buildGraph = (label: NodeLabel, type: RelationshipType, edges: Array<[string, string]>) => {
+  const { graph, node, rel } = createGraphFixture();
+  for (const id of new Set(edges.flat())) node(id, label, { filePath: id });
+  for (const [source, target] of edges) rel(source, type, target);
+  return graph;
+};
+
+describe('analyzeCycles', () => {
+  test('should rank import cycles by size', () => {
+    const graph = buildGraph('File', 'IMPORTS', [
+      ['a.ts', 'b.ts'],
+      ['b.ts', 'a.ts'],
+      ['c.ts', 'd.ts'],
+      ['d.ts', 'e.ts'],
+      ['e.ts', 'c.ts'],
+      ['e.ts', 'f.ts'],
+      ['f.ts', 'g.ts']
+    ]);
+
+    const { imports, calls } = analyzeCycles(graph);
+
+    expect(imports.map(cycle => cycle.nodes.map(member => member.id))).toEqual([
+      ['c.ts', 'd.ts', 'e.ts'],
+      ['a.ts', 'b.ts']
+    ]);
+    expect(imports[0].relationships).toHaveLength(3);
+    expect(imports[0].shortestCycle.map(member => member.id)).toEqual(['c.ts', 'd.ts', 'e.ts']);
+    expect(calls).toEqual([]);
+  });
+
+  test('should suggest the edge shared by the most cycles', () => {
+    // a → b → a and a → c → b → a share b → a; cutting it leaves no cycle
+    const graph = buildGraph('Function', 'CALLS', [
+      ['a', 'b'],
+      ['b', 'a'],
+      ['a', 'c'],
+      ['c', 'b']
+    ]);
+
+    const [cycle] = analyzeCycles(graph).calls;
+
+    expect(cycle.shortestCycle.map(member => member.id)).toEqual(['a', 'b']);
+    expect(cycle.breakingEdge.relationship.id).toBe('b-CALLS-a');
+    expect(cycle.breakingEdge.remainingCycleSize).toBe(0);
+  });
+
+  test('should report recursive functions as cycles of one', () => {
+    const graph = buildGraph('Function', 'CALLS', [
+      ['walk', 'walk'],
+      ['main', 'walk']
+    ]);
+
+    const { calls } = analyzeCycles(graph);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].nodes.map(member => member.id)).toEqual(['walk']);
+    expect(calls[0].breakingEdge.relationship.id).toBe('walk-CALLS-walk');
+  });
+
+  test('should search at least one node per component for the shortest cycle', () => {
+    const graph = buildGraph('File', 'IMPORTS', [
+      ['a.ts', 'b.ts'],
+      ['b.ts', 'c.ts'],
+      ['c.ts', 'a.ts'],
+      ['c.ts', 'b.ts']
+    ]);
+
+    // Searching from a.ts alone finds the longer cycle through it, not b.ts ⇄ c.ts
+    for (const maxCycleSearchSources of [0, 1]) {
+      const [cycle] = analyzeCycles(graph, { maxCycleSearchSources }).imports;
+      expect(cycle.shortestCycle.map(member => member.id)).toEqual(['a.ts', 'b.ts', 'c.ts']);
+      expect(cycle.breakingEdge.relationship.id).toBe('b.ts-IMPORTS-c.ts');
+    }
+    expect(analyzeCycles(graph).imports[0].shortestCycle.map(member => member.id)).toEqual(['b.ts', 'c.ts']);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Cycle Analysis
+ *
+ * Strongly connected components of the IMPORTS graph (files that depend on each other
+ * in a ring) and of the CALLS graph (mutually recursive functions). Each component
+ * with a cycle is reported with its shortest cycle and the edge of that cycle whose
+ * removal leaves the smallest cycle behind, as a place to start untangling it.
+ */
+
+import type { KnowledgeGraph, GraphNode, GraphRelationship, RelationshipType } from './types.ts';
+import type { GraphIndex } from './query.ts';
+import { indexGraph } from './query.ts';
+
+export type CycleRelationshipType = Extract<RelationshipType, 'IMPORTS' | 'CALLS'>;
+
+export interface BreakingEdge {
+  relationship: GraphRelationship;
+  remainingCycleSize: number;            // Nodes in the largest component still cyclic without it; 0 when none is
+}
+
+export interface DependencyCycle {
+  relationshipType: CycleRelationshipType;
+  nodes: GraphNode[];                    // Members of the strongly connected component
+  relationships: GraphRelationship[];    // Edges of the type between members
+  shortestCycle: GraphNode[];            // In edge order; the last node leads back to the first
+  breakingEdge: BreakingEdge;
+}
+
+export interface CycleAnalysis {
+  imports: DependencyCycle[];            // Largest first
+  calls: DependencyCycle[];
+}
+
+export type CycleAnalysisOptions = {
+  maxCycleSearchSources?: number;        // Nodes per component to search the shortest cycle from; at least 1
+};
+
+type Successors = Map<string, string[]>;
+
+/**
+ * File-level import cycles and function-level call cycles, largest first
+ */
+export function analyzeCycles(graph: KnowledgeGraph, options: CycleAnalysisOptions = {}): CycleAnalysis {
+  const index = indexGraph(graph);
+  return {
+    imports: findCycles(index, 'IMPORTS', options),
+    calls: findCycles(index, 'CALLS', options)
+  };
+}
+
+/**
+ * Strongly connected components with a cycle along one relationship type, ranked by
+ * size, then by the number of edges inside them
+ */
+export function findCycles(
+  index: GraphIndex,
+  relationshipType: CycleRelationshipType,
+  options: CycleAnalysisOptions = {}
+): DependencyCycle[] {
+  const maxCycleSearchSources = Math.max(1, options.maxCycleSearchSources ?? 100);
+  const successors: Successors = new Map();
+
+  for (const [sourceId, rels] of index.outAdjacency) {
+    const targets = new Set(rels.filter((rel) => rel.type === relationshipType).map((rel) => rel.target));
+    if (targets.size > 0) successors.set(sourceId, Array.from(targets));
+  }
+
+  const cycles: DependencyCycle[] = [];
+  for (const component of stronglyConnectedComponents(Array.from(successors.keys()).sort(), successors)) {
+    if (!isCyclic(component, successors)) continue;
+
+    const members = new Set(component);
+    const memberIds = component.slice().sort();
+    const restricted = restrictSuccessors(memberIds, successors, members);
+    const cycle = shortestCycle(memberIds.slice(0, maxCycleSearchSources), restricted);
+
+    const relationships = memberIds.flatMap((nodeId) =>
+      (index.outAdjacency.get(nodeId) || []).filter((rel) => rel.type === relationshipType && members.has(rel.target))
+    );
+
+    // Every member of a cyclic component lies on a cycle, so a search from any of them finds one
+    const breakingEdge = suggestBreakingEdge(cycle, memberIds, restricted, relationships);
+    if (!breakingEdge) continue;
+
+    cycles.push({
+      relationshipType,
+      nodes: memberIds.map((nodeId) => index.nodeById.get(nodeId)!).filter(Boolean),
+      relationships,
+      shortestCycle: cycle.map((nodeId) => index.nodeById.get(nodeId)!).filter(Boolean),
+      breakingEdge
+    });
+  }
+
+  return cycles.sort((a, b) =>
+    b.nodes.length - a.nodes.length ||
+    b.relationships.length - a.relationships.length ||
+    (a.nodes[0]?.id || '').localeCompare(b.nodes[0]?.id || '')
+  );
+}
+
+/**
+ * Tarjan's algorithm, iterative so that long dependency chains can't overflow the stack
+ */
+function stronglyConnectedComponents(nodeIds: string[], successors: Successors): string[][] {
+  const order = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const visit = (nodeId: string) => {
+    order.set(nodeId, order.size);
+    lowLink.set(nodeId, order.get(nodeId)!);
+    stack.push(nodeId);
+    onStack.add(nodeId);
+  };
+
+  for (const root of nodeIds) {
+    if (order.has(root)) continue;
+    visit(root);
+    const work: Array<{ nodeId: string; next: number }> = [{ nodeId: root, next: 0 }];
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = successors.get(frame.nodeId) || [];
+
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (!order.has(target)) {
+          visit(target);
+          work.push({ nodeId: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.nodeId, Math.min(lowLink.get(frame.nodeId)!, order.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parentId = work[work.length - 1].nodeId;
+        lowLink.set(parentId, Math.min(lowLink.get(parentId)!, lowLink.get(frame.nodeId)!));
+      }
+      if (lowLink.get(frame.nodeId) === order.get(frame.nodeId)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.nodeId);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+function isCyclic(component: string[], successors: Successors): boolean {
+  return component.length > 1 || (successors.get(component[0]) || []).includes(component[0]);
+}
+
+function restrictSuccessors(nodeIds: string[], successors: Successors, members: Set<string>): Successors {
+  const restricted: Successors = new Map();
+  for (const nodeId of nodeIds) {
+    restricted.set(nodeId, (successors.get(nodeId) || []).filter((target) => members.has(target)));
+  }
+  return restricted;
+}
+
+/**
+ * Shortest cycle through any of the sources: a breadth-first search from each source
+ * until an edge leads back to it, cut off once it can't beat the best cycle so far
+ */
+function shortestCycle(sources: string[], successors: Successors): string[] {
+  let best: string[] = [];
+
+  for (const source of sources) {
+    const parent = new Map<string, string | null>([[source, null]]);
+    let frontier = [source];
+
+    // Frontier nodes are depth - 1 edges away, so an edge back to the source closes a cycle of depth edges
+    for (let depth = 1; frontier.length > 0 && (best.length === 0 || depth < best.length); depth++) {
+      const closing = frontier.find((nodeId) => (successors.get(nodeId) || []).includes(source));
+      if (closing) {
+        best = [];
+        for (let step: string | null = closing; step !== null; step = parent.get(step)!) best.unshift(step);
+        break;
+      }
+
+      const nextFrontier: string[] = [];
+      for (const nodeId of frontier) {
+        for (const target of successors.get(nodeId) || []) {
+          if (parent.has(target)) continue;
+          parent.set(target, nodeId);
+          nextFrontier.push(target);
+        }
+      }
+      frontier = nextFrontier;
+    }
+
+    if (best.length === 1) break;
+  }
+
+  return best;
+}
+
+/**
+ * The edge of the shortest cycle whose removal leaves the smallest cyclic component;
+ * null for an empty cycle
+ */
+function suggestBreakingEdge(
+  cycle: string[],
+  memberIds: string[],
+  successors: Successors,
+  relationships: GraphRelationship[]
+): BreakingEdge | null {
+  let best: BreakingEdge | null = null;
+
+  for (let i = 0; i < cycle.length; i++) {
+    const sourceId = cycle[i];
+    const targetId = cycle[(i + 1) % cycle.length];
+    const relationship = relationships.find((rel) => rel.source === sourceId && rel.target === targetId);
+    if (!relationship) continue;
+
+    const without: Successors = new Map(successors);
+    without.set(sourceId, (successors.get(sourceId) || []).filter((target) => target !== targetId));
+    const remainingCycleSize = stronglyConnectedComponents(memberIds, without)
+      .filter((component) => isCyclic(component, without))
+      .reduce((largest, component) => Math.max(largest, component.length), 0);
+
+    if (!best || remainingCycleSize < best.remainingCycleSize) {
+      best = { relationship, remainingCycleSize };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,60 @@
+import { CypherSyntaxError, parseCypher } from './cypher-parser.js';
+
+describe('parseCypher', () => {
+  test('should parse multi-hop patterns with variable-length relationships', () => {
+    const query = parseCypher("MATCH p = (a:Function {name: 'main'})-[:CALLS*1..3]->(b)<-[r:DEFINES]-(f:File) RETURN p");
+    const match = query.clauses[0];
+
+    expect(match.kind).toBe('match');
+    if (match.kind !== 'match') return;
+    const [pattern] = match.patterns;
+    expect(pattern.variable).toBe('p');
+    expect(pattern.nodes.map(node => node.variable)).toEqual(['a', 'b', 'f']);
+    expect(pattern.relationships).toEqual([
+      { types: ['CALLS'], direction: 'out', properties: [], variableLength: true, minHops: 1, maxHops: 3 },
+      { variable: 'r', types: ['DEFINES'], direction: 'in', properties: [], variableLength: false, minHops: 1, maxHops: 1 }
+    ]);
+  });
+
+  test('should name unaliased columns after the expression as written', () => {
+    const query = parseCypher('MATCH (f:Function) RETURN f.name, count( * ) AS total, toLower(f.filePath) ORDER BY total DESC LIMIT 5');
+    const returned = query.clauses[1];
+
+    if (returned.kind !== 'return') throw new Error('expected RETURN');
+    expect(returned.projection.items.map(item => item.alias)).toEqual(['f.name', 'total', 'toLower(f.filePath)']);
+    expect(returned.projection.orderBy[0].descending).toBe(true);
+    expect(returned.projection.limit).toEqual({ kind: 'literal', value: 5 });
+  });
+
+  test('should bind AND tighter than OR and comparisons tighter than NOT', () => {
+    const query = parseCypher("MATCH (n) WHERE NOT n.name STARTS WITH 'test' AND n.size > 1 OR n.name =~ '(?i)main' RETURN n");
+    const match = query.clauses[0];
+
+    if (match.kind !== 'match') throw new Error('expected MATCH');
+    expect(match.where).toMatchObject({
+      kind: 'binary',
+      operator: 'OR',
+      left: { kind: 'binary', operator: 'AND', left: { kind: 'unary', operator: 'NOT', operand: { operator: 'STARTS WITH' } } },
+      right: { operator: '=~' }
+    });
+  });
+
+  test('should parse $parameters wherever an expression may occur', () => {
+    const query = parseCypher('MATCH (f:File {filePath: $path}) WHERE f.name IN $`file names` RETURN f LIMIT $limit');
+    const [match, returned] = query.clauses;
+
+    if (match.kind !== 'match' || returned.kind !== 'return') throw new Error('expected MATCH ... RETURN');
+    expect(match.patterns[0].nodes[0].properties).toEqual([['filePath', { kind: 'parameter', name: 'path' }]]);
+    expect(match.where).toMatchObject({ operator: 'IN', right: { kind: 'parameter', name: 'file names' } });
+    expect(returned.projection.limit).toEqual({ kind: 'parameter', name: 'limit' });
+    expect(() => parseCypher('MATCH (n) WHERE n.name = $ RETURN n')).toThrow(/Expected a parameter name after \$/);
+  });
+
+  test('should report errors with their position', () => {
+    expect(() => parseCypher('MATCH (n) RETURN')).toThrow(CypherSyntaxError);
+    expect(() => parseCypher('MATCH (n)\nWHERE n.name = \nRETURN n')).toThrow(/Expected an expression but found RETURN \(line 3, column 1\)/);
+    expect(() => parseCypher('MATCH (n) DELETE n')).toThrow(/DELETE is not supported/);
+    expect(() => parseCypher('MATCH (n)')).toThrow(/must end with RETURN/);
+    expect(() => parseCypher("MATCH (n {name: 'x)")).toThrow(/Unterminated string/);
+  });
+});
@@ -0,0 +1,624 @@
+/**
+ * Tokenizer and parser for the openCypher subset GraphQueryEngine runs on the in-memory graph:
+ *
+ *   [OPTIONAL] MATCH p = (a:Label {prop: value})-[r:TYPE|OTHER*1..3 {prop: value}]->(b), (c)
+ *     [WHERE <expression>]
+ *   UNWIND <expression> AS x
+ *   WITH [DISTINCT] <expression> [AS alias], ... [ORDER BY ...] [SKIP n] [LIMIT n] [WHERE <expression>]
+ *   RETURN [DISTINCT] <expression> [AS alias], ... | * [ORDER BY <expression> [ASC|DESC], ...] [SKIP n] [LIMIT n]
+ *
+ * Expressions: literals, $parameters, lists, maps, property access, list indexing, function calls
+ * (aggregates count / collect / sum / avg / min / max, with DISTINCT and count(*)),
+ * arithmetic, comparisons, IS [NOT] NULL, IN, STARTS WITH / ENDS WITH / CONTAINS, =~
+ * regular expressions and AND / OR / XOR / NOT.
+ *
+ * Not supported: writing clauses (CREATE, MERGE, SET, DELETE), CALL, UNION, CASE,
+ * list comprehensions and pattern predicates inside expressions. Anything
+ * outside the subset is a CypherSyntaxError with the line and column it occurs at.
+ */
+
+export type CypherLiteral = string | number | boolean | null;
+
+export type BinaryOperator =
+  | 'OR' | 'XOR' | 'AND'
+  | '=' | '<>' | '<' | '<=' | '>' | '>='
+  | '=~' | 'STARTS WITH' | 'ENDS WITH' | 'CONTAINS' | 'IN'
+  | '+' | '-' | '*' | '/' | '%';
+
+export type Expression =
+  | { kind: 'literal'; value: CypherLiteral }
+  | { kind: 'parameter'; name: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'property'; object: Expression; key: string }
+  | { kind: 'index'; object: Expression; index: Expression }
+  | { kind: 'list'; items: Expression[] }
+  | { kind: 'map'; entries: Array<[string, Expression]> }
+  | { kind: 'function'; name: string; args: Expression[]; distinct: boolean; star: boolean }
+  | { kind: 'unary'; operator: 'NOT' | '-'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'isNull'; operand: Expression; negated: boolean };
+
+export interface NodePattern {
+  variable?: string;
+  labels: string[];
+  properties: Array<[string, Expression]>;
+}
+
+export interface RelationshipPattern {
+  variable?: string;
+  types: string[];
+  direction: 'out' | 'in' | 'both';
+  properties: Array<[string, Expression]>;
+  variableLength: boolean;
+  minHops: number;
+  maxHops: number | null;      // Unbounded `*` / `*2..`
+}
+
+export interface PathPattern {
+  variable?: string;           // p = (a)-->(b)
+  nodes: NodePattern[];        // One more than relationships
+  relationships: RelationshipPattern[];
+}
+
+export interface ProjectionItem {
+  expression: Expression;
+  alias: string;               // AS name, or the expression as written
+}
+
+export interface SortItem {
+  expression: Expression;
+  descending: boolean;
+}
+
+export interface Projection {
+  distinct: boolean;
+  star: boolean;               // RETURN * / WITH *
+  items: ProjectionItem[];
+  orderBy: SortItem[];
+  skip?: Expression;
+  limit?: Expression;
+}
+
+export type Clause =
+  | { kind: 'match'; optional: boolean; patterns: PathPattern[]; where?: Expression }
+  | { kind: 'unwind'; expression: Expression; variable: string }
+  | { kind: 'with'; projection: Projection; where?: Expression }
+  | { kind: 'return'; projection: Projection };
+
+export interface CypherQuery {
+  clauses: Clause[];
+}
+
+export const AGGREGATE_FUNCTIONS = new Set(['count', 'collect', 'sum', 'avg', 'min', 'max']);
+
+export class CypherSyntaxError extends Error {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'CypherSyntaxError';
+  }
+}
+
+export type TokenType = 'identifier' | 'string' | 'number' | 'parameter' | 'symbol' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  end: number;
+  quoted?: boolean;            // `backtick` identifiers are never keywords
+}
+
+// Longest first, so `<=` is not read as `<` `=`
+const SYMBOLS = ['<>', '<=', '>=', '=~', '->', '<-', '..', '!=', '(', ')', '[', ']', '{', '}', ':', ',', '.', '-', '+', '*', '/', '%', '=', '<', '>', '|', ';'];
+
+const CLAUSE_KEYWORDS = ['MATCH', 'OPTIONAL', 'WHERE', 'WITH', 'UNWIND', 'RETURN', 'ORDER', 'SKIP', 'LIMIT'];
+const UNSUPPORTED_CLAUSES = ['CREATE', 'MERGE', 'SET', 'DELETE', 'DETACH', 'REMOVE', 'CALL', 'UNION', 'FOREACH', 'LOAD'];
+
+/**
+ * Parse a query of the supported subset
+ * @throws CypherSyntaxError for anything outside it
+ */
+export function parseCypher(query: string): CypherQuery {
+  return new Parser(query).parseQuery();
+}
+
+/**
+ * Tokens of a query with their source positions, for rewriting it without a full parse.
+ * Covers any Cypher, not just the subset; only lexical errors throw.
+ * @throws CypherSyntaxError for unterminated strings, comments and quoted names
+ */
+export function tokenizeCypher(query: string): Token[] {
+  return tokenize(query, (message, position) => {
+    throw syntaxError(query, message, position);
+  });
+}
+
+function syntaxError(query: string, message: string, position: number): CypherSyntaxError {
+  const before = query.substring(0, position);
+  const line = before.split('\n').length;
+  const column = position - before.lastIndexOf('\n');
+  return new CypherSyntaxError(message, line, column);
+}
+
+function tokenize(query: string, fail: (message: string, position: number) => never): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (query.startsWith('//', i)) {
+      while (i < query.length && query[i] !== '\n') i++;
+    } else if (query.startsWith('/*', i)) {
+      const end = query.indexOf('*/', i + 2);
+      if (end === -1) fail('Unterminated comment', i);
+      i = end + 2;
+    } else if (char === '\'' || char === '"') {
+      const start = i;
+      let value = '';
+      for (i++; i < query.length && query[i] !== char; i++) {
+        if (query[i] === '\\' && i + 1 < query.length) {
+          const escaped = query[++i];
+          value += ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[escaped] ?? escaped;
+        } else {
+          value += query[i];
+        }
+      }
+      if (i >= query.length) fail('Unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', value, position: start, end: i });
+    } else if (char === '`') {
+      const end = query.indexOf('`', i + 1);
+      if (end === -1) fail('Unterminated quoted name', i);
+      tokens.push({ type: 'identifier', value: query.substring(i + 1, end), position: i, end: end + 1, quoted: true });
+      i = end + 1;
+    } else if (/\d/.test(char)) {
+      // `1..3` in variable-length patterns: a dot only continues a number before a digit
+      const match = query.substring(i).match(/^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0], position: i, end: i + match[0].length });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = query.substring(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ type: 'identifier', value: match[0], position: i, end: i + match[0].length });
+      i += match[0].length;
+    } else if (char === '$') {
+      const match = query.substring(i + 1).match(/^(?:[A-Za-z0-9_]+|`[^`]+`)/);
+      if (!match) fail('Expected a parameter name after $', i);
+      const name = match[0].startsWith('`') ? match[0].slice(1, -1) : match[0];
+      tokens.push({ type: 'parameter', value: name, position: i, end: i + 1 + match[0].length });
+      i += 1 + match[0].length;
+    } else {
+      const symbol = SYMBOLS.find(candidate => query.startsWith(candidate, i));
+      if (!symbol) fail(`Unexpected character '${char}'`, i);
+      tokens.push({ type: 'symbol', value: symbol === '!=' ? '<>' : symbol, position: i, end: i + symbol.length });
+      i += symbol.length;
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position: query.length, end: query.length });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private query: string) {
+    this.tokens = tokenize(query, (message, position) => this.fail(message, position));
+  }
+
+  public parseQuery(): CypherQuery {
+    const clauses: Clause[] = [];
+
+    while (!this.atEnd()) {
+      if (this.peekSymbol(';')) {
+        this.index++;
+        if (!this.atEnd()) this.fail('Only one statement is supported');
+        break;
+      }
+      clauses.push(this.parseClause());
+    }
+
+    if (clauses.length === 0) this.fail('Empty query');
+    const returnIndex = clauses.findIndex(clause => clause.kind === 'return');
+    if (returnIndex === -1) this.fail('Query must end with RETURN', this.query.length);
+    if (returnIndex !== clauses.length - 1) this.fail('RETURN must be the last clause');
+
+    return { clauses };
+  }
+
+  private parseClause(): Clause {
+    const token = this.peek();
+
+    if (this.acceptKeyword('OPTIONAL')) {
+      this.expectKeyword('MATCH');
+      return this.parseMatch(true);
+    }
+    if (this.acceptKeyword('MATCH')) return this.parseMatch(false);
+    if (this.acceptKeyword('UNWIND')) {
+      const expression = this.parseExpression();
+      this.expectKeyword('AS');
+      return { kind: 'unwind', expression, variable: this.expectIdentifier() };
+    }
+    if (this.acceptKeyword('WITH')) {
+      const projection = this.parseProjection();
+      const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+      return { kind: 'with', projection, ...(where ? { where } : {}) };
+    }
+    if (this.acceptKeyword('RETURN')) return { kind: 'return', projection: this.parseProjection() };
+
+    if (token.type === 'identifier' && !token.quoted && UNSUPPORTED_CLAUSES.includes(token.value.toUpperCase())) {
+      this.fail(`${token.value.toUpperCase()} is not supported: the in-memory graph is read-only`);
+    }
+    return this.fail(`Expected MATCH, OPTIONAL MATCH, UNWIND, WITH or RETURN but found ${this.describe(token)}`);
+  }
+
+  private parseMatch(optional: boolean): Clause {
+    const patterns = [this.parsePath()];
+    while (this.acceptSymbol(',')) patterns.push(this.parsePath());
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+    return { kind: 'match', optional, patterns, ...(where ? { where } : {}) };
+  }
+
+  private parsePath(): PathPattern {
+    let variable: string | undefined;
+    if (this.peek().type === 'identifier' && this.peekSymbol('=', 1)) {
+      variable = this.expectIdentifier();
+      this.expectSymbol('=');
+    }
+
+    const nodes = [this.parseNodePattern()];
+    const relationships: RelationshipPattern[] = [];
+    while (this.peekSymbol('-') || this.peekSymbol('<-')) {
+      relationships.push(this.parseRelationshipPattern());
+      nodes.push(this.parseNodePattern());
+    }
+
+    return { ...(variable ? { variable } : {}), nodes, relationships };
+  }
+
+  private parseNodePattern(): NodePattern {
+    this.expectSymbol('(');
+    const variable = this.peek().type === 'identifier' ? this.expectIdentifier() : undefined;
+    const labels: string[] = [];
+    while (this.acceptSymbol(':')) labels.push(this.expectIdentifier());
+    const properties = this.peekSymbol('{') ? this.parseMapEntries() : [];
+    this.expectSymbol(')');
+    return { ...(variable ? { variable } : {}), labels, properties };
+  }
+
+  private parseRelationshipPattern(): RelationshipPattern {
+    const pointsLeft = this.acceptSymbol('<-');
+    if (!pointsLeft) this.expectSymbol('-');
+
+    const relationship: RelationshipPattern = {
+      types: [], direction: 'both', properties: [], variableLength: false, minHops: 1, maxHops: 1
+    };
+
+    if (this.acceptSymbol('[')) {
+      if (this.peek().type === 'identifier') relationship.variable = this.expectIdentifier();
+      if (this.acceptSymbol(':')) {
+        relationship.types.push(this.expectIdentifier());
+        while (this.acceptSymbol('|')) {
+          this.acceptSymbol(':');
+          relationship.types.push(this.expectIdentifier());
+        }
+      }
+      if (this.acceptSymbol('*')) {
+        relationship.variableLength = true;
+        relationship.maxHops = null;
+        if (this.peek().type === 'number') {
+          relationship.minHops = this.expectInteger();
+          relationship.maxHops = relationship.minHops;
+        }
+        if (this.acceptSymbol('..')) {
+          relationship.maxHops = this.peek().type === 'number' ? this.expectInteger() : null;
+        }
+        if (relationship.maxHops !== null && relationship.maxHops < relationship.minHops) {
+          this.fail('Variable-length upper bound is below the lower bound');
+        }
+      }
+      if (this.peekSymbol('{')) relationship.properties = this.parseMapEntries();
+      this.expectSymbol(']');
+    }
+
+    const pointsRight = this.acceptSymbol('->');
+    if (!pointsRight) this.expectSymbol('-');
+
+    if (pointsLeft && !pointsRight) relationship.direction = 'in';
+    if (pointsRight && !pointsLeft) relationship.direction = 'out';
+    return relationship;
+  }
+
+  private parseProjection(): Projection {
+    const projection: Projection = { distinct: this.acceptKeyword('DISTINCT'), star: false, items: [], orderBy: [] };
+
+    if (this.acceptSymbol('*')) {
+      projection.star = true;
+      if (this.acceptSymbol(',')) projection.items = this.parseProjectionItems();
+    } else {
+      projection.items = this.parseProjectionItems();
+    }
+
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const expression = this.parseExpression();
+        const descending = this.acceptKeyword('DESC') || this.acceptKeyword('DESCENDING');
+        if (!descending && !this.acceptKeyword('ASC')) this.acceptKeyword('ASCENDING');
+        projection.orderBy.push({ expression, descending });
+      } while (this.acceptSymbol(','));
+    }
+    if (this.acceptKeyword('SKIP')) projection.skip = this.parseExpression();
+    if (this.acceptKeyword('LIMIT')) projection.limit = this.parseExpression();
+
+    return projection;
+  }
+
+  private parseProjectionItems(): ProjectionItem[] {
+    const items: ProjectionItem[] = [];
+    do {
+      const start = this.peek().position;
+      const expression = this.parseExpression();
+      const text = this.query.substring(start, this.previous().end);
+      const alias = this.acceptKeyword('AS') ? this.expectIdentifier() : this.aliasOf(expression, text);
+      if (items.some(item => item.alias === alias)) this.fail(`Duplicate column name '${alias}'`);
+      items.push({ expression, alias });
+    } while (this.acceptSymbol(','));
+    return items;
+  }
+
+  // Column name of an unaliased item: the variable, or the expression as written
+  private aliasOf(expression: Expression, text: string): string {
+    return expression.kind === 'variable' ? expression.name : text.replace(/\s+/g, ' ').trim();
+  }
+
+  // Expressions, loosest binding first
+
+  private parseExpression(): Expression {
+    return this.parseBinary(['OR'], () => this.parseBinary(['XOR'], () => this.parseBinary(['AND'], () => this.parseNot())));
+  }
+
+  private parseBinary(operators: BinaryOperator[], next: () => Expression): Expression {
+    let left = next();
+    for (;;) {
+      const operator = operators.find(op => this.peekKeyword(op));
+      if (!operator) return left;
+      this.index++;
+      left = { kind: 'binary', operator, left, right: next() };
+    }
+  }
+
+  private parseNot(): Expression {
+    if (this.acceptKeyword('NOT')) return { kind: 'unary', operator: 'NOT', operand: this.parseNot() };
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    let left = this.parseAdditive();
+
+    for (;;) {
+      const symbol = ['=', '<>', '<=', '>=', '<', '>', '=~'].find(op => this.peekSymbol(op)) as BinaryOperator | undefined;
+      if (symbol) {
+        this.index++;
+        left = { kind: 'binary', operator: symbol, left, right: this.parseAdditive() };
+      } else if (this.peekKeyword('STARTS') || this.peekKeyword('ENDS')) {
+        const operator = this.peekKeyword('STARTS') ? 'STARTS WITH' : 'ENDS WITH';
+        this.index++;
+        this.expectKeyword('WITH');
+        left = { kind: 'binary', operator, left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword('CONTAINS')) {
+        left = { kind: 'binary', operator: 'CONTAINS', left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword('IN')) {
+        left = { kind: 'binary', operator: 'IN', left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword('IS')) {
+        const negated = this.acceptKeyword('NOT');
+        this.expectKeyword('NULL');
+        left = { kind: 'isNull', operand: left, negated };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (this.peekSymbol('+') || this.peekSymbol('-')) {
+      const operator = this.next().value as BinaryOperator;
+      left = { kind: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    while (this.peekSymbol('*') || this.peekSymbol('/') || this.peekSymbol('%')) {
+      const operator = this.next().value as BinaryOperator;
+      left = { kind: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.acceptSymbol('-')) return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    if (this.acceptSymbol('+')) return this.parseUnary();
+    return this.parsePostfix(this.parseAtom());
+  }
+
+  private parsePostfix(expression: Expression): Expression {
+    for (;;) {
+      if (this.acceptSymbol('.')) {
+        expression = { kind: 'property', object: expression, key: this.expectIdentifier() };
+      } else if (this.acceptSymbol('[')) {
+        const index = this.parseExpression();
+        this.expectSymbol(']');
+        expression = { kind: 'index', object: expression, index };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseAtom(): Expression {
+    const token = this.peek();
+
+    if (token.type === 'string') {
+      this.index++;
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'number') {
+      this.index++;
+      return { kind: 'literal', value: Number(token.value) };
+    }
+    if (token.type === 'parameter') {
+      this.index++;
+      return { kind: 'parameter', name: token.value };
+    }
+    if (this.acceptSymbol('(')) {
+      const expression = this.parseExpression();
+      this.expectSymbol(')');
+      return expression;
+    }
+    if (this.acceptSymbol('[')) {
+      const items: Expression[] = [];
+      if (!this.peekSymbol(']')) {
+        do {
+          items.push(this.parseExpression());
+        } while (this.acceptSymbol(','));
+      }
+      this.expectSymbol(']');
+      return { kind: 'list', items };
+    }
+    if (this.peekSymbol('{')) return { kind: 'map', entries: this.parseMapEntries() };
+
+    if (token.type === 'identifier') {
+      if (!token.quoted) {
+        const word = token.value.toUpperCase();
+        if (word === 'TRUE' || word === 'FALSE') {
+          this.index++;
+          return { kind: 'literal', value: word === 'TRUE' };
+        }
+        if (word === 'NULL') {
+          this.index++;
+          return { kind: 'literal', value: null };
+        }
+        if (word === 'CASE' || word === 'EXISTS') this.fail(`${word} expressions are not supported`);
+        if (CLAUSE_KEYWORDS.includes(word) && !this.peekSymbol('(', 1)) {
+          this.fail(`Expected an expression but found ${word}`);
+        }
+      }
+      this.index++;
+      if (this.acceptSymbol('(')) return this.parseFunctionCall(token.value);
+      return { kind: 'variable', name: token.value };
+    }
+
+    return this.fail(`Expected an expression but found ${this.describe(token)}`);
+  }
+
+  private parseFunctionCall(name: string): Expression {
+    const call: Expression = { kind: 'function', name: name.toLowerCase(), args: [], distinct: false, star: false };
+
+    if (this.acceptSymbol('*')) {
+      if (call.name !== 'count') this.fail(`Only count accepts *`);
+      call.star = true;
+    } else if (!this.peekSymbol(')')) {
+      call.distinct = this.acceptKeyword('DISTINCT');
+      do {
+        call.args.push(this.parseExpression());
+      } while (this.acceptSymbol(','));
+    }
+    this.expectSymbol(')');
+
+    if (call.distinct && !AGGREGATE_FUNCTIONS.has(call.name)) this.fail(`DISTINCT is only allowed in aggregate functions`);
+    return call;
+  }
+
+  private parseMapEntries(): Array<[string, Expression]> {
+    this.expectSymbol('{');
+    const entries: Array<[string, Expression]> = [];
+    if (!this.peekSymbol('}')) {
+      do {
+        const key = this.peek().type === 'string' ? this.next().value : this.expectIdentifier();
+        this.expectSymbol(':');
+        entries.push([key, this.parseExpression()]);
+      } while (this.acceptSymbol(','));
+    }
+    this.expectSymbol('}');
+    return entries;
+  }
+
+  // Token helpers
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(this.index - 1, 0)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private atEnd(): boolean {
+    return this.peek().type === 'eof';
+  }
+
+  private peekSymbol(symbol: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'symbol' && token.value === symbol;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.peekSymbol(symbol)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) this.fail(`Expected '${symbol}' but found ${this.describe(this.peek())}`);
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && !token.quoted && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.peekKeyword(keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) this.fail(`Expected ${keyword} but found ${this.describe(this.peek())}`);
+  }
+
+  private expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type !== 'identifier') this.fail(`Expected a name but found ${this.describe(token)}`);
+    this.index++;
+    return token.value;
+  }
+
+  private expectInteger(): number {
+    const token = this.peek();
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) this.fail(`Expected an integer but found ${this.describe(token)}`);
+    this.index++;
+    return Number(token.value);
+  }
+
+  private describe(token: Token): string {
+    if (token.type === 'eof') return 'end of query';
+    if (token.type === 'string') return `string '${token.value}'`;
+    if (token.type === 'parameter') return `parameter $${token.value}`;
+    return `'${token.value}'`;
+  }
+
+  private fail(message: string, position = this.peek().position): never {
+    throw syntaxError(this.query, message, position);
+  }
+}
@@ -86,38 +86,25 @@ export class DualWriteKnowledgeGraph implements KnowledgeGraph {
     
     console.log(`🚀 Committing batch: ${nodeCount} nodes, ${relCount} relationships`);
 
-    // Write all buffered nodes to KuzuDB
-    if (this.enableKuzuDB && this.kuzuGraph && nodeCount > 0) {
-      try {
-        for (const node of this.batchBuffer.nodes) {
-          this.kuzuGraph.addNode(node);
-          this.dualWriteStats.nodesWrittenToKuzuDB++;
-        }
-      } catch (error) {
-        this.dualWriteStats.kuzuErrors++;
-        console.error('❌ KuzuDB batch node write failed:', error);
-      }
-    }
-
-    // Write all buffered relationships to KuzuDB
-    if (this.enableKuzuDB && this.kuzuGraph && relCount > 0) {
-      try {
-        for (const rel of this.batchBuffer.relationships) {
-          this.kuzuGraph.addRelationship(rel);
-          this.dualWriteStats.relationshipsWrittenToKuzuDB++;
-        }
-      } catch (error) {
-        this.dualWriteStats.kuzuErrors++;
-        console.error('❌ KuzuDB batch relationship write failed:', error);
-      }
-    }
-
-    // Commit KuzuDB transaction
+    // Write the buffered nodes and relationships to KuzuDB in one transaction, so a
+    // failure leaves none of the batch behind
     if (this.enableKuzuDB && this.kuzuGraph) {
+      const kuzuGraph = this.kuzuGraph;
       try {
-        await this.kuzuGraph.commitAll();
+        await kuzuGraph.runInTransaction(async () => {
+          for (const node of this.batchBuffer.nodes) {
+            kuzuGraph.addNode(node);
+          }
+          for (const rel of this.batchBuffer.relationships) {
+            kuzuGraph.addRelationship(rel);
+          }
+          await kuzuGraph.commitAll();
+        });
+        this.dualWriteStats.nodesWrittenToKuzuDB += nodeCount;
+        this.dualWriteStats.relationshipsWrittenToKuzuDB += relCount;
       } catch (error) {
-        console.error('❌ KuzuDB commit failed:', error);
+        this.dualWriteStats.kuzuErrors++;
+        console.error('❌ KuzuDB batch commit failed, batch rolled back:', error);
       }
     }
 
@@ -354,11 +341,11 @@ export class DualWriteKnowledgeGraph implements KnowledgeGraph {
       if (isPolymorphicNodesEnabled()) {
         // Polymorphic approach: Query by elementType
         console.log('📊 KuzuDB Verification - Node types (polymorphic):');
-        const nodeTypes = ['Function', 'Class', 'Method', 'File', 'Variable', 'Interface', 'Type', 'Import', 'Project', 'Folder'];
+        const nodeTypes = ['Function', 'Class', 'Method', 'File', 'Variable', 'Interface', 'Type', 'Import', 'Project', 'Folder', 'BasicBlock', 'Component', 'Package', 'Route', 'Test', 'UnresolvedCall', 'UnresolvedImport'];
         
         for (const nodeType of nodeTypes) {
           try {
-            const result = await (this.kuzuGraph as any).executeQuery(`MATCH (n:CodeElement {elementType: '${nodeType}'}) RETURN COUNT(n) as count`);
+            const result = await (this.kuzuGraph as any).executeQuery('MATCH (n:CodeElement {elementType: $elementType}) RETURN COUNT(n) as count', { elementType: nodeType });
             const count = result.rows?.[0]?.[0] || 0;
             if (count > 0) {
               console.log(`  ${nodeType}: ${count} nodes`);
@@ -370,7 +357,7 @@ export class DualWriteKnowledgeGraph implements KnowledgeGraph {
       } else {
         // Traditional approach: Query individual tables
         console.log('📊 KuzuDB Verification - Node types:');
-        const nodeTypes = ['Function', 'Class', 'Method', 'File', 'Variable', 'Interface', 'Type', 'Import', 'Project', 'Folder'];
+        const nodeTypes = ['Function', 'Class', 'Method', 'File', 'Variable', 'Interface', 'Type', 'Import', 'Project', 'Folder', 'BasicBlock', 'Component', 'Package', 'Route', 'Test', 'UnresolvedCall', 'UnresolvedImport'];
         
         for (const nodeType of nodeTypes) {
           try {
@@ -387,7 +374,7 @@ export class DualWriteKnowledgeGraph implements KnowledgeGraph {
 
       // Test query 4: Count relationships by type (KuzuDB-compatible)
       // Query each relationship table separately since KuzuDB doesn't have type() function
-      const relTypes = ['CONTAINS', 'CALLS', 'INHERITS', 'IMPLEMENTS', 'OVERRIDES', 'IMPORTS', 'DEFINES', 'BELONGS_TO', 'USES', 'ACCESSES', 'EXTENDS'];
+      const relTypes = ['CONTAINS', 'CALLS', 'INHERITS', 'IMPLEMENTS', 'OVERRIDES', 'IMPORTS', 'DEFINES', 'BELONGS_TO', 'USES', 'ACCESSES', 'EXTENDS', 'FLOWS_TO', 'DEPENDS_ON', 'RENDERS', 'DECORATES', 'HANDLES', 'TESTS'];
       
       if (isPolymorphicNodesEnabled()) {
         // Polymorphic approach: Query by relationshipType
@@ -395,7 +382,7 @@ export class DualWriteKnowledgeGraph implements KnowledgeGraph {
         
         for (const relType of relTypes) {
           try {
-            const result = await (this.kuzuGraph as any).executeQuery(`MATCH ()-[r:CodeRelationship {relationshipType: '${relType}'}]->() RETURN COUNT(r) as count`);
+            const result = await (this.kuzuGraph as any).executeQuery('MATCH ()-[r:CodeRelationship {relationshipType: $relationshipType}]->() RETURN COUNT(r) as count', { relationshipType: relType });
             const count = result.rows?.[0]?.[0] || 0;
             if (count > 0) {
               console.log(`  ${relType}: ${count} relationships`);
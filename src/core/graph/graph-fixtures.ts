@@ -0,0 +1,33 @@
+/**
+ * Graph Fixtures
+ *
+ * Small knowledge graphs for tests: nodes are named after their id, and relationships
+ * get ids of the form `source-TYPE-target`.
+ */
+
+import { SimpleKnowledgeGraph } from './graph.ts';
+import type { GraphNode, GraphRelationship, NodeLabel, RelationshipType } from './types.ts';
+
+export interface GraphFixture {
+  graph: SimpleKnowledgeGraph;
+  node(id: string, label: NodeLabel, properties?: GraphNode['properties']): GraphNode;
+  rel(source: string, type: RelationshipType, target: string, properties?: GraphRelationship['properties']): GraphRelationship;
+}
+
+export function createGraphFixture(graph = new SimpleKnowledgeGraph()): GraphFixture {
+  return {
+    graph,
+
+    node(id, label, properties = {}) {
+      const node: GraphNode = { id, label, properties: { name: id, ...properties } };
+      graph.addNode(node);
+      return node;
+    },
+
+    rel(source, type, target, properties = {}) {
+      const relationship: GraphRelationship = { id: `${source}-${type}-${target}`, type, source, target, properties };
+      graph.addRelationship(relationship);
+      return relationship;
+    }
+  };
+}
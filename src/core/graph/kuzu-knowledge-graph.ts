@@ -8,9 +8,12 @@
 
 import type { KnowledgeGraph, GraphNode, GraphRelationship, NodeLabel, RelationshipType } from './types.ts';
 import type { KuzuQueryEngine, KuzuQueryResult } from './kuzu-query-engine.ts';
+import type { KuzuTransaction } from '../kuzu/kuzu-transaction-manager.ts';
 import { generateId } from '../../lib/utils.ts';
 import { GitNexusCSVGenerator } from '../kuzu/csv-generator.ts';
 import { isKuzuCopyEnabled, isPolymorphicNodesEnabled } from '../../config/features.ts';
+import type { CypherParameters } from '../kuzu/cypher-parameters.ts';
+import { toParameterizedPropertyMap, toParameterValue } from '../kuzu/cypher-parameters.ts';
 
 export interface KuzuGraphOptions {
   enableCache?: boolean;
@@ -34,6 +37,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
   private cacheEnabled: boolean = true;
   private batchSize: number = 100;
   private autoCommit: boolean = true;
+  private transaction: KuzuTransaction | null = null;
 
   constructor(queryEngine: KuzuQueryEngine, options: KuzuGraphOptions = {}) {
     this.queryEngine = queryEngine;
@@ -55,6 +59,30 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
     }
   }
 
+  /**
+   * Run `task` with every write of this graph inside one KuzuDB transaction. When it
+   * throws, the writes are rolled back and the pending batches dropped with them.
+   */
+  async runInTransaction<T>(task: () => Promise<T>): Promise<T> {
+    if (this.transaction) {
+      throw new Error('A KuzuKnowledgeGraph transaction is already running');
+    }
+
+    try {
+      return await this.queryEngine.runInTransaction(async transaction => {
+        this.transaction = transaction;
+        return task();
+      });
+    } catch (error) {
+      this.pendingNodes = [];
+      this.pendingRelationships = [];
+      this.clearCache();
+      throw error;
+    } finally {
+      this.transaction = null;
+    }
+  }
+
   /**
    * Flush pending nodes to KuzuDB using batch operations
    */
@@ -94,11 +122,9 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       
       // Filter properties based on schema to prevent "Cannot find property" errors
       const filteredProperties = await this.filterPropertiesForSchema(node.properties, node.label);
-      const nodeData = { id: node.id, ...filteredProperties };
+      const properties = toParameterizedPropertyMap({ id: node.id, ...filteredProperties });
       
-      await this.queryEngine.executeQuery(
-        `MERGE (n:${tableName} ${this.formatPropertiesForQuery(nodeData)})`
-      );
+      await this.write(`MERGE (n:${tableName} ${properties.pattern})`, properties.params);
     } catch (error) {
       // Auto-recovery for missing node tables
       if (error instanceof Error && error.message.includes('Table') && error.message.includes('does not exist')) {
@@ -107,10 +133,8 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
         
         // Retry the insertion after creating the table
         const filteredProperties = await this.filterPropertiesForSchema(node.properties, node.label);
-        const nodeData = { id: node.id, ...filteredProperties };
-        await this.queryEngine.executeQuery(
-          `MERGE (n:${node.label} ${this.formatPropertiesForQuery(nodeData)})`
-        );
+        const properties = toParameterizedPropertyMap({ id: node.id, ...filteredProperties });
+        await this.write(`MERGE (n:${node.label} ${properties.pattern})`, properties.params);
         console.log(`✅ Successfully inserted node ${node.id} after table creation`);
       } else {
         throw error;
@@ -153,9 +177,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
    */
   public async commitSingleRelationship(rel: GraphRelationship): Promise<void> {
     try {
-      await this.queryEngine.executeQuery(
-        `MATCH (a {id: '${rel.source}'}), (b {id: '${rel.target}'}) MERGE (a)-[:${rel.type} ${this.formatPropertiesForQuery(rel.properties)}]->(b)`
-      );
+      await this.mergeRelationship(rel.type, rel);
     } catch (error) {
       console.error(`❌ Error executing relationship query for ${rel.type}:`, error);
       
@@ -168,9 +190,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
           
           // Retry the insertion after creating the table
           console.log(`🔄 Retrying relationship insertion for ${rel.type}...`);
-          await this.queryEngine.executeQuery(
-            `MATCH (a {id: '${rel.source}'}), (b {id: '${rel.target}'}) MERGE (a)-[:${rel.type} ${this.formatPropertiesForQuery(rel.properties)}]->(b)`
-          );
+          await this.mergeRelationship(rel.type, rel);
           console.log(`✅ Successfully inserted relationship ${rel.id} after table creation`);
           
         } catch (recoveryError) {
@@ -240,18 +260,17 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       console.log(`🔄 BATCH: Committing ${nodes.length} ${label} nodes in single query`);
       
       // Build individual MERGE statements for batch execution
-      const mergeStatements = await Promise.all(
+      const mergeProperties = await Promise.all(
         nodes.map(async (node) => {
           const filteredProps = await this.filterPropertiesForSchema(node.properties, node.label);
-          const nodeData = { id: node.id, ...filteredProps };
-          return `MERGE (n:${label} ${this.formatPropertiesForQuery(nodeData)})`;
+          return toParameterizedPropertyMap({ id: node.id, ...filteredProps });
         })
       );
       
-      // Execute all MERGE statements in a single query
-      const batchQuery = mergeStatements.join(';\n');
-      
-      await this.queryEngine.executeQuery(batchQuery);
+      // A prepared statement holds a single statement, so the MERGEs run one after another
+      for (const properties of mergeProperties) {
+        await this.write(`MERGE (n:${label} ${properties.pattern})`, properties.params);
+      }
       console.log(`✅ BATCH: Successfully committed ${nodes.length} ${label} nodes`);
       
     } catch (error) {
@@ -309,19 +328,10 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
     try {
       console.log(`🔄 BATCH: Committing ${relationships.length} ${type} relationships in single query`);
       
-      // Build individual MERGE statements for batch execution
-      const mergeStatements = relationships.map(rel => {
-        const props = Object.keys(rel.properties).length > 0 
-          ? this.formatPropertiesForQuery(rel.properties)
-          : '';
-        const propsStr = props ? ` ${props}` : '';
-        return `MATCH (a {id: '${rel.source}'}), (b {id: '${rel.target}'}) MERGE (a)-[:${type}${propsStr}]->(b)`;
-      });
-      
-      // Execute all MERGE statements in a single query
-      const batchQuery = mergeStatements.join(';\n');
-      
-      await this.queryEngine.executeQuery(batchQuery);
+      // A prepared statement holds a single statement, so the MERGEs run one after another
+      for (const rel of relationships) {
+        await this.mergeRelationship(type, rel);
+      }
       console.log(`✅ BATCH: Successfully committed ${relationships.length} ${type} relationships`);
       
     } catch (error) {
@@ -379,8 +389,8 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       this.nodeCache.set(node.id, node);
     }
 
-    // Auto-commit if batch size reached
-    if (this.autoCommit && this.pendingNodes.length >= this.batchSize) {
+    // Auto-commit if batch size reached; a transaction flushes through commitAll instead
+    if (this.autoCommit && !this.transaction && this.pendingNodes.length >= this.batchSize) {
       this.commitNodesAsync().catch(error => {
         console.error('Failed to auto-commit nodes:', error);
       });
@@ -399,8 +409,8 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       this.relationshipCache.set(relationship.id, relationship);
     }
 
-    // Auto-commit if batch size reached
-    if (this.autoCommit && this.pendingRelationships.length >= this.batchSize) {
+    // Auto-commit if batch size reached; a transaction flushes through commitAll instead
+    if (this.autoCommit && !this.transaction && this.pendingRelationships.length >= this.batchSize) {
       this.commitRelationshipsAsync().catch(error => {
         console.error('Failed to auto-commit relationships:', error);
       });
@@ -422,9 +432,13 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
         cypher = `MATCH (n:${filter.label}) RETURN n`;
       }
 
+      const params: CypherParameters = {};
       if (filter?.properties) {
         const conditions = Object.entries(filter.properties)
-          .map(([key, value]) => `n.${key} = ${this.formatValue(value)}`)
+          .map(([key, value]) => {
+            params[key] = toParameterValue(value);
+            return `n.${key} = $${key}`;
+          })
           .join(' AND ');
         cypher += ` WHERE ${conditions}`;
       }
@@ -433,7 +447,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
         cypher += ` LIMIT ${filter.limit}`;
       }
 
-      const result = await this.queryEngine.executeQuery(cypher);
+      const result = await this.queryEngine.executeQuery(cypher, { params });
       return this.parseNodesFromResult(result);
     } catch (error) {
       console.error('Failed to get nodes:', error);
@@ -459,10 +473,12 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       }
 
       const conditions: string[] = [];
+      const params: CypherParameters = {};
       
       if (filter?.properties) {
         Object.entries(filter.properties).forEach(([key, value]) => {
-          conditions.push(`r.${key} = ${this.formatValue(value)}`);
+          params[key] = toParameterValue(value);
+          conditions.push(`r.${key} = $${key}`);
         });
       }
 
@@ -474,7 +490,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
         cypher += ` LIMIT ${filter.limit}`;
       }
 
-      const result = await this.queryEngine.executeQuery(cypher);
+      const result = await this.queryEngine.executeQuery(cypher, { params });
       return this.parseRelationshipsFromResult(result);
     } catch (error) {
       console.error('Failed to get relationships:', error);
@@ -494,8 +510,8 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
    */
   async findNodeById(id: string): Promise<GraphNode | null> {
     try {
-      const cypher = `MATCH (n) WHERE n.id = ${this.formatValue(id)} RETURN n LIMIT 1`;
-      const result = await this.queryEngine.executeQuery(cypher);
+      const cypher = 'MATCH (n) WHERE n.id = $id RETURN n LIMIT 1';
+      const result = await this.queryEngine.executeQuery(cypher, { params: { id } });
       const nodes = this.parseNodesFromResult(result);
       return nodes.length > 0 ? nodes[0] : null;
     } catch (error) {
@@ -524,19 +540,19 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       // Get outgoing connections
       const outgoingCypher = `
         MATCH (source)-[r${typeFilter}]->(target) 
-        WHERE source.id = ${this.formatValue(nodeId)} 
+        WHERE source.id = $nodeId 
         RETURN target
       `;
-      const outgoingResult = await this.queryEngine.executeQuery(outgoingCypher);
+      const outgoingResult = await this.queryEngine.executeQuery(outgoingCypher, { params: { nodeId } });
       const outgoing = this.parseNodesFromResult(outgoingResult);
 
       // Get incoming connections
       const incomingCypher = `
         MATCH (source)-[r${typeFilter}]->(target) 
-        WHERE target.id = ${this.formatValue(nodeId)} 
+        WHERE target.id = $nodeId 
         RETURN source
       `;
-      const incomingResult = await this.queryEngine.executeQuery(incomingCypher);
+      const incomingResult = await this.queryEngine.executeQuery(incomingCypher, { params: { nodeId } });
       const incoming = this.parseNodesFromResult(incomingResult);
 
       return { outgoing, incoming };
@@ -547,10 +563,10 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
   }
 
   /**
-   * Execute a custom Cypher query
+   * Execute a custom Cypher query, binding its `$name` placeholders to `params`
    */
-  async executeQuery(cypher: string): Promise<KuzuQueryResult> {
-    return this.queryEngine.executeQuery(cypher);
+  async executeQuery(cypher: string, params?: CypherParameters): Promise<KuzuQueryResult> {
+    return this.queryEngine.executeQuery(cypher, { params });
   }
 
   /**
@@ -573,7 +589,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
 
       // Get nodes by label (KuzuDB-compatible)
       const nodesByLabel: Record<string, number> = {};
-      const nodeTypes = ['Function', 'Class', 'Method', 'File', 'Variable', 'Interface', 'Type', 'Import', 'Project', 'Folder'];
+      const nodeTypes = ['Function', 'Class', 'Method', 'File', 'Variable', 'Interface', 'Type', 'Import', 'Project', 'Folder', 'BasicBlock', 'Component', 'Package', 'Route', 'Test', 'UnresolvedCall', 'UnresolvedImport'];
       
       for (const nodeType of nodeTypes) {
         try {
@@ -589,7 +605,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
 
       // Get relationships by type (KuzuDB-compatible)
       const relationshipsByType: Record<string, number> = {};
-      const relTypes = ['CONTAINS', 'CALLS', 'INHERITS', 'IMPLEMENTS', 'OVERRIDES', 'IMPORTS', 'DEFINES', 'BELONGS_TO', 'USES', 'ACCESSES', 'EXTENDS'];
+      const relTypes = ['CONTAINS', 'CALLS', 'INHERITS', 'IMPLEMENTS', 'OVERRIDES', 'IMPORTS', 'DEFINES', 'BELONGS_TO', 'USES', 'ACCESSES', 'EXTENDS', 'FLOWS_TO', 'DEPENDS_ON', 'RENDERS', 'DECORATES', 'HANDLES', 'TESTS'];
       
       for (const relType of relTypes) {
         try {
@@ -784,31 +800,21 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
   }
 
   /**
-   * Private: Format a value for use in Cypher queries
+   * Private: MERGE a relationship between two nodes, with its properties as parameters
    */
-  private formatValue(value: any): string {
-    if (typeof value === 'string') {
-      return `'${value.replace(/'/g, "\\'")}'`;
-    } else if (typeof value === 'number' || typeof value === 'boolean') {
-      return String(value);
-    } else if (Array.isArray(value)) {
-      return '[' + value.map(v => this.formatValue(v)).join(', ') + ']';
-    } else if (value === null || value === undefined) {
-      return 'null';
-    } else {
-      return `'${String(value).replace(/'/g, "\\'")}'`;
-    }
-    }
+  private async mergeRelationship(type: string, rel: GraphRelationship): Promise<void> {
+    const properties = toParameterizedPropertyMap(rel.properties, 'r_');
+    await this.write(
+      `MATCH (a {id: $source}), (b {id: $target}) MERGE (a)-[:${type} ${properties.pattern}]->(b)`,
+      { source: rel.source, target: rel.target, ...properties.params }
+    );
+  }
 
   /**
-   * Format properties object for Cypher queries
+   * Private: Run a write statement, inside the open transaction if there is one
    */
-  private formatPropertiesForQuery(properties: Record<string, any>): string {
-    const props = Object.entries(properties)
-      .filter(([_, value]) => value !== null && value !== undefined) // Filter out null/undefined
-      .map(([key, value]) => `${key}: ${this.formatValue(value)}`)
-      .join(', ');
-    return `{${props}}`;
+  private async write(cypher: string, params?: CypherParameters): Promise<KuzuQueryResult> {
+    return this.queryEngine.executeQuery(cypher, this.transaction ? { params, transaction: this.transaction } : { params });
   }
 
   /**
@@ -915,7 +921,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       
       // Execute COPY statement
       const copyQuery = `COPY ${label} FROM '${csvPath}'`;
-      const result = await this.queryEngine.executeQuery(copyQuery);
+      const result = await this.write(copyQuery);
       // Note: COPY result doesn't need to be closed
       
       const endTime = performance.now();
@@ -925,7 +931,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       
       // Verify data was written by querying the count
       try {
-        const verifyResult = await this.queryEngine.executeQuery(`MATCH (n:${label}) RETURN COUNT(n) as count`);
+        const verifyResult = await this.write(`MATCH (n:${label}) RETURN COUNT(n) as count`);
         const totalCount = verifyResult.rows?.[0]?.[0] || 0;
         console.log(`📊 COPY-BULK: KuzuDB now contains ${totalCount} total ${label} nodes`);
       } catch (verifyError) {
@@ -966,7 +972,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       
       // Execute COPY statement
       const copyQuery = `COPY ${type} FROM '${csvPath}'`;
-      const result = await this.queryEngine.executeQuery(copyQuery);
+      const result = await this.write(copyQuery);
       // Note: COPY result doesn't need to be closed
       
       const endTime = performance.now();
@@ -976,7 +982,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       
       // Verify data was written by querying the count
       try {
-        const verifyResult = await this.queryEngine.executeQuery(`MATCH ()-[r:${type}]->() RETURN COUNT(r) as count`);
+        const verifyResult = await this.write(`MATCH ()-[r:${type}]->() RETURN COUNT(r) as count`);
         const totalCount = verifyResult.rows?.[0]?.[0] || 0;
         console.log(`📊 COPY-BULK: KuzuDB now contains ${totalCount} total ${type} relationships`);
       } catch (verifyError) {
@@ -1086,7 +1092,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       const copyQuery = `COPY CodeElement FROM '${csvPath}'`;
       console.log(`🔍 POLYMORPHIC-COPY: Executing: ${copyQuery}`);
       
-      await this.queryEngine.executeQuery(copyQuery);
+      await this.write(copyQuery);
       
       const endTime = performance.now();
       const csvBytes = new TextEncoder().encode(csv).length;
@@ -1094,7 +1100,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       console.log(`✅ POLYMORPHIC-COPY: Successfully loaded ${nodes.length} nodes in ${(endTime - startTime).toFixed(2)}ms (${csvBytes} bytes CSV)`);
       
       // Verify the data was written correctly (reuses existing verification)
-      const countResult = await this.queryEngine.executeQuery(`MATCH (n:CodeElement) RETURN COUNT(n) as count`);
+      const countResult = await this.write(`MATCH (n:CodeElement) RETURN COUNT(n) as count`);
       if (countResult.records && countResult.records.length > 0) {
         const totalCount = countResult.records[0]?.count || 0;
         console.log(`📊 POLYMORPHIC-COPY: KuzuDB now contains ${totalCount} total CodeElement nodes`);
@@ -1196,7 +1202,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       const copyQuery = `COPY CodeRelationship FROM '${csvPath}'`;
       console.log(`🔍 POLYMORPHIC-REL-COPY: Executing: ${copyQuery}`);
       
-      await this.queryEngine.executeQuery(copyQuery);
+      await this.write(copyQuery);
       
       const endTime = performance.now();
       const csvBytes = new TextEncoder().encode(csv).length;
@@ -1204,7 +1210,7 @@ export class KuzuKnowledgeGraph implements KnowledgeGraph {
       console.log(`✅ POLYMORPHIC-REL-COPY: Successfully loaded ${relationships.length} relationships in ${(endTime - startTime).toFixed(2)}ms (${csvBytes} bytes CSV)`);
       
       // Verify the data was written correctly (reuses existing verification)
-      const countResult = await this.queryEngine.executeQuery(`MATCH ()-[r:CodeRelationship]->() RETURN COUNT(r) as count`);
+      const countResult = await this.write(`MATCH ()-[r:CodeRelationship]->() RETURN COUNT(r) as count`);
       if (countResult.rows && countResult.rows.length > 0) {
         const totalCount = countResult.rows[0]?.[0] || 0;
         console.log(`📊 POLYMORPHIC-REL-COPY: KuzuDB now contains ${totalCount} total CodeRelationship relationships`);
@@ -8,7 +8,9 @@
 
 import type { KnowledgeGraph, GraphNode, GraphRelationship } from './types.ts';
 import type { KuzuInstance, QueryResult } from '../kuzu/kuzu-loader.ts';
+import type { KuzuTransaction } from '../kuzu/kuzu-transaction-manager.ts';
 import { initKuzuDB } from '../kuzu/kuzu-loader.ts';
+import { KuzuQueryOptimizer } from '../kuzu/kuzu-query-optimizer.ts';
 import { isKuzuDBEnabled, isKuzuDBPersistenceEnabled } from '../../config/features.ts';
 
 export interface QueryOptions {
@@ -16,6 +18,9 @@ export interface QueryOptions {
   maxResults?: number;
   includeExecutionTime?: boolean;
   useCache?: boolean;
+  params?: Record<string, unknown>;  // Values of the query's $parameters, bound through a prepared statement
+  optimize?: boolean;                // Rewrite the query with KuzuQueryOptimizer first (default true)
+  transaction?: KuzuTransaction;     // Run inside this transaction instead of on a pooled connection, uncached
 }
 
 export interface KuzuQueryResult extends QueryResult {
@@ -54,6 +59,7 @@ export class KuzuQueryEngine {
   private cacheTTL: number = 5 * 60 * 1000; // 5 minutes default
   private queryCount: number = 0;
   private totalExecutionTime: number = 0;
+  private optimizer = new KuzuQueryOptimizer();
 
   constructor(options: KuzuQueryEngineOptions = {}) {
     this.databasePath = options.databasePath || '/gitnexus_db';
@@ -147,20 +153,37 @@ export class KuzuQueryEngine {
       timeout = 30000,
       maxResults = 1000,
       includeExecutionTime = true,
-      useCache = this.cacheEnabled
+      useCache = this.cacheEnabled,
+      params,
+      optimize = true,
+      transaction
     } = options;
 
+    if (optimize) {
+      const optimized = this.optimizer.optimize(cypher);
+      if (optimized.rewrites.length > 0) {
+        console.log(`🛠️ Query optimized: ${optimized.rewrites.join('; ')}`);
+        cypher = optimized.cypher;
+      }
+    }
+
+    // Writes of an open transaction are invisible to everyone else until it commits
+    const cacheable = useCache && !transaction;
+
+    // The same statement with different parameter values is a different cache entry
+    const cacheKey = params && Object.keys(params).length > 0 ? `${cypher}\n${JSON.stringify(params)}` : cypher;
+
     try {
       // Check cache first
-      if (useCache) {
-        const cachedResult = this.getCachedResult(cypher);
+      if (cacheable) {
+        const cachedResult = this.getCachedResult(cacheKey);
         if (cachedResult) {
           return cachedResult;
         }
       }
 
       // Execute query with timeout
-      const queryPromise = this.executeQueryInternal(cypher, maxResults);
+      const queryPromise = this.executeQueryInternal(cypher, maxResults, params, transaction);
       const timeoutPromise = new Promise<never>((_, reject) => {
         setTimeout(() => reject(new Error('Query timeout')), timeout);
       });
@@ -168,8 +191,8 @@ export class KuzuQueryEngine {
       const result = await Promise.race([queryPromise, timeoutPromise]);
       
       // Cache successful results
-      if (useCache && !result.error) {
-        this.cacheResult(cypher, result);
+      if (cacheable && !result.error) {
+        this.cacheResult(cacheKey, result);
       }
 
       // Update statistics
@@ -186,6 +209,21 @@ export class KuzuQueryEngine {
     }
   }
 
+  /**
+   * Run `task` in a KuzuDB transaction; pass it to executeQuery as `transaction`.
+   * Commits when the task resolves and rolls back when it throws.
+   */
+  async runInTransaction<T>(task: (transaction: KuzuTransaction) => Promise<T>): Promise<T> {
+    if (!this.isReady() || !this.kuzuInstance) {
+      throw new Error('KuzuQueryEngine not initialized. Call initialize() first.');
+    }
+
+    const result = await this.kuzuInstance.runInTransaction(task);
+    // Cached reads predate the committed writes
+    this.clearCache();
+    return result;
+  }
+
   /**
    * Execute a query and return graph nodes and relationships
    */
@@ -560,7 +598,12 @@ export class KuzuQueryEngine {
   /**
    * Execute query internally with performance monitoring
    */
-  private async executeQueryInternal(cypher: string, maxResults: number): Promise<KuzuQueryResult> {
+  private async executeQueryInternal(
+    cypher: string,
+    maxResults: number,
+    params?: Record<string, unknown>,
+    transaction?: KuzuTransaction
+  ): Promise<KuzuQueryResult> {
     if (!this.kuzuInstance) {
       throw new Error('KuzuDB instance not available');
     }
@@ -568,7 +611,9 @@ export class KuzuQueryEngine {
     const startTime = performance.now();
     
     try {
-      const result = await this.kuzuInstance.executeQuery(cypher);
+      const result = transaction
+        ? await transaction.executeQuery(cypher, params)
+        : await this.kuzuInstance.executeQuery(cypher, params);
       const executionTime = performance.now() - startTime;
 
       // Ensure rows is a proper array and limit results if specified
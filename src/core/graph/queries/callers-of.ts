@@ -0,0 +1,21 @@
+import type { SavedQuery } from '../query-library.ts';
+
+export const callersOf: SavedQuery = {
+  name: 'callers_of',
+  description: 'Functions and methods that call the named function or method, directly or through up to `depth` calls',
+  cypher: `MATCH p = (target {name: $name})<-[:CALLS*1..5]-(caller)
+WHERE length(p) <= $depth
+WITH caller, min(length(p)) AS distance
+RETURN caller.name AS name, caller.filePath AS filePath, distance
+ORDER BY distance, filePath, name`,
+  parameters: [
+    { name: 'name', type: 'string', description: 'Name of the called function or method' },
+    { name: 'depth', type: 'integer', description: 'Calls between caller and target', default: 1, min: 1, max: 5 }
+  ],
+  columns: [
+    { name: 'name', type: 'string', description: 'Calling function or method' },
+    { name: 'filePath', type: 'string', description: 'File it is defined in' },
+    { name: 'distance', type: 'integer', description: 'Calls on the shortest path to the target; 1 is a direct call' }
+  ],
+  builtIn: true
+};
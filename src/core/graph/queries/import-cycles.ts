@@ -0,0 +1,16 @@
+import type { SavedQuery } from '../query-library.ts';
+
+export const importCycles: SavedQuery = {
+  name: 'import_cycles',
+  description: 'Files that import themselves through a chain of up to 6 imports, with the length of the shortest such cycle',
+  cypher: `MATCH p = (f:File)-[:IMPORTS*1..6]->(f)
+WITH f, min(length(p)) AS cycleLength
+RETURN f.filePath AS filePath, cycleLength
+ORDER BY cycleLength, filePath`,
+  parameters: [],
+  columns: [
+    { name: 'filePath', type: 'string', description: 'File on an import cycle' },
+    { name: 'cycleLength', type: 'integer', description: 'Imports in the shortest cycle through the file' }
+  ],
+  builtIn: true
+};
@@ -0,0 +1,9 @@
+import type { SavedQuery } from '../query-library.ts';
+import { callersOf } from './callers-of.ts';
+import { importCycles } from './import-cycles.ts';
+import { unusedFunctions } from './unused-functions.ts';
+
+/**
+ * Queries shipped with GitNexus, one file each
+ */
+export const BUILT_IN_QUERIES: SavedQuery[] = [callersOf, unusedFunctions, importCycles];
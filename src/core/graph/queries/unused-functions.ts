@@ -0,0 +1,19 @@
+import type { SavedQuery } from '../query-library.ts';
+
+export const unusedFunctions: SavedQuery = {
+  name: 'unused_functions',
+  description: 'Functions no resolved call reaches. Entry points, callbacks and exports used by other packages show up too',
+  cypher: `MATCH (f:Function)
+OPTIONAL MATCH (caller)-[:CALLS]->(f)
+WITH f, count(caller) AS callers
+WHERE callers = 0
+RETURN f.name AS name, f.filePath AS filePath, f.startLine AS startLine
+ORDER BY filePath, startLine`,
+  parameters: [],
+  columns: [
+    { name: 'name', type: 'string', description: 'Function name' },
+    { name: 'filePath', type: 'string', description: 'File it is defined in' },
+    { name: 'startLine', type: 'integer', description: 'Line of the definition' }
+  ],
+  builtIn: true
+};
@@ -0,0 +1,88 @@
+import { GraphQueryEngine } from './query-engine.js';
+import { createGraphFixture } from './graph-fixtures.js';
+
+const { graph, node, rel } = createGraphFixture();
+node('app.py', 'File', { filePath: 'app.py' });
+node('util.py', 'File', { filePath: 'util.py' });
+node('main', 'Function', { filePath: 'app.py', startLine: 1 });
+node('load', 'Function', { filePath: 'app.py', startLine: 10 });
+node('parse', 'Function', { filePath: 'util.py', startLine: 1, deprecated: true });
+node('test_main', 'Function', { filePath: 'app.py', startLine: 20 });
+
+rel('app.py', 'DEFINES', 'main');
+rel('app.py', 'DEFINES', 'load');
+rel('app.py', 'DEFINES', 'test_main');
+rel('util.py', 'DEFINES', 'parse');
+rel('main', 'CALLS', 'load');
+rel('load', 'CALLS', 'parse');
+rel('test_main', 'CALLS', 'main');
+
+const engine = new GraphQueryEngine(graph);
+
+describe('GraphQueryEngine', () => {
+  test('should match multi-hop and variable-length patterns', () => {
+    const twoHops = engine.executeQuery("MATCH (a:Function)-[:CALLS]->(b)-[:CALLS]->(c {name: 'parse'}) RETURN a.name, b.name");
+    expect(twoHops.data).toEqual([{ 'a.name': 'main', 'b.name': 'load' }]);
+
+    const reachable = engine.executeQuery("MATCH p = (t {name: 'test_main'})-[:CALLS*1..]->(f) RETURN f.name AS name, length(p) AS hops ORDER BY hops");
+    expect(reachable.data).toEqual([{ name: 'main', hops: 1 }, { name: 'load', hops: 2 }, { name: 'parse', hops: 3 }]);
+    expect(reachable.nodes).toEqual([]);
+  });
+
+  test('should understand the polymorphic Kuzu labels', () => {
+    const result = engine.executeQuery(
+      "MATCH (caller:CodeElement)-[:CodeRelationship {relationshipType: 'CALLS'}]->(f:CodeElement {elementType: 'Function', deprecated: true}) RETURN f.name, collect(caller.name) AS callers"
+    );
+    expect(result.data).toEqual([{ 'f.name': 'parse', callers: ['load'] }]);
+  });
+
+  test('should keep rows without a match in OPTIONAL MATCH', () => {
+    const result = engine.executeQuery(
+      "MATCH (f:Function) WHERE f.filePath ENDS WITH 'app.py' OPTIONAL MATCH (caller)-[:CALLS]->(f) RETURN f.name, caller.name ORDER BY f.name"
+    );
+    expect(result.data).toEqual([
+      { 'f.name': 'load', 'caller.name': 'main' },
+      { 'f.name': 'main', 'caller.name': 'test_main' },
+      { 'f.name': 'test_main', 'caller.name': null }
+    ]);
+  });
+
+  test('should aggregate, filter with WITH and page results', () => {
+    const perFile = engine.executeQuery(
+      'MATCH (file:File)-[:DEFINES]->(f:Function) WITH file, count(f) AS functions WHERE functions > 1 RETURN file.name, functions'
+    );
+    expect(perFile.data).toEqual([{ 'file.name': 'app.py', functions: 3 }]);
+
+    const paged = engine.executeQuery("MATCH (f:Function) WHERE f.name =~ '(?i)[A-Z]+' AND NOT f.name CONTAINS '_' RETURN DISTINCT f.filePath ORDER BY f.filePath DESC SKIP 1 LIMIT 1");
+    expect(paged.data).toEqual([{ 'f.filePath': 'app.py' }]);
+
+    expect(engine.executeQuery('MATCH (n:Class) RETURN count(*) AS classes').data).toEqual([{ classes: 0 }]);
+  });
+
+  test('should return matched graph elements', () => {
+    const result = engine.executeQuery("MATCH (a {name: 'main'})-[r:CALLS]->(b) RETURN a, r, b");
+
+    expect(result.nodes.map(n => n.id)).toEqual(['main', 'load']);
+    expect(result.relationships.map(r => r.id)).toEqual(['main-CALLS-load']);
+  });
+
+  test('should bind $parameters to the values in params', () => {
+    node("it's.py", 'File', { filePath: "src/it's.py" });
+
+    const byPath = engine.executeQuery('MATCH (f:File {filePath: $path}) RETURN f.name', { params: { path: "src/it's.py" } });
+    expect(byPath.data).toEqual([{ 'f.name': "it's.py" }]);
+
+    const byList = engine.executeQuery('MATCH (f:Function) WHERE f.name IN $names RETURN f.name ORDER BY f.name LIMIT $limit', {
+      params: { names: ['parse', 'main', 'missing'], limit: 1 }
+    });
+    expect(byList.data).toEqual([{ 'f.name': 'main' }]);
+
+    expect(() => engine.executeQuery('MATCH (f:File {filePath: $path}) RETURN f')).toThrow(/Parameter \$path was not provided/);
+  });
+
+  test('should report errors instead of returning empty results', () => {
+    expect(() => engine.executeQuery('MATCH (n) RETURN m')).toThrow(/Variable 'm' is not defined/);
+    expect(() => engine.executeQuery('MATCH (n) WHERE count(n) > 1 RETURN n')).toThrow(/only allowed in WITH and RETURN/);
+    expect(() => engine.executeQuery('MATCH (n RETURN n')).toThrow(/Expected '\)'/);
+  });
+});
@@ -1,4 +1,17 @@
 import type { KnowledgeGraph, GraphNode, GraphRelationship } from './types.ts';
+import {
+  AGGREGATE_FUNCTIONS,
+  parseCypher,
+  type Clause,
+  type Expression,
+  type NodePattern,
+  type PathPattern,
+  type Projection,
+  type ProjectionItem,
+  type RelationshipPattern
+} from './cypher-parser.ts';
+
+export { CypherSyntaxError } from './cypher-parser.ts';
 
 export interface QueryResult {
   nodes: GraphNode[];
@@ -9,412 +22,506 @@ export interface QueryResult {
 export interface QueryOptions {
   limit?: number;
   offset?: number;
+  params?: Record<string, unknown>;   // Values of the query's $parameters
 }
 
+export interface CypherPath {
+  nodes: GraphNode[];
+  relationships: GraphRelationship[];
+}
+
+type Row = Record<string, unknown>;
+
+interface PartialMatch {
+  row: Row;
+  usedRelationships: Set<string>;   // A relationship occurs once per MATCH clause
+}
+
+// Polymorphic Kuzu labels: any node / relationship, discriminated by elementType / relationshipType
+const ANY_NODE_LABEL = 'CodeElement';
+const ANY_RELATIONSHIP_TYPE = 'CodeRelationship';
+
+// Upper bound of unbounded variable-length patterns (`*`, `*2..`)
+const MAX_VARIABLE_HOPS = 10;
+
+// Intermediate rows one query may produce before it is aborted
+const MAX_ROWS = 200000;
+
 export class GraphQueryEngine {
+  private nodesById = new Map<string, GraphNode>();
+  private outgoing = new Map<string, GraphRelationship[]>();
+  private incoming = new Map<string, GraphRelationship[]>();
+  private regexCache = new Map<string, RegExp>();
+  private params: Record<string, unknown> = {};
+
   constructor(private graph: KnowledgeGraph) {}
 
   /**
-   * Execute a simplified Cypher-like query against the knowledge graph
+   * Execute a query of the openCypher subset documented in cypher-parser.ts against the
+   * knowledge graph. Labels are node labels (`(f:Function)`) or the polymorphic Kuzu form
+   * (`(f:CodeElement {elementType: 'Function'})-[:CodeRelationship {relationshipType: 'CALLS'}]->()`).
+   * Values are passed as `$name` parameters in `options.params` rather than spliced into the text.
+   * @throws CypherSyntaxError when the query is outside the subset, Error when it fails to run
    */
   public executeQuery(cypher: string, options: QueryOptions = {}): QueryResult {
-    const { limit = 100, offset = 0 } = options;
-    
-    try {
-      const parsedQuery = this.parseCypher(cypher);
-      
-      switch (parsedQuery.type) {
-        case 'MATCH':
-          return this.executeMatchQuery(parsedQuery, limit, offset);
-        case 'MATCH_WHERE':
-          return this.executeWhereQuery(parsedQuery, limit, offset);
-        case 'MATCH_PATH':
-          return this.executePathQuery(parsedQuery, limit, offset);
-        case 'MATCH_AGGREGATION':
-          return this.executeAggregationQuery(parsedQuery, limit, offset);
-        case 'MATCH_RELATIONSHIP':
-          return this.executeRelationshipQuery(parsedQuery, limit, offset);
-        case 'COUNT_ALL':
-          return this.executeCountAllQuery(parsedQuery);
-        default:
-          throw new Error(`Unsupported query type: ${parsedQuery.type}`);
-      }
-    } catch (error) {
-      console.error('Query execution failed:', error);
-      return { nodes: [], relationships: [], data: [] };
+    const { limit = 100, offset = 0, params = {} } = options;
+    const query = parseCypher(cypher);
+    this.params = params;
+    this.buildIndexes();
+
+    let rows: Row[] = [{}];
+    for (const clause of query.clauses) {
+      rows = this.executeClause(clause, rows);
     }
+
+    const data = rows.slice(offset, offset + limit);
+    const nodes = new Map<string, GraphNode>();
+    const relationships = new Map<string, GraphRelationship>();
+    data.forEach(row => Object.values(row).forEach(value => collectGraphElements(value, nodes, relationships)));
+
+    return {
+      nodes: Array.from(nodes.values()),
+      relationships: Array.from(relationships.values()),
+      data
+    };
   }
 
-  private parseCypher(cypher: string) {
-    // Enhanced parsing with WHERE clause support
-    const simpleMatchWithWherePattern = /MATCH\s+\((\w+):(\w+)(?:\s*\{([^}]*)\})?\)\s+WHERE\s+(.+?)\s+RETURN\s+(.+)/i;
-    const whereMatch = cypher.match(simpleMatchWithWherePattern);
-    
-    if (whereMatch) {
-      const [, variable, label, properties, whereClause, returnClause] = whereMatch;
-      return {
-        type: 'MATCH_WHERE',
-        variable,
-        label,
-        properties: this.parseProperties(properties || ''),
-        whereClause: whereClause.trim(),
-        returnClause: returnClause.trim()
-      };
-    }
+  private buildIndexes(): void {
+    this.nodesById = new Map(this.graph.nodes.map(node => [node.id, node]));
+    this.outgoing = new Map();
+    this.incoming = new Map();
 
-    // Variable-length relationship pattern: MATCH (a)-[:REL*1..3]->(b)
-    const variableLengthPattern = /MATCH\s+\((\w+)(?::(\w+))?\)-\[:(\w+)\*(\d+)\.\.(\d+)\]->\((\w+)(?::(\w+))?\)\s+RETURN\s+(.+)/i;
-    const varLenMatch = cypher.match(variableLengthPattern);
-    
-    if (varLenMatch) {
-      const [, sourceVar, sourceLabel, relType, minDepth, maxDepth, targetVar, targetLabel, returnClause] = varLenMatch;
-      return {
-        type: 'MATCH_PATH',
-        sourceVar,
-        sourceLabel,
-        relationshipType: relType,
-        minDepth: parseInt(minDepth),
-        maxDepth: parseInt(maxDepth),
-        targetVar,
-        targetLabel,
-        returnClause: returnClause.trim()
-      };
+    for (const relationship of this.graph.relationships) {
+      if (!this.outgoing.has(relationship.source)) this.outgoing.set(relationship.source, []);
+      if (!this.incoming.has(relationship.target)) this.incoming.set(relationship.target, []);
+      this.outgoing.get(relationship.source)!.push(relationship);
+      this.incoming.get(relationship.target)!.push(relationship);
     }
+  }
 
-    // Count all nodes pattern: MATCH (n) RETURN COUNT(n)
-    const countAllPattern = /MATCH\s+\((\w+)\)\s+RETURN\s+COUNT\(\1\)(?:\s+as\s+(\w+))?(?:\s+LIMIT\s+\d+)?/i;
-    const countAllMatch = cypher.match(countAllPattern);
-    
-    if (countAllMatch) {
-      const [, variable, alias] = countAllMatch;
-      return {
-        type: 'COUNT_ALL',
-        variable,
-        alias: alias || 'count',
-        returnClause: `COUNT(${variable})`
-      };
-    }
+  private executeClause(clause: Clause, rows: Row[]): Row[] {
+    switch (clause.kind) {
+      case 'match':
+        return this.executeMatch(clause.patterns, clause.optional, clause.where, rows);
 
-    // Aggregation pattern: MATCH (n:Label) RETURN COUNT(n)
-    const aggregationPattern = /MATCH\s+\((\w+):(\w+)(?:\s*\{([^}]*)\})?\)\s+RETURN\s+(COUNT|COLLECT|AVG|SUM)\(([^)]+)\)/i;
-    const aggMatch = cypher.match(aggregationPattern);
-    
-    if (aggMatch) {
-      const [, variable, label, properties, aggFunction, aggTarget] = aggMatch;
-      return {
-        type: 'MATCH_AGGREGATION',
-        variable,
-        label,
-        properties: this.parseProperties(properties || ''),
-        aggregationFunction: aggFunction.toUpperCase(),
-        aggregationTarget: aggTarget.trim(),
-        returnClause: `${aggFunction}(${aggTarget})`
-      };
-    }
+      case 'unwind':
+        return rows.flatMap(row => {
+          const value = this.evaluate(clause.expression, row);
+          const items = value === null ? [] : Array.isArray(value) ? value : [value];
+          return items.map(item => ({ ...row, [clause.variable]: item }));
+        });
 
-    // Pattern: MATCH (n:Label {property: 'value'}) RETURN n.property
-    const simpleMatchPattern = /MATCH\s+\((\w+):(\w+)(?:\s*\{([^}]*)\})?\)\s+RETURN\s+(.+)/i;
-    const simpleMatch = cypher.match(simpleMatchPattern);
-    
-    if (simpleMatch) {
-      const [, variable, label, properties, returnClause] = simpleMatch;
-      return {
-        type: 'MATCH',
-        variable,
-        label,
-        properties: this.parseProperties(properties || ''),
-        returnClause: returnClause.trim()
-      };
-    }
+      case 'with': {
+        const projected = this.project(clause.projection, rows);
+        return clause.where ? projected.filter(row => this.evaluate(clause.where!, row) === true) : projected;
+      }
 
-    // Pattern: MATCH (a)-[:RELATIONSHIP]->(b:Label) RETURN a, b
-    const relationshipPattern = /MATCH\s+\((\w+)(?::(\w+))?\)-\[:(\w+)\]->\((\w+)(?::(\w+))?\)\s+RETURN\s+(.+)/i;
-    const relMatch = cypher.match(relationshipPattern);
-    
-    if (relMatch) {
-      const [, sourceVar, sourceLabel, relType, targetVar, targetLabel, returnClause] = relMatch;
-      return {
-        type: 'MATCH_RELATIONSHIP',
-        sourceVar,
-        sourceLabel,
-        relationshipType: relType,
-        targetVar,
-        targetLabel,
-        returnClause: returnClause.trim()
-      };
+      case 'return':
+        return this.project(clause.projection, rows);
     }
-
-    throw new Error(`Cannot parse Cypher query: ${cypher}`);
   }
 
-  private parseProperties(propString: string): Record<string, string> {
-    const props: Record<string, string> = {};
-    if (!propString.trim()) return props;
+  // MATCH
 
-    // Simple property parsing: name: 'value', type: 'Function'
-    const matches = propString.match(/(\w+):\s*['"]([^'"]*)['"]/g);
-    if (matches) {
-      matches.forEach(match => {
-        const [, key, value] = match.match(/(\w+):\s*['"]([^'"]*)['"]/!) || [];
-        if (key && value) {
-          props[key] = value;
-        }
-      });
-    }
-
-    return props;
-  }
+  private executeMatch(patterns: PathPattern[], optional: boolean, where: Expression | undefined, rows: Row[]): Row[] {
+    const result: Row[] = [];
+    const newVariables = patterns.flatMap(patternVariables);
 
-  private executeMatchQuery(query: any, limit: number, offset: number): QueryResult {
-    let matchingNodes = this.graph.nodes.filter(node => {
-      // Match by label
-      if (query.label && node.label !== query.label) {
-        return false;
+    for (const row of rows) {
+      let matches: PartialMatch[] = [{ row, usedRelationships: new Set() }];
+      for (const pattern of patterns) {
+        matches = matches.flatMap(match => this.matchPath(pattern, match));
       }
 
-      // Match by properties
-      for (const [key, value] of Object.entries(query.properties)) {
-        if (node.properties[key] !== value) {
-          return false;
-        }
+      const rowsOfMatch = matches
+        .map(match => match.row)
+        .filter(candidate => !where || this.evaluate(where, candidate) === true);
+
+      if (rowsOfMatch.length > 0) {
+        result.push(...rowsOfMatch);
+      } else if (optional) {
+        const unmatched = { ...row };
+        newVariables.forEach(variable => { if (!(variable in unmatched)) unmatched[variable] = null; });
+        result.push(unmatched);
       }
 
-      return true;
-    });
+      if (result.length > MAX_ROWS) {
+        throw new Error(`Query matches more than ${MAX_ROWS} rows; narrow the pattern with labels or properties`);
+      }
+    }
 
-    // Apply pagination
-    matchingNodes = matchingNodes.slice(offset, offset + limit);
+    return result;
+  }
 
-    // Process return clause
-    const data = matchingNodes.map(node => {
-      const result: Record<string, any> = {};
-      
-      if (query.returnClause.includes(`${query.variable}.`)) {
-        // Return specific properties: n.name, n.filePath
-        const propertyMatches = query.returnClause.match(new RegExp(`${query.variable}\\.(\\w+)`, 'g'));
-        if (propertyMatches) {
-          propertyMatches.forEach((match: string) => {
-            const prop = match.split('.')[1];
-            result[prop] = node.properties[prop];
-          });
+  private matchPath(pattern: PathPattern, match: PartialMatch): PartialMatch[] {
+    // Start from the more selective end of the pattern
+    const reversed = this.selectivity(pattern.nodes[pattern.nodes.length - 1], match.row) > this.selectivity(pattern.nodes[0], match.row);
+    const nodePatterns = reversed ? [...pattern.nodes].reverse() : pattern.nodes;
+    const relationshipPatterns = reversed
+      ? [...pattern.relationships].reverse().map(rel => ({ ...rel, direction: flipDirection(rel.direction) }))
+      : pattern.relationships;
+
+    const results: PartialMatch[] = [];
+
+    const extend = (
+      index: number,
+      current: GraphNode,
+      state: PartialMatch,
+      pathNodes: GraphNode[],
+      pathRelationships: GraphRelationship[]
+    ): void => {
+      if (index === relationshipPatterns.length) {
+        let row = state.row;
+        if (pattern.variable) {
+          const path: CypherPath = reversed
+            ? { nodes: [...pathNodes].reverse(), relationships: [...pathRelationships].reverse() }
+            : { nodes: pathNodes, relationships: pathRelationships };
+          row = { ...row, [pattern.variable]: path };
         }
-      } else if (query.returnClause === query.variable) {
-        // Return entire node
-        result.node = node;
+        results.push({ row, usedRelationships: state.usedRelationships });
+        return;
       }
 
-      return result;
-    });
+      const relationshipPattern = relationshipPatterns[index];
+      const nodePattern = nodePatterns[index + 1];
 
-    return {
-      nodes: matchingNodes,
-      relationships: [],
-      data
-    };
-  }
-
-  private executeWhereQuery(query: any, limit: number, offset: number): QueryResult {
-    let matchingNodes = this.graph.nodes.filter(node => {
-      if (query.label && node.label !== query.label) return false;
-      
-      for (const [key, value] of Object.entries(query.properties)) {
-        if (node.properties[key] !== value) return false;
-      }
-      
-      return this.evaluateWhereClause(node, query.whereClause, query.variable);
-    });
+      for (const hop of this.expand(current, relationshipPattern, state)) {
+        const bound = this.bindNode(nodePattern, hop.end, state.row);
+        if (!bound) continue;
 
-    matchingNodes = matchingNodes.slice(offset, offset + limit);
-    
-    const data = matchingNodes.map(node => {
-      const result: Record<string, any> = {};
-      if (query.returnClause.includes(`${query.variable}.`)) {
-        const propertyMatches = query.returnClause.match(new RegExp(`${query.variable}\\.(\\w+)`, 'g'));
-        if (propertyMatches) {
-          propertyMatches.forEach((match: string) => {
-            const prop = match.split('.')[1];
-            result[prop] = node.properties[prop];
-          });
+        let row = bound;
+        if (relationshipPattern.variable) {
+          const ordered = reversed ? [...hop.relationships].reverse() : hop.relationships;
+          const value = relationshipPattern.variableLength ? ordered : ordered[0];
+          const existing = row[relationshipPattern.variable];
+          if (existing !== undefined && !sameValue(existing, value)) continue;
+          row = { ...row, [relationshipPattern.variable]: value };
         }
-      } else if (query.returnClause === query.variable) {
-        result.node = node;
+
+        const usedRelationships = new Set(state.usedRelationships);
+        hop.relationships.forEach(rel => usedRelationships.add(rel.id));
+        extend(index + 1, hop.end, { row, usedRelationships }, [...pathNodes, ...hop.nodes], [...pathRelationships, ...hop.relationships]);
       }
-      return result;
-    });
+    };
 
-    return { nodes: matchingNodes, relationships: [], data };
+    for (const start of this.candidateNodes(nodePatterns[0], match.row)) {
+      const row = this.bindNode(nodePatterns[0], start, match.row);
+      if (row) extend(0, start, { row, usedRelationships: match.usedRelationships }, [start], []);
+    }
+
+    return results;
   }
 
-  private evaluateWhereClause(node: GraphNode, whereClause: string, variable: string): boolean {
-    // Simple WHERE clause evaluation
-    const containsPattern = new RegExp(`${variable}\\.(\\w+)\\s+CONTAINS\\s+['"]([^'"]*)['"]/i`);
-    const containsMatch = whereClause.match(containsPattern);
-    
-    if (containsMatch) {
-      const [, property, value] = containsMatch;
-      const nodeValue = node.properties[property];
-      return typeof nodeValue === 'string' && nodeValue.toLowerCase().includes(value.toLowerCase());
-    }
-    
-    const equalsPattern = new RegExp(`${variable}\\.(\\w+)\\s*=\\s*['"]([^'"]*)['"]/i`);
-    const equalsMatch = whereClause.match(equalsPattern);
-    
-    if (equalsMatch) {
-      const [, property, value] = equalsMatch;
-      return node.properties[property] === value;
-    }
-    
-    return true;
+  // Higher is more selective: bound variable, then properties, then a concrete label
+  private selectivity(pattern: NodePattern, row: Row): number {
+    if (pattern.variable && row[pattern.variable] != null) return 3;
+    if (pattern.properties.length > 0) return 2;
+    return pattern.labels.some(label => label !== ANY_NODE_LABEL) ? 1 : 0;
   }
 
-  private executePathQuery(query: any, limit: number, offset: number): QueryResult {
-    // Use existing pathsBetween function from query.ts
-    const sourceNodes = this.graph.nodes.filter(n => 
-      !query.sourceLabel || n.label === query.sourceLabel
-    );
-    const targetNodes = this.graph.nodes.filter(n => 
-      !query.targetLabel || n.label === query.targetLabel
-    );
+  private candidateNodes(pattern: NodePattern, row: Row): GraphNode[] {
+    const bound = pattern.variable ? row[pattern.variable] : undefined;
+    if (bound !== undefined) return isNode(bound) ? [bound] : [];
 
-    const allResults: { source: GraphNode; target: GraphNode; path: GraphRelationship[] }[] = [];
-    
-    for (const source of sourceNodes.slice(0, 50)) { // Limit source nodes to avoid explosion
-      for (const target of targetNodes.slice(0, 50)) {
-        if (source.id === target.id) continue;
-        
-        const paths = this.findPaths(source.id, target.id, query.relationshipType, query.minDepth, query.maxDepth);
-        paths.forEach(path => {
-          allResults.push({ source, target, path });
-        });
-      }
+    const idProperty = pattern.properties.find(([key]) => key === 'id');
+    if (idProperty) {
+      const node = this.nodesById.get(String(this.evaluate(idProperty[1], row)));
+      return node ? [node] : [];
     }
+    return this.graph.nodes;
+  }
 
-    const paginatedResults = allResults.slice(offset, offset + limit);
-    
-    const data = paginatedResults.map(({ source, target, path }) => {
-      const result: Record<string, any> = {};
-      if (query.returnClause.includes(query.sourceVar)) {
-        result[query.sourceVar] = source;
-      }
-      if (query.returnClause.includes(query.targetVar)) {
-        result[query.targetVar] = target;
-      }
-      result.pathLength = path.length;
-      return result;
-    });
-
-    return {
-      nodes: paginatedResults.flatMap(r => [r.source, r.target]),
-      relationships: paginatedResults.flatMap(r => r.path),
-      data
-    };
+  /**
+   * Row with the node bound to the pattern's variable, or null when it does not match
+   */
+  private bindNode(pattern: NodePattern, node: GraphNode, row: Row): Row | null {
+    if (!pattern.labels.every(label => label === node.label || label === ANY_NODE_LABEL)) return null;
+    if (!pattern.properties.every(([key, expression]) => valuesEqual(propertyOf(node, key), this.evaluate(expression, row)) === true)) return null;
+    if (!pattern.variable) return row;
+
+    const existing = row[pattern.variable];
+    if (existing !== undefined) return isNode(existing) && existing.id === node.id ? row : null;
+    return { ...row, [pattern.variable]: node };
   }
 
-  private findPaths(sourceId: string, targetId: string, relType: string, minDepth: number, maxDepth: number): GraphRelationship[][] {
-    const paths: GraphRelationship[][] = [];
-    const visited = new Set<string>();
-    
-    const dfs = (currentId: string, currentPath: GraphRelationship[], depth: number) => {
-      if (depth > maxDepth) return;
-      if (currentId === targetId && depth >= minDepth) {
-        paths.push([...currentPath]);
-        return;
-      }
-      
-      visited.add(currentId);
-      
-      const outgoingRels = this.graph.relationships.filter(r => 
-        r.source === currentId && r.type === relType && !visited.has(r.target)
-      );
-      
-      for (const rel of outgoingRels) {
-        dfs(rel.target, [...currentPath, rel], depth + 1);
+  /**
+   * Nodes reachable over one relationship pattern, with the relationships and the nodes
+   * after the start node they pass
+   */
+  private expand(
+    start: GraphNode,
+    pattern: RelationshipPattern,
+    state: PartialMatch
+  ): Array<{ end: GraphNode; relationships: GraphRelationship[]; nodes: GraphNode[] }> {
+    const hops: Array<{ end: GraphNode; relationships: GraphRelationship[]; nodes: GraphNode[] }> = [];
+    const maxHops = pattern.maxHops ?? MAX_VARIABLE_HOPS;
+
+    const walk = (current: GraphNode, relationships: GraphRelationship[], nodes: GraphNode[]) => {
+      if (relationships.length >= pattern.minHops) hops.push({ end: current, relationships, nodes });
+      if (relationships.length === maxHops) return;
+
+      for (const relationship of this.relationshipsOf(current, pattern.direction)) {
+        if (state.usedRelationships.has(relationship.id) || relationships.some(rel => rel.id === relationship.id)) continue;
+        if (!matchesRelationship(relationship, pattern, expression => this.evaluate(expression, state.row))) continue;
+
+        const next = this.nodesById.get(relationship.source === current.id ? relationship.target : relationship.source);
+        if (next) walk(next, [...relationships, relationship], [...nodes, next]);
       }
-      
-      visited.delete(currentId);
     };
-    
-    dfs(sourceId, [], 0);
-    return paths.slice(0, 10); // Limit paths to prevent explosion
+
+    walk(start, [], []);
+    return hops;
   }
 
-  private executeAggregationQuery(query: any, _limit: number, _offset: number): QueryResult {
-    let matchingNodes = this.graph.nodes.filter(node => {
-      if (query.label && node.label !== query.label) return false;
-      
-      for (const [key, value] of Object.entries(query.properties)) {
-        if (node.properties[key] !== value) return false;
+  private relationshipsOf(node: GraphNode, direction: RelationshipPattern['direction']): GraphRelationship[] {
+    const outgoing = direction === 'in' ? [] : this.outgoing.get(node.id) || [];
+    const incoming = direction === 'out' ? [] : this.incoming.get(node.id) || [];
+    // Self-loops are both outgoing and incoming
+    return direction === 'both' ? [...outgoing, ...incoming.filter(rel => rel.source !== rel.target)] : [...outgoing, ...incoming];
+  }
+
+  // WITH / RETURN
+
+  private project(projection: Projection, rows: Row[]): Row[] {
+    const starItems: ProjectionItem[] = projection.star && rows.length > 0
+      ? Object.keys(rows[0]).map(name => ({ expression: { kind: 'variable', name }, alias: name }))
+      : [];
+    const items = [...starItems, ...projection.items];
+    const aggregating = items.some(item => containsAggregate(item.expression));
+
+    // Each output row keeps the scope ORDER BY may read: the input row unless aggregating
+    let projected: Array<{ values: Row; scope: Row }>;
+    if (!aggregating) {
+      projected = rows.map(row => {
+        const values = this.projectRow(items, row);
+        return { values, scope: { ...row, ...values } };
+      });
+    } else {
+      const keyItems = items.filter(item => !containsAggregate(item.expression));
+      const groups = new Map<string, Row[]>();
+      for (const row of rows) {
+        const key = keyItems.map(item => valueKey(this.evaluate(item.expression, row))).join('\u0000');
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(row);
       }
-      
-      return true;
-    });
+      // Aggregating without grouping keys always yields one row (count(*) = 0)
+      if (groups.size === 0 && keyItems.length === 0) groups.set('', []);
 
-    let aggregatedValue: any;
-    
-    switch (query.aggregationFunction) {
-      case 'COUNT':
-        aggregatedValue = matchingNodes.length;
-        break;
-      case 'COLLECT':
-        const targetProperty = query.aggregationTarget.includes('.') 
-          ? query.aggregationTarget.split('.')[1] 
-          : 'name';
-        aggregatedValue = matchingNodes.map(n => n.properties[targetProperty]).filter(Boolean);
-        break;
-      default:
-        aggregatedValue = matchingNodes.length;
+      projected = Array.from(groups.values()).map(groupRows => {
+        const values = this.projectRow(items, groupRows[0] || {}, groupRows);
+        return { values, scope: values };
+      });
     }
 
-    return {
-      nodes: [],
-      relationships: [],
-      data: [{ [query.returnClause]: aggregatedValue }]
-    };
+    if (projection.distinct) {
+      const seen = new Set<string>();
+      projected = projected.filter(({ values }) => {
+        const key = Object.values(values).map(valueKey).join('\u0000');
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    if (projection.orderBy.length > 0) {
+      const sortValues = (entry: { values: Row; scope: Row }) => projection.orderBy.map(sort => {
+        // ORDER BY count(*) after RETURN count(*): read the projected column
+        const item = items.find(candidate => sameExpression(candidate.expression, sort.expression));
+        return item ? entry.values[item.alias] : this.evaluate(sort.expression, entry.scope);
+      });
+      const keyed = projected.map(entry => ({ entry, keys: sortValues(entry) }));
+      keyed.sort((a, b) => {
+        for (let i = 0; i < projection.orderBy.length; i++) {
+          const order = compareForSort(a.keys[i], b.keys[i]);
+          if (order !== 0) return projection.orderBy[i].descending ? -order : order;
+        }
+        return 0;
+      });
+      projected = keyed.map(({ entry }) => entry);
+    }
+
+    const skip = projection.skip ? this.evaluateCount(projection.skip, 'SKIP') : 0;
+    const limit = projection.limit ? this.evaluateCount(projection.limit, 'LIMIT') : undefined;
+    return projected.slice(skip, limit === undefined ? undefined : skip + limit).map(({ values }) => values);
+  }
+
+  private projectRow(items: ProjectionItem[], row: Row, group?: Row[]): Row {
+    const values: Row = {};
+    for (const item of items) values[item.alias] = this.evaluate(item.expression, row, group);
+    return values;
+  }
+
+  private evaluateCount(expression: Expression, clause: string): number {
+    const value = this.evaluate(expression, {});
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new Error(`${clause} expects a non-negative integer`);
+    }
+    return value;
   }
 
-  private executeRelationshipQuery(query: any, limit: number, offset: number): QueryResult {
-    const results: { source: GraphNode; target: GraphNode; relationship: GraphRelationship }[] = [];
+  // Expressions
 
-    // Find all relationships of the specified type
-    const matchingRels = this.graph.relationships.filter(rel => 
-      rel.type === query.relationshipType
-    );
+  private evaluate(expression: Expression, row: Row, group?: Row[]): unknown {
+    switch (expression.kind) {
+      case 'literal':
+        return expression.value;
 
-    for (const rel of matchingRels) {
-      const sourceNode = this.graph.nodes.find(n => n.id === rel.source);
-      const targetNode = this.graph.nodes.find(n => n.id === rel.target);
+      case 'parameter':
+        if (!(expression.name in this.params)) throw new Error(`Parameter $${expression.name} was not provided`);
+        return this.params[expression.name] ?? null;
 
-      if (!sourceNode || !targetNode) continue;
+      case 'variable':
+        if (!(expression.name in row)) throw new Error(`Variable '${expression.name}' is not defined`);
+        return row[expression.name] ?? null;
+
+      case 'property':
+        return propertyOf(this.evaluate(expression.object, row, group), expression.key);
+
+      case 'index': {
+        const object = this.evaluate(expression.object, row, group);
+        const index = this.evaluate(expression.index, row, group);
+        if (object === null || index === null) return null;
+        if (Array.isArray(object) && typeof index === 'number') return object[index < 0 ? object.length + index : index] ?? null;
+        if (typeof index === 'string') return propertyOf(object, index);
+        throw new Error('Only lists can be indexed by number');
+      }
 
-      // Apply label filters
-      if (query.sourceLabel && sourceNode.label !== query.sourceLabel) continue;
-      if (query.targetLabel && targetNode.label !== query.targetLabel) continue;
+      case 'list':
+        return expression.items.map(item => this.evaluate(item, row, group));
 
-      results.push({ source: sourceNode, target: targetNode, relationship: rel });
+      case 'map':
+        return Object.fromEntries(expression.entries.map(([key, value]) => [key, this.evaluate(value, row, group)]));
+
+      case 'function':
+        return AGGREGATE_FUNCTIONS.has(expression.name)
+          ? this.aggregate(expression, group)
+          : callFunction(expression.name, expression.args.map(arg => this.evaluate(arg, row, group)));
+
+      case 'unary': {
+        const operand = this.evaluate(expression.operand, row, group);
+        if (operand === null) return null;
+        if (expression.operator === 'NOT') return !toBoolean(operand);
+        if (typeof operand !== 'number') throw new Error('Unary minus expects a number');
+        return -operand;
+      }
+
+      case 'isNull': {
+        const isNull = this.evaluate(expression.operand, row, group) === null;
+        return expression.negated ? !isNull : isNull;
+      }
+
+      case 'binary':
+        return this.evaluateBinary(expression, row, group);
     }
+  }
 
-    // Apply pagination
-    const paginatedResults = results.slice(offset, offset + limit);
+  private evaluateBinary(expression: Extract<Expression, { kind: 'binary' }>, row: Row, group?: Row[]): unknown {
+    const left = this.evaluate(expression.left, row, group);
+
+    // Three-valued logic: null is unknown
+    if (expression.operator === 'AND' || expression.operator === 'OR' || expression.operator === 'XOR') {
+      const a = left === null ? null : toBoolean(left);
+      if (expression.operator === 'AND' && a === false) return false;
+      if (expression.operator === 'OR' && a === true) return true;
+      const rightValue = this.evaluate(expression.right, row, group);
+      const b = rightValue === null ? null : toBoolean(rightValue);
+      if (expression.operator === 'AND') return b === false ? false : a === null || b === null ? null : true;
+      if (expression.operator === 'OR') return b === true ? true : a === null || b === null ? null : false;
+      return a === null || b === null ? null : a !== b;
+    }
 
-    // Process return clause
-    const data = paginatedResults.map(({ source, target }) => {
-      const result: Record<string, any> = {};
-      
-      if (query.returnClause.includes(query.sourceVar)) {
-        result[query.sourceVar] = source;
+    const right = this.evaluate(expression.right, row, group);
+
+    switch (expression.operator) {
+      case '=':
+        return valuesEqual(left, right);
+      case '<>': {
+        const equal = valuesEqual(left, right);
+        return equal === null ? null : !equal;
       }
-      if (query.returnClause.includes(query.targetVar)) {
-        result[query.targetVar] = target;
+      case '<':
+      case '<=':
+      case '>':
+      case '>=': {
+        const order = compareValues(left, right);
+        if (order === null) return null;
+        return expression.operator === '<' ? order < 0
+          : expression.operator === '<=' ? order <= 0
+          : expression.operator === '>' ? order > 0
+          : order >= 0;
       }
+      case 'STARTS WITH':
+      case 'ENDS WITH':
+      case 'CONTAINS':
+        if (typeof left !== 'string' || typeof right !== 'string') return null;
+        return expression.operator === 'STARTS WITH' ? left.startsWith(right)
+          : expression.operator === 'ENDS WITH' ? left.endsWith(right)
+          : left.includes(right);
+      case '=~':
+        if (typeof left !== 'string' || typeof right !== 'string') return null;
+        return this.regex(right).test(left);
+      case 'IN': {
+        if (right === null) return null;
+        if (!Array.isArray(right)) throw new Error('IN expects a list');
+        const results = right.map(item => valuesEqual(left, item));
+        return results.includes(true) ? true : results.includes(null) || (left === null && right.length > 0) ? null : false;
+      }
+      default:
+        return arithmetic(expression.operator, left, right);
+    }
+  }
 
-      return result;
-    });
+  private aggregate(call: Extract<Expression, { kind: 'function' }>, group: Row[] | undefined): unknown {
+    if (!group) throw new Error(`Aggregate function ${call.name}() is only allowed in WITH and RETURN`);
+    if (call.star) return group.length;
+    if (call.args.length !== 1) throw new Error(`${call.name}() expects one argument`);
+
+    let values = group.map(row => this.evaluate(call.args[0], row)).filter(value => value !== null);
+    if (call.distinct) {
+      const seen = new Set<string>();
+      values = values.filter(value => {
+        const key = valueKey(value);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
 
-    return {
-      nodes: paginatedResults.flatMap(r => [r.source, r.target]),
-      relationships: paginatedResults.map(r => r.relationship),
-      data
-    };
+    switch (call.name) {
+      case 'count':
+        return values.length;
+      case 'collect':
+        return values;
+      case 'sum':
+      case 'avg': {
+        if (values.some(value => typeof value !== 'number')) throw new Error(`${call.name}() expects numbers`);
+        const sum = (values as number[]).reduce((total, value) => total + value, 0);
+        return call.name === 'sum' ? sum : values.length > 0 ? sum / values.length : null;
+      }
+      default: {
+        // min / max
+        if (values.length === 0) return null;
+        return values.reduce((best, value) => {
+          const order = compareForSort(value, best);
+          return (call.name === 'min' ? order < 0 : order > 0) ? value : best;
+        });
+      }
+    }
+  }
+
+  // Cypher regular expressions match the whole string; a leading (?i) makes them case-insensitive
+  private regex(pattern: string): RegExp {
+    let regex = this.regexCache.get(pattern);
+    if (!regex) {
+      const insensitive = pattern.startsWith('(?i)');
+      try {
+        regex = new RegExp(`^(?:${insensitive ? pattern.substring(4) : pattern})$`, insensitive ? 'i' : '');
+      } catch (error) {
+        throw new Error(`Invalid regular expression '${pattern}': ${error instanceof Error ? error.message : error}`);
+      }
+      this.regexCache.set(pattern, regex);
+    }
+    return regex;
   }
 
   /**
@@ -478,19 +585,6 @@ export class GraphQueryEngine {
     });
   }
 
-  private executeCountAllQuery(query: any): QueryResult {
-    const totalCount = this.graph.nodes.length;
-    
-    const result: Record<string, any> = {};
-    result[query.alias] = totalCount;
-    
-    return {
-      nodes: [],
-      relationships: [],
-      data: [result]
-    };
-  }
-
   /**
    * Get all relationships for a node
    */
@@ -500,4 +594,268 @@ export class GraphQueryEngine {
     
     return { incoming, outgoing };
   }
-} 
\ No newline at end of file
+}
+
+
+function patternVariables(pattern: PathPattern): string[] {
+  return [
+    ...(pattern.variable ? [pattern.variable] : []),
+    ...pattern.nodes.flatMap(node => node.variable ? [node.variable] : []),
+    ...pattern.relationships.flatMap(rel => rel.variable ? [rel.variable] : [])
+  ];
+}
+
+function flipDirection(direction: RelationshipPattern['direction']): RelationshipPattern['direction'] {
+  return direction === 'out' ? 'in' : direction === 'in' ? 'out' : 'both';
+}
+
+function matchesRelationship(
+  relationship: GraphRelationship,
+  pattern: RelationshipPattern,
+  evaluate: (expression: Expression) => unknown
+): boolean {
+  if (pattern.types.length > 0 && !pattern.types.some(type => type === relationship.type || type === ANY_RELATIONSHIP_TYPE)) return false;
+  return pattern.properties.every(([key, expression]) => valuesEqual(propertyOf(relationship, key), evaluate(expression)) === true);
+}
+
+function isNode(value: unknown): value is GraphNode {
+  return typeof value === 'object' && value !== null && 'label' in value && 'properties' in value && !('source' in value);
+}
+
+function isRelationship(value: unknown): value is GraphRelationship {
+  return typeof value === 'object' && value !== null && 'source' in value && 'target' in value && 'type' in value;
+}
+
+function isPath(value: unknown): value is CypherPath {
+  return typeof value === 'object' && value !== null && 'nodes' in value && 'relationships' in value && !('label' in value);
+}
+
+/**
+ * Property of a node, relationship or map. Nodes also expose `id` and their label as
+ * `elementType` / `label`; relationships their type as `relationshipType` / `type`
+ */
+function propertyOf(value: unknown, key: string): unknown {
+  if (value === null || value === undefined) return null;
+
+  if (isNode(value)) {
+    if (value.properties[key] !== undefined) return value.properties[key];
+    if (key === 'id') return value.id;
+    if (key === 'elementType' || key === 'label') return value.label;
+    return null;
+  }
+  if (isRelationship(value)) {
+    if (value.properties[key] !== undefined) return value.properties[key];
+    if (key === 'id') return value.id;
+    if (key === 'relationshipType' || key === 'type') return value.type;
+    return null;
+  }
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return (value as Record<string, unknown>)[key] ?? null;
+  }
+  throw new Error(`Cannot read property '${key}' of ${Array.isArray(value) ? 'a list' : typeof value}`);
+}
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value !== 'boolean') throw new Error(`Expected a boolean but got ${valueKey(value)}`);
+  return value;
+}
+
+/**
+ * Cypher equality: null when either side is null, nodes and relationships by id
+ */
+function valuesEqual(a: unknown, b: unknown): boolean | null {
+  if (a === null || a === undefined || b === null || b === undefined) return null;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) return false;
+    let result: boolean | null = true;
+    for (let i = 0; i < a.length; i++) {
+      const equal = valuesEqual(a[i], b[i]);
+      if (equal === false) return false;
+      if (equal === null) result = null;
+    }
+    return result;
+  }
+  if (typeof a === 'object' || typeof b === 'object') return valueKey(a) === valueKey(b);
+  return a === b;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return valueKey(a) === valueKey(b);
+}
+
+// Ordering comparison of two values of the same type, null when they are not comparable
+function compareValues(a: unknown, b: unknown): number | null {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return null;
+}
+
+// Total order for ORDER BY, min and max: values of different types by type, nulls last
+function compareForSort(a: unknown, b: unknown): number {
+  const rank = (value: unknown) => value === null || value === undefined ? 5
+    : typeof value === 'number' ? 3 : typeof value === 'string' ? 2 : typeof value === 'boolean' ? 4
+    : Array.isArray(value) ? 1 : 0;
+  const order = rank(a) - rank(b);
+  if (order !== 0) return order;
+  return compareValues(a, b) ?? valueKey(a).localeCompare(valueKey(b));
+}
+
+/**
+ * Identity of a value for grouping and DISTINCT: graph elements by id
+ */
+function valueKey(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (isNode(value)) return `node:${value.id}`;
+  if (isRelationship(value)) return `rel:${value.id}`;
+  if (isPath(value)) return `path:${value.relationships.map(rel => rel.id).join(',')}:${value.nodes[0]?.id ?? ''}`;
+  if (Array.isArray(value)) return `[${value.map(valueKey).join(',')}]`;
+  if (typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${key}:${valueKey((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return `${typeof value}:${String(value)}`;
+}
+
+function containsAggregate(expression: Expression): boolean {
+  switch (expression.kind) {
+    case 'function':
+      return AGGREGATE_FUNCTIONS.has(expression.name) || expression.args.some(containsAggregate);
+    case 'property':
+      return containsAggregate(expression.object);
+    case 'index':
+      return containsAggregate(expression.object) || containsAggregate(expression.index);
+    case 'list':
+      return expression.items.some(containsAggregate);
+    case 'map':
+      return expression.entries.some(([, value]) => containsAggregate(value));
+    case 'unary':
+    case 'isNull':
+      return containsAggregate(expression.operand);
+    case 'binary':
+      return containsAggregate(expression.left) || containsAggregate(expression.right);
+    default:
+      return false;
+  }
+}
+
+function sameExpression(a: Expression, b: Expression): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function arithmetic(operator: string, left: unknown, right: unknown): unknown {
+  if (left === null || right === null) return null;
+
+  if (operator === '+') {
+    if (Array.isArray(left) || Array.isArray(right)) return [...(Array.isArray(left) ? left : [left]), ...(Array.isArray(right) ? right : [right])];
+    if (typeof left === 'string' || typeof right === 'string') return `${left}${right}`;
+  }
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new Error(`Operator ${operator} expects numbers`);
+  }
+
+  switch (operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/': return right === 0 ? null : left / right;
+    default: return right === 0 ? null : left % right;
+  }
+}
+
+/**
+ * Scalar functions of the subset
+ */
+function callFunction(name: string, args: unknown[]): unknown {
+  const [first] = args;
+  const expectString = () => {
+    if (typeof first !== 'string') throw new Error(`${name}() expects a string`);
+    return first;
+  };
+
+  if (name === 'coalesce') return args.find(arg => arg !== null && arg !== undefined) ?? null;
+  if (first === null || first === undefined) return null;
+
+  switch (name) {
+    case 'id':
+      if (isNode(first) || isRelationship(first)) return first.id;
+      break;
+    case 'labels':
+      if (isNode(first)) return [first.label];
+      break;
+    case 'type':
+      if (isRelationship(first)) return first.type;
+      break;
+    case 'properties':
+      if (isNode(first) || isRelationship(first)) return { ...first.properties };
+      break;
+    case 'keys':
+      if (isNode(first) || isRelationship(first)) return Object.keys(first.properties);
+      if (typeof first === 'object' && !Array.isArray(first) && !isPath(first)) return Object.keys(first);
+      break;
+    case 'nodes':
+      if (isPath(first)) return first.nodes;
+      break;
+    case 'relationships':
+    case 'rels':
+      if (isPath(first)) return first.relationships;
+      break;
+    case 'length':
+      if (isPath(first)) return first.relationships.length;
+      if (Array.isArray(first) || typeof first === 'string') return first.length;
+      break;
+    case 'size':
+      if (Array.isArray(first) || typeof first === 'string') return first.length;
+      break;
+    case 'head':
+      if (Array.isArray(first)) return first[0] ?? null;
+      break;
+    case 'last':
+      if (Array.isArray(first)) return first[first.length - 1] ?? null;
+      break;
+    case 'tolower':
+    case 'lower':
+      return expectString().toLowerCase();
+    case 'toupper':
+    case 'upper':
+      return expectString().toUpperCase();
+    case 'trim':
+      return expectString().trim();
+    case 'split':
+      return expectString().split(String(args[1]));
+    case 'replace':
+      return expectString().split(String(args[1])).join(String(args[2]));
+    case 'substring': {
+      const start = Number(args[1]);
+      return args.length > 2 ? expectString().substr(start, Number(args[2])) : expectString().substring(start);
+    }
+    case 'tostring':
+      return typeof first === 'object' ? valueKey(first) : String(first);
+    case 'tointeger':
+    case 'tofloat': {
+      const number = Number(first);
+      if (Number.isNaN(number)) return null;
+      return name === 'tointeger' ? Math.trunc(number) : number;
+    }
+    case 'abs':
+      if (typeof first === 'number') return Math.abs(first);
+      break;
+    default:
+      throw new Error(`Unknown function '${name}'`);
+  }
+
+  throw new Error(`${name}() does not accept ${Array.isArray(first) ? 'a list' : typeof first}`);
+}
+
+// Nodes and relationships a result value holds, for the graph view of the result
+function collectGraphElements(value: unknown, nodes: Map<string, GraphNode>, relationships: Map<string, GraphRelationship>): void {
+  if (isNode(value)) {
+    nodes.set(value.id, value);
+  } else if (isRelationship(value)) {
+    relationships.set(value.id, value);
+  } else if (isPath(value)) {
+    value.nodes.forEach(node => nodes.set(node.id, node));
+    value.relationships.forEach(rel => relationships.set(rel.id, rel));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectGraphElements(item, nodes, relationships));
+  }
+}
@@ -0,0 +1,105 @@
+import { QueryLibrary, QueryLibraryError, createGraphQueryExecutor, describeSavedQuery, withFallbackExecutor } from './query-library.js';
+import type { SavedQuery } from './query-library.js';
+import { createGraphFixture } from './graph-fixtures.js';
+
+const { graph, node, rel } = createGraphFixture();
+node('a.ts', 'File', { filePath: 'a.ts' });
+node('b.ts', 'File', { filePath: 'b.ts' });
+node('c.ts', 'File', { filePath: 'c.ts' });
+node('main', 'Function', { filePath: 'a.ts', startLine: 1 });
+node('load', 'Function', { filePath: 'a.ts', startLine: 10 });
+node('parse', 'Function', { filePath: 'b.ts', startLine: 1 });
+
+rel('main', 'CALLS', 'load');
+rel('load', 'CALLS', 'parse');
+rel('a.ts', 'IMPORTS', 'b.ts');
+rel('b.ts', 'IMPORTS', 'a.ts');
+rel('b.ts', 'IMPORTS', 'c.ts');
+
+const execute = createGraphQueryExecutor(graph);
+
+const filesIn: SavedQuery = {
+  name: 'files_in',
+  description: 'Files under a folder',
+  cypher: 'MATCH (f:File) WHERE f.filePath STARTS WITH $folder RETURN f.filePath AS filePath LIMIT $limit',
+  parameters: [
+    { name: 'folder', type: 'string', description: 'Folder path' },
+    { name: 'limit', type: 'integer', description: 'Most files to return', default: 10, min: 1 }
+  ],
+  columns: [{ name: 'filePath', type: 'string' }]
+};
+
+describe('QueryLibrary', () => {
+  test('should run the built-in analyses on a graph', async () => {
+    const library = new QueryLibrary();
+
+    const callers = await library.run('callers_of', { name: 'parse', depth: '2' }, execute);
+    expect(callers.params).toEqual({ name: 'parse', depth: 2 });
+    expect(callers.rows).toEqual([
+      { name: 'load', filePath: 'a.ts', distance: 1 },
+      { name: 'main', filePath: 'a.ts', distance: 2 }
+    ]);
+    expect((await library.run('callers_of', { name: 'parse' }, execute)).rows).toHaveLength(1);
+
+    expect((await library.run('unused_functions', {}, execute)).rows).toEqual([{ name: 'main', filePath: 'a.ts', startLine: 1 }]);
+    expect((await library.run('import_cycles', {}, execute)).rows).toEqual([
+      { filePath: 'a.ts', cycleLength: 2 },
+      { filePath: 'b.ts', cycleLength: 2 }
+    ]);
+    expect(describeSavedQuery(library.get('callers_of')!)).toBe('callers_of(name: string, depth: integer = 1)');
+  });
+
+  test('should reject invalid arguments', () => {
+    const library = new QueryLibrary();
+
+    expect(() => library.prepare('callers_of', {})).toThrow('callers_of requires name');
+    expect(() => library.prepare('callers_of', { name: 'parse', depth: 9 })).toThrow('depth must be between 1 and 5');
+    expect(() => library.prepare('callers_of', { name: 'parse', depth: '1.5' })).toThrow('depth must be an integer');
+    expect(() => library.prepare('callers_of', { name: 'parse', hops: 2 })).toThrow('has no parameter hops');
+    expect(() => library.prepare('dead_code')).toThrow(QueryLibraryError);
+  });
+
+  test('should validate and persist user-defined queries', async () => {
+    let stored: SavedQuery[] | null = null;
+    const storage = {
+      load: async () => stored,
+      save: async (queries: SavedQuery[]) => {
+        stored = queries;
+      }
+    };
+
+    const library = new QueryLibrary(undefined, storage);
+    await library.save(filesIn);
+    expect(stored).toEqual([{ ...filesIn, builtIn: false }]);
+
+    await expect(library.save({ ...filesIn, name: 'callers_of' })).rejects.toThrow('built-in');
+    await expect(library.save({ ...filesIn, name: 'Files In' })).rejects.toThrow('Invalid query name');
+    await expect(library.save({ ...filesIn, cypher: `${filesIn.cypher} SKIP $offset` })).rejects.toThrow('$offset is not a declared parameter');
+    await expect(library.save({ ...filesIn, columns: [] })).rejects.toThrow('at least one result column');
+
+    const reloaded = new QueryLibrary(undefined, storage);
+    await reloaded.load();
+    expect(reloaded.list().map(query => query.name)).toEqual(['callers_of', 'unused_functions', 'import_cycles', 'files_in']);
+    expect((await reloaded.run('files_in', { folder: 'b' }, execute)).rows).toEqual([{ filePath: 'b.ts' }]);
+
+    await expect(reloaded.remove('unused_functions')).rejects.toThrow('cannot be removed');
+    await expect(reloaded.remove('files_in')).resolves.toBe(true);
+    expect(stored).toEqual([]);
+  });
+
+  test('should run built-ins on the JSON graph when the polymorphic KuzuDB schema rejects them', async () => {
+    const library = new QueryLibrary();
+    const kuzuCalls: string[] = [];
+    const kuzu = async (cypher: string) => {
+      kuzuCalls.push(cypher);
+      throw new Error('Binder exception: Table CALLS does not exist.');
+    };
+
+    const callers = await library.run('callers_of', { name: 'load' }, withFallbackExecutor(kuzu, execute));
+    expect(callers.rows).toEqual([{ name: 'main', filePath: 'a.ts', distance: 1 }]);
+    expect(kuzuCalls).toHaveLength(1);
+
+    const kuzuRows = withFallbackExecutor(async () => [{ name: 'main', filePath: 'a.ts', distance: 1 }], async () => []);
+    expect((await library.run('callers_of', { name: 'load' }, kuzuRows)).rows).toHaveLength(1);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Saved Query Library
+ *
+ * Named, parameterized Cypher analyses such as `callers_of(name, depth)`: a vetted
+ * query with typed parameters and a declared result shape is more reliable than one
+ * an LLM writes on the fly. Built-in queries ship as files in ./queries; users add
+ * their own, which a QueryLibraryStorage keeps between sessions.
+ *
+ * The library only binds and checks arguments and shapes results. The query itself
+ * runs through a SavedQueryExecutor: KuzuDB, GraphQueryEngine on a JSON graph, or
+ * whatever the caller has at hand.
+ *
+ * Built-in queries match the JSON graph's labels (:Function, :CALLS). The polymorphic
+ * KuzuDB schema stores nodes as CodeElement and edges as CodeRelationship, so there
+ * they fail to bind and need an executor with a JSON fallback (withFallbackExecutor).
+ */
+
+import type { KnowledgeGraph } from './types.ts';
+import type { Token } from './cypher-parser.ts';
+import type { CypherParameters } from '../kuzu/cypher-parameters.ts';
+import type { QueryResult } from '../kuzu/kuzu-loader.ts';
+import { tokenizeCypher } from './cypher-parser.ts';
+import { GraphQueryEngine } from './query-engine.ts';
+import { BUILT_IN_QUERIES } from './queries/index.ts';
+
+export type SavedQueryValueType = 'string' | 'integer' | 'number' | 'boolean';
+
+export interface SavedQueryParameter {
+  name: string;
+  type: SavedQueryValueType;
+  description: string;
+  default?: string | number | boolean;   // Parameters without one are required
+  min?: number;
+  max?: number;
+}
+
+export interface SavedQueryColumn {
+  name: string;                          // Column alias in the RETURN clause
+  type: SavedQueryValueType | 'list';
+  description?: string;
+}
+
+export interface SavedQuery {
+  name: string;                          // callers_of; also the ReActAgent tool name
+  description: string;
+  cypher: string;                        // Values come in as $parameters
+  parameters: SavedQueryParameter[];
+  columns: SavedQueryColumn[];
+  builtIn?: boolean;
+}
+
+export interface PreparedSavedQuery {
+  query: SavedQuery;
+  cypher: string;
+  params: CypherParameters;
+}
+
+export interface SavedQueryResult {
+  name: string;
+  params: CypherParameters;
+  columns: SavedQueryColumn[];
+  rows: Array<Record<string, unknown>>;  // Keyed by the declared columns
+  executionTime: number;
+}
+
+/**
+ * Runs a query and returns its rows keyed by column name
+ */
+export type SavedQueryExecutor = (cypher: string, params: CypherParameters) => Promise<Array<Record<string, unknown>>>;
+
+/**
+ * A KuzuDB-backed graph as far as running saved queries is concerned (KuzuKnowledgeGraph)
+ */
+export interface KuzuQueryTarget {
+  executeQuery(cypher: string, params: CypherParameters): Promise<QueryResult>;
+}
+
+/**
+ * Where user-defined queries are kept; GraphPersistence metadata in the browser
+ */
+export interface QueryLibraryStorage {
+  load(): Promise<SavedQuery[] | null>;
+  save(queries: SavedQuery[]): Promise<void>;
+}
+
+export class QueryLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryLibraryError';
+  }
+}
+
+const QUERY_NAME = /^[a-z][a-z0-9_]*$/;
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const VALUE_TYPES: SavedQueryValueType[] = ['string', 'integer', 'number', 'boolean'];
+
+export class QueryLibrary {
+  private builtIns = new Map<string, SavedQuery>();
+  private userQueries = new Map<string, SavedQuery>();
+  private loading: Promise<void> | null = null;
+
+  constructor(builtIns: SavedQuery[] = BUILT_IN_QUERIES, private storage?: QueryLibraryStorage) {
+    for (const query of builtIns) {
+      validateSavedQuery(query);
+      this.builtIns.set(query.name, { ...query, builtIn: true });
+    }
+  }
+
+  /**
+   * Read the user-defined queries from storage, once. Stored queries that no longer
+   * validate are skipped.
+   */
+  async load(): Promise<void> {
+    if (!this.storage) return;
+    if (!this.loading) {
+      const storage = this.storage;
+      this.loading = (async () => {
+        const stored = (await storage.load()) ?? [];
+        for (const query of stored) {
+          try {
+            this.addUserQuery(query);
+          } catch (error) {
+            console.warn(`⚠️ Skipping saved query ${query?.name}:`, error instanceof Error ? error.message : error);
+          }
+        }
+      })();
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  list(): SavedQuery[] {
+    return [...this.builtIns.values(), ...this.userQueries.values()];
+  }
+
+  get(name: string): SavedQuery | undefined {
+    return this.builtIns.get(name) ?? this.userQueries.get(name);
+  }
+
+  /**
+   * Add or replace a user-defined query and persist the user-defined set
+   * @throws QueryLibraryError when the query is invalid or would replace a built-in
+   */
+  async save(query: SavedQuery): Promise<SavedQuery> {
+    await this.load();
+    const saved = this.addUserQuery(query);
+    await this.persist();
+    return saved;
+  }
+
+  async remove(name: string): Promise<boolean> {
+    await this.load();
+    if (this.builtIns.has(name)) {
+      throw new QueryLibraryError(`${name} is a built-in query and cannot be removed`);
+    }
+    if (!this.userQueries.delete(name)) return false;
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * The query's Cypher with its arguments checked, converted to the declared types
+   * and completed with defaults
+   * @throws QueryLibraryError for unknown queries and invalid arguments
+   */
+  prepare(name: string, args: Record<string, unknown> = {}): PreparedSavedQuery {
+    const query = this.get(name);
+    if (!query) {
+      throw new QueryLibraryError(`Unknown saved query: ${name}`);
+    }
+    return { query, cypher: query.cypher, params: bindArguments(query, args) };
+  }
+
+  async run(name: string, args: Record<string, unknown>, execute: SavedQueryExecutor): Promise<SavedQueryResult> {
+    const { query, cypher, params } = this.prepare(name, args);
+
+    const startTime = performance.now();
+    const rows = await execute(cypher, params);
+
+    return {
+      name,
+      params,
+      columns: query.columns,
+      rows: rows.map(row => Object.fromEntries(query.columns.map(column => [column.name, row[column.name] ?? null]))),
+      executionTime: performance.now() - startTime
+    };
+  }
+
+  private addUserQuery(query: SavedQuery): SavedQuery {
+    if (this.builtIns.has(query.name)) {
+      throw new QueryLibraryError(`${query.name} is the name of a built-in query`);
+    }
+    validateSavedQuery(query);
+
+    const saved: SavedQuery = {
+      name: query.name,
+      description: query.description,
+      cypher: query.cypher,
+      parameters: query.parameters,
+      columns: query.columns,
+      builtIn: false
+    };
+    this.userQueries.set(saved.name, saved);
+    return saved;
+  }
+
+  private async persist(): Promise<void> {
+    await this.storage?.save(Array.from(this.userQueries.values()));
+  }
+}
+
+/**
+ * @throws QueryLibraryError describing the first problem found
+ */
+export function validateSavedQuery(query: SavedQuery): void {
+  if (!query || typeof query.name !== 'string' || !QUERY_NAME.test(query.name)) {
+    throw new QueryLibraryError(`Invalid query name "${query?.name}": use lowercase letters, digits and underscores`);
+  }
+  if (typeof query.cypher !== 'string' || query.cypher.trim() === '') {
+    throw new QueryLibraryError(`${query.name}: the query is empty`);
+  }
+
+  const parameters = query.parameters ?? [];
+  const declared = new Set<string>();
+  for (const parameter of parameters) {
+    if (!PARAMETER_NAME.test(parameter.name)) {
+      throw new QueryLibraryError(`${query.name}: invalid parameter name "${parameter.name}"`);
+    }
+    if (declared.has(parameter.name)) {
+      throw new QueryLibraryError(`${query.name}: parameter ${parameter.name} is declared twice`);
+    }
+    if (!VALUE_TYPES.includes(parameter.type)) {
+      throw new QueryLibraryError(`${query.name}: parameter ${parameter.name} has unknown type "${parameter.type}"`);
+    }
+    if (parameter.default !== undefined) {
+      convertArgument(query.name, parameter, parameter.default);
+    }
+    declared.add(parameter.name);
+  }
+
+  // Tokenizing catches unterminated strings; anything else is for the engine to report
+  let tokens: Token[];
+  try {
+    tokens = tokenizeCypher(query.cypher);
+  } catch (error) {
+    throw new QueryLibraryError(`${query.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  for (const token of tokens) {
+    if (token.type === 'parameter' && !declared.has(token.value)) {
+      throw new QueryLibraryError(`${query.name}: $${token.value} is not a declared parameter`);
+    }
+  }
+
+  const columns = query.columns ?? [];
+  if (columns.length === 0) {
+    throw new QueryLibraryError(`${query.name}: declare at least one result column`);
+  }
+  const columnNames = new Set<string>();
+  for (const column of columns) {
+    if (!column.name || columnNames.has(column.name)) {
+      throw new QueryLibraryError(`${query.name}: result columns need distinct names`);
+    }
+    columnNames.add(column.name);
+  }
+}
+
+/**
+ * Arguments as the query's parameters: converted to the declared types (form inputs
+ * arrive as strings), checked against min / max, with defaults for the ones left out
+ * @throws QueryLibraryError for unknown, missing and invalid arguments
+ */
+export function bindArguments(query: SavedQuery, args: Record<string, unknown>): CypherParameters {
+  const unknown = Object.keys(args).filter(key => !query.parameters.some(parameter => parameter.name === key));
+  if (unknown.length > 0) {
+    throw new QueryLibraryError(`${query.name} has no parameter ${unknown.join(', ')}`);
+  }
+
+  const params: CypherParameters = {};
+  for (const parameter of query.parameters) {
+    const value = args[parameter.name];
+    if (value === undefined || value === null || value === '') {
+      if (parameter.default === undefined) {
+        throw new QueryLibraryError(`${query.name} requires ${parameter.name}`);
+      }
+      params[parameter.name] = parameter.default;
+    } else {
+      params[parameter.name] = convertArgument(query.name, parameter, value);
+    }
+  }
+  return params;
+}
+
+/**
+ * One-line signature for prompts and lists: callers_of(name: string, depth: integer = 1)
+ */
+export function describeSavedQuery(query: SavedQuery): string {
+  const parameters = query.parameters.map(parameter =>
+    parameter.default === undefined
+      ? `${parameter.name}: ${parameter.type}`
+      : `${parameter.name}: ${parameter.type} = ${JSON.stringify(parameter.default)}`
+  );
+  return `${query.name}(${parameters.join(', ')})`;
+}
+
+/**
+ * Executor running queries with GraphQueryEngine on an in-memory graph
+ */
+export function createGraphQueryExecutor(graph: KnowledgeGraph, maxRows = 10000): SavedQueryExecutor {
+  return async (cypher, params) => new GraphQueryEngine(graph).executeQuery(cypher, { params, limit: maxRows }).data;
+}
+
+/**
+ * Executor running queries on KuzuDB; results reporting an error reject
+ */
+export function createKuzuQueryExecutor(kuzuGraph: KuzuQueryTarget): SavedQueryExecutor {
+  return async (cypher, params) => {
+    const result = await kuzuGraph.executeQuery(cypher, params);
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    const columns = result.columns || [];
+    return (result.rows || []).map(row =>
+      Object.fromEntries(columns.map((column, index) => [column, row[index]]))
+    );
+  };
+}
+
+/**
+ * Executor running queries on `primary` and, when that fails, on `fallback`
+ */
+export function withFallbackExecutor(primary: SavedQueryExecutor, fallback: SavedQueryExecutor): SavedQueryExecutor {
+  return async (cypher, params) => {
+    try {
+      return await primary(cypher, params);
+    } catch (error) {
+      console.warn('⚠️ Saved query failed on the primary executor, running it on the fallback:', error);
+      return fallback(cypher, params);
+    }
+  };
+}
+
+function convertArgument(queryName: string, parameter: SavedQueryParameter, value: unknown): string | number | boolean {
+  const invalid = (expected: string) =>
+    new QueryLibraryError(`${queryName}: ${parameter.name} must be ${expected}, got ${JSON.stringify(value)}`);
+
+  switch (parameter.type) {
+    case 'string':
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      throw invalid('a string');
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      throw invalid('true or false');
+
+    case 'integer':
+    case 'number': {
+      const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      if (!Number.isFinite(number) || (parameter.type === 'integer' && !Number.isInteger(number))) {
+        throw invalid(parameter.type === 'integer' ? 'an integer' : 'a number');
+      }
+      if ((parameter.min !== undefined && number < parameter.min) || (parameter.max !== undefined && number > parameter.max)) {
+        throw invalid(`between ${parameter.min ?? '-∞'} and ${parameter.max ?? '∞'}`);
+      }
+      return number;
+    }
+  }
+}
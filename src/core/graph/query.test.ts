@@ -0,0 +1,38 @@
+import { selectTestsForChanges } from './query.js';
+import { createGraphFixture } from './graph-fixtures.js';
+
+const { graph, node, rel } = createGraphFixture();
+node('createUser', 'Function', { filePath: 'app/users.py', startLine: 1 });
+node('normalize', 'Function', { filePath: 'app/text.py', startLine: 1 });
+node('deleteUser', 'Function', { filePath: 'app/users.py', startLine: 10 });
+node('test_create', 'Test', { filePath: 'tests/test_users.py', startLine: 4 });
+node('test_normalize', 'Test', { filePath: 'tests/test_text.py', startLine: 1 });
+node('test_create_admin', 'Test', { filePath: 'tests/test_users.py', startLine: 12 });
+
+rel('test_create', 'TESTS', 'createUser', { depth: 1 });
+rel('test_create', 'TESTS', 'normalize', { depth: 2 });
+rel('test_normalize', 'TESTS', 'normalize', { depth: 1 });
+rel('test_create_admin', 'TESTS', 'createUser', { depth: 1 });
+
+describe('selectTestsForChanges', () => {
+  test('should select every test reaching a definition in a changed file', () => {
+    const impact = selectTestsForChanges(graph, ['app/text.py']);
+
+    expect(impact.tests.map(test => test.id)).toEqual(['test_normalize', 'test_create']);
+    expect(impact.testFiles).toEqual(['tests/test_text.py', 'tests/test_users.py']);
+  });
+
+  test('should report changed definitions no test reaches', () => {
+    const impact = selectTestsForChanges(graph, ['./app/users.py']);
+
+    expect(impact.tests.map(test => test.id)).toEqual(['test_create', 'test_create_admin']);
+    expect(impact.untestedDefinitions.map(definition => definition.id)).toEqual(['deleteUser']);
+  });
+
+  test('should select the tests of changed test files', () => {
+    const impact = selectTestsForChanges(graph, ['tests/test_text.py', 'README.md']);
+
+    expect(impact.tests.map(test => test.id)).toEqual(['test_normalize']);
+    expect(impact.changedDefinitions).toEqual([]);
+  });
+});
@@ -196,6 +196,50 @@ export function pathsBetween(
   return { nodes, relationships };
 }
 
+export type TestImpact = {
+  tests: GraphNode[];           // Test nodes to run, ordered by file and line
+  testFiles: string[];
+  changedDefinitions: GraphNode[];
+  untestedDefinitions: GraphNode[];  // Changed definitions no test reaches
+};
+
+/**
+ * Minimal set of tests to run for a change: the tests in changed test files plus every
+ * test with a TESTS edge into a function, method or class defined in a changed file.
+ * Run it against the graph of the revision containing the change.
+ */
+export function selectTestsForChanges(graph: KnowledgeGraph, changedFiles: string[]): TestImpact {
+  const changed = new Set(changedFiles.map((filePath) => filePath.replace(/\\/g, '/').replace(/^\.?\/+/, '')));
+  const { nodeById, inAdjacency } = indexGraph(graph);
+  const selected = new Set<string>();
+  const changedDefinitions: GraphNode[] = [];
+  const untestedDefinitions: GraphNode[] = [];
+
+  for (const node of graph.nodes) {
+    if (!changed.has(String(node.properties?.filePath || ''))) continue;
+
+    if (node.label === 'Test') {
+      selected.add(node.id);
+    } else if (node.label === 'Function' || node.label === 'Method' || node.label === 'Class') {
+      changedDefinitions.push(node);
+      const testedBy = (inAdjacency.get(node.id) || []).filter((rel) => rel.type === 'TESTS');
+      for (const rel of testedBy) selected.add(rel.source);
+      if (testedBy.length === 0) untestedDefinitions.push(node);
+    }
+  }
+
+  const tests = Array.from(selected)
+    .map((id) => nodeById.get(id)!)
+    .filter(Boolean)
+    .sort((a, b) =>
+      String(a.properties.filePath).localeCompare(String(b.properties.filePath)) ||
+      Number(a.properties.startLine || 0) - Number(b.properties.startLine || 0)
+    );
+  const testFiles = Array.from(new Set(tests.map((test) => String(test.properties.filePath))));
+
+  return { tests, testFiles, changedDefinitions, untestedDefinitions };
+}
+
 export function subgraphFromNodesAndRels(graph: KnowledgeGraph, nodeIds: string[], rels: GraphRelationship[]): KnowledgeGraph {
   const nodeIdSet = new Set(nodeIds);
   const nodes = graph.nodes.filter((n) => nodeIdSet.has(n.id));
@@ -16,7 +16,7 @@ interface FunctionDefinition {
 
 export class FunctionRegistryTrie {
   private root: TrieNode;
-  private allDefinitions: Map<string, FunctionDefinition>;
+  private allDefinitions: Map<string, FunctionDefinition>;  // Keyed by file and node id: a partial C# type has one node declared in several files
   // Performance optimization: Index for fast lookups
   private functionNameIndex: Map<string, FunctionDefinition[]>;
   private filePathIndex: Map<string, FunctionDefinition[]>;
@@ -57,12 +57,16 @@ export class FunctionRegistryTrie {
     currentNode.definitions.push(definition);
     
     // Store in flat map for quick access
-    this.allDefinitions.set(definition.nodeId, definition);
+    this.allDefinitions.set(FunctionRegistryTrie.getDefinitionKey(definition), definition);
     
     // Update indexes for performance
     this.updateIndexes(definition);
   }
 
+  private static getDefinitionKey(definition: FunctionDefinition): string {
+    return `${definition.filePath}:${definition.nodeId}`;
+  }
+
   /**
    * Update performance indexes when adding definitions
    */
@@ -231,7 +235,7 @@ export class FunctionRegistryTrie {
 
     // Remove from all indexes
     for (const definition of definitions) {
-      this.allDefinitions.delete(definition.nodeId);
+      this.allDefinitions.delete(FunctionRegistryTrie.getDefinitionKey(definition));
       
       // Remove from function name index
       const functionDefs = this.functionNameIndex.get(definition.functionName);
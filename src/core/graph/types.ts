@@ -13,6 +13,12 @@ export type NodeLabel =
   | 'Decorator'
   | 'Import'
   | 'Type'
+  | 'BasicBlock'
+  | 'Component'
+  | 'Route'
+  | 'Test'
+  | 'UnresolvedCall'
+  | 'UnresolvedImport'
   | 'CodeElement';
 
 export interface GraphNode {
@@ -33,7 +39,12 @@ export type RelationshipType =
   | 'IMPLEMENTS'
   | 'ACCESSES'
   | 'EXTENDS'
-  | 'BELONGS_TO';
+  | 'BELONGS_TO'
+  | 'FLOWS_TO'
+  | 'DEPENDS_ON'
+  | 'RENDERS'
+  | 'HANDLES'
+  | 'TESTS';
 
 export interface GraphRelationship {
   id: string;
@@ -60,6 +71,7 @@ export interface NodeProperties {
   // File-specific
   definitionCount?: number;
   lineCount?: number;
+  isTest?: boolean;
   
   // Definition-specific
   type?: string;
@@ -68,6 +80,7 @@ export interface NodeProperties {
   qualifiedName?: string;
   parameters?: string[];
   returnType?: string;
+  cyclomaticComplexity?: number;
   
   // Relationship-specific
   relationshipType?: string;
@@ -87,6 +100,9 @@ export interface RelationshipProperties {
   callType?: 'function' | 'method' | 'constructor';
   arguments?: string[];
   
+  // Access-specific
+  mode?: 'read' | 'write';
+  
   // Dependency-specific
   dependencyType?: 'direct' | 'transitive' | 'dev';
   version?: string;
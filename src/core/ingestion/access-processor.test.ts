@@ -0,0 +1,159 @@
+import { AccessProcessor } from './access-processor.js';
+import { ingestFixture, findNode } from './ingestion-fixtures.js';
+import type { SimpleKnowledgeGraph } from '../graph/graph.js';
+import type { NodeLabel } from '../graph/types.js';
+
+const TS_FILES = {
+  'src/state.ts': `export let counter = 0;
+export const limit = 10;
+
+export function bump() {
+  counter += 1;
+  return counter < limit;
+}
+
+export function reset() {
+  counter = 0;
+}
+
+export function shadow(limit: number) {
+  const counter = limit * 2;
+  return counter;
+}
+
+export class Tally {
+  total = 0;
+
+  add(amount: number) {
+    this.total += amount;
+  }
+
+  read() {
+    return this.total;
+  }
+}
+`,
+  'src/main.ts': `import { counter } from './state';
+
+export function show() {
+  return counter;
+}
+`
+};
+
+const PY_FILES = {
+  'app/state.py': `count = 0
+
+
+def bump():
+    global count
+    count += 1
+
+
+def peek():
+    return count
+
+
+def shadow(count):
+    return count
+
+
+def local_only():
+    count = 5
+    return count
+
+
+class Tally:
+    def __init__(self):
+        self.total = 0
+
+    def add(self, amount):
+        self.total += amount
+`
+};
+
+const resolveAccesses = async (files: Record<string, string>) => {
+  const { graph, astMap, importMap } = await ingestFixture(files);
+  await new AccessProcessor().process(graph, astMap, importMap);
+  return graph;
+};
+
+/**
+ * Accesses of one function as `variable mode`, fields qualified by their class, sorted
+ */
+const accessesOf = (graph: SimpleKnowledgeGraph, label: NodeLabel, name: string, filePath: string) => {
+  const owner = findNode(graph, label, name, filePath);
+  return graph.relationships
+    .filter(rel => rel.type === 'ACCESSES' && rel.source === owner.id)
+    .map(rel => {
+      const variable = graph.nodes.find(node => node.id === rel.target)!;
+      return `${variable.properties.qualifiedName ?? variable.properties.name} ${rel.properties.mode}`;
+    })
+    .sort();
+};
+
+describe('AccessProcessor - TypeScript', () => {
+  test('should record reads and writes of module variables', async () => {
+    const graph = await resolveAccesses(TS_FILES);
+
+    expect(accessesOf(graph, 'Function', 'reset', 'src/state.ts')).toEqual(['counter write']);
+    expect(findNode(graph, 'Variable', 'counter', 'src/state.ts').properties.scope).toBe('module');
+  });
+
+  test('should record a compound assignment as a read and a write', async () => {
+    const graph = await resolveAccesses(TS_FILES);
+
+    expect(accessesOf(graph, 'Function', 'bump', 'src/state.ts')).toEqual(['counter read', 'counter write', 'limit read']);
+  });
+
+  test('should not resolve names shadowed by parameters and locals', async () => {
+    const graph = await resolveAccesses(TS_FILES);
+
+    expect(accessesOf(graph, 'Function', 'shadow', 'src/state.ts')).toEqual([]);
+  });
+
+  test('should resolve an imported module variable to its declaring file', async () => {
+    const graph = await resolveAccesses(TS_FILES);
+    const show = findNode(graph, 'Function', 'show', 'src/main.ts');
+    const counter = findNode(graph, 'Variable', 'counter', 'src/state.ts');
+
+    const [access] = graph.relationships.filter(rel => rel.type === 'ACCESSES' && rel.source === show.id);
+
+    expect(access.target).toBe(counter.id);
+    expect(access.properties).toEqual({ mode: 'read', line_number: 4 });
+  });
+
+  test('should record this.x fields as class variables', async () => {
+    const graph = await resolveAccesses(TS_FILES);
+    const total = findNode(graph, 'Variable', 'total', 'src/state.ts');
+    const tally = findNode(graph, 'Class', 'Tally', 'src/state.ts');
+
+    expect(accessesOf(graph, 'Method', 'add', 'src/state.ts')).toEqual(['Tally.total read', 'Tally.total write']);
+    expect(accessesOf(graph, 'Method', 'read', 'src/state.ts')).toEqual(['Tally.total read']);
+    expect(total.properties).toMatchObject({ scope: 'class', parentClass: 'Tally' });
+    expect(graph.relationships.some(rel => rel.type === 'BELONGS_TO' && rel.source === total.id && rel.target === tally.id)).toBe(true);
+  });
+});
+
+describe('AccessProcessor - Python', () => {
+  test('should write a module variable declared global', async () => {
+    const graph = await resolveAccesses(PY_FILES);
+
+    expect(accessesOf(graph, 'Function', 'bump', 'app/state.py')).toEqual(['count read', 'count write']);
+    expect(accessesOf(graph, 'Function', 'peek', 'app/state.py')).toEqual(['count read']);
+  });
+
+  test('should treat assignments without global as locals', async () => {
+    const graph = await resolveAccesses(PY_FILES);
+
+    expect(accessesOf(graph, 'Function', 'local_only', 'app/state.py')).toEqual([]);
+    expect(accessesOf(graph, 'Function', 'shadow', 'app/state.py')).toEqual([]);
+  });
+
+  test('should record self.x fields as class variables', async () => {
+    const graph = await resolveAccesses(PY_FILES);
+
+    expect(accessesOf(graph, 'Method', '__init__', 'app/state.py')).toEqual(['Tally.total write']);
+    expect(accessesOf(graph, 'Method', 'add', 'app/state.py')).toEqual(['Tally.total read', 'Tally.total write']);
+  });
+});
@@ -0,0 +1,831 @@
+import type { KnowledgeGraph, GraphNode } from '../graph/types.ts';
+import type { ParsedAST } from './parsing-processor.ts';
+import type { ImportMap } from './import-processor.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+import Parser from 'web-tree-sitter';
+
+// Simple path utilities for browser compatibility
+const pathUtils = {
+  extname: (filePath: string): string => {
+    const lastDot = filePath.lastIndexOf('.');
+    return lastDot === -1 ? '' : filePath.substring(lastDot);
+  },
+  dirname: (filePath: string): string => {
+    const lastSlash = filePath.lastIndexOf('/');
+    return lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+  }
+};
+
+type Language = 'javascript' | 'python' | 'java' | 'go' | 'rust';
+type AccessMode = 'read' | 'write';
+
+interface FieldIndex {
+  filePath: string;
+  fields: Map<string, string>;  // field name -> Variable node id
+}
+
+/**
+ * A function-like AST node being walked. Accesses are attributed to the innermost
+ * scope that has graph nodes; lambdas and closures only contribute bindings.
+ */
+interface Scope {
+  bindings: Set<string>;
+  ownerIds: string[];
+  className?: string;
+  receiverName?: string;  // `self` / Go receiver name; `this` and Rust `self` are keywords
+  globals: Set<string>;   // Python `global` declarations
+}
+
+// Nodes that open a variable scope
+const FUNCTION_NODES = new Set([
+  'function_declaration', 'function_expression', 'function', 'arrow_function', 'method_definition',
+  'generator_function_declaration', 'generator_function', 'function_definition', 'lambda',
+  'method_declaration', 'constructor_declaration', 'lambda_expression',
+  'function_item', 'closure_expression', 'func_literal'
+]);
+
+const CLASS_NODES = new Set([
+  'class_declaration', 'class', 'abstract_class_declaration', 'class_definition',
+  'enum_declaration', 'record_declaration'
+]);
+
+// Member access: obj.field
+const MEMBER_NODES: Record<string, { object: string; property: string }> = {
+  member_expression: { object: 'object', property: 'property' },
+  attribute: { object: 'object', property: 'attribute' },
+  field_access: { object: 'object', property: 'field' },
+  selector_expression: { object: 'operand', property: 'field' },
+  field_expression: { object: 'value', property: 'field' }
+};
+
+// Assignments whose left side is only written, and ones that also read it
+const ASSIGNMENT_NODES = new Set(['assignment_expression', 'assignment', 'assignment_statement']);
+const COMPOUND_ASSIGNMENT_NODES = new Set([
+  'augmented_assignment_expression', 'augmented_assignment', 'compound_assignment_expr',
+  'update_expression', 'inc_statement', 'dec_statement'
+]);
+
+// Identifier kinds that can reference a variable
+const REFERENCE_NODES = new Set(['identifier', 'shorthand_property_identifier']);
+
+// Subtrees that never contain variable references
+const SKIPPED_NODES = new Set([
+  'import_statement', 'import_from_statement', 'import_declaration', 'package_declaration',
+  'scoped_identifier', 'scoped_type_identifier', 'use_declaration', 'global_statement', 'nonlocal_statement',
+  'type_annotation', 'type_arguments', 'type_parameters', 'comment', 'decorator', 'marker_annotation', 'annotation'
+]);
+
+// Fields of parent nodes whose identifier is a name, not a reference
+const NAME_FIELDS: Record<string, string[]> = {
+  keyword_argument: ['name'],
+  method_invocation: ['name'],
+  function_declaration: ['name'],
+  function_definition: ['name'],
+  class_definition: ['name'],
+  class_declaration: ['name'],
+  method_declaration: ['name'],
+  labeled_statement: ['label'],
+  break_statement: ['label'],
+  continue_statement: ['label']
+};
+
+/**
+ * Records which functions read or write module-level variables and class fields
+ * (`this.x`, `self.x`, Go receiver fields, Java bare field names), as ACCESSES
+ * edges with a `mode` of 'read' or 'write'. Compound assignments and `++` / `--`
+ * produce both. Variables are resolved through local bindings first, then the
+ * file's module scope, then the import map.
+ */
+export class AccessProcessor {
+  private importMap: ImportMap = {};
+  private moduleVariables: Map<string, Map<string, string>> = new Map();  // file -> name -> Variable id
+  private fieldsByClass: Map<string, FieldIndex[]> = new Map();
+  private variablesByFile: Map<string, GraphNode[]> = new Map();
+  private functionsByFile: Map<string, GraphNode[]> = new Map();
+  private classesByFile: Map<string, GraphNode[]> = new Map();
+
+  private stats = {
+    moduleVariables: 0,
+    fields: 0,
+    variablesCreated: 0,
+    reads: 0,
+    writes: 0
+  };
+
+  /**
+   * Resolve variable and field accesses of every function in the parsed files
+   * @param graph The knowledge graph being built
+   * @param astMap Map of file paths to their parsed ASTs
+   * @param importMap Import map built by ImportProcessor
+   * @returns Updated graph with ACCESSES relationships
+   */
+  async process(graph: KnowledgeGraph, astMap: Map<string, ParsedAST>, importMap: ImportMap): Promise<KnowledgeGraph> {
+    console.log('🔎 AccessProcessor: Resolving variable and field accesses...');
+    this.importMap = importMap;
+    this.stats = { moduleVariables: 0, fields: 0, variablesCreated: 0, reads: 0, writes: 0 };
+    this.indexGraph(graph);
+
+    // Index declarations of every file first: accesses resolve across imports
+    for (const [filePath, ast] of astMap) {
+      if (!ast.tree) continue;
+      const language = this.detectLanguage(filePath);
+      if (!language) continue;
+
+      this.collectModuleVariables(graph, filePath, ast.tree.rootNode);
+      this.collectClassFields(graph, filePath, ast.tree.rootNode, language);
+    }
+
+    for (const [filePath, ast] of astMap) {
+      if (!ast.tree) continue;
+      const language = this.detectLanguage(filePath);
+      if (!language) continue;
+
+      try {
+        this.processFileAccesses(graph, filePath, ast.tree.rootNode, language);
+      } catch (error) {
+        console.warn(`⚠️ AccessProcessor: failed to resolve accesses in ${filePath}:`, error);
+      }
+    }
+
+    console.log(`✅ AccessProcessor: ${this.stats.moduleVariables} module variables, ${this.stats.fields} fields (${this.stats.variablesCreated} new nodes), ${this.stats.reads} reads, ${this.stats.writes} writes`);
+    return graph;
+  }
+
+  private indexGraph(graph: KnowledgeGraph): void {
+    this.moduleVariables.clear();
+    this.fieldsByClass.clear();
+    this.variablesByFile.clear();
+    this.functionsByFile.clear();
+    this.classesByFile.clear();
+
+    const index = (map: Map<string, GraphNode[]>, filePath: string, node: GraphNode) => {
+      if (!map.has(filePath)) map.set(filePath, []);
+      map.get(filePath)!.push(node);
+    };
+
+    for (const node of graph.nodes) {
+      const filePath = node.properties.filePath as string | undefined;
+      if (!filePath) continue;
+
+      if (node.label === 'Variable') index(this.variablesByFile, filePath, node);
+      if (node.label === 'Function' || node.label === 'Method') index(this.functionsByFile, filePath, node);
+      if (node.label === 'Class') index(this.classesByFile, filePath, node);
+
+      // Variables and fields of files that are not re-parsed in incremental mode
+      if (node.label === 'Variable' && node.properties.scope === 'module') {
+        if (!this.moduleVariables.has(filePath)) this.moduleVariables.set(filePath, new Map());
+        this.moduleVariables.get(filePath)!.set(node.properties.name as string, node.id);
+      }
+      if (node.label === 'Variable' && node.properties.scope === 'class' && node.properties.parentClass) {
+        const className = node.properties.parentClass as string;
+        if (!this.fieldsByClass.has(className)) this.fieldsByClass.set(className, []);
+        let fieldIndex = this.fieldsByClass.get(className)!.find(index => index.filePath === filePath);
+        if (!fieldIndex) {
+          fieldIndex = { filePath, fields: new Map() };
+          this.fieldsByClass.get(className)!.push(fieldIndex);
+        }
+        fieldIndex.fields.set(node.properties.name as string, node.id);
+      }
+    }
+  }
+
+  /**
+   * Top-level variable, constant and static declarations
+   */
+  private collectModuleVariables(graph: KnowledgeGraph, filePath: string, rootNode: Parser.SyntaxNode): void {
+    const variables = new Map<string, string>();
+    this.moduleVariables.set(filePath, variables);
+
+    const declare = (nameNode: Parser.SyntaxNode, declaration: Parser.SyntaxNode) => {
+      if (variables.has(nameNode.text)) return;
+      const node = this.findOrCreateVariable(graph, filePath, nameNode.text, declaration);
+      node.properties.scope = 'module';
+      variables.set(nameNode.text, node.id);
+      this.stats.moduleVariables++;
+    };
+
+    for (const statement of rootNode.namedChildren) {
+      const declaration = statement.type === 'export_statement' ? statement.childForFieldName('declaration') : statement;
+      if (!declaration) continue;
+
+      switch (declaration.type) {
+        case 'lexical_declaration':
+        case 'variable_declaration':
+          for (const declarator of declaration.namedChildren.filter(child => child.type === 'variable_declarator')) {
+            const name = declarator.childForFieldName('name');
+            if (name) this.patternIdentifiers(name).forEach(identifier => declare(identifier, declaration));
+          }
+          break;
+
+        case 'expression_statement': {
+          // Python: X = 1, X: int = 1, A = B = 1, A, B = 1, 2
+          let assignment: Parser.SyntaxNode | null = declaration.firstNamedChild;
+          while (assignment?.type === 'assignment') {
+            const left = assignment.childForFieldName('left');
+            if (left) this.patternIdentifiers(left).forEach(identifier => declare(identifier, assignment!));
+            assignment = assignment.childForFieldName('right');
+          }
+          break;
+        }
+
+        case 'var_declaration':
+        case 'const_declaration':
+          for (const spec of declaration.descendantsOfType(['var_spec', 'const_spec'])) {
+            spec.namedChildren.filter(child => child.type === 'identifier').forEach(identifier => declare(identifier, spec));
+          }
+          break;
+
+        case 'const_item':
+        case 'static_item': {
+          const name = declaration.childForFieldName('name');
+          if (name) declare(name, declaration);
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Declared fields of classes / structs, plus JS and Python fields introduced by
+   * `this.x = ...` / `self.x = ...` in methods
+   */
+  private collectClassFields(graph: KnowledgeGraph, filePath: string, rootNode: Parser.SyntaxNode, language: Language): void {
+    const classNodes = language === 'go'
+      ? rootNode.descendantsOfType('type_spec').filter(spec => spec.childForFieldName('type')?.type === 'struct_type')
+      : rootNode.descendantsOfType(language === 'rust' ? ['struct_item'] : Array.from(CLASS_NODES));
+
+    for (const classNode of classNodes) {
+      const className = this.getClassName(classNode);
+      if (!className) continue;
+
+      const fields = new Map<string, string>();
+      const classGraphNode = (this.classesByFile.get(filePath) || []).find(node => node.properties.name === className);
+
+      const declare = (nameNode: Parser.SyntaxNode, declaration: Parser.SyntaxNode) => {
+        const name = nameNode.text.replace(/^#/, '');
+        if (fields.has(name)) return;
+
+        const node = this.findOrCreateVariable(graph, filePath, name, declaration, className);
+        node.properties.scope = 'class';
+        node.properties.parentClass = className;
+        node.properties.qualifiedName = `${className}.${name}`;
+        fields.set(name, node.id);
+        this.stats.fields++;
+
+        if (classGraphNode) {
+          graph.addRelationship({
+            id: generateDeterministicId('belongs_to', `${node.id}-${classGraphNode.id}`),
+            type: 'BELONGS_TO',
+            source: node.id,
+            target: classGraphNode.id,
+            properties: {}
+          });
+        }
+      };
+
+      const body = classNode.childForFieldName('body') || classNode.childForFieldName('type')?.namedChildren.find(child => child.type === 'field_declaration_list');
+      for (const member of body?.namedChildren || []) {
+        switch (member.type) {
+          case 'public_field_definition':
+          case 'field_definition': {
+            const name = member.childForFieldName('name') || member.childForFieldName('property');
+            if (name) declare(name, member);
+            break;
+          }
+          case 'field_declaration':
+            // Java declarators, Go / Rust field names
+            member.namedChildren
+              .map(child => child.type === 'variable_declarator' ? child.childForFieldName('name') : child.type === 'field_identifier' ? child : null)
+              .forEach(name => name && declare(name, member));
+            break;
+          case 'expression_statement': {
+            // Python class attributes
+            const assignment = member.firstNamedChild;
+            const left = assignment?.type === 'assignment' ? assignment.childForFieldName('left') : null;
+            if (left?.type === 'identifier') declare(left, assignment!);
+            break;
+          }
+          case 'method_definition':
+            // TypeScript parameter properties: constructor(private repo: Repo)
+            for (const parameter of member.childForFieldName('parameters')?.namedChildren || []) {
+              const pattern = parameter.childForFieldName('pattern');
+              if (pattern?.type === 'identifier' && parameter.children.some(child => child.type === 'accessibility_modifier' || child.type === 'readonly')) {
+                declare(pattern, parameter);
+              }
+            }
+            break;
+        }
+      }
+
+      if (language === 'javascript' || language === 'python') {
+        for (const { receiver, name, assignment } of this.findReceiverAssignments(classNode, language)) {
+          if (receiver && name) declare(name, assignment);
+        }
+      }
+
+      if (!this.fieldsByClass.has(className)) this.fieldsByClass.set(className, []);
+      this.fieldsByClass.get(className)!.push({ filePath, fields });
+    }
+  }
+
+  /**
+   * `this.x = ...` in JS methods and `self.x = ...` in Python methods of a class
+   */
+  private findReceiverAssignments(classNode: Parser.SyntaxNode, language: Language) {
+    const assignments: Array<{ receiver: boolean; name: Parser.SyntaxNode | null; assignment: Parser.SyntaxNode }> = [];
+    const assignmentTypes = language === 'python' ? ['assignment', 'augmented_assignment'] : ['assignment_expression', 'augmented_assignment_expression'];
+
+    for (const assignment of classNode.descendantsOfType(assignmentTypes)) {
+      if (this.enclosingClass(assignment)?.id !== classNode.id) continue;
+
+      for (const target of this.patternIdentifiers(assignment.childForFieldName('left'), true)) {
+        const member = MEMBER_NODES[target.type];
+        if (!member) continue;
+
+        const object = target.childForFieldName(member.object);
+        const receiver = language === 'python'
+          ? object?.type === 'identifier' && object.text === this.getReceiverName(this.enclosingFunction(assignment))
+          : object?.type === 'this';
+        assignments.push({ receiver: !!receiver, name: target.childForFieldName(member.property), assignment });
+      }
+    }
+    return assignments;
+  }
+
+  private findOrCreateVariable(graph: KnowledgeGraph, filePath: string, name: string, declaration: Parser.SyntaxNode, className?: string): GraphNode {
+    const startLine = declaration.startPosition.row + 1;
+    const existing = (this.variablesByFile.get(filePath) || [])
+      .find(node => node.properties.name === name && node.properties.startLine === startLine);
+    if (existing) return existing;
+
+    const node: GraphNode = {
+      id: generateDeterministicId('variable', `${filePath}_${className ? `${className}.` : ''}${name}_${startLine}`),
+      label: 'Variable',
+      properties: {
+        name,
+        type: className ? 'field' : 'variable',
+        startLine,
+        endLine: declaration.endPosition.row + 1,
+        filePath
+      }
+    };
+    graph.addNode(node);
+    if (!this.variablesByFile.has(filePath)) this.variablesByFile.set(filePath, []);
+    this.variablesByFile.get(filePath)!.push(node);
+    this.stats.variablesCreated++;
+
+    const fileNodeId = generateDeterministicId('file', filePath);
+    graph.addRelationship({
+      id: generateDeterministicId('defines', `${fileNodeId}-${node.id}`),
+      type: 'DEFINES',
+      source: fileNodeId,
+      target: node.id,
+      properties: { filePath, line_number: startLine }
+    });
+    return node;
+  }
+
+  private processFileAccesses(graph: KnowledgeGraph, filePath: string, rootNode: Parser.SyntaxNode, language: Language): void {
+    const accesses = new Map<string, { ownerId: string; variableId: string; mode: AccessMode; line: number }>();
+    const functionNodes = this.functionsByFile.get(filePath) || [];
+
+    const record = (scopes: Scope[], variableId: string, modes: AccessMode[], node: Parser.SyntaxNode) => {
+      const owner = [...scopes].reverse().find(scope => scope.ownerIds.length > 0);
+      if (!owner) return;  // Module-level and class-body code
+
+      for (const ownerId of owner.ownerIds) {
+        for (const mode of modes) {
+          const key = `${ownerId}|${variableId}|${mode}`;
+          if (!accesses.has(key)) {
+            accesses.set(key, { ownerId, variableId, mode, line: node.startPosition.row + 1 });
+          }
+        }
+      }
+    };
+
+    const writeModes = this.collectWriteTargets(rootNode);
+
+    const visit = (node: Parser.SyntaxNode, scopes: Scope[]) => {
+      if (SKIPPED_NODES.has(node.type)) return;
+
+      if (FUNCTION_NODES.has(node.type)) {
+        scopes = [...scopes, this.createScope(node, scopes[scopes.length - 1], functionNodes, language)];
+      }
+
+      const member = MEMBER_NODES[node.type];
+      if (member && scopes.length > 0) {
+        const variableId = this.resolveMember(node, member, scopes, filePath);
+        if (variableId) {
+          record(scopes, variableId, writeModes.get(node.id) || ['read'], node);
+          // The receiver itself is not a variable access; arguments inside a subscript object still are
+          return;
+        }
+      }
+
+      if (REFERENCE_NODES.has(node.type) && scopes.length > 0 && !this.isNamePosition(node)) {
+        const variableId = this.resolveIdentifier(node.text, scopes, filePath, language);
+        if (variableId) {
+          record(scopes, variableId, writeModes.get(node.id) || ['read'], node);
+        }
+      }
+
+      for (const child of node.namedChildren) {
+        visit(child, scopes);
+      }
+    };
+    visit(rootNode, []);
+
+    for (const { ownerId, variableId, mode, line } of accesses.values()) {
+      graph.addRelationship({
+        id: generateDeterministicId('accesses', `${ownerId}-${variableId}-${mode}`),
+        type: 'ACCESSES',
+        source: ownerId,
+        target: variableId,
+        properties: { mode, line_number: line }
+      });
+      if (mode === 'read') this.stats.reads++;
+      else this.stats.writes++;
+    }
+  }
+
+  /**
+   * Expression nodes that are assigned to, keyed by node id. The target of
+   * `a.b.c = 1` is `a` (mutating an object is a write to it), except for receiver
+   * fields where it is the `this.b` member expression.
+   */
+  private collectWriteTargets(rootNode: Parser.SyntaxNode): Map<number, AccessMode[]> {
+    const writes = new Map<number, AccessMode[]>();
+    const assignments = rootNode.descendantsOfType([...ASSIGNMENT_NODES, ...COMPOUND_ASSIGNMENT_NODES]);
+
+    for (const assignment of assignments) {
+      // Java and Go share one node type for `=` and `+=`
+      const operator = assignment.childForFieldName('operator')?.text ?? '=';
+      const isCompound = COMPOUND_ASSIGNMENT_NODES.has(assignment.type) || (operator !== '=' && operator !== ':=');
+      const modes: AccessMode[] = isCompound ? ['read', 'write'] : ['write'];
+      const left = assignment.childForFieldName('left') || assignment.childForFieldName('argument') || assignment.firstNamedChild;
+
+      for (const target of this.patternIdentifiers(left, true)) {
+        let current: Parser.SyntaxNode = target;
+        // Walk down to the root of a.b[c].d, stopping at this.x / self.x
+        for (;;) {
+          const member = MEMBER_NODES[current.type];
+          const object = member ? current.childForFieldName(member.object)
+            : current.type === 'subscript_expression' || current.type === 'subscript' || current.type === 'index_expression' || current.type === 'array_access'
+              ? current.namedChildren[0]
+              : null;
+          if (!object || object.type === 'this' || object.type === 'self') break;
+          current = object;
+        }
+        writes.set(current.id, modes);
+        // Also mark the member chain above it so receiver fields and namespace members resolve as writes
+        for (let node: Parser.SyntaxNode | null = target; node && node.id !== current.id; node = MEMBER_NODES[node.type] ? node.childForFieldName(MEMBER_NODES[node.type].object) : node.namedChildren[0]) {
+          writes.set(node.id, modes);
+        }
+      }
+    }
+    return writes;
+  }
+
+  private createScope(functionNode: Parser.SyntaxNode, parent: Scope | undefined, functionNodes: GraphNode[], language: Language): Scope {
+    const startLine = functionNode.startPosition.row + 1;
+    const name = this.getFunctionName(functionNode);
+    const candidates = functionNodes.filter(node => node.properties.startLine === startLine);
+    const named = candidates.filter(node => node.properties.name === name);
+
+    const classNode = this.enclosingClass(functionNode);
+    const className = language === 'go' ? this.getGoReceiverType(functionNode) ?? parent?.className
+      : language === 'rust' ? this.getImplType(functionNode) ?? parent?.className
+      : classNode ? this.getClassName(classNode) : parent?.className;
+
+    const { bindings, globals } = this.collectBindings(functionNode, language);
+    const receiverName = language === 'python' || language === 'go'
+      ? this.getReceiverName(functionNode) ?? parent?.receiverName
+      : undefined;
+
+    return {
+      bindings,
+      globals,
+      ownerIds: (named.length > 0 ? named : candidates.length === 1 || !name ? candidates : []).map(node => node.id),
+      className: className || undefined,
+      receiverName
+    };
+  }
+
+  /**
+   * Names declared inside a function (parameters, locals, loop and catch variables),
+   * not descending into nested functions
+   */
+  private collectBindings(functionNode: Parser.SyntaxNode, language: Language): { bindings: Set<string>; globals: Set<string> } {
+    const bindings = new Set<string>();
+    const globals = new Set<string>();
+    const bind = (pattern: Parser.SyntaxNode | null) => this.patternIdentifiers(pattern).forEach(identifier => bindings.add(identifier.text));
+
+    const parameters = functionNode.childForFieldName('parameters') || functionNode.childForFieldName('parameter');
+    bind(parameters);
+    if (language === 'go') {
+      bind(functionNode.childForFieldName('receiver'));
+    }
+
+    const visit = (node: Parser.SyntaxNode) => {
+      switch (node.type) {
+        case 'variable_declarator':
+        case 'let_declaration':
+          bind(node.childForFieldName('name') || node.childForFieldName('pattern'));
+          break;
+        case 'short_var_declaration':
+        case 'var_spec':
+        case 'const_spec':
+          if (node.type === 'short_var_declaration') bind(node.childForFieldName('left'));
+          else node.namedChildren.filter(child => child.type === 'identifier').forEach(identifier => bindings.add(identifier.text));
+          break;
+        case 'range_clause':
+          if (node.children.some(child => child.type === ':=')) bind(node.childForFieldName('left'));
+          break;
+        case 'for_in_statement':
+          // for (const x of xs); bare `for (x of xs)` assigns an outer variable
+          if (node.children.some(child => child.type === 'const' || child.type === 'let' || child.type === 'var')) bind(node.childForFieldName('left'));
+          break;
+        case 'for_statement':
+        case 'for_expression':
+        case 'enhanced_for_statement':
+          if (language === 'python' || language === 'rust') bind(node.childForFieldName('left') || node.childForFieldName('pattern'));
+          if (language === 'java') bind(node.childForFieldName('name'));
+          break;
+        case 'catch_clause':
+          bind(node.childForFieldName('parameter'));
+          break;
+        case 'catch_formal_parameter':
+        case 'resource':
+          bind(node.childForFieldName('name'));
+          break;
+        case 'assignment':
+        case 'augmented_assignment':
+        case 'named_expression':
+          // Python assignments bind locals unless declared global
+          if (language === 'python') bind(node.childForFieldName('left') || node.childForFieldName('name'));
+          break;
+        case 'as_pattern':
+          bind(node.childForFieldName('alias'));
+          break;
+        case 'except_clause':
+          node.namedChildren.filter(child => child.type === 'identifier').slice(1).forEach(identifier => bindings.add(identifier.text));
+          break;
+        case 'for_in_clause':
+          bind(node.childForFieldName('left'));
+          break;
+        case 'match_pattern':
+        case 'let_condition':
+          bind(node.childForFieldName('pattern') || node);
+          break;
+        case 'global_statement':
+          node.namedChildren.forEach(identifier => globals.add(identifier.text));
+          break;
+        case 'function_declaration':
+        case 'function_definition':
+        case 'class_declaration':
+        case 'class_definition': {
+          const name = node.childForFieldName('name');
+          if (name && node.id !== functionNode.id) bindings.add(name.text);
+          break;
+        }
+      }
+
+      for (const child of node.namedChildren) {
+        if (!FUNCTION_NODES.has(child.type)) visit(child);
+        else if (child.type === 'function_declaration' || child.type === 'function_definition') {
+          const name = child.childForFieldName('name');
+          if (name) bindings.add(name.text);
+        }
+      }
+    };
+    const body = functionNode.childForFieldName('body');
+    if (body) visit(body);
+
+    globals.forEach(name => bindings.delete(name));
+    return { bindings, globals };
+  }
+
+  private resolveIdentifier(name: string, scopes: Scope[], filePath: string, language: Language): string | null {
+    const isGlobal = language === 'python' && scopes[scopes.length - 1].globals.has(name);
+    if (!isGlobal && scopes.some(scope => scope.bindings.has(name))) return null;
+
+    const local = this.moduleVariables.get(filePath)?.get(name);
+    if (local) return local;
+
+    // Java fields are referenced without `this.`
+    const className = scopes[scopes.length - 1].className;
+    if (language === 'java' && className) {
+      const field = this.findField(className, name, filePath);
+      if (field) return field;
+    }
+
+    const imported = this.importMap[filePath]?.[name];
+    if (imported && imported.importType !== 'namespace') {
+      return this.findModuleVariable(imported.targetFile, imported.exportedName);
+    }
+    return null;
+  }
+
+  /**
+   * Receiver fields (this.x, self.x), static fields (Config.x) and members of
+   * namespace imports (config.DEBUG with `import config`)
+   */
+  private resolveMember(node: Parser.SyntaxNode, member: { object: string; property: string }, scopes: Scope[], filePath: string): string | null {
+    const object = node.childForFieldName(member.object);
+    const property = node.childForFieldName(member.property);
+    if (!object || !property) return null;
+
+    const propertyName = property.text.replace(/^#/, '');
+    const scope = scopes[scopes.length - 1];
+
+    const isReceiver = object.type === 'this' || object.type === 'self' ||
+      (object.type === 'identifier' && !!scope.receiverName && object.text === scope.receiverName);
+    if (isReceiver) {
+      const className = [...scopes].reverse().find(candidate => candidate.className)?.className;
+      return className ? this.findField(className, propertyName, filePath) : null;
+    }
+
+    const objectName = object.text;
+    if (!/^[A-Za-z_$][\w$.]*$/.test(objectName)) return null;
+    if (scopes.some(candidate => candidate.bindings.has(objectName.split('.')[0]))) return null;
+
+    const imported = this.importMap[filePath]?.[objectName];
+    if (imported?.importType === 'namespace') {
+      return this.findModuleVariable(imported.targetFile, propertyName);
+    }
+
+    if (this.fieldsByClass.has(objectName) && !this.moduleVariables.get(filePath)?.has(objectName)) {
+      return this.findField(objectName, propertyName, filePath);
+    }
+    return null;
+  }
+
+  /**
+   * Module variable of a file, or of any file of a Go package directory
+   */
+  private findModuleVariable(targetFile: string, name: string): string | null {
+    const direct = this.moduleVariables.get(targetFile)?.get(name);
+    if (direct) return direct;
+
+    for (const [filePath, variables] of this.moduleVariables) {
+      if (pathUtils.dirname(filePath) === targetFile && filePath.endsWith('.go') && variables.has(name)) {
+        return variables.get(name)!;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Field of a class, preferring the class declared in the same file, then the same
+   * directory (Go packages), then a unique declaration anywhere
+   */
+  private findField(className: string, fieldName: string, filePath: string): string | null {
+    const candidates = (this.fieldsByClass.get(className) || []).filter(index => index.fields.has(fieldName));
+    const match = candidates.find(index => index.filePath === filePath) ||
+      candidates.find(index => pathUtils.dirname(index.filePath) === pathUtils.dirname(filePath)) ||
+      (candidates.length === 1 ? candidates[0] : undefined);
+    return match?.fields.get(fieldName) || null;
+  }
+
+  /**
+   * Identifier positions that name something instead of referencing a variable
+   */
+  private isNamePosition(node: Parser.SyntaxNode): boolean {
+    const parent = node.parent;
+    if (!parent) return true;
+
+    const member = MEMBER_NODES[parent.type];
+    if (member && parent.childForFieldName(member.property)?.id === node.id) return true;
+
+    const nameFields = NAME_FIELDS[parent.type];
+    return !!nameFields?.some(field => parent.childForFieldName(field)?.id === node.id);
+  }
+
+  /**
+   * Identifiers bound by a pattern (destructuring, tuples, Go expression lists).
+   * With `includeMembers`, member and subscript targets are returned as well.
+   */
+  private patternIdentifiers(pattern: Parser.SyntaxNode | null, includeMembers = false): Parser.SyntaxNode[] {
+    if (!pattern) return [];
+
+    switch (pattern.type) {
+      case 'identifier':
+      case 'shorthand_property_identifier_pattern':
+        return [pattern];
+      case 'pair_pattern':
+        return this.patternIdentifiers(pattern.childForFieldName('value'), includeMembers);
+      case 'assignment_pattern':
+      case 'object_assignment_pattern':
+        return this.patternIdentifiers(pattern.childForFieldName('left'), includeMembers);
+      case 'required_parameter':
+      case 'optional_parameter':
+      case 'parameter':
+        return this.patternIdentifiers(pattern.childForFieldName('pattern'), includeMembers);
+      case 'default_parameter':
+      case 'typed_default_parameter':
+      case 'formal_parameter':
+      case 'spread_parameter':
+      case 'parameter_declaration':
+      case 'variadic_parameter_declaration':
+        return pattern.namedChildren
+          .filter(child => child.type === 'identifier' || child.type === 'variable_declarator')
+          .flatMap(child => child.type === 'variable_declarator' ? this.patternIdentifiers(child.childForFieldName('name')) : [child]);
+      case 'typed_parameter':
+        return this.patternIdentifiers(pattern.firstNamedChild, includeMembers);
+    }
+
+    if (MEMBER_NODES[pattern.type] || ['subscript_expression', 'subscript', 'index_expression', 'array_access'].includes(pattern.type)) {
+      return includeMembers ? [pattern] : [];
+    }
+    if (/type|annotation|literal|string|number|integer|float/.test(pattern.type)) return [];
+
+    return pattern.namedChildren.flatMap(child => this.patternIdentifiers(child, includeMembers));
+  }
+
+  private enclosingClass(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+    for (let current = node.parent; current; current = current.parent) {
+      if (CLASS_NODES.has(current.type)) return current;
+    }
+    return null;
+  }
+
+  private enclosingFunction(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+    for (let current = node.parent; current; current = current.parent) {
+      if (FUNCTION_NODES.has(current.type)) return current;
+    }
+    return null;
+  }
+
+  private getClassName(classNode: Parser.SyntaxNode): string | undefined {
+    const name = classNode.childForFieldName('name');
+    if (name) return name.text;
+    // const Foo = class { ... }
+    if (classNode.parent?.type === 'variable_declarator') {
+      return classNode.parent.childForFieldName('name')?.text;
+    }
+    return undefined;
+  }
+
+  private getFunctionName(node: Parser.SyntaxNode): string | undefined {
+    const name = node.childForFieldName('name');
+    if (name) return name.text;
+    if (node.parent?.type === 'variable_declarator') {
+      return node.parent.childForFieldName('name')?.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * First parameter of a Python method (self / cls) or the Go receiver name
+   */
+  private getReceiverName(functionNode: Parser.SyntaxNode | null): string | undefined {
+    if (!functionNode) return undefined;
+
+    if (functionNode.type === 'method_declaration' && functionNode.childForFieldName('receiver')) {
+      return this.patternIdentifiers(functionNode.childForFieldName('receiver'))[0]?.text;
+    }
+
+    if (functionNode.type !== 'function_definition') return undefined;
+    const container = functionNode.parent?.type === 'decorated_definition' ? functionNode.parent.parent : functionNode.parent;
+    if (container?.parent?.type !== 'class_definition') return undefined;
+
+    const isStatic = functionNode.parent?.type === 'decorated_definition' &&
+      functionNode.parent.namedChildren.some(child => child.type === 'decorator' && child.text === '@staticmethod');
+    if (isStatic) return undefined;
+
+    return this.patternIdentifiers(functionNode.childForFieldName('parameters')?.firstNamedChild ?? null)[0]?.text;
+  }
+
+  private getGoReceiverType(functionNode: Parser.SyntaxNode): string | undefined {
+    const receiver = functionNode.type === 'method_declaration' ? functionNode.childForFieldName('receiver') : null;
+    const parameter = receiver?.namedChildren.find(child => child.type === 'parameter_declaration');
+    return parameter?.childForFieldName('type')?.text.replace(/^\*/, '').replace(/\[.*\]$/, '');
+  }
+
+  private getImplType(functionNode: Parser.SyntaxNode): string | undefined {
+    for (let current = functionNode.parent; current; current = current.parent) {
+      if (current.type === 'impl_item') {
+        const type = current.childForFieldName('type');
+        return (type?.type === 'generic_type' ? type.childForFieldName('type') : type)?.text;
+      }
+    }
+    return undefined;
+  }
+
+  private detectLanguage(filePath: string): Language | null {
+    const ext = pathUtils.extname(filePath).toLowerCase();
+    if (['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.vue', '.svelte'].includes(ext)) return 'javascript';
+    if (ext === '.py') return 'python';
+    if (ext === '.java') return 'java';
+    if (ext === '.go') return 'go';
+    if (ext === '.rs') return 'rust';
+    return null;
+  }
+
+  /**
+   * Get processing statistics
+   */
+  public getStats() {
+    return { ...this.stats };
+  }
+}
@@ -0,0 +1,48 @@
+import { BuiltinFilter, parseRepoLanguageOverrides } from './builtin-filter.js';
+
+describe('BuiltinFilter', () => {
+  test('should use the language-config lists of the file language', () => {
+    const filter = new BuiltinFilter();
+
+    expect(filter.isBuiltin('find', 'app/repo.py')).toBe(true);
+    expect(filter.isBuiltin('useState', 'src/App.tsx')).toBe(true);
+    expect(filter.isBuiltin('useState', 'app/repo.py')).toBe(false);
+    expect(filter.isBuiltin('find', 'README.md')).toBe(false);
+  });
+
+  test('should apply overrides in order', () => {
+    const filter = new BuiltinFilter(
+      { python: { builtins: { add: ['publish'], remove: ['find'] } } },
+      { python: { builtins: { add: ['find'] } }, typescript: { builtins: { remove: ['create'] } } }
+    );
+
+    expect(filter.isBuiltin('publish', 'app/events.py')).toBe(true);
+    expect(filter.isBuiltin('find', 'app/repo.py')).toBe(true);
+    expect(filter.isBuiltin('create', 'src/store.ts')).toBe(false);
+    expect(filter.isBuiltin('create', 'src/store.js')).toBe(true);
+  });
+
+  test('should match external modules on whole path segments', () => {
+    const filter = new BuiltinFilter({ python: { externalModules: { add: ['boto3'], remove: ['requests'] } } });
+
+    expect(filter.isExternalModule('numpy.linalg', 'app/stats.py')).toBe(true);
+    expect(filter.isExternalModule('numpyro', 'app/stats.py')).toBe(false);
+    expect(filter.isExternalModule('boto3', 'app/s3.py')).toBe(true);
+    expect(filter.isExternalModule('requests', 'app/http.py')).toBe(false);
+    expect(filter.isExternalModule('node:fs', 'src/io.ts')).toBe(true);
+  });
+});
+
+describe('parseRepoLanguageOverrides', () => {
+  test('should read the languages section', () => {
+    const content = JSON.stringify({ languages: { python: { builtins: { remove: ['run'] } } }, other: true });
+
+    expect(parseRepoLanguageOverrides(content)).toEqual({ python: { builtins: { remove: ['run'] } } });
+    expect(parseRepoLanguageOverrides('{}')).toEqual({});
+  });
+
+  test('should reject malformed overrides', () => {
+    expect(() => parseRepoLanguageOverrides('{ "languages": { "python": { "builtins": { "add": "run" } } } }')).toThrow();
+    expect(() => parseRepoLanguageOverrides('not json')).toThrow();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Builtin and external-module lists used to skip library calls during call extraction.
+ * Starts from the per-language lists in language-config.ts, then applies the `languages`
+ * overrides from gitnexus.config.ts and from a `.gitnexus.json` at the repository root:
+ *
+ *   { "languages": { "python": { "builtins": { "remove": ["find"] }, "externalModules": { "add": ["boto3"] } } } }
+ *
+ * A builtin name is only a fallback: CallProcessor ignores a call by name only when no
+ * project definition has that name, so a project `find()` or `create()` is still linked.
+ */
+import { z } from 'zod';
+import { configLoader, LanguagesConfigSchema, type ValidatedGitNexusConfig } from '../../config/config-loader.ts';
+import { LANGUAGE_CONFIGS, languageDetection } from '../../config/language-config.ts';
+
+export const REPO_CONFIG_FILE = '.gitnexus.json';
+
+export type LanguageOverrides = ValidatedGitNexusConfig['languages'];
+
+const RepoConfigSchema = z.object({
+  languages: LanguagesConfigSchema.optional()
+});
+
+// Separators between a module prefix and the rest of the module path
+const MODULE_SEPARATORS = ['.', '/', ':'];
+
+export class BuiltinFilter {
+  private builtins: Map<string, Set<string>> = new Map();
+  private externalModules: Map<string, string[]> = new Map();
+
+  /**
+   * @param overrides Override sections applied in order (gitnexus.config.ts, then .gitnexus.json)
+   */
+  constructor(...overrides: LanguageOverrides[]) {
+    for (const [language, config] of Object.entries(LANGUAGE_CONFIGS)) {
+      const builtins = new Set(config.builtinFunctions);
+      const externalModules = new Set(config.externalModules);
+
+      for (const override of overrides) {
+        const languageOverride = override[language];
+        if (!languageOverride) continue;
+        languageOverride.builtins?.add?.forEach(name => builtins.add(name));
+        languageOverride.builtins?.remove?.forEach(name => builtins.delete(name));
+        languageOverride.externalModules?.add?.forEach(prefix => externalModules.add(prefix));
+        languageOverride.externalModules?.remove?.forEach(prefix => externalModules.delete(prefix));
+      }
+
+      this.builtins.set(language, builtins);
+      this.externalModules.set(language, Array.from(externalModules));
+    }
+  }
+
+  /**
+   * Whether a call name is on the builtin list of the file's language
+   */
+  isBuiltin(name: string, filePath: string): boolean {
+    const language = languageDetection.detectFromExtension(filePath);
+    return language !== null && (this.builtins.get(language)?.has(name) ?? false);
+  }
+
+  /**
+   * Whether a module specifier falls under one of the external-module prefixes of the
+   * file's language (`numpy` matches `numpy` and `numpy.linalg`, not `numpyro`)
+   */
+  isExternalModule(moduleName: string, filePath: string): boolean {
+    const language = languageDetection.detectFromExtension(filePath);
+    if (language === null) return false;
+
+    return (this.externalModules.get(language) || []).some(prefix =>
+      moduleName === prefix ||
+      (moduleName.startsWith(prefix) &&
+        (MODULE_SEPARATORS.includes(prefix[prefix.length - 1]) || MODULE_SEPARATORS.includes(moduleName[prefix.length])))
+    );
+  }
+}
+
+/**
+ * Parse the `languages` section of a repository's .gitnexus.json
+ * @throws Error when the file is not valid JSON or does not match the schema
+ */
+export function parseRepoLanguageOverrides(content: string): LanguageOverrides {
+  const result = RepoConfigSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    throw new Error(result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; '));
+  }
+  return result.data.languages || {};
+}
+
+/**
+ * Filter built from gitnexus.config.ts and the repository's .gitnexus.json, if any
+ */
+export async function loadBuiltinFilter(fileContents: Map<string, string>): Promise<BuiltinFilter> {
+  const { languages } = await configLoader.loadConfig();
+  const overrides: LanguageOverrides[] = [languages];
+
+  const repoConfig = fileContents.get(REPO_CONFIG_FILE);
+  if (repoConfig !== undefined) {
+    try {
+      overrides.push(parseRepoLanguageOverrides(repoConfig));
+    } catch (error) {
+      console.warn(`⚠️ Ignoring ${REPO_CONFIG_FILE}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  for (const language of overrides.flatMap(override => Object.keys(override))) {
+    if (!LANGUAGE_CONFIGS[language]) {
+      console.warn(`⚠️ Unknown language '${language}' in languages config (expected one of ${Object.keys(LANGUAGE_CONFIGS).join(', ')})`);
+    }
+  }
+
+  return new BuiltinFilter(...overrides);
+}
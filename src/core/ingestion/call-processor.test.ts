@@ -0,0 +1,94 @@
+import { ingestFixture, findNode } from './ingestion-fixtures.js';
+import type { SimpleKnowledgeGraph } from '../graph/graph.js';
+import type { GraphNode, RelationshipType } from '../graph/types.js';
+
+const REACT_FILES = {
+  'src/components/Card.tsx': `export function Card({ title, children }: CardProps) {
+  return <div className="card">{title}{children}</div>;
+}
+`,
+  'src/components/ui.tsx': `export function Button({ onClick }: ButtonProps) {
+  return <button onClick={onClick} />;
+}
+`,
+  'src/hooks/useUser.ts': `export function useUser(id: string) {
+  return { id };
+}
+`,
+  'src/App.tsx': `import { useState } from 'react';
+import { Card } from './components/Card';
+import * as UI from './components/ui';
+import { useUser } from './hooks/useUser';
+
+export function App() {
+  const [open, setOpen] = useState(false);
+  const user = useUser('1');
+  return (
+    <Card title={user.id} key="main">
+      <UI.Button onClick={() => setOpen(!open)} />
+    </Card>
+  );
+}
+`
+};
+
+const relationshipsFrom = (graph: SimpleKnowledgeGraph, source: GraphNode, type: RelationshipType) =>
+  graph.relationships.filter(rel => rel.type === type && rel.source === source.id);
+
+describe('CallProcessor - JSX renders', () => {
+  test('should resolve a component through its import with the props it is passed', async () => {
+    const { graph } = await ingestFixture(REACT_FILES);
+    const app = findNode(graph, 'Function', 'App', 'src/App.tsx');
+    const card = findNode(graph, 'Function', 'Card', 'src/components/Card.tsx');
+
+    const render = relationshipsFrom(graph, app, 'RENDERS').find(rel => rel.target === card.id);
+
+    // key is consumed by React; the nested element arrives as children
+    expect(render?.properties).toMatchObject({
+      componentName: 'Card',
+      props: ['title', 'children'],
+      startLine: 10,
+      stage: 'exact'
+    });
+  });
+
+  test('should resolve a member element through a namespace import', async () => {
+    const { graph } = await ingestFixture(REACT_FILES);
+    const app = findNode(graph, 'Function', 'App', 'src/App.tsx');
+    const button = findNode(graph, 'Function', 'Button', 'src/components/ui.tsx');
+
+    const render = relationshipsFrom(graph, app, 'RENDERS').find(rel => rel.target === button.id);
+
+    expect(render?.properties).toMatchObject({ componentName: 'Button', props: ['onClick'] });
+  });
+
+  test('should not render intrinsic elements or call rendered components', async () => {
+    const { graph } = await ingestFixture(REACT_FILES);
+    const app = findNode(graph, 'Function', 'App', 'src/App.tsx');
+    const card = findNode(graph, 'Function', 'Card', 'src/components/Card.tsx');
+
+    expect(relationshipsFrom(graph, app, 'RENDERS')).toHaveLength(2);
+    expect(relationshipsFrom(graph, card, 'RENDERS')).toEqual([]);
+    expect(relationshipsFrom(graph, app, 'CALLS')).toEqual([]);
+  });
+});
+
+describe('CallProcessor - hooks', () => {
+  test('should link a custom hook with USES instead of CALLS', async () => {
+    const { graph } = await ingestFixture(REACT_FILES);
+    const app = findNode(graph, 'Function', 'App', 'src/App.tsx');
+    const useUser = findNode(graph, 'Function', 'useUser', 'src/hooks/useUser.ts');
+
+    const uses = relationshipsFrom(graph, app, 'USES');
+
+    expect(uses).toHaveLength(1);
+    expect(uses[0].target).toBe(useUser.id);
+    expect(uses[0].properties).toMatchObject({ usageType: 'hook', context: 'useUser', line_number: 8 });
+  });
+
+  test('should leave React hooks out of the graph', async () => {
+    const { graph } = await ingestFixture(REACT_FILES);
+
+    expect(graph.relationships.some(rel => rel.properties.context === 'useState' || rel.properties.functionName === 'useState')).toBe(false);
+  });
+});
@@ -1,8 +1,13 @@
 import type { KnowledgeGraph, GraphRelationship } from '../graph/types.ts';
 import type { ParsedAST } from './parsing-processor.ts';
 import type { ImportMap } from './import-processor.ts';
-import { FunctionRegistryTrie } from '../graph/trie.ts';
+import { FunctionRegistryTrie, FunctionDefinition } from '../graph/trie.ts';
 import { generateDeterministicId } from '../../lib/utils.ts';
+import { BuiltinFilter } from './builtin-filter.ts';
+import { ReceiverTypeIndex } from './receiver-type-inference.ts';
+import { filterReceiverCallTargets } from './reference-resolution.ts';
+import { getDecoratedDefinition, getDecoratorCall } from './decorator-extractor.ts';
+import { addDiagnosticNodes, type ResolutionDiagnostic, type UnresolvedCallCategory } from './resolution-diagnostics.ts';
 import Parser from 'web-tree-sitter';
 
 // Simple path utilities for browser compatibility
@@ -21,15 +26,29 @@ interface CallInfo {
   callerFile: string;
   callerFunction?: string;
   functionName: string;
+  receiver?: string;  // Qualifier of a selector call, e.g. 'util' in util.Log()
+  receiverType?: string;  // Inferred class of the receiver, e.g. 'Repo' for repo.save()
   startLine: number;
   endLine: number;
   callType: 'function_call' | 'method_call' | 'constructor_call';
+  renderProps?: string[];  // Set for JSX elements (<UserCard user={u} />): a render rather than a call
+  decorates?: DecoratedDefinition;  // Set for decorators: the definition they are applied to
 }
 
+interface DecoratedDefinition {
+  name: string;
+  startLine: number;  // Lines of the definition including its decorators
+  endLine: number;
+  arguments: string[];
+}
+
+// Custom React hooks (useAuth, useUserData) are used rather than called
+const HOOK_NAME_PATTERN = /^use[A-Z0-9]/;
+
 interface ResolutionResult {
   success: boolean;
   targetNodeId?: string;
-  stage: 'exact' | 'same_file' | 'heuristic' | 'failed';
+  stage: 'exact' | 'same_file' | 'type_inference' | 'heuristic' | 'failed';
   confidence: 'high' | 'medium' | 'low';
   distance?: number;
 }
@@ -38,12 +57,19 @@ export class CallProcessor {
   private importMap: ImportMap = {};
   private functionTrie: FunctionRegistryTrie;
   private astMap: Map<string, ParsedAST> = new Map();
+  private typeDefinitions: Map<string, FunctionDefinition> = new Map();  // class/interface node id -> definition
+  private supertypes: Map<string, string[]> = new Map();  // class/interface node id -> EXTENDS / IMPLEMENTS targets
+  private projectFiles: Set<string> = new Set();
+  private diagnostics: ResolutionDiagnostic[] = [];
+  private builtinFilter: BuiltinFilter;
+  private projectDefinitionNames: Set<string> = new Set();
   
   // Statistics
   private processorStats = {
     totalCalls: 0,
     exactMatches: 0,
     sameFileMatches: 0,
+    typeInferenceMatches: 0,
     heuristicMatches: 0,
     failed: 0,
     callTypes: {} as Record<string, number>,
@@ -61,6 +87,7 @@ export class CallProcessor {
     totalCalls: 0,
     exactMatches: 0,
     sameFileMatches: 0,
+    typeInferenceMatches: 0,
     heuristicMatches: 0,
     failed: 0,
     callTypes: {} as Record<string, number>,
@@ -71,12 +98,13 @@ export class CallProcessor {
     }
   };
 
-  constructor(functionTrie: FunctionRegistryTrie) {
+  constructor(functionTrie: FunctionRegistryTrie, builtinFilter: BuiltinFilter = new BuiltinFilter()) {
     this.functionTrie = functionTrie;
+    this.builtinFilter = builtinFilter;
   }
 
   /**
-   * Process function calls using the 3-stage resolution strategy
+   * Process function calls using the 4-stage resolution strategy
    * This runs AFTER ImportProcessor has built the complete import map
    */
   async process(
@@ -89,6 +117,10 @@ export class CallProcessor {
 
       this.importMap = importMap;
       this.astMap = astMap;
+      this.indexTypeHierarchy(graph);
+      this.projectFiles = new Set(graph.nodes.filter(node => node.label === 'File').map(node => String(node.properties.filePath)));
+      this.diagnostics = [];
+      this.projectDefinitionNames = new Set(this.functionTrie.getAllDefinitions().map(def => def.functionName));
       // Reset statistics
       this.stats = {
         nodesProcessed: 0,
@@ -96,6 +128,7 @@ export class CallProcessor {
         totalCalls: 0,
         exactMatches: 0,
         sameFileMatches: 0,
+        typeInferenceMatches: 0,
         heuristicMatches: 0,
         failed: 0,
         callTypes: {},
@@ -113,6 +146,9 @@ export class CallProcessor {
         }
       }
 
+      // Unresolved calls become UnresolvedCall nodes for the diagnostics report
+      addDiagnosticNodes(graph, this.diagnostics);
+
       console.log('✅ CallProcessor: Completed call resolution');
       this.logProcessorStats();
 
@@ -131,15 +167,24 @@ export class CallProcessor {
     graph: KnowledgeGraph
   ): Promise<void> {
     const calls = this.extractFunctionCalls(ast.tree!.rootNode, filePath);
+    this.inferReceiverTypes(ast.tree!.rootNode, filePath, calls);
     
     for (const call of calls) {
+      if (this.isLibraryCall(call)) continue;
+
       this.stats.totalCalls++;
       this.stats.callTypes[call.callType] = (this.stats.callTypes[call.callType] || 0) + 1;
       
       const resolution = await this.resolveCall(call);
       
+      // A decorator name alone is too weak to guess its definition from; @app.get is a
+      // method of the app object, not a same-file function named get
+      if (call.decorates && (resolution.stage === 'heuristic' || (resolution.stage === 'same_file' && call.receiver))) {
+        resolution.success = false;
+      }
+      
       if (resolution.success && resolution.targetNodeId) {
-        await this.createCallRelationship(graph, call, resolution.targetNodeId);
+        await this.createCallRelationship(graph, call, resolution);
         
         // Update statistics
         switch (resolution.stage) {
@@ -149,14 +194,16 @@ export class CallProcessor {
           case 'same_file':
             this.stats.sameFileMatches++;
             break;
+          case 'type_inference':
+            this.stats.typeInferenceMatches++;
+            break;
           case 'heuristic':
             this.stats.heuristicMatches++;
             break;
         }
       } else {
         this.stats.failed++;
-        // TODO: Implement failure categorization
-        // this.categorizeFailureWithReason(call, this.diagnoseFailure(call));
+        this.categorizeFailureWithReason(call, this.diagnoseFailure(call));
       }
     }
   }
@@ -183,7 +230,7 @@ export class CallProcessor {
   }
 
   /**
-   * 3-Stage Call Resolution Strategy
+   * 4-Stage Call Resolution Strategy
    */
   private async resolveCall(call: CallInfo): Promise<ResolutionResult> {
     // Stage 1: Exact Match using ImportMap
@@ -198,7 +245,13 @@ export class CallProcessor {
       return sameFileResult;
     }
 
-    // Stage 3: Heuristic Fallback
+    // Stage 3: Receiver Type Match
+    const typeInferenceResult = this.stageTypeInferenceMatch(call);
+    if (typeInferenceResult.success) {
+      return typeInferenceResult;
+    }
+
+    // Stage 4: Heuristic Fallback
     const heuristicResult = this.stageHeuristicMatch(call);
     return heuristicResult;
   }
@@ -255,6 +308,22 @@ export class CallProcessor {
       }
     }
 
+    // Qualified call through an imported receiver: utils.someFunction() / pkg.Func() / Helper.staticMethod() / Type::new()
+    const receiverImport = call.receiver ? this.importMap[call.callerFile]?.[call.receiver] : undefined;
+    const language = this.detectLanguage(call.callerFile);
+    if (receiverImport) {
+      const targetDefinitions = filterReceiverCallTargets(this.functionTrie.findEndingWith(call.functionName), receiverImport, language);
+
+      if (targetDefinitions.length > 0) {
+        return {
+          success: true,
+          targetNodeId: targetDefinitions[0].nodeId,
+          stage: 'exact',
+          confidence: 'high'
+        };
+      }
+    }
+
     return { success: false, stage: 'exact', confidence: 'high' };
   }
 
@@ -273,11 +342,133 @@ export class CallProcessor {
       };
     }
 
+    // Go and Java: every file in a package directory shares one namespace
+    const language = this.detectLanguage(call.callerFile);
+    if ((language === 'go' || language === 'java') && !call.receiver) {
+      const callerDir = pathUtils.dirname(call.callerFile);
+      const samePackageDefinitions = this.functionTrie.findEndingWith(call.functionName)
+        .filter(def => pathUtils.dirname(def.filePath) === callerDir);
+
+      if (samePackageDefinitions.length > 0) {
+        return {
+          success: true,
+          targetNodeId: samePackageDefinitions[0].nodeId,
+          stage: 'same_file',
+          confidence: 'high'
+        };
+      }
+    }
+
     return { success: false, stage: 'same_file', confidence: 'high' };
   }
 
   /**
-   * Stage 3: Heuristic Fallback (Intelligent Guessing)
+   * Stage 3: Receiver Type Match (High Confidence)
+   * Resolves obj.method() to the method declared on the inferred class of obj,
+   * walking up EXTENDS / IMPLEMENTS edges when the method is inherited
+   */
+  private stageTypeInferenceMatch(call: CallInfo): ResolutionResult {
+    const receiverClass = call.receiverType
+      ? this.resolveReceiverClass(call.receiverType, call.callerFile)
+      : null;
+
+    if (receiverClass) {
+      const visited = new Set<string>();
+      const queue: FunctionDefinition[] = [receiverClass];
+
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (visited.has(current.nodeId)) continue;
+        visited.add(current.nodeId);
+
+        const method = this.functionTrie.findInSameFile(current.filePath, call.functionName).find(def =>
+          def.type === 'method' &&
+          (def.startLine ?? 0) >= (current.startLine ?? 0) &&
+          (def.endLine ?? 0) <= (current.endLine ?? 0)
+        );
+
+        if (method) {
+          return {
+            success: true,
+            targetNodeId: method.nodeId,
+            stage: 'type_inference',
+            confidence: current === receiverClass ? 'high' : 'medium'
+          };
+        }
+
+        for (const supertypeId of this.supertypes.get(current.nodeId) || []) {
+          const supertype = this.typeDefinitions.get(supertypeId);
+          if (supertype) queue.push(supertype);
+        }
+      }
+    }
+
+    return { success: false, stage: 'type_inference', confidence: 'high' };
+  }
+
+  /**
+   * Find the class or interface a receiver type name refers to from the caller's point of view
+   */
+  private resolveReceiverClass(typeName: string, callerFile: string): FunctionDefinition | null {
+    const isType = (def: FunctionDefinition) => def.type === 'class' || def.type === 'interface';
+
+    const importInfo = this.importMap[callerFile]?.[typeName];
+    if (importInfo) {
+      const typesInFile = this.functionTrie.getDefinitionsInFile(importInfo.targetFile).filter(isType);
+      const imported = typesInFile.find(def =>
+        def.functionName === importInfo.exportedName ||
+        (importInfo.importType === 'default' && (def.functionName === typeName || typesInFile.length === 1))
+      );
+      if (imported) return imported;
+    }
+
+    const sameFile = this.functionTrie.findInSameFile(callerFile, typeName).filter(isType);
+    if (sameFile.length > 0) return sameFile[0];
+
+    // Only trust a global match when the name is unambiguous
+    const candidates = this.functionTrie.findEndingWith(typeName).filter(isType);
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  /**
+   * Index classes/interfaces and the EXTENDS / IMPLEMENTS edges from InheritanceProcessor
+   */
+  private indexTypeHierarchy(graph: KnowledgeGraph): void {
+    this.typeDefinitions = new Map();
+    this.supertypes = new Map();
+
+    for (const def of [...this.functionTrie.findByType('class'), ...this.functionTrie.findByType('interface')]) {
+      this.typeDefinitions.set(def.nodeId, def);
+    }
+
+    for (const relationship of graph.relationships) {
+      if (relationship.type !== 'EXTENDS' && relationship.type !== 'IMPLEMENTS') continue;
+      if (!this.supertypes.has(relationship.source)) {
+        this.supertypes.set(relationship.source, []);
+      }
+      this.supertypes.get(relationship.source)!.push(relationship.target);
+    }
+  }
+
+  /**
+   * Attach inferred receiver types to JavaScript/TypeScript and Python method calls
+   */
+  private inferReceiverTypes(rootNode: Parser.SyntaxNode, filePath: string, calls: CallInfo[]): void {
+    const language = this.detectLanguage(filePath);
+    if (language !== 'javascript' && language !== 'python') return;
+    if (!calls.some(call => call.receiver)) return;
+
+    const typeIndex = new ReceiverTypeIndex(rootNode, language);
+    for (const call of calls) {
+      if (!call.receiver || call.callType !== 'method_call') continue;
+      // Capitalised receivers with no binding are treated as static calls on a class (Repo.create())
+      call.receiverType = typeIndex.lookup(call.receiver, call.startLine)
+        ?? (/^[A-Z][\w$]*$/.test(call.receiver) ? call.receiver : undefined);
+    }
+  }
+
+  /**
+   * Stage 4: Heuristic Fallback (Intelligent Guessing)
    */
   private stageHeuristicMatch(call: CallInfo): ResolutionResult {
     // Use trie to find all functions ending with this name
@@ -374,178 +565,16 @@ export class CallProcessor {
   }
 
   /**
-   * Check if a function call should be ignored (built-ins, standard library, etc.)
+   * Check if a function call should be ignored (built-ins, standard library, etc.).
+   * Builtin names only apply when the project has no definition of that name.
    */
   private shouldIgnoreCall(functionName: string, filePath: string): boolean {
-    // Python built-in functions that should be ignored
-    const pythonBuiltins = new Set([
-      'int', 'str', 'float', 'bool', 'list', 'dict', 'set', 'tuple',
-      'len', 'range', 'enumerate', 'zip', 'map', 'filter', 'sorted',
-      'sum', 'min', 'max', 'abs', 'round', 'all', 'any', 'hasattr',
-      'getattr', 'setattr', 'isinstance', 'issubclass', 'type',
-      'print', 'input', 'open', 'format', 'join', 'split', 'strip',
-      'replace', 'upper', 'lower', 'append', 'extend', 'insert',
-      'remove', 'pop', 'clear', 'copy', 'update', 'keys', 'values',
-      'items', 'get', 'add', 'discard', 'union', 'intersection',
-      'difference', 'now', 'today', 'fromisoformat', 'isoformat',
-      'astimezone', 'random', 'choice', 'randint', 'shuffle',
-      'locals', 'globals', 'vars', 'dir', 'help', 'id', 'hash',
-      'ord', 'chr', 'bin', 'oct', 'hex', 'divmod', 'pow', 'exec',
-      'eval', 'compile', 'next', 'iter', 'reversed', 'slice',
-      // String methods
-      'endswith', 'startswith', 'find', 'rfind', 'index', 'rindex',
-      'count', 'encode', 'decode', 'capitalize', 'title', 'swapcase',
-      'center', 'ljust', 'rjust', 'zfill', 'expandtabs', 'splitlines',
-      'partition', 'rpartition', 'translate', 'maketrans', 'casefold',
-      'isalnum', 'isalpha', 'isascii', 'isdecimal', 'isdigit', 'isidentifier',
-      'islower', 'isnumeric', 'isprintable', 'isspace', 'istitle', 'isupper',
-      'lstrip', 'rstrip', 'removeprefix', 'removesuffix',
-      // List/sequence methods
-      'sort', 'reverse', 'count', 'index',
-      // Dictionary methods
-      'setdefault', 'popitem', 'fromkeys',
-      // Set methods
-      'difference_update', 'intersection_update', 'symmetric_difference',
-      'symmetric_difference_update', 'isdisjoint', 'issubset', 'issuperset',
-      // Date/time methods
-      'strftime', 'strptime', 'timestamp', 'weekday', 'isoweekday',
-      'date', 'time', 'timetz', 'utctimetuple', 'timetuple',
-      // Common exceptions
-      'ValueError', 'TypeError', 'KeyError', 'IndexError', 'AttributeError',
-      'ImportError', 'ModuleNotFoundError', 'FileNotFoundError',
-      'ConnectionError', 'HTTPException', 'RuntimeError', 'OSError',
-      'Exception', 'BaseException', 'StopIteration', 'GeneratorExit',
-      // Logging methods
-      'debug', 'info', 'warning', 'error', 'critical', 'exception',
-      // Common library functions
-      'getLogger', 'basicConfig', 'StreamHandler', 'load_dotenv',
-      'getenv', 'dirname', 'abspath', 'join', 'exists', 'run',
-      // Database/ORM methods
-      'find', 'find_one', 'update_one', 'insert_one', 'delete_one',
-      'aggregate', 'bulk_write', 'to_list', 'sort', 'limit', 'close',
-      // Pydantic/FastAPI
-      'Field', 'validator', 'field_validator', 'model_dump', 'model_dump_json',
-      // Motor/MongoDB
-      'ObjectId', 'UpdateOne', 'AsyncIOMotorClient', 'command',
-      // FastAPI
-      'FastAPI', 'HTTPException', 'add_middleware', 'include_router',
-      // Threading/async
-      'Lock', 'RLock', 'Semaphore', 'Event', 'Condition', 'Barrier',
-      'sleep', 'gather', 'create_task', 'run_until_complete',
-      // Collections
-      'defaultdict', 'Counter', 'OrderedDict', 'deque', 'namedtuple',
-      // Math/statistics (numpy, pandas, statistics)
-      'mean', 'median', 'mode', 'stdev', 'variance', 'sqrt', 'pow',
-      'sin', 'cos', 'tan', 'log', 'exp', 'ceil', 'floor',
-      // UUID
-      'uuid4', 'uuid1', 'uuid3', 'uuid5',
-      // URL/HTTP
-      'quote', 'unquote', 'quote_plus', 'unquote_plus', 'urlencode',
-      // JSON
-      'loads', 'dumps', 'load', 'dump',
-      // Regex
-      'match', 'search', 'findall', 'finditer', 'sub', 'subn', 'compile',
-      // Azure/OpenAI specific
-      'AsyncAzureOpenAI', 'AzureOpenAI', 'OpenAI', 'wrap_openai', 'create'
-    ]);
-
-    // Check if it's a Python file and the function is a built-in
-    if (filePath.endsWith('.py') && pythonBuiltins.has(functionName)) {
-      return true;
+    if (this.projectDefinitionNames.has(functionName)) {
+      return false;
     }
 
-    // JavaScript/TypeScript built-ins and common library functions
-    const jsBuiltins = new Set([
-      // Core JavaScript functions
-      'parseInt', 'parseFloat', 'isNaN', 'isFinite', 'encodeURI', 'decodeURI',
-      'encodeURIComponent', 'decodeURIComponent', 'escape', 'unescape',
-      // Array methods
-      'push', 'pop', 'shift', 'unshift', 'slice', 'splice', 'concat', 'join',
-      'reverse', 'sort', 'indexOf', 'lastIndexOf', 'includes', 'find', 'findIndex',
-      'filter', 'map', 'reduce', 'reduceRight', 'forEach', 'some', 'every',
-      'flat', 'flatMap', 'fill', 'copyWithin', 'from', 'of', 'isArray',
-      // Object methods
-      'keys', 'values', 'entries', 'assign', 'create', 'defineProperty',
-      'defineProperties', 'freeze', 'seal', 'preventExtensions', 'hasOwnProperty',
-      'isPrototypeOf', 'propertyIsEnumerable', 'toString', 'valueOf', 'toLocaleString',
-      // String methods
-      'charAt', 'charCodeAt', 'codePointAt', 'concat', 'endsWith', 'includes',
-      'indexOf', 'lastIndexOf', 'localeCompare', 'match', 'normalize', 'padEnd',
-      'padStart', 'repeat', 'replace', 'search', 'slice', 'split', 'startsWith',
-      'substring', 'substr', 'toLowerCase', 'toUpperCase', 'trim', 'trimEnd',
-      'trimStart', 'trimLeft', 'trimRight',
-      // Number methods
-      'toFixed', 'toExponential', 'toPrecision', 'isInteger', 'isSafeInteger',
-      'isFinite', 'isNaN', 'parseFloat', 'parseInt',
-      // Date methods
-      'getTime', 'getDate', 'getDay', 'getFullYear', 'getHours', 'getMinutes',
-      'getSeconds', 'getMilliseconds', 'getMonth', 'setDate', 'setFullYear',
-      'setHours', 'setMinutes', 'setSeconds', 'setMilliseconds', 'setMonth',
-      'toDateString', 'toTimeString', 'toISOString', 'toJSON', 'now', 'parse',
-      // Promise methods
-      'then', 'catch', 'finally', 'resolve', 'reject', 'all', 'race', 'allSettled',
-      // Console methods
-      'log', 'error', 'warn', 'info', 'debug', 'trace', 'assert', 'clear',
-      'count', 'dir', 'dirxml', 'group', 'groupCollapsed', 'groupEnd', 'table',
-      'time', 'timeEnd', 'timeLog', 'profile', 'profileEnd',
-      // DOM methods (common ones)
-      'getElementById', 'getElementsByClassName', 'getElementsByTagName',
-      'querySelector', 'querySelectorAll', 'createElement', 'createTextNode',
-      'appendChild', 'removeChild', 'insertBefore', 'replaceChild', 'cloneNode',
-      'getAttribute', 'setAttribute', 'removeAttribute', 'hasAttribute',
-      'addEventListener', 'removeEventListener', 'dispatchEvent',
-      'preventDefault', 'stopPropagation', 'stopImmediatePropagation',
-      'focus', 'blur', 'click', 'submit', 'reset', 'scrollIntoView',
-      // Common library methods (React, etc.)
-      'useState', 'useEffect', 'useContext', 'useReducer', 'useCallback',
-      'useMemo', 'useRef', 'useImperativeHandle', 'useLayoutEffect', 'useDebugValue',
-      'memo', 'forwardRef', 'lazy', 'Suspense', 'Fragment', 'createElement',
-      'cloneElement', 'isValidElement', 'render', 'hydrate', 'unmountComponentAtNode',
-      // HTTP/Fetch
-      'fetch', 'get', 'post', 'put', 'delete', 'patch', 'head', 'options',
-      // JSON
-      'stringify', 'parse',
-      // Math
-      'abs', 'acos', 'asin', 'atan', 'atan2', 'ceil', 'cos', 'exp', 'floor',
-      'log', 'max', 'min', 'pow', 'random', 'round', 'sin', 'sqrt', 'tan',
-      // Common testing functions
-      'describe', 'it', 'test', 'expect', 'beforeEach', 'afterEach', 'beforeAll', 'afterAll',
-      'mock', 'spy', 'stub', 'restore', 'reset', 'resetAllMocks', 'clearAllMocks',
-      // Node.js specific
-      'require', 'module', 'exports', '__dirname', '__filename', 'process', 'global',
-      'Buffer', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval',
-      'setTimeout', 'clearTimeout',
-      // Worker API
-      'postMessage', 'onmessage', 'onerror', 'close', 'importScripts',
-      // JavaScript constructors and built-ins
-      'Array', 'Object', 'String', 'Number', 'Boolean', 'Function', 'Date',
-      'RegExp', 'Error', 'TypeError', 'ReferenceError', 'SyntaxError',
-      'RangeError', 'EvalError', 'URIError', 'AggregateError',
-      'Set', 'Map', 'WeakSet', 'WeakMap', 'Symbol', 'BigInt',
-      'Promise', 'Proxy', 'Reflect', 'ArrayBuffer', 'SharedArrayBuffer',
-      'DataView', 'Int8Array', 'Uint8Array', 'Int16Array', 'Uint16Array',
-      'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array',
-      'BigInt64Array', 'BigUint64Array',
-      // Configuration and build tools
-      'config', 'define', 'plugin', 'preset', 'loader', 'rule',
-      'extend', 'override', 'merge', 'concat', 'apply',
-      // ESLint specific
-      'rules', 'extends', 'parser', 'parserOptions', 'env', 'globals',
-      // Bundler/build tools
-      'bundle', 'chunk', 'entry', 'output', 'optimization', 'resolve',
-      'devtool', 'target', 'externals', 'stats', 'performance',
-      // Process and execution
-      'exec', 'spawn', 'fork', 'execSync', 'spawnSync',
-      // File system operations
-      'readFile', 'writeFile', 'readdir', 'stat', 'mkdir', 'rmdir',
-      'unlink', 'rename', 'copyFile', 'access', 'watch', 'createReadStream',
-      'createWriteStream'
-    ]);
-
-    // Check if it's a JS/TS file and the function is a built-in
-    if ((filePath.endsWith('.js') || filePath.endsWith('.ts') || 
-         filePath.endsWith('.jsx') || filePath.endsWith('.tsx')) && 
-        jsBuiltins.has(functionName)) {
+    // Language builtins and common library functions (language-config.ts plus `languages` overrides)
+    if (this.builtinFilter.isBuiltin(functionName, filePath)) {
       return true;
     }
 
@@ -576,10 +605,24 @@ export class CallProcessor {
     const calls: CallInfo[] = [];
     const language = this.detectLanguage(filePath);
 
-    if (language === 'python') {
-      this.extractPythonCalls(node, filePath, calls);
-    } else {
-      this.extractJSCalls(node, filePath, calls);
+    switch (language) {
+      case 'python':
+        this.extractPythonCalls(node, filePath, calls);
+        break;
+      case 'go':
+        this.extractGoCalls(node, filePath, calls);
+        break;
+      case 'java':
+        this.extractJavaCalls(node, filePath, calls);
+        break;
+      case 'rust':
+        this.extractRustCalls(node, filePath, calls);
+        break;
+      case 'csharp':
+        this.extractCSharpCalls(node, filePath, calls);
+        break;
+      default:
+        this.extractJSCalls(node, filePath, calls);
     }
 
     return calls;
@@ -589,6 +632,10 @@ export class CallProcessor {
    * Extract Python function calls
    */
   private extractPythonCalls(node: Parser.SyntaxNode, filePath: string, calls: CallInfo[]): void {
+    if (node.type === 'decorator') {
+      this.addDecorator(node, filePath, calls);
+    }
+
     if (node.type === 'call') {
       const functionNode = node.childForFieldName('function');
       if (functionNode) {
@@ -600,9 +647,10 @@ export class CallProcessor {
           calls.push({
             callerFile: filePath,
             functionName,
+            receiver: this.extractReceiverName(functionNode, 'attribute', 'object', 'attribute'),
             startLine: node.startPosition.row + 1,
             endLine: node.endPosition.row + 1,
-            callType: 'function_call'
+            callType: functionNode.type === 'attribute' ? 'method_call' : 'function_call'
           });
         } else {
           // Reduced logging - don't log every individual extraction failure
@@ -634,12 +682,17 @@ export class CallProcessor {
           calls.push({
             callerFile: filePath,
             functionName,
+            receiver: this.extractReceiverName(functionNode, 'member_expression', 'object', 'property'),
             startLine: node.startPosition.row + 1,
             endLine: node.endPosition.row + 1,
             callType: functionNode.type === 'member_expression' ? 'method_call' : 'function_call'
           });
         }
       }
+    } else if (node.type === 'jsx_opening_element' || node.type === 'jsx_self_closing_element') {
+      this.addJSXRender(node, filePath, calls);
+    } else if (node.type === 'decorator') {
+      this.addDecorator(node, filePath, calls);
     } else if (node.type === 'new_expression') {
       const constructorNode = node.childForFieldName('constructor');
       if (constructorNode) {
@@ -666,6 +719,380 @@ export class CallProcessor {
     }
   }
 
+  /**
+   * Record a JSX element naming a component (<UserCard />, <UI.Button>) as a render of
+   * that component with the props it passes; lowercase tags are intrinsic elements
+   */
+  private addJSXRender(node: Parser.SyntaxNode, filePath: string, calls: CallInfo[]): void {
+    const nameNode = node.childForFieldName('name');
+    if (!nameNode || (nameNode.type !== 'identifier' && nameNode.type !== 'member_expression')) return;
+
+    const componentName = this.extractJSCallName(nameNode);
+    if (!componentName || !/^[A-Z]/.test(componentName) || this.shouldIgnoreCall(componentName, filePath)) return;
+
+    const renderProps = node.namedChildren
+      .filter(attribute => attribute.type === 'jsx_attribute')
+      .map(attribute => attribute.firstNamedChild?.text)
+      .filter((name): name is string => !!name && name !== 'key');  // key is consumed by React
+
+    // Element children are passed as the children prop
+    if (node.type === 'jsx_opening_element' && node.parent?.namedChildren.some(child => child.type !== 'jsx_opening_element' && child.type !== 'jsx_closing_element')) {
+      renderProps.push('children');
+    }
+
+    calls.push({
+      callerFile: filePath,
+      functionName: componentName,
+      receiver: this.extractReceiverName(nameNode, 'member_expression', 'object', 'property'),
+      startLine: node.startPosition.row + 1,
+      endLine: node.endPosition.row + 1,
+      callType: 'function_call',
+      renderProps
+    });
+  }
+
+  /**
+   * Record a Python / TypeScript decorator as an application of the decorator function
+   * to the definition it precedes (the call of a decorator factory is recorded as usual)
+   */
+  private addDecorator(node: Parser.SyntaxNode, filePath: string, calls: CallInfo[]): void {
+    const decorator = getDecoratorCall(node);
+    const definition = getDecoratedDefinition(node);
+    const definitionName = definition?.childForFieldName('name')?.text;
+    if (!decorator || !definition || !definitionName) return;
+
+    const isPython = filePath.endsWith('.py');
+    const functionName = isPython ? this.extractPythonCallName(decorator.callee) : this.extractJSCallName(decorator.callee);
+    if (!functionName) return;
+
+    const outerDefinition = definition.parent?.type === 'decorated_definition' || definition.parent?.type === 'export_statement'
+      ? definition.parent
+      : definition;
+
+    calls.push({
+      callerFile: filePath,
+      functionName,
+      receiver: isPython
+        ? this.extractReceiverName(decorator.callee, 'attribute', 'object', 'attribute')
+        : this.extractReceiverName(decorator.callee, 'member_expression', 'object', 'property'),
+      startLine: node.startPosition.row + 1,
+      endLine: node.endPosition.row + 1,
+      callType: 'function_call',
+      decorates: {
+        name: definitionName,
+        startLine: Math.min(outerDefinition.startPosition.row, node.startPosition.row) + 1,
+        endLine: definition.endPosition.row + 1,
+        arguments: decorator.arguments?.namedChildren.map(argument => argument.text) ?? []
+      }
+    });
+  }
+
+  /**
+   * Extract Go function calls
+   */
+  private extractGoCalls(node: Parser.SyntaxNode, filePath: string, calls: CallInfo[]): void {
+    if (node.type === 'call_expression') {
+      const functionNode = node.childForFieldName('function');
+      if (functionNode?.type === 'identifier') {
+        if (!this.shouldIgnoreCall(functionNode.text, filePath)) {
+          calls.push({
+            callerFile: filePath,
+            functionName: functionNode.text,
+            startLine: node.startPosition.row + 1,
+            endLine: node.endPosition.row + 1,
+            callType: 'function_call'
+          });
+        }
+      } else if (functionNode?.type === 'selector_expression') {
+        this.addGoSelectorCall(functionNode, node, filePath, calls, 'method_call');
+      }
+    } else if (node.type === 'composite_literal') {
+      // Struct literals (Server{...}, util.Config{...}) are Go's constructors
+      const typeNode = node.childForFieldName('type');
+      if (typeNode?.type === 'type_identifier') {
+        if (!this.shouldIgnoreCall(typeNode.text, filePath)) {
+          calls.push({
+            callerFile: filePath,
+            functionName: typeNode.text,
+            startLine: node.startPosition.row + 1,
+            endLine: node.endPosition.row + 1,
+            callType: 'constructor_call'
+          });
+        }
+      } else if (typeNode?.type === 'qualified_type') {
+        this.addGoSelectorCall(typeNode, node, filePath, calls, 'constructor_call');
+      }
+    }
+
+    // Recursively process children
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i);
+      if (child) {
+        this.extractGoCalls(child, filePath, calls);
+      }
+    }
+  }
+
+  /**
+   * Record a qualified Go call (pkg.Func(), obj.Method(), pkg.Type{})
+   */
+  private addGoSelectorCall(
+    selectorNode: Parser.SyntaxNode,
+    callNode: Parser.SyntaxNode,
+    filePath: string,
+    calls: CallInfo[],
+    callType: CallInfo['callType']
+  ): void {
+    const operandNode = selectorNode.childForFieldName('operand') || selectorNode.childForFieldName('package');
+    const nameNode = selectorNode.childForFieldName('field') || selectorNode.childForFieldName('name');
+    if (!operandNode || !nameNode) return;
+
+    const receiver = operandNode.text;
+    const packageImport = this.importMap[filePath]?.[receiver];
+
+    if (packageImport) {
+      // Standard library / third-party packages never resolve to project code
+      if (packageImport.targetFile === packageImport.exportedName) return;
+      // pkg.Func() is a plain function call, not a method call
+      if (callType === 'method_call') callType = 'function_call';
+    }
+
+    if (this.shouldIgnoreCall(nameNode.text, filePath)) return;
+
+    calls.push({
+      callerFile: filePath,
+      functionName: nameNode.text,
+      receiver: operandNode.type === 'identifier' || operandNode.type === 'package_identifier' ? receiver : undefined,
+      startLine: callNode.startPosition.row + 1,
+      endLine: callNode.endPosition.row + 1,
+      callType
+    });
+  }
+
+  /**
+   * Extract Java method invocations and object creations
+   */
+  private extractJavaCalls(node: Parser.SyntaxNode, filePath: string, calls: CallInfo[]): void {
+    if (node.type === 'method_invocation') {
+      const nameNode = node.childForFieldName('name');
+      const objectNode = node.childForFieldName('object');
+      const receiver = objectNode?.type === 'identifier' ? objectNode.text : undefined;
+      const receiverImport = receiver ? this.importMap[filePath]?.[receiver] : undefined;
+
+      // JDK / third-party classes never resolve to project code
+      const isExternalReceiver = receiverImport !== undefined && receiverImport.targetFile === receiverImport.exportedName;
+
+      if (nameNode && !isExternalReceiver && !this.shouldIgnoreCall(nameNode.text, filePath)) {
+        calls.push({
+          callerFile: filePath,
+          functionName: nameNode.text,
+          receiver,
+          startLine: node.startPosition.row + 1,
+          endLine: node.endPosition.row + 1,
+          callType: 'method_call'
+        });
+      }
+    } else if (node.type === 'object_creation_expression') {
+      const typeName = this.extractJavaTypeName(node.childForFieldName('type'));
+      if (typeName && !this.shouldIgnoreCall(typeName, filePath)) {
+        calls.push({
+          callerFile: filePath,
+          functionName: typeName,
+          startLine: node.startPosition.row + 1,
+          endLine: node.endPosition.row + 1,
+          callType: 'constructor_call'
+        });
+      }
+    }
+
+    // Recursively process children
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i);
+      if (child) {
+        this.extractJavaCalls(child, filePath, calls);
+      }
+    }
+  }
+
+  /**
+   * Get the simple class name from a Java type node (Foo, Foo<T>, com.acme.Foo)
+   */
+  private extractJavaTypeName(typeNode: Parser.SyntaxNode | null): string | null {
+    if (!typeNode) return null;
+    if (typeNode.type === 'generic_type') {
+      return this.extractJavaTypeName(typeNode.firstNamedChild);
+    }
+    if (typeNode.type === 'scoped_type_identifier') {
+      return this.extractJavaTypeName(typeNode.lastNamedChild);
+    }
+    return typeNode.type === 'type_identifier' ? typeNode.text : null;
+  }
+
+  /**
+   * Extract C# invocations (Save(), repo.Save(), Helpers.Log<T>()) and object creations
+   */
+  private extractCSharpCalls(node: Parser.SyntaxNode, filePath: string, calls: CallInfo[]): void {
+    if (node.type === 'invocation_expression') {
+      const functionNode = node.childForFieldName('function');
+      const nameNode = functionNode?.type === 'member_access_expression'
+        ? functionNode.childForFieldName('name')
+        : functionNode;
+      const objectNode = functionNode?.type === 'member_access_expression' ? functionNode.childForFieldName('expression') : null;
+      const functionName = this.extractCSharpTypeName(nameNode ?? null);
+      const receiver = objectNode?.type === 'identifier' ? objectNode.text : undefined;
+      const receiverImport = receiver ? this.importMap[filePath]?.[receiver] : undefined;
+
+      // BCL / NuGet types never resolve to project code
+      const isExternalReceiver = receiverImport !== undefined && receiverImport.targetFile === receiverImport.exportedName;
+
+      if (functionName && !isExternalReceiver && !this.shouldIgnoreCall(functionName, filePath)) {
+        calls.push({
+          callerFile: filePath,
+          functionName,
+          receiver,
+          startLine: node.startPosition.row + 1,
+          endLine: node.endPosition.row + 1,
+          callType: 'method_call'
+        });
+      }
+    } else if (node.type === 'object_creation_expression') {
+      const typeName = this.extractCSharpTypeName(node.childForFieldName('type'));
+      if (typeName && !this.shouldIgnoreCall(typeName, filePath)) {
+        calls.push({
+          callerFile: filePath,
+          functionName: typeName,
+          startLine: node.startPosition.row + 1,
+          endLine: node.endPosition.row + 1,
+          callType: 'constructor_call'
+        });
+      }
+    }
+
+    // Recursively process children
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i);
+      if (child) {
+        this.extractCSharpCalls(child, filePath, calls);
+      }
+    }
+  }
+
+  /**
+   * Get the simple name from a C# name node (Foo, Foo<T>, Acme.Models.Foo)
+   */
+  private extractCSharpTypeName(nameNode: Parser.SyntaxNode | null): string | null {
+    if (!nameNode) return null;
+    if (nameNode.type === 'generic_name') {
+      return nameNode.firstNamedChild?.text ?? null;
+    }
+    if (nameNode.type === 'qualified_name') {
+      return this.extractCSharpTypeName(nameNode.lastNamedChild);
+    }
+    return nameNode.type === 'identifier' ? nameNode.text : null;
+  }
+
+  /**
+   * Extract Rust calls: helper(), self.run(), Type::new(), module::func() and struct literals
+   */
+  private extractRustCalls(node: Parser.SyntaxNode, filePath: string, calls: CallInfo[]): void {
+    if (node.type === 'call_expression') {
+      const functionNode = node.childForFieldName('function');
+
+      if (functionNode?.type === 'identifier') {
+        this.addRustCall(functionNode.text, undefined, node, filePath, calls, 'function_call');
+      } else if (functionNode?.type === 'field_expression') {
+        const fieldNode = functionNode.childForFieldName('field');
+        if (fieldNode) {
+          this.addRustCall(fieldNode.text, undefined, node, filePath, calls, 'method_call');
+        }
+      } else if (functionNode?.type === 'scoped_identifier') {
+        // The closest path segment is the type or module the function lives in
+        const nameNode = functionNode.childForFieldName('name');
+        const pathNode = functionNode.childForFieldName('path');
+        const receiver = pathNode?.text.split('::').pop();
+        if (nameNode) {
+          this.addRustCall(nameNode.text, receiver, node, filePath, calls, 'function_call');
+        }
+      }
+    } else if (node.type === 'struct_expression') {
+      const nameNode = node.childForFieldName('name');
+      const typeName = nameNode?.type === 'scoped_type_identifier'
+        ? nameNode.childForFieldName('name')?.text
+        : nameNode?.text;
+      if (typeName && typeName !== 'Self') {
+        this.addRustCall(typeName, undefined, node, filePath, calls, 'constructor_call');
+      }
+    }
+
+    // Recursively process children
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i);
+      if (child) {
+        this.extractRustCalls(child, filePath, calls);
+      }
+    }
+  }
+
+  private addRustCall(
+    functionName: string,
+    receiver: string | undefined,
+    callNode: Parser.SyntaxNode,
+    filePath: string,
+    calls: CallInfo[],
+    callType: CallInfo['callType']
+  ): void {
+    // Self::helper() refers to the enclosing impl, which same-file resolution already covers
+    const qualifier = receiver === 'Self' || receiver === 'self' ? undefined : receiver;
+    const receiverImport = qualifier ? this.importMap[filePath]?.[qualifier] : undefined;
+
+    // std / external crate paths never resolve to project code
+    if (receiverImport && receiverImport.targetFile === receiverImport.exportedName) return;
+    if (this.shouldIgnoreCall(functionName, filePath)) return;
+
+    calls.push({
+      callerFile: filePath,
+      functionName,
+      receiver: qualifier,
+      startLine: callNode.startPosition.row + 1,
+      endLine: callNode.endPosition.row + 1,
+      callType
+    });
+  }
+
+  /**
+   * Receiver of a member call as a binding key: 'repo' for repo.save(),
+   * 'this.repo' / 'self.repo' for this.repo.save(), 'this' for this.save()
+   */
+  private extractReceiverName(
+    functionNode: Parser.SyntaxNode,
+    memberType: string,
+    objectField: string,
+    propertyField: string
+  ): string | undefined {
+    if (functionNode.type !== memberType) return undefined;
+
+    const objectNode = functionNode.childForFieldName(objectField);
+    if (!objectNode) return undefined;
+    if (objectNode.type === 'identifier' || objectNode.type === 'this') {
+      return objectNode.text;
+    }
+
+    if (objectNode.type === memberType) {
+      const innerObject = objectNode.childForFieldName(objectField);
+      const property = objectNode.childForFieldName(propertyField);
+      if (property && (innerObject?.type === 'this' || innerObject?.text === 'self')) {
+        return `${innerObject.text}.${property.text}`;
+      }
+
+      // Python module paths: pkg.module.func() after `import pkg.module`
+      if (memberType === 'attribute' && /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)+$/.test(objectNode.text)) {
+        return objectNode.text;
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Extract function name from Python call node
    */
@@ -764,12 +1191,19 @@ export class CallProcessor {
   private async createCallRelationship(
     graph: KnowledgeGraph,
     call: CallInfo,
-    targetNodeId: string
+    resolution: ResolutionResult
   ): Promise<void> {
+    const targetNodeId = resolution.targetNodeId!;
     // Find the caller node (could be a function, method, or file)
     const callerNode = this.findCallerNode(graph, call);
     
-    if (callerNode) {
+    if (call.decorates) {
+      this.createDecoratesRelationship(graph, call, resolution);
+    } else if (callerNode && call.renderProps) {
+      this.createRenderRelationship(graph, callerNode.id, call, resolution);
+    } else if (callerNode && HOOK_NAME_PATTERN.test(call.functionName) && call.callType === 'function_call' && this.isFunctionDefinition(targetNodeId)) {
+      this.createHookRelationship(graph, callerNode.id, call, resolution);
+    } else if (callerNode) {
       const relationship: GraphRelationship = {
         id: generateDeterministicId('calls', `${callerNode.id}-${targetNodeId}-${call.functionName}`),
         type: 'CALLS',
@@ -779,7 +1213,9 @@ export class CallProcessor {
           callType: this.convertCallType(call.callType),
           functionName: call.functionName,
           startLine: call.startLine,
-          endLine: call.endLine
+          endLine: call.endLine,
+          confidence: this.confidenceScore(resolution),
+          stage: resolution.stage
         }
       };
 
@@ -797,6 +1233,123 @@ export class CallProcessor {
     }
   }
 
+  /**
+   * RENDERS edge from the component (or function) returning a JSX element to the
+   * component it names, with the union of the prop names passed at its render sites
+   */
+  private createRenderRelationship(graph: KnowledgeGraph, callerNodeId: string, call: CallInfo, resolution: ResolutionResult): void {
+    const targetNodeId = resolution.targetNodeId!;
+    const existingRel = graph.relationships.find(r =>
+      r.type === 'RENDERS' &&
+      r.source === callerNodeId &&
+      r.target === targetNodeId
+    );
+
+    if (existingRel) {
+      const props = new Set([...(existingRel.properties.props as string[]), ...call.renderProps!]);
+      existingRel.properties.props = Array.from(props);
+      return;
+    }
+
+    graph.addRelationship({
+      id: generateDeterministicId('renders', `${callerNodeId}-${targetNodeId}`),
+      type: 'RENDERS',
+      source: callerNodeId,
+      target: targetNodeId,
+      properties: {
+        componentName: call.functionName,
+        props: Array.from(new Set(call.renderProps)),
+        startLine: call.startLine,
+        endLine: call.endLine,
+        confidence: this.confidenceScore(resolution),
+        stage: resolution.stage
+      }
+    });
+    this.stats.relationshipsProcessed++;
+  }
+
+  /**
+   * DECORATES edge from the decorator's definition to the function, method or class it is applied to
+   */
+  private createDecoratesRelationship(graph: KnowledgeGraph, call: CallInfo, resolution: ResolutionResult): void {
+    const targetNodeId = resolution.targetNodeId!;
+    const decorates = call.decorates!;
+    const decorated = this.functionTrie.getDefinitionsInFile(call.callerFile).find(def =>
+      def.functionName === decorates.name &&
+      (def.startLine ?? 0) >= decorates.startLine &&
+      (def.startLine ?? 0) <= decorates.endLine
+    );
+    if (!decorated || decorated.nodeId === targetNodeId) return;
+
+    const relationshipId = generateDeterministicId('decorates', `${targetNodeId}-${decorated.nodeId}`);
+    if (graph.relationships.some(r => r.id === relationshipId)) return;
+
+    graph.addRelationship({
+      id: relationshipId,
+      type: 'DECORATES',
+      source: targetNodeId,
+      target: decorated.nodeId,
+      properties: {
+        decorator: call.receiver ? `${call.receiver}.${call.functionName}` : call.functionName,
+        arguments: decorates.arguments,
+        line_number: call.startLine,
+        confidence: this.confidenceScore(resolution),
+        stage: resolution.stage
+      }
+    });
+    this.stats.relationshipsProcessed++;
+  }
+
+  /**
+   * USES edge from a function to the custom hook it calls
+   */
+  private createHookRelationship(graph: KnowledgeGraph, callerNodeId: string, call: CallInfo, resolution: ResolutionResult): void {
+    const targetNodeId = resolution.targetNodeId!;
+    const existingRel = graph.relationships.find(r =>
+      r.type === 'USES' &&
+      r.source === callerNodeId &&
+      r.target === targetNodeId
+    );
+    if (existingRel) return;
+
+    graph.addRelationship({
+      id: generateDeterministicId('uses', `${callerNodeId}-${targetNodeId}`),
+      type: 'USES',
+      source: callerNodeId,
+      target: targetNodeId,
+      properties: {
+        usageType: 'hook',
+        context: call.functionName,
+        line_number: call.startLine,
+        confidence: this.confidenceScore(resolution),
+        stage: resolution.stage
+      }
+    });
+    this.stats.relationshipsProcessed++;
+  }
+
+  private isFunctionDefinition(nodeId: string): boolean {
+    return this.functionTrie.findByType('function').some(def => def.nodeId === nodeId);
+  }
+
+  /**
+   * Numeric CALLS edge confidence for the stage that resolved the call
+   */
+  private confidenceScore(resolution: ResolutionResult): number {
+    switch (resolution.stage) {
+      case 'exact':
+        return 1.0;
+      case 'same_file':
+        return 0.9;
+      case 'type_inference':
+        return resolution.confidence === 'high' ? 0.85 : 0.75;
+      case 'heuristic':
+        return resolution.confidence === 'medium' ? 0.5 : 0.3;
+      default:
+        return 0;
+    }
+  }
+
   private convertCallType(callType: 'function_call' | 'method_call' | 'constructor_call'): 'function' | 'method' | 'constructor' {
     switch (callType) {
       case 'function_call':
@@ -847,9 +1400,14 @@ export class CallProcessor {
   /**
    * Detect programming language
    */
-  private detectLanguage(filePath: string): 'python' | 'javascript' {
+  private detectLanguage(filePath: string): 'python' | 'javascript' | 'go' | 'java' | 'rust' | 'csharp' {
     const ext = pathUtils.extname(filePath).toLowerCase();
-    return ext === '.py' ? 'python' : 'javascript';
+    if (ext === '.py') return 'python';
+    if (ext === '.go') return 'go';
+    if (ext === '.java') return 'java';
+    if (ext === '.rs') return 'rust';
+    if (ext === '.cs') return 'csharp';
+    return 'javascript';
   }
 
   /**
@@ -860,6 +1418,7 @@ export class CallProcessor {
       totalCalls: 0,
       exactMatches: 0,
       sameFileMatches: 0,
+      typeInferenceMatches: 0,
       heuristicMatches: 0,
       failed: 0,
       callTypes: {},
@@ -889,54 +1448,83 @@ export class CallProcessor {
   }
 
   /**
-   * Categorize a failed call for statistics with detailed reason
+   * Categorize a failed call for statistics and record it for the diagnostics report
    */
-  private categorizeFailureWithReason(call: CallInfo, reason: string): void {
-    // Check if this is an expected failure (external library or built-in)
-    if (this.shouldIgnoreCall(call.functionName, call.callerFile)) {
-      // It's a call we expect to fail (external library or built-in)
-      if (call.callerFile.endsWith('.py')) {
-        this.stats.failuresByCategory.ambiguousMatches++;
-      } else {
+  private categorizeFailureWithReason(call: CallInfo, failure: { category: UnresolvedCallCategory; reason: string }): void {
+    switch (failure.category) {
+      case 'external_library':
+      case 'not_found':
         this.stats.failuresByCategory.externalLibraries++;
-      }
-    } else {
-      // It's a call to user code that we failed to resolve (unexpected)
-      this.stats.failuresByCategory.actualFailures++;
+        break;
+      case 'ambiguous':
+      case 'unknown_receiver':
+        this.stats.failuresByCategory.ambiguousMatches++;
+        break;
+      default:
+        this.stats.failuresByCategory.actualFailures++;
+    }
+
+    this.diagnostics.push({
+      kind: 'call',
+      filePath: call.callerFile,
+      line: call.startLine,
+      callee: call.receiver ? `${call.receiver}.${call.functionName}` : call.functionName,
+      category: failure.category,
+      reason: failure.reason
+    });
+  }
+
+  /**
+   * Whether a call goes to library code: through a name imported from a configured external
+   * module (np.mean, readFileSync from node:fs) or on a builtin object (Math.round, JSON.parse)
+   */
+  private isLibraryCall(call: CallInfo): boolean {
+    const callImport = this.getCallImport(call);
+    if (callImport) {
+      return !this.projectFiles.has(callImport.targetFile) && this.builtinFilter.isExternalModule(callImport.targetFile, call.callerFile);
     }
+
+    // Builtin classes and namespace objects only: lowercase builtin names (items, config) are common variable names
+    const receiverRoot = call.receiver?.split('.')[0];
+    return receiverRoot !== undefined && /^[A-Z]/.test(receiverRoot) &&
+      !this.projectDefinitionNames.has(receiverRoot) && this.builtinFilter.isBuiltin(receiverRoot, call.callerFile);
+  }
+
+  /**
+   * Import of the called name, or of the module / object a method is called on
+   */
+  private getCallImport(call: CallInfo): ImportMap[string][string] | undefined {
+    const importedName = call.receiver ? call.receiver.split('.')[0] : call.functionName;
+    return this.importMap[call.callerFile]?.[importedName];
   }
 
   /**
    * Diagnose why a specific call failed
    */
-  private diagnoseFailure(call: CallInfo): string {
-    // Check if it's in import map but target not found
-    const importInfo = this.importMap[call.callerFile]?.[call.functionName];
+  private diagnoseFailure(call: CallInfo): { category: UnresolvedCallCategory; reason: string } {
+    const importInfo = this.getCallImport(call);
     if (importInfo) {
-      const targetDefinitions = this.functionTrie.getAllDefinitions().filter(def =>
-        def.filePath === importInfo.targetFile && 
-        (def.functionName === importInfo.exportedName || 
-         (importInfo.exportedName === 'default' && def.functionName === call.functionName))
-      );
-      
-      if (targetDefinitions.length === 0) {
-        return `Imported from ${importInfo.targetFile} but definition not found`;
+      if (!this.projectFiles.has(importInfo.targetFile)) {
+        return { category: 'external_library', reason: `Provided by external module '${importInfo.targetFile}'` };
       }
+      return { category: 'missing_definition', reason: `Imported from ${importInfo.targetFile} but no definition of '${call.functionName}' found` };
     }
-    
-    // Check if function exists in same file
-    const sameFileDefinitions = this.functionTrie.findInSameFile(call.callerFile, call.functionName);
-    if (sameFileDefinitions.length === 0) {
-      // Check if any similar functions exist
-      const candidates = this.functionTrie.findEndingWith(call.functionName);
-      if (candidates.length === 0) {
-        return `No function named '${call.functionName}' found anywhere`;
-      } else {
-        return `Function '${call.functionName}' not in same file, ${candidates.length} candidates in other files`;
-      }
+
+    const candidates = this.functionTrie.findEndingWith(call.functionName);
+    if (candidates.length === 0) {
+      return { category: 'not_found', reason: `No definition named '${call.functionName}' in the project` };
     }
-    
-    return 'Unknown failure reason';
+    if (call.receiver) {
+      return { category: 'unknown_receiver', reason: `Type of '${call.receiver}' not inferred; ${candidates.length} definitions named '${call.functionName}'` };
+    }
+    return { category: 'ambiguous', reason: `'${call.functionName}' not imported; ${candidates.length} candidates in other files` };
+  }
+
+  /**
+   * Calls that could not be resolved in the last run
+   */
+  public getDiagnostics(): ResolutionDiagnostic[] {
+    return [...this.diagnostics];
   }
 
   /**
@@ -954,7 +1542,7 @@ export class CallProcessor {
   private logProcessorStats(): void {
     const stats = this.stats;
     const total = stats.totalCalls;
-    const resolved = stats.exactMatches + stats.sameFileMatches + stats.heuristicMatches;
+    const resolved = stats.exactMatches + stats.sameFileMatches + stats.typeInferenceMatches + stats.heuristicMatches;
     const resolutionRate = total > 0 ? ((resolved / total) * 100).toFixed(1) : '0';
 
     console.log('📊 CallProcessor Statistics:');
@@ -962,6 +1550,7 @@ export class CallProcessor {
     console.log(`  Successfully resolved: ${resolved} (${resolutionRate}%)`);
     console.log(`  - Exact matches: ${stats.exactMatches}`);
     console.log(`  - Same file matches: ${stats.sameFileMatches}`);
+    console.log(`  - Receiver type matches: ${stats.typeInferenceMatches}`);
     console.log(`  - Heuristic matches: ${stats.heuristicMatches}`);
     console.log(`  Failed to resolve: ${stats.failed}`);
     
@@ -988,6 +1577,7 @@ export class CallProcessor {
       totalCalls: this.stats.totalCalls,
       exactMatches: this.stats.exactMatches,
       sameFileMatches: this.stats.sameFileMatches,
+      typeInferenceMatches: this.stats.typeInferenceMatches,
       heuristicMatches: this.stats.heuristicMatches,
       failed: this.stats.failed,
       callTypes: { ...this.stats.callTypes },
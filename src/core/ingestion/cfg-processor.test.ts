@@ -0,0 +1,266 @@
+import { CFGProcessor } from './cfg-processor.js';
+import { ingestFixture, findNode } from './ingestion-fixtures.js';
+import type { SimpleKnowledgeGraph } from '../graph/graph.js';
+import type { NodeLabel } from '../graph/types.js';
+
+const TS_SOURCE = `export function grade(score: number) {
+  if (score > 90) {
+    return 'a';
+  } else if (score > 50) {
+    return 'b';
+  } else {
+    return 'c';
+  }
+}
+
+export function scan(items: string[]) {
+  let seen = 0;
+  for (const item of items) {
+    if (!item) continue;
+    if (item === 'stop') break;
+    seen++;
+  }
+  return seen;
+}
+
+export function guard(value?: string) {
+  if (!value) return null;
+  const trimmed = value.trim();
+  return trimmed;
+}
+
+export function check(value: number) {
+  if (value < 0) {
+    throw new Error('negative');
+  }
+  return value;
+}
+
+export function safe(run: () => void) {
+  try {
+    run();
+  } catch (error) {
+    console.error(error);
+  } finally {
+    console.log('done');
+  }
+}
+
+export function pick(kind: string) {
+  switch (kind) {
+    case 'a':
+      return 1;
+    case 'b':
+    case 'c':
+      return 2;
+    default:
+      return 0;
+  }
+}
+
+export function straight() {
+  const a = 1;
+  return a;
+}
+`;
+
+const PY_SOURCE = `def grade(score):
+    if score > 90:
+        return 'a'
+    elif score > 50:
+        return 'b'
+    else:
+        return 'c'
+
+
+def scan(items):
+    seen = 0
+    for item in items:
+        if not item:
+            continue
+        if item == 'stop':
+            break
+        seen += 1
+    return seen
+
+
+def safe(run):
+    try:
+        run()
+    except ValueError:
+        raise
+    finally:
+        print('done')
+`;
+
+const buildCFGs = async (files: Record<string, string>) => {
+  const { graph, astMap } = await ingestFixture(files);
+  await new CFGProcessor().process(graph, astMap);
+  return graph;
+};
+
+/**
+ * Block types by index and flows as `from->to flowType`, sorted
+ */
+const cfgOf = (graph: SimpleKnowledgeGraph, label: NodeLabel, name: string, filePath: string) => {
+  const functionNode = findNode(graph, label, name, filePath);
+  const blocks = graph.nodes
+    .filter(node => node.label === 'BasicBlock' && node.properties.functionId === functionNode.id)
+    .sort((a, b) => blockIndex(a.properties.name as string) - blockIndex(b.properties.name as string));
+  const indexById = new Map(blocks.map(block => [block.id, blockIndex(block.properties.name as string)]));
+
+  const flows = graph.relationships
+    .filter(rel => rel.type === 'FLOWS_TO' && indexById.has(rel.source))
+    .map(rel => `${indexById.get(rel.source)}->${indexById.get(rel.target)} ${rel.properties.flowType}`)
+    .sort();
+
+  return {
+    complexity: functionNode.properties.cyclomaticComplexity,
+    blockTypes: blocks.map(block => block.properties.blockType),
+    flows,
+    entryFlows: graph.relationships.filter(rel => rel.type === 'FLOWS_TO' && rel.source === functionNode.id)
+  };
+};
+
+const blockIndex = (blockName: string) => Number(blockName.split('#').pop());
+
+describe('CFGProcessor - TypeScript', () => {
+  test('should branch on if / else if / else', async () => {
+    const graph = await buildCFGs({ 'src/flow.ts': TS_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'grade', 'src/flow.ts');
+
+    expect(cfg.blockTypes).toEqual(['entry', 'exit', 'branch', 'branch', 'branch', 'branch']);
+    expect(cfg.flows).toEqual([
+      '0->2 true', '0->3 false', '2->1 return', '3->4 true', '3->5 false', '4->1 return', '5->1 return'
+    ]);
+    expect(cfg.complexity).toBe(3);
+  });
+
+  test('should link the function to its entry block', async () => {
+    const graph = await buildCFGs({ 'src/flow.ts': TS_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'grade', 'src/flow.ts');
+
+    expect(cfg.entryFlows).toHaveLength(1);
+    expect(cfg.entryFlows[0].properties.flowType).toBe('entry');
+  });
+
+  test('should loop back and leave the loop on break and continue', async () => {
+    const graph = await buildCFGs({ 'src/flow.ts': TS_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'scan', 'src/flow.ts');
+
+    expect(cfg.blockTypes[2]).toBe('loop');
+    expect(cfg.flows).toContain('4->2 continue');
+    expect(cfg.flows).toContain('6->8 break');
+    expect(cfg.flows).toContain('7->2 loop_back');
+    expect(cfg.flows).toContain('2->8 false');
+    expect(cfg.complexity).toBe(4);
+  });
+
+  test('should end the block at an early return', async () => {
+    const graph = await buildCFGs({ 'src/flow.ts': TS_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'guard', 'src/flow.ts');
+
+    expect(cfg.flows).toEqual(['0->2 true', '0->3 false', '2->1 return', '3->1 return']);
+    expect(cfg.complexity).toBe(2);
+  });
+
+  test('should flow a throw to the exit', async () => {
+    const graph = await buildCFGs({ 'src/flow.ts': TS_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'check', 'src/flow.ts');
+
+    expect(cfg.flows).toContain('2->1 throw');
+    expect(cfg.complexity).toBe(2);
+  });
+
+  test('should route try / catch / finally through the finally block', async () => {
+    const graph = await buildCFGs({ 'src/flow.ts': TS_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'safe', 'src/flow.ts');
+
+    expect(cfg.blockTypes).toEqual(['entry', 'exit', 'block', 'catch', 'finally']);
+    expect(cfg.flows).toEqual([
+      '0->2 sequential', '2->3 exception', '2->4 sequential', '3->4 sequential', '4->1 sequential'
+    ]);
+    expect(cfg.complexity).toBe(2);
+  });
+
+  test('should give each switch case a block and fall through empty cases', async () => {
+    const graph = await buildCFGs({ 'src/flow.ts': TS_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'pick', 'src/flow.ts');
+
+    expect(cfg.blockTypes).toEqual(['entry', 'exit', 'case', 'case', 'case', 'case']);
+    expect(cfg.flows).toContain('3->4 sequential');
+    expect(cfg.flows.filter(flow => flow.endsWith(' case'))).toHaveLength(4);
+    expect(cfg.complexity).toBe(4);
+  });
+
+  test('should give straight-line code a complexity of 1', async () => {
+    const graph = await buildCFGs({ 'src/flow.ts': TS_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'straight', 'src/flow.ts');
+
+    expect(cfg.flows).toEqual(['0->1 return']);
+    expect(cfg.complexity).toBe(1);
+  });
+});
+
+describe('CFGProcessor - Python', () => {
+  test('should branch on if / elif / else', async () => {
+    const graph = await buildCFGs({ 'app/flow.py': PY_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'grade', 'app/flow.py');
+
+    expect(cfg.flows).toEqual([
+      '0->2 true', '0->3 false', '2->1 return', '3->4 true', '3->5 false', '4->1 return', '5->1 return'
+    ]);
+    expect(cfg.complexity).toBe(3);
+  });
+
+  test('should leave a for loop when its iterable is exhausted', async () => {
+    const graph = await buildCFGs({ 'app/flow.py': PY_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'scan', 'app/flow.py');
+
+    expect(cfg.flows).toContain('4->2 continue');
+    expect(cfg.flows).toContain('6->8 break');
+    expect(cfg.flows).toContain('2->8 false');
+    expect(cfg.complexity).toBe(4);
+  });
+
+  test('should re-raise from an except clause', async () => {
+    const graph = await buildCFGs({ 'app/flow.py': PY_SOURCE });
+    const cfg = cfgOf(graph, 'Function', 'safe', 'app/flow.py');
+
+    expect(cfg.blockTypes).toEqual(['entry', 'exit', 'block', 'catch', 'finally']);
+    expect(cfg.flows).toContain('2->3 exception');
+    expect(cfg.flows).toContain('3->1 throw');
+    expect(cfg.complexity).toBe(2);
+  });
+});
+
+describe('CFGProcessor - declarations without a body', () => {
+  test('should skip Java interface methods', async () => {
+    const graph = await buildCFGs({
+      'src/Store.java': `interface Store {
+    void save(String item);
+}
+`
+    });
+    const cfg = cfgOf(graph, 'Method', 'save', 'src/Store.java');
+
+    expect(cfg.blockTypes).toEqual([]);
+    expect(cfg.entryFlows).toEqual([]);
+    expect(cfg.complexity).toBeUndefined();
+  });
+
+  test('should skip Rust trait signatures but not default methods', async () => {
+    const graph = await buildCFGs({
+      'src/store.rs': `trait Store {
+    fn save(&self, item: &str);
+    fn flush(&self) {
+        println!("flush");
+    }
+}
+`
+    });
+
+    expect(cfgOf(graph, 'Method', 'save', 'src/store.rs').blockTypes).toEqual([]);
+    expect(cfgOf(graph, 'Method', 'flush', 'src/store.rs').blockTypes).toEqual(['entry', 'exit']);
+  });
+});
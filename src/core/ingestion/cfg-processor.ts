@@ -0,0 +1,642 @@
+import type { KnowledgeGraph, GraphNode, GraphRelationship } from '../graph/types.ts';
+import type { ParsedAST } from './parsing-processor.ts';
+import Parser from 'web-tree-sitter';
+import { generateDeterministicId } from '../../lib/utils';
+
+/**
+ * Statement-level control flow graphs for functions and methods. Each function gets
+ * an entry and an exit BasicBlock; consecutive statements share a block and every
+ * branch, loop, case, try/catch, return, throw, break and continue ends one.
+ * Expression-level branching (ternaries, && / ||) stays inside its block.
+ */
+
+type FlowType = 'entry' | 'sequential' | 'true' | 'false' | 'loop_back' | 'case' | 'break' | 'continue' | 'return' | 'throw' | 'exception';
+type BlockType = 'entry' | 'exit' | 'block' | 'branch' | 'loop' | 'case' | 'catch' | 'finally';
+
+interface BasicBlock {
+  index: number;
+  blockType: BlockType;
+  startLine: number;
+  endLine: number;
+  statementCount: number;
+}
+
+interface FlowEdge {
+  from: BasicBlock;
+  to: BasicBlock;
+  flowType: FlowType;
+}
+
+interface ControlFlowGraph {
+  blocks: BasicBlock[];
+  edges: FlowEdge[];
+  entry: BasicBlock;
+}
+
+interface JumpContext {
+  label?: string;
+  continueTarget?: BasicBlock;  // Unset for switch statements
+  breaks: BasicBlock[];
+}
+
+interface TryContext {
+  handler: BasicBlock;  // Where throws inside the try body go
+}
+
+// Node types that define a function body of their own
+const FUNCTION_NODES = new Set([
+  'function_declaration', 'function_expression', 'function', 'arrow_function', 'method_definition',
+  'generator_function_declaration', 'generator_function', 'function_definition',
+  'method_declaration', 'constructor_declaration', 'compact_constructor_declaration',
+  'function_item', 'func_literal'
+]);
+
+// Node types whose named children are a statement list
+const BLOCK_NODES = new Set(['statement_block', 'block']);
+
+const IF_NODES = new Set(['if_statement', 'if_expression']);
+const LOOP_NODES = new Set([
+  'for_statement', 'for_in_statement', 'enhanced_for_statement', 'while_statement',
+  'for_expression', 'while_expression', 'loop_expression'
+]);
+const SWITCH_NODES = new Set([
+  'switch_statement', 'switch_expression', 'expression_switch_statement', 'type_switch_statement',
+  'select_statement', 'match_statement', 'match_expression'
+]);
+const CASE_NODES = new Set([
+  'switch_case', 'switch_default', 'switch_block_statement_group', 'switch_rule',
+  'expression_case', 'default_case', 'type_case', 'communication_case', 'case_clause', 'match_arm'
+]);
+const TRY_NODES = new Set(['try_statement', 'try_with_resources_statement']);
+const RETURN_NODES = new Set(['return_statement', 'return_expression']);
+const THROW_NODES = new Set(['throw_statement', 'raise_statement']);
+const BREAK_NODES = new Set(['break_statement', 'break_expression']);
+const CONTINUE_NODES = new Set(['continue_statement', 'continue_expression']);
+
+// Statements that only wrap a body: with, synchronized, unsafe blocks
+const WRAPPER_NODES = new Set(['with_statement', 'synchronized_statement', 'unsafe_block']);
+
+const COMMENT_NODES = new Set(['comment', 'line_comment', 'block_comment']);
+
+/**
+ * Builds the CFG of one function body
+ */
+class CFGBuilder {
+  private blocks: BasicBlock[] = [];
+  private edges: FlowEdge[] = [];
+  private jumpStack: JumpContext[] = [];
+  private tryStack: TryContext[] = [];
+  private pendingLabel: string | undefined;
+  private entry: BasicBlock;
+  private exit: BasicBlock;
+
+  constructor(private functionNode: Parser.SyntaxNode, private language: string) {
+    this.entry = this.createBlock('entry', functionNode);
+    this.exit = this.createBlock('exit', functionNode);
+    this.exit.startLine = this.exit.endLine = functionNode.endPosition.row + 1;
+  }
+
+  build(): ControlFlowGraph {
+    const body = this.functionNode.childForFieldName('body');
+    const end = body ? this.visitBody(body, this.entry) : this.entry;
+    if (end) {
+      this.addEdge(end, this.exit, 'sequential');
+    }
+    return { blocks: this.blocks, edges: this.edges, entry: this.entry };
+  }
+
+  private createBlock(blockType: BlockType, node: Parser.SyntaxNode): BasicBlock {
+    const block: BasicBlock = {
+      index: this.blocks.length,
+      blockType,
+      startLine: node.startPosition.row + 1,
+      endLine: node.startPosition.row + 1,
+      statementCount: 0
+    };
+    this.blocks.push(block);
+    return block;
+  }
+
+  private addEdge(from: BasicBlock, to: BasicBlock, flowType: FlowType): void {
+    this.edges.push({ from, to, flowType });
+  }
+
+  /**
+   * Block reached from all given predecessors, or null if there are none (dead end)
+   */
+  private join(predecessors: Array<[BasicBlock | null, FlowType]>, node: Parser.SyntaxNode): BasicBlock | null {
+    const live = predecessors.filter((predecessor): predecessor is [BasicBlock, FlowType] => predecessor[0] !== null);
+    if (live.length === 0) return null;
+
+    const block = this.createBlock('block', node);
+    block.startLine = block.endLine = node.endPosition.row + 1;
+    live.forEach(([from, flowType]) => this.addEdge(from, block, flowType));
+    return block;
+  }
+
+  private addStatement(block: BasicBlock, node: Parser.SyntaxNode): void {
+    if (block.statementCount === 0 && block.blockType !== 'entry') {
+      block.startLine = node.startPosition.row + 1;
+    }
+    block.endLine = Math.max(block.endLine, node.endPosition.row + 1);
+    block.statementCount++;
+  }
+
+  private visitBody(node: Parser.SyntaxNode, current: BasicBlock): BasicBlock | null {
+    const statements = BLOCK_NODES.has(node.type) ? node.namedChildren : [node];
+    return this.visitStatements(statements, current);
+  }
+
+  private visitStatements(statements: Parser.SyntaxNode[], current: BasicBlock | null): BasicBlock | null {
+    for (const statement of statements) {
+      if (!current) break;  // Unreachable code after return / throw / break
+      if (COMMENT_NODES.has(statement.type)) continue;
+      current = this.visitStatement(statement, current);
+    }
+    return current;
+  }
+
+  private visitStatement(statement: Parser.SyntaxNode, current: BasicBlock): BasicBlock | null {
+    const node = this.unwrapControlExpression(statement);
+
+    if (IF_NODES.has(node.type)) return this.visitIf(node, current);
+    if (LOOP_NODES.has(node.type)) return this.visitLoop(node, current);
+    if (node.type === 'do_statement') return this.visitDoWhile(node, current);
+    if (SWITCH_NODES.has(node.type)) return this.visitSwitch(node, current);
+    if (TRY_NODES.has(node.type)) return this.visitTry(node, current);
+
+    if (BLOCK_NODES.has(node.type)) return this.visitBody(node, current);
+
+    if (WRAPPER_NODES.has(node.type)) {
+      this.addStatement(current, node.firstNamedChild || node);
+      const body = node.childForFieldName('body') || node.namedChildren.find(child => BLOCK_NODES.has(child.type));
+      return body ? this.visitBody(body, current) : current;
+    }
+
+    if (node.type === 'labeled_statement') {
+      this.pendingLabel = (node.childForFieldName('label') || node.namedChildren[0])?.text;
+      const body = node.childForFieldName('body') || node.namedChildren[node.namedChildren.length - 1];
+      return body ? this.visitStatement(body, current) : current;
+    }
+
+    this.addStatement(current, statement);
+
+    if (RETURN_NODES.has(node.type)) {
+      this.addEdge(current, this.exit, 'return');
+      return null;
+    }
+    if (THROW_NODES.has(node.type)) {
+      const tryContext = this.tryStack[this.tryStack.length - 1];
+      this.addEdge(current, tryContext ? tryContext.handler : this.exit, 'throw');
+      return null;
+    }
+    if (BREAK_NODES.has(node.type)) {
+      const target = this.findJumpTarget(node, false);
+      target?.breaks.push(current);
+      return target ? null : current;
+    }
+    if (CONTINUE_NODES.has(node.type)) {
+      const target = this.findJumpTarget(node, true);
+      if (target?.continueTarget) {
+        this.addEdge(current, target.continueTarget, 'continue');
+        return null;
+      }
+      return current;
+    }
+
+    return current;
+  }
+
+  /**
+   * Rust wraps control flow in expression statements and let bindings
+   */
+  private unwrapControlExpression(statement: Parser.SyntaxNode): Parser.SyntaxNode {
+    const inner = statement.type === 'expression_statement' ? statement.namedChildren[0]
+      : statement.type === 'let_declaration' ? statement.childForFieldName('value')
+      : null;
+    if (!inner) return statement;
+
+    const isControl = IF_NODES.has(inner.type) || LOOP_NODES.has(inner.type) || SWITCH_NODES.has(inner.type) ||
+      RETURN_NODES.has(inner.type) || BREAK_NODES.has(inner.type) || CONTINUE_NODES.has(inner.type);
+    return isControl && inner.type !== 'if_statement' ? inner : statement;
+  }
+
+  private findJumpTarget(node: Parser.SyntaxNode, isContinue: boolean): JumpContext | undefined {
+    const label = node.namedChildren.find(child => /label|identifier/.test(child.type))?.text?.replace(/^'/, '');
+
+    for (let i = this.jumpStack.length - 1; i >= 0; i--) {
+      const context = this.jumpStack[i];
+      if (label && context.label !== label) continue;
+      if (isContinue && !context.continueTarget) continue;
+      return context;
+    }
+    return undefined;
+  }
+
+  private visitIf(node: Parser.SyntaxNode, current: BasicBlock): BasicBlock | null {
+    this.addStatement(current, node.childForFieldName('condition') || node);
+    const ends: Array<[BasicBlock | null, FlowType]> = [];
+
+    const thenBlock = this.createBlock('branch', node);
+    this.addEdge(current, thenBlock, 'true');
+    const consequence = node.childForFieldName('consequence');
+    ends.push([consequence ? this.visitBody(consequence, thenBlock) : thenBlock, 'sequential']);
+
+    // Python chains elif/else clauses on the if statement itself
+    const alternatives = this.language === 'python'
+      ? node.namedChildren.filter(child => child.type === 'elif_clause' || child.type === 'else_clause')
+      : [node.childForFieldName('alternative')].filter((child): child is Parser.SyntaxNode => child !== null);
+
+    let conditionBlock: BasicBlock | null = current;
+    for (const alternative of alternatives) {
+      if (!conditionBlock) break;
+
+      if (alternative.type === 'elif_clause') {
+        const elifBlock = this.createBlock('branch', alternative);
+        this.addEdge(conditionBlock, elifBlock, 'false');
+        this.addStatement(elifBlock, alternative.childForFieldName('condition') || alternative);
+
+        const elifThen = this.createBlock('branch', alternative);
+        this.addEdge(elifBlock, elifThen, 'true');
+        const elifConsequence = alternative.childForFieldName('consequence');
+        ends.push([elifConsequence ? this.visitBody(elifConsequence, elifThen) : elifThen, 'sequential']);
+        conditionBlock = elifBlock;
+        continue;
+      }
+
+      const elseBlock = this.createBlock('branch', alternative);
+      this.addEdge(conditionBlock, elseBlock, 'false');
+      ends.push([this.visitElse(alternative, elseBlock), 'sequential']);
+      conditionBlock = null;
+    }
+
+    if (conditionBlock) {
+      ends.push([conditionBlock, 'false']);
+    }
+    return this.join(ends, node);
+  }
+
+  private visitElse(alternative: Parser.SyntaxNode, block: BasicBlock): BasicBlock | null {
+    if (alternative.type !== 'else_clause') {
+      return this.visitStatement(alternative, block);
+    }
+    const body = alternative.childForFieldName('body');
+    return body ? this.visitBody(body, block) : this.visitStatements(alternative.namedChildren, block);
+  }
+
+  private visitLoop(node: Parser.SyntaxNode, current: BasicBlock): BasicBlock | null {
+    const header = this.createBlock('loop', node);
+    this.addEdge(current, header, 'sequential');
+    this.addStatement(header, node.childForFieldName('condition') || node.childForFieldName('right') || node.childForFieldName('value') || node);
+
+    const context: JumpContext = { label: this.takeLabel(node), continueTarget: header, breaks: [] };
+    this.jumpStack.push(context);
+
+    const bodyBlock = this.createBlock('block', node);
+    this.addEdge(header, bodyBlock, 'true');
+    const body = node.childForFieldName('body');
+    const bodyEnd = body ? this.visitBody(body, bodyBlock) : bodyBlock;
+    if (bodyEnd) {
+      this.addEdge(bodyEnd, header, 'loop_back');
+    }
+    this.jumpStack.pop();
+
+    // Python `for ... else` / `while ... else` runs when the loop ends without break
+    let exit: [BasicBlock | null, FlowType] = [this.isInfiniteLoop(node) ? null : header, 'false'];
+    const elseClause = this.language === 'python' ? node.namedChildren.find(child => child.type === 'else_clause') : undefined;
+    if (elseClause && exit[0]) {
+      const elseBlock = this.createBlock('branch', elseClause);
+      this.addEdge(header, elseBlock, 'false');
+      exit = [this.visitElse(elseClause, elseBlock), 'sequential'];
+    }
+
+    return this.join([exit, ...context.breaks.map(block => [block, 'break'] as [BasicBlock, FlowType])], node);
+  }
+
+  private visitDoWhile(node: Parser.SyntaxNode, current: BasicBlock): BasicBlock | null {
+    const bodyBlock = this.createBlock('loop', node);
+    this.addEdge(current, bodyBlock, 'sequential');
+
+    const condition = node.childForFieldName('condition');
+    const conditionBlock = this.createBlock('block', condition || node);
+    this.addStatement(conditionBlock, condition || node);
+
+    const context: JumpContext = { label: this.takeLabel(node), continueTarget: conditionBlock, breaks: [] };
+    this.jumpStack.push(context);
+    const body = node.childForFieldName('body');
+    const bodyEnd = body ? this.visitBody(body, bodyBlock) : bodyBlock;
+    this.jumpStack.pop();
+
+    if (bodyEnd) {
+      this.addEdge(bodyEnd, conditionBlock, 'sequential');
+    }
+    this.addEdge(conditionBlock, bodyBlock, 'loop_back');
+
+    return this.join([[conditionBlock, 'false'], ...context.breaks.map(block => [block, 'break'] as [BasicBlock, FlowType])], node);
+  }
+
+  private isInfiniteLoop(node: Parser.SyntaxNode): boolean {
+    if (node.type === 'loop_expression') return true;
+    // Python's for_statement always iterates over something
+    if (node.type !== 'for_statement' || this.language === 'python') return false;
+
+    // Go: `for { }`; C-style: `for (;;) { }`
+    if (this.language === 'go') return node.namedChildren.length === 1;
+    const condition = node.childForFieldName('condition');
+    return !condition || condition.type === 'empty_statement';
+  }
+
+  private takeLabel(node: Parser.SyntaxNode): string | undefined {
+    const label = this.pendingLabel ?? node.namedChildren.find(child => child.type === 'label' || child.type === 'loop_label')?.text?.replace(/^'/, '');
+    this.pendingLabel = undefined;
+    return label;
+  }
+
+  private visitSwitch(node: Parser.SyntaxNode, current: BasicBlock): BasicBlock | null {
+    this.addStatement(current, node.childForFieldName('value') || node.childForFieldName('condition') || node.childForFieldName('subject') || node);
+
+    const container = node.childForFieldName('body') || node;
+    const cases = [...node.namedChildren, ...(container.id !== node.id ? container.namedChildren : [])]
+      .filter(child => CASE_NODES.has(child.type));
+
+    const context: JumpContext = { label: this.takeLabel(node), breaks: [] };
+    this.jumpStack.push(context);
+
+    const ends: Array<[BasicBlock | null, FlowType]> = [];
+    let fallthrough: BasicBlock | null = null;
+    let hasDefault = false;
+
+    for (const caseNode of cases) {
+      hasDefault = hasDefault || this.isDefaultCase(caseNode);
+
+      const caseBlock = this.createBlock('case', caseNode);
+      this.addEdge(current, caseBlock, 'case');
+      if (fallthrough) {
+        this.addEdge(fallthrough, caseBlock, 'sequential');
+      }
+
+      const caseEnd = this.visitStatements(this.getCaseBody(caseNode), caseBlock);
+      if (this.fallsThrough(caseNode)) {
+        fallthrough = caseEnd;
+      } else {
+        ends.push([caseEnd, 'sequential']);
+        fallthrough = null;
+      }
+    }
+    this.jumpStack.pop();
+
+    ends.push([fallthrough, 'sequential']);
+    if (!hasDefault) {
+      ends.push([current, 'false']);
+    }
+    return this.join([...ends, ...context.breaks.map(block => [block, 'break'] as [BasicBlock, FlowType])], node);
+  }
+
+  /**
+   * Statements after the case's `:` / `->` / `=>`
+   */
+  private getCaseBody(caseNode: Parser.SyntaxNode): Parser.SyntaxNode[] {
+    const separator = caseNode.children.find(child => child.type === ':' || child.type === '->' || child.type === '=>');
+    if (!separator) return caseNode.namedChildren.filter(child => child.type !== 'switch_label');
+    return caseNode.namedChildren.filter(child => child.startIndex >= separator.endIndex);
+  }
+
+  private isDefaultCase(caseNode: Parser.SyntaxNode): boolean {
+    if (caseNode.type === 'switch_default' || caseNode.type === 'default_case') return true;
+
+    const label = caseNode.namedChildren.find(child => child.type === 'switch_label');
+    if (label) return label.text.trim() === 'default';
+
+    // Python `case _:` and Rust `_ =>`
+    const pattern = caseNode.childForFieldName('pattern') || caseNode.namedChildren.find(child => child.type === 'case_pattern');
+    return pattern?.text.trim() === '_';
+  }
+
+  /**
+   * C-style switch cases fall through unless they end in break; Go only with `fallthrough`
+   */
+  private fallsThrough(caseNode: Parser.SyntaxNode): boolean {
+    if (caseNode.type === 'switch_case' || caseNode.type === 'switch_default' || caseNode.type === 'switch_block_statement_group') {
+      return true;
+    }
+    if (this.language === 'go') {
+      return caseNode.lastNamedChild?.type === 'fallthrough_statement';
+    }
+    return false;
+  }
+
+  private visitTry(node: Parser.SyntaxNode, current: BasicBlock): BasicBlock | null {
+    const handlerNodes = node.namedChildren.filter(child => child.type === 'catch_clause' || child.type === 'except_clause');
+    const elseClause = node.namedChildren.find(child => child.type === 'else_clause');
+    const finallyClause = node.namedChildren.find(child => child.type === 'finally_clause');
+
+    const tryBlock = this.createBlock('block', node);
+    this.addEdge(current, tryBlock, 'sequential');
+
+    const handlerBlocks = handlerNodes.map(handler => this.createBlock('catch', handler));
+    handlerBlocks.forEach(handlerBlock => this.addEdge(tryBlock, handlerBlock, 'exception'));
+
+    if (handlerBlocks.length > 0) {
+      this.tryStack.push({ handler: handlerBlocks[0] });
+    }
+    const body = node.childForFieldName('body');
+    let tryEnd = body ? this.visitBody(body, tryBlock) : tryBlock;
+    if (handlerBlocks.length > 0) {
+      this.tryStack.pop();
+    }
+
+    if (elseClause && tryEnd) {
+      tryEnd = this.visitElse(elseClause, tryEnd);
+    }
+
+    const ends: Array<[BasicBlock | null, FlowType]> = [[tryEnd, 'sequential']];
+    handlerNodes.forEach((handler, index) => {
+      const handlerBody = handler.childForFieldName('body') || handler.namedChildren.find(child => BLOCK_NODES.has(child.type));
+      ends.push([handlerBody ? this.visitBody(handlerBody, handlerBlocks[index]) : handlerBlocks[index], 'sequential']);
+    });
+
+    if (!finallyClause) {
+      return this.join(ends, node);
+    }
+
+    const finallyBlock = this.join(ends, finallyClause);
+    if (!finallyBlock) return null;
+    finallyBlock.blockType = 'finally';
+    const finallyBody = finallyClause.childForFieldName('body') || finallyClause.namedChildren.find(child => BLOCK_NODES.has(child.type));
+    return finallyBody ? this.visitBody(finallyBody, finallyBlock) : finallyBlock;
+  }
+}
+
+/**
+ * Cyclomatic complexity of a CFG: edges - blocks + 2
+ */
+function cyclomaticComplexity(blockCount: number, edgeCount: number): number {
+  return Math.max(1, edgeCount - blockCount + 2);
+}
+
+export class CFGProcessor {
+  private stats = {
+    functionsProcessed: 0,
+    blocksCreated: 0,
+    edgesCreated: 0,
+    maxComplexity: 0
+  };
+
+  /**
+   * Build control flow graphs for every Function / Method node of a parsed file
+   * @param graph The knowledge graph being built
+   * @param astMap Map of file paths to their parsed ASTs
+   * @returns Updated graph with BasicBlock nodes and FLOWS_TO relationships
+   */
+  async process(graph: KnowledgeGraph, astMap: Map<string, ParsedAST>): Promise<KnowledgeGraph> {
+    console.log('🔀 CFGProcessor: Building control flow graphs...');
+    this.stats = { functionsProcessed: 0, blocksCreated: 0, edgesCreated: 0, maxComplexity: 0 };
+
+    const functionsByFile = new Map<string, GraphNode[]>();
+    for (const node of graph.nodes) {
+      if (node.label !== 'Function' && node.label !== 'Method') continue;
+
+      const filePath = node.properties.filePath as string | undefined;
+      if (!filePath || !astMap.has(filePath)) continue;
+
+      if (!functionsByFile.has(filePath)) {
+        functionsByFile.set(filePath, []);
+      }
+      functionsByFile.get(filePath)!.push(node);
+    }
+
+    for (const [filePath, functionNodes] of functionsByFile) {
+      const tree = astMap.get(filePath)?.tree;
+      if (!tree) continue;
+
+      try {
+        this.processFile(graph, filePath, tree.rootNode, functionNodes);
+      } catch (error) {
+        console.warn(`⚠️ CFGProcessor: failed to build control flow for ${filePath}:`, error);
+      }
+    }
+
+    console.log(`✅ CFGProcessor: ${this.stats.functionsProcessed} functions, ${this.stats.blocksCreated} blocks, ${this.stats.edgesCreated} flow edges (max complexity ${this.stats.maxComplexity})`);
+    return graph;
+  }
+
+  private processFile(graph: KnowledgeGraph, filePath: string, rootNode: Parser.SyntaxNode, functionNodes: GraphNode[]): void {
+    const language = this.detectLanguage(filePath);
+    const astFunctionsByLine = new Map<number, Parser.SyntaxNode[]>();
+    for (const astFunction of rootNode.descendantsOfType(Array.from(FUNCTION_NODES))) {
+      // Interface and abstract methods declare a signature only: no control flow to build
+      if (!astFunction.childForFieldName('body')) continue;
+
+      const line = astFunction.startPosition.row + 1;
+      if (!astFunctionsByLine.has(line)) {
+        astFunctionsByLine.set(line, []);
+      }
+      astFunctionsByLine.get(line)!.push(astFunction);
+    }
+
+    // Parsing may emit both a Function and a Method node for one definition: build its CFG once
+    const builtCFGs = new Map<number, { entryId: string; complexity: number }>();
+
+    for (const functionNode of functionNodes) {
+      const astFunction = this.findASTFunction(functionNode, astFunctionsByLine);
+      if (!astFunction) continue;
+
+      let built = builtCFGs.get(astFunction.id);
+      if (!built) {
+        const cfg = new CFGBuilder(astFunction, language).build();
+        built = {
+          entryId: this.addCFGToGraph(graph, functionNode, filePath, cfg),
+          complexity: cyclomaticComplexity(cfg.blocks.length, cfg.edges.length)
+        };
+        builtCFGs.set(astFunction.id, built);
+        this.stats.maxComplexity = Math.max(this.stats.maxComplexity, built.complexity);
+      }
+
+      const { entryId, complexity } = built;
+      functionNode.properties.cyclomaticComplexity = complexity;
+      graph.addRelationship({
+        id: generateDeterministicId('flows_to', `${functionNode.id}_${entryId}`),
+        type: 'FLOWS_TO',
+        source: functionNode.id,
+        target: entryId,
+        properties: { flowType: 'entry' }
+      });
+      this.stats.functionsProcessed++;
+      this.stats.edgesCreated++;
+    }
+  }
+
+  /**
+   * AST function starting on the node's start line, preferring one with the same name
+   */
+  private findASTFunction(functionNode: GraphNode, astFunctionsByLine: Map<number, Parser.SyntaxNode[]>): Parser.SyntaxNode | null {
+    const candidates = astFunctionsByLine.get(functionNode.properties.startLine as number) || [];
+    const name = functionNode.properties.name;
+    return candidates.find(candidate => this.getFunctionName(candidate) === name) || candidates[0] || null;
+  }
+
+  private getFunctionName(node: Parser.SyntaxNode): string | undefined {
+    const nameNode = node.childForFieldName('name');
+    if (nameNode) return nameNode.text;
+    // const handler = () => {}
+    if (node.parent?.type === 'variable_declarator') {
+      return node.parent.childForFieldName('name')?.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns Id of the entry block
+   */
+  private addCFGToGraph(graph: KnowledgeGraph, functionNode: GraphNode, filePath: string, cfg: ControlFlowGraph): string {
+    const blockIds = cfg.blocks.map(block => generateDeterministicId('basicblock', `${functionNode.id}_${block.index}`));
+    const functionName = functionNode.properties.name as string;
+
+    cfg.blocks.forEach((block, index) => {
+      graph.addNode({
+        id: blockIds[index],
+        label: 'BasicBlock',
+        properties: {
+          name: `${functionName}#${block.index}`,
+          filePath,
+          startLine: block.startLine,
+          endLine: block.endLine,
+          functionId: functionNode.id,
+          blockType: block.blockType,
+          statementCount: block.statementCount
+        }
+      });
+    });
+
+    cfg.edges.forEach((edge, index) => {
+      const relationship: GraphRelationship = {
+        id: generateDeterministicId('flows_to', `${functionNode.id}_${index}`),
+        type: 'FLOWS_TO',
+        source: blockIds[edge.from.index],
+        target: blockIds[edge.to.index],
+        properties: { flowType: edge.flowType }
+      };
+      graph.addRelationship(relationship);
+    });
+
+    this.stats.blocksCreated += cfg.blocks.length;
+    this.stats.edgesCreated += cfg.edges.length;
+    return blockIds[cfg.entry.index];
+  }
+
+  private detectLanguage(filePath: string): string {
+    const ext = filePath.substring(filePath.lastIndexOf('.')).toLowerCase();
+    if (ext === '.py') return 'python';
+    if (ext === '.go') return 'go';
+    if (ext === '.java') return 'java';
+    if (ext === '.rs') return 'rust';
+    return 'javascript';
+  }
+
+  /**
+   * Get processing statistics
+   */
+  public getStats() {
+    return { ...this.stats };
+  }
+}
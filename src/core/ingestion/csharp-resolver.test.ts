@@ -0,0 +1,70 @@
+import { CSharpNamespaceIndex, normalizeCSharpName, parseProjectReferences } from './csharp-resolver.js';
+import type { GraphNode } from '../graph/types.ts';
+
+const typeNode = (id: string, label: string, name: string, namespace: string, qualifiedName: string, filePath: string): GraphNode => ({
+  id,
+  label: label as GraphNode['label'],
+  properties: { name, namespace, qualifiedName, filePath }
+});
+
+// Two projects: Acme.Core declares the models, Acme.Web nests a namespace inside Acme
+const nodes: GraphNode[] = [
+  typeNode('order', 'Class', 'Order', 'Acme.Core.Models', 'Acme.Core.Models.Order', 'Core/Models/Order.cs'),
+  typeNode('order-line', 'Class', 'Line', 'Acme.Core.Models', 'Acme.Core.Models.Order.Line', 'Core/Models/Order.cs'),
+  typeNode('repository', 'Interface', 'IRepository', 'Acme.Core.Models', 'Acme.Core.Models.IRepository', 'Core/Models/IRepository.cs'),
+  typeNode('status', 'Enum', 'Status', 'Acme', 'Acme.Status', 'Core/Status.cs'),
+  typeNode('controller', 'Class', 'OrdersController', 'Acme.Web.Controllers', 'Acme.Web.Controllers.OrdersController', 'Web/Controllers/OrdersController.cs'),
+  typeNode('program', 'Class', 'Program', '', 'Program', 'Web/Program.cs'),
+  typeNode('java-order', 'Class', 'Order', 'acme.models', 'acme.models.Order', 'src/main/java/acme/models/Order.java')
+];
+
+describe('CSharpNamespaceIndex', () => {
+  const index = new CSharpNamespaceIndex(nodes);
+
+  test('should index declared namespaces from C# type nodes only', () => {
+    expect(index.getNamespaces()).toEqual(['Acme', 'Acme.Core.Models', 'Acme.Web.Controllers']);
+    expect(index.hasNamespace('acme.models')).toBe(false);
+  });
+
+  test('should list only top-level types of a namespace', () => {
+    expect(index.getTypes('Acme.Core.Models').map(type => type.nodeId)).toEqual(['order', 'repository']);
+  });
+
+  test('should resolve nested and generic type names', () => {
+    expect(index.resolveType('Acme.Core.Models.Order.Line')?.nodeId).toBe('order-line');
+    expect(index.resolveType('global::Acme.Core.Models.IRepository<Order>')?.nodeId).toBe('repository');
+    expect(index.resolveType('Acme.Core.Models.Missing')).toBeNull();
+  });
+
+  test('should find the nearest declared parent namespace', () => {
+    expect(index.getParentNamespace('Acme.Core.Models')).toBe('Acme');
+    expect(index.getParentNamespace('Acme')).toBeNull();
+  });
+
+  test('should list enclosing namespaces innermost first, including the global namespace', () => {
+    expect(index.getEnclosingNamespaces('Acme.Web.Controllers')).toEqual(['Acme.Web.Controllers', 'Acme', '']);
+  });
+});
+
+describe('normalizeCSharpName', () => {
+  test('should strip global::, type arguments and whitespace', () => {
+    expect(normalizeCSharpName('global::System.Collections.Generic.List< int >')).toBe('System.Collections.Generic.List');
+  });
+});
+
+describe('parseProjectReferences', () => {
+  test('should resolve ProjectReference includes relative to the project file', () => {
+    const content = `<Project Sdk="Microsoft.NET.Sdk">
+  <ItemGroup>
+    <ProjectReference Include="..\\Core\\Core.csproj" />
+    <ProjectReference Include="$(MSBuildThisFileDirectory)Shared/Shared.csproj" />
+    <PackageReference Include="Newtonsoft.Json" Version="13.0.3" />
+  </ItemGroup>
+</Project>`;
+
+    expect(parseProjectReferences('src/Web/Web.csproj', content)).toEqual([
+      'src/Core/Core.csproj',
+      'src/Web/Shared/Shared.csproj'
+    ]);
+  });
+});
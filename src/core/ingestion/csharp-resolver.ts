@@ -0,0 +1,184 @@
+/**
+ * C# resolution helpers: namespaces and partial types read from declaration
+ * syntax nodes, a namespace index over the type nodes of the whole ingested file
+ * set (so `using` directives resolve against declared namespaces rather than file
+ * paths) and `.csproj` ProjectReference parsing.
+ */
+import type Parser from 'web-tree-sitter';
+import type { GraphNode } from '../graph/types.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+
+const NAMESPACE_DECLARATIONS = new Set(['namespace_declaration', 'file_scoped_namespace_declaration']);
+
+const TYPE_DECLARATIONS = new Set([
+  'class_declaration', 'struct_declaration', 'record_declaration', 'record_struct_declaration',
+  'interface_declaration', 'enum_declaration'
+]);
+
+const TYPE_LABELS = new Set(['Class', 'Interface', 'Enum']);
+
+const pathUtils = {
+  dirname: (filePath: string): string => {
+    const lastSlash = filePath.lastIndexOf('/');
+    return lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+  },
+  /**
+   * Join and normalise path segments, collapsing `.` and `..` (paths are project-relative)
+   */
+  join: (...parts: string[]): string => {
+    const segments: string[] = [];
+    for (const segment of parts.join('/').split('/')) {
+      if (segment === '' || segment === '.') continue;
+      if (segment === '..') segments.pop();
+      else segments.push(segment);
+    }
+    return segments.join('/');
+  }
+};
+
+export interface CSharpTypeInfo {
+  name: string;
+  qualifiedName: string;  // Namespace, enclosing types and name: Acme.Models.Order.Line
+  namespace: string;      // '' for the global namespace
+  filePath: string;
+  nodeId: string;
+}
+
+/**
+ * Strip whitespace, `global::` and type arguments from a C# name: global::Acme.Repo<T> -> Acme.Repo
+ */
+export function normalizeCSharpName(text: string): string {
+  return text.replace(/\s+/g, '').replace(/^global::/, '').replace(/<.*>/g, '');
+}
+
+/**
+ * Namespace a syntax node is declared in, including enclosing block namespaces
+ */
+export function getCSharpNamespace(node: Parser.SyntaxNode): string {
+  const segments: string[] = [];
+  for (let current = node.parent; current; current = current.parent) {
+    if (NAMESPACE_DECLARATIONS.has(current.type)) {
+      const nameNode = current.childForFieldName('name');
+      if (nameNode) segments.unshift(normalizeCSharpName(nameNode.text));
+    }
+  }
+  return segments.join('.');
+}
+
+/**
+ * Namespace-qualified name of a type declaration, with enclosing types for nested ones
+ */
+export function getCSharpQualifiedName(node: Parser.SyntaxNode): string {
+  const segments: string[] = [];
+  for (let current: Parser.SyntaxNode | null = node; current; current = current.parent) {
+    if (TYPE_DECLARATIONS.has(current.type)) {
+      const nameNode = current.childForFieldName('name');
+      if (nameNode) segments.unshift(nameNode.text);
+    }
+  }
+
+  const namespace = getCSharpNamespace(node);
+  return namespace ? `${namespace}.${segments.join('.')}` : segments.join('.');
+}
+
+export function isCSharpPartial(node: Parser.SyntaxNode): boolean {
+  return node.namedChildren.some(child => child.type === 'modifier' && child.text === 'partial');
+}
+
+/**
+ * Node id shared by every declaration of a partial type, so its parts (usually spread
+ * over several files) merge into one node
+ */
+export function getPartialTypeNodeId(type: string, qualifiedName: string): string {
+  return generateDeterministicId(type, `partial:${qualifiedName}`);
+}
+
+/**
+ * Project files referenced by `<ProjectReference Include="..\Core\Core.csproj" />`,
+ * resolved relative to the referencing project file
+ */
+export function parseProjectReferences(projectFile: string, content: string): string[] {
+  const references = new Set<string>();
+  const projectDir = pathUtils.dirname(projectFile);
+
+  for (const match of content.matchAll(/<ProjectReference\b[^>]*?\bInclude\s*=\s*["']([^"']+)["']/g)) {
+    const include = match[1].replace(/\$\(MSBuildThisFileDirectory\)/g, '').replace(/\\/g, '/');
+    references.add(pathUtils.join(projectDir, include));
+  }
+
+  return Array.from(references);
+}
+
+/**
+ * Namespaces declared across the ingested C# files and the types they contain, built
+ * from the type nodes in the graph. Nodes carried over by incremental updates keep
+ * their `namespace` and `qualifiedName` properties, so unparsed files count too.
+ */
+export class CSharpNamespaceIndex {
+  private typesByNamespace: Map<string, CSharpTypeInfo[]> = new Map();  // Top-level types only
+  private typesByQualifiedName: Map<string, CSharpTypeInfo> = new Map();
+
+  constructor(nodes: GraphNode[]) {
+    for (const node of nodes) {
+      const { namespace, qualifiedName, filePath, name } = node.properties;
+      if (!TYPE_LABELS.has(node.label) || typeof namespace !== 'string' || !filePath?.endsWith('.cs')) continue;
+      if (!qualifiedName || !name || this.typesByQualifiedName.has(qualifiedName)) continue;
+
+      const type: CSharpTypeInfo = { name, qualifiedName, namespace, filePath, nodeId: node.id };
+      this.typesByQualifiedName.set(qualifiedName, type);
+
+      if (qualifiedName === (namespace ? `${namespace}.${name}` : name)) {
+        if (!this.typesByNamespace.has(namespace)) this.typesByNamespace.set(namespace, []);
+        this.typesByNamespace.get(namespace)!.push(type);
+      }
+    }
+  }
+
+  /**
+   * Declared namespaces, parents before children
+   */
+  public getNamespaces(): string[] {
+    return Array.from(this.typesByNamespace.keys()).filter(namespace => namespace !== '').sort();
+  }
+
+  public hasNamespace(namespace: string): boolean {
+    return this.typesByNamespace.has(namespace);
+  }
+
+  /**
+   * Types declared directly in a namespace
+   */
+  public getTypes(namespace: string): CSharpTypeInfo[] {
+    return [...(this.typesByNamespace.get(namespace) || [])];
+  }
+
+  public resolveType(qualifiedName: string): CSharpTypeInfo | null {
+    return this.typesByQualifiedName.get(normalizeCSharpName(qualifiedName)) || null;
+  }
+
+  /**
+   * Nearest declared namespace enclosing `namespace` (Acme for Acme.Models.Orders), if any
+   */
+  public getParentNamespace(namespace: string): string | null {
+    const segments = namespace.split('.');
+    for (let length = segments.length - 1; length > 0; length--) {
+      const parent = segments.slice(0, length).join('.');
+      if (this.typesByNamespace.has(parent)) return parent;
+    }
+    return null;
+  }
+
+  /**
+   * Namespaces whose types are visible without a using directive: the declaring
+   * namespace and each namespace enclosing it, innermost first
+   */
+  public getEnclosingNamespaces(namespace: string): string[] {
+    const segments = namespace ? namespace.split('.') : [];
+    const namespaces: string[] = [];
+    for (let length = segments.length; length >= 0; length--) {
+      const candidate = segments.slice(0, length).join('.');
+      if (this.typesByNamespace.has(candidate)) namespaces.push(candidate);
+    }
+    return namespaces;
+  }
+}
@@ -0,0 +1,108 @@
+import { getDecoratedDefinition, getDecoratorCall, getDecoratorNames, getDecoratorNodes } from './decorator-extractor.js';
+import { ingestFixture, findNode } from './ingestion-fixtures.js';
+import type Parser from 'web-tree-sitter';
+
+const TS_FILES = {
+  'src/cats.controller.ts': `import { Controller, Get } from '@nestjs/common';
+import { Audit } from './audit';
+
+@Controller('cats')
+export class CatsController {
+  @Get(':id')
+  @Audit('read')
+  findOne(id: string) {
+    return id;
+  }
+}
+`,
+  'src/audit.ts': `export function Audit(action: string) {
+  return (target: object, key: string) => console.log(action, target, key);
+}
+`
+};
+
+const PY_FILES = {
+  'app/main.py': `from fastapi import APIRouter
+from app.auth import login_required
+
+router = APIRouter()
+
+
+@router.post("/items")
+@login_required
+def create_item(item):
+    return item
+`,
+  'app/auth.py': `def login_required(handler):
+    return handler
+`
+};
+
+const definitionNamed = (rootNode: Parser.SyntaxNode, types: string[], name: string): Parser.SyntaxNode => {
+  const definition = rootNode.descendantsOfType(types).find(node => node.childForFieldName('name')?.text === name);
+  if (!definition) {
+    throw new Error(`No definition named ${name}`);
+  }
+  return definition;
+};
+
+describe('decorator-extractor', () => {
+  test('should read TypeScript class and method decorators outermost first', async () => {
+    const { astMap } = await ingestFixture(TS_FILES);
+    const rootNode = astMap.get('src/cats.controller.ts')!.tree.rootNode;
+
+    expect(getDecoratorNames(definitionNamed(rootNode, ['class_declaration'], 'CatsController'))).toEqual(['Controller']);
+    expect(getDecoratorNames(definitionNamed(rootNode, ['method_definition'], 'findOne'))).toEqual(['Get', 'Audit']);
+  });
+
+  test('should read Python decorators of a decorated definition', async () => {
+    const { astMap } = await ingestFixture(PY_FILES);
+    const rootNode = astMap.get('app/main.py')!.tree.rootNode;
+
+    expect(getDecoratorNames(definitionNamed(rootNode, ['function_definition'], 'create_item'))).toEqual(['router.post', 'login_required']);
+  });
+
+  test('should split decorator factories into callee and arguments', async () => {
+    const { astMap } = await ingestFixture(PY_FILES);
+    const rootNode = astMap.get('app/main.py')!.tree.rootNode;
+    const [route, auth] = getDecoratorNodes(definitionNamed(rootNode, ['function_definition'], 'create_item'));
+
+    expect(getDecoratorCall(route)?.arguments?.text).toBe('("/items")');
+    expect(getDecoratorCall(auth)?.arguments).toBeNull();
+  });
+
+  test('should find the definition a decorator applies to', async () => {
+    const { astMap } = await ingestFixture(TS_FILES);
+    const rootNode = astMap.get('src/cats.controller.ts')!.tree.rootNode;
+    const findOne = definitionNamed(rootNode, ['method_definition'], 'findOne');
+    const controller = definitionNamed(rootNode, ['class_declaration'], 'CatsController');
+
+    expect(getDecoratorNodes(findOne).map(decorator => getDecoratedDefinition(decorator)?.id)).toEqual([findOne.id, findOne.id]);
+    expect(getDecoratorNodes(controller).map(decorator => getDecoratedDefinition(decorator)?.id)).toEqual([controller.id]);
+  });
+});
+
+describe('CallProcessor - DECORATES', () => {
+  test('should link an imported TypeScript decorator to the method it decorates', async () => {
+    const { graph } = await ingestFixture(TS_FILES);
+    const audit = findNode(graph, 'Function', 'Audit', 'src/audit.ts');
+    const findOne = findNode(graph, 'Method', 'findOne', 'src/cats.controller.ts');
+
+    const decorates = graph.relationships.filter(rel => rel.type === 'DECORATES' && rel.source === audit.id);
+
+    expect(decorates).toHaveLength(1);
+    expect(decorates[0].target).toBe(findOne.id);
+    expect(decorates[0].properties).toMatchObject({ decorator: 'Audit', arguments: ["'read'"], line_number: 7 });
+  });
+
+  test('should link an imported Python decorator to the function it decorates', async () => {
+    const { graph } = await ingestFixture(PY_FILES);
+    const loginRequired = findNode(graph, 'Function', 'login_required', 'app/auth.py');
+    const createItem = findNode(graph, 'Function', 'create_item', 'app/main.py');
+
+    const decorates = graph.relationships.filter(rel => rel.type === 'DECORATES' && rel.source === loginRequired.id);
+
+    expect(decorates.map(rel => rel.target)).toEqual([createItem.id]);
+    expect(decorates[0].properties).toMatchObject({ decorator: 'login_required', arguments: [] });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Decorators of Python and TypeScript definitions, read from the syntax tree in both
+ * directions: the decorators applied to a definition, and the definition a decorator
+ * applies to. Python wraps decorated definitions in a `decorated_definition`; in
+ * TypeScript class decorators hang off the class (or its `export` statement) and member
+ * decorators precede the member inside the class body.
+ */
+import type Parser from 'web-tree-sitter';
+
+// Class members TypeScript decorators can precede
+const TS_DECORATED_MEMBERS = new Set(['method_definition', 'public_field_definition', 'abstract_method_signature']);
+
+export interface DecoratorCall {
+  name: string;                             // Callee as written, without arguments: app.get, Get, login_required
+  callee: Parser.SyntaxNode;
+  arguments: Parser.SyntaxNode | null;      // Argument list of decorator factories (@app.get("/x"), @Get())
+}
+
+/**
+ * Callee and arguments of a `decorator` node
+ */
+export function getDecoratorCall(decorator: Parser.SyntaxNode): DecoratorCall | null {
+  const expression = decorator.firstNamedChild;
+  if (!expression) return null;
+
+  if (expression.type === 'call' || expression.type === 'call_expression') {
+    const callee = expression.childForFieldName('function');
+    return callee ? { name: callee.text, callee, arguments: expression.childForFieldName('arguments') } : null;
+  }
+
+  return { name: expression.text, callee: expression, arguments: null };
+}
+
+/**
+ * Decorator nodes applied to a function, method, class or field definition, outermost first
+ */
+export function getDecoratorNodes(definition: Parser.SyntaxNode): Parser.SyntaxNode[] {
+  const parent = definition.parent;
+
+  // Python: @decorator lines are siblings of the definition in a decorated_definition
+  if (parent?.type === 'decorated_definition') {
+    return parent.namedChildren.filter(child => child.type === 'decorator');
+  }
+
+  // TypeScript class: decorators are children of the class, or of `export` before it
+  const decorators = definition.namedChildren.filter(child => child.type === 'decorator');
+  if (parent?.type === 'export_statement') {
+    decorators.unshift(...parent.namedChildren.filter(child => child.type === 'decorator'));
+  }
+
+  // TypeScript method: decorators are the class body entries right before it
+  if (parent?.type === 'class_body') {
+    for (let sibling = definition.previousNamedSibling; sibling?.type === 'decorator'; sibling = sibling.previousNamedSibling) {
+      decorators.unshift(sibling);
+    }
+  }
+
+  return decorators;
+}
+
+/**
+ * Names of the decorators applied to a definition (see `getDecoratorCall`)
+ */
+export function getDecoratorNames(definition: Parser.SyntaxNode): string[] {
+  return getDecoratorNodes(definition)
+    .map(decorator => getDecoratorCall(decorator)?.name)
+    .filter((name): name is string => !!name);
+}
+
+/**
+ * Definition a decorator node applies to, or null for parameter decorators
+ */
+export function getDecoratedDefinition(decorator: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  const parent = decorator.parent;
+  if (!parent) return null;
+
+  if (parent.type === 'decorated_definition') {
+    return parent.childForFieldName('definition');
+  }
+  if (parent.type === 'export_statement') {
+    return parent.childForFieldName('declaration');
+  }
+  if (parent.type === 'class_declaration' || parent.type === 'abstract_class_declaration' || parent.type === 'public_field_definition') {
+    return parent;
+  }
+  if (parent.type === 'class_body') {
+    let sibling = decorator.nextNamedSibling;
+    while (sibling?.type === 'decorator') sibling = sibling.nextNamedSibling;
+    return sibling && TS_DECORATED_MEMBERS.has(sibling.type) ? sibling : null;
+  }
+
+  return null;
+}
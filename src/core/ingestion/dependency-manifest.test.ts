@@ -0,0 +1,131 @@
+import { PackageIndex, getPackageNodeId, isDependencyManifest, parseDependencyManifest } from './dependency-manifest.js';
+import type { GraphNode } from '../graph/types.ts';
+
+const dependenciesOf = (filePath: string, content: string) => parseDependencyManifest(filePath, content)?.dependencies;
+
+describe('parseDependencyManifest', () => {
+  test('should read package.json sections, skipping workspace and local packages', () => {
+    const content = JSON.stringify({
+      dependencies: { react: '^18.2.0', '@acme/ui': 'workspace:*' },
+      devDependencies: { vitest: '^1.0.0', shared: 'file:../shared' }
+    });
+
+    expect(dependenciesOf('web/package.json', content)).toEqual([
+      { name: 'react', version: '^18.2.0', dependencyType: 'direct' },
+      { name: 'vitest', version: '^1.0.0', dependencyType: 'dev' }
+    ]);
+  });
+
+  test('should list hoisted package-lock.json installs before nested copies', () => {
+    const content = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'web' },
+        'node_modules/a/node_modules/react': { version: '17.0.0' },
+        'node_modules/react': { version: '18.2.0' },
+        'node_modules/vitest': { version: '1.1.0', dev: true },
+        'node_modules/@acme/ui': { link: true }
+      }
+    });
+
+    expect(dependenciesOf('package-lock.json', content)).toEqual([
+      { name: 'react', version: '18.2.0', dependencyType: 'transitive' },
+      { name: 'vitest', version: '1.1.0', dependencyType: 'dev' },
+      { name: 'react', version: '17.0.0', dependencyType: 'transitive' }
+    ]);
+  });
+
+  test('should parse requirement lines, skipping options, URLs and comments', () => {
+    const content = '-r base.txt\n# pinned\nrequests[security]>=2.31 ; python_version > "3.8"\nhttps://example.com/pkg.whl\nclick\n';
+
+    expect(dependenciesOf('requirements/dev.txt', content)).toEqual([
+      { name: 'requests', version: '>=2.31', dependencyType: 'dev' },
+      { name: 'click', dependencyType: 'dev' }
+    ]);
+  });
+
+  test('should read PEP 621 and Poetry dependency tables from pyproject.toml', () => {
+    const content = `[project]
+dependencies = [
+  "fastapi>=0.110",
+]
+
+[project.optional-dependencies]
+test = ["pytest"]
+postgres = ["psycopg>=3"]
+
+[tool.poetry.dependencies]
+python = "^3.11"
+httpx = { version = "^0.27", extras = ["http2"] }
+
+[tool.poetry.group.dev.dependencies]
+ruff = "^0.4"
+`;
+
+    expect(dependenciesOf('pyproject.toml', content)).toEqual([
+      { name: 'fastapi', version: '>=0.110', dependencyType: 'direct' },
+      { name: 'pytest', dependencyType: 'dev' },
+      { name: 'psycopg', version: '>=3', dependencyType: 'direct' },
+      { name: 'httpx', version: '^0.27', dependencyType: 'direct' },
+      { name: 'ruff', version: '^0.4', dependencyType: 'dev' }
+    ]);
+  });
+
+  test('should read poetry.lock packages as transitive unless marked dev', () => {
+    const content = '[[package]]\nname = "requests"\nversion = "2.31.0"\n\n[package.dependencies]\nurllib3 = ">=1"\n\n[[package]]\nname = "pytest"\nversion = "8.0.0"\ncategory = "dev"\n';
+
+    expect(dependenciesOf('poetry.lock', content)).toEqual([
+      { name: 'requests', version: '2.31.0', dependencyType: 'transitive' },
+      { name: 'pytest', version: '8.0.0', dependencyType: 'dev' }
+    ]);
+  });
+
+  test('should read go.mod requirements, marking indirect ones transitive', () => {
+    const content = 'module github.com/acme/svc\n\nrequire github.com/gin-gonic/gin v1.9.1\n\nrequire (\n\tgolang.org/x/sys v0.15.0 // indirect\n)\n';
+
+    expect(dependenciesOf('svc/go.mod', content)).toEqual([
+      { name: 'github.com/gin-gonic/gin', version: 'v1.9.1', dependencyType: 'direct' },
+      { name: 'golang.org/x/sys', version: 'v0.15.0', dependencyType: 'transitive' }
+    ]);
+  });
+
+  test('should ignore other files and unparseable manifests', () => {
+    expect(parseDependencyManifest('tsconfig.json', '{}')).toBeNull();
+    expect(parseDependencyManifest('package.json', '{ invalid')).toBeNull();
+    expect(isDependencyManifest('api/requirements-dev.txt')).toBe(true);
+    expect(isDependencyManifest('docs/notes.txt')).toBe(false);
+  });
+});
+
+describe('PackageIndex', () => {
+  const packageNode = (name: string, ecosystem: string): GraphNode => ({
+    id: getPackageNodeId(name, ecosystem as 'npm'),
+    label: 'Package',
+    properties: { name, ecosystem }
+  });
+
+  const index = new PackageIndex([
+    packageNode('lodash', 'npm'),
+    packageNode('@acme/ui', 'npm'),
+    packageNode('google-cloud-storage', 'pypi'),
+    packageNode('PyYAML', 'pypi'),
+    packageNode('github.com/gin-gonic/gin', 'go')
+  ]);
+
+  test('should map npm subpath and scoped specifiers to their package', () => {
+    expect(index.resolve('lodash/fp', 'npm')).toBe(getPackageNodeId('lodash', 'npm'));
+    expect(index.resolve('@acme/ui/button', 'npm')).toBe(getPackageNodeId('@acme/ui', 'npm'));
+    expect(index.resolve('./lodash', 'npm')).toBeNull();
+  });
+
+  test('should map Python module names to distributions', () => {
+    expect(index.resolve('google.cloud.storage', 'pypi')).toBe(getPackageNodeId('google-cloud-storage', 'pypi'));
+    expect(index.resolve('yaml', 'pypi')).toBe(getPackageNodeId('pyyaml', 'pypi'));
+    expect(index.resolve('os', 'pypi')).toBeNull();
+  });
+
+  test('should map Go package paths to the module that contains them', () => {
+    expect(index.resolve('github.com/gin-gonic/gin/binding', 'go')).toBe(getPackageNodeId('github.com/gin-gonic/gin', 'go'));
+    expect(index.resolve('github.com/gin-gonic/ginkgo', 'go')).toBeNull();
+  });
+});
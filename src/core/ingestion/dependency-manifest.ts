@@ -0,0 +1,366 @@
+/**
+ * Third-party dependencies declared by manifests (package.json, requirements*.txt,
+ * pyproject.toml, go.mod) and pinned by lockfiles (package-lock.json, poetry.lock),
+ * and a package index mapping bare import specifiers onto the Package nodes built
+ * from them.
+ */
+import type { GraphNode } from '../graph/types.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+
+export type PackageEcosystem = 'npm' | 'pypi' | 'go';
+
+export type DependencyType = 'direct' | 'transitive' | 'dev';
+
+export interface ManifestDependency {
+  name: string;
+  version?: string;              // Version specifier as declared (^18.2.0, >=2.31), or the locked version
+  dependencyType: DependencyType;
+}
+
+export interface DependencyManifest {
+  filePath: string;
+  ecosystem: PackageEcosystem;
+  lockfile: boolean;             // Lockfiles pin versions and list transitive packages
+  dependencies: ManifestDependency[];
+}
+
+// Python distributions whose import name differs from the distribution name
+const PYTHON_IMPORT_ALIASES: Record<string, string> = {
+  yaml: 'pyyaml',
+  PIL: 'pillow',
+  sklearn: 'scikit-learn',
+  cv2: 'opencv-python',
+  bs4: 'beautifulsoup4',
+  dateutil: 'python-dateutil',
+  dotenv: 'python-dotenv',
+  jwt: 'pyjwt',
+  attr: 'attrs'
+};
+
+// Optional dependency groups that only serve development
+const DEV_GROUP_PATTERN = /^(dev|develop|development|test|tests|testing|lint|linting|docs|typing)$/i;
+
+const basename = (filePath: string): string => filePath.substring(filePath.lastIndexOf('/') + 1);
+
+/**
+ * Parse a dependency manifest or lockfile, or return null when the file is neither
+ */
+export function parseDependencyManifest(filePath: string, content: string): DependencyManifest | null {
+  const fileName = basename(filePath);
+
+  try {
+    if (fileName === 'package.json') {
+      return { filePath, ecosystem: 'npm', lockfile: false, dependencies: parsePackageJson(content) };
+    }
+    if (fileName === 'package-lock.json') {
+      return { filePath, ecosystem: 'npm', lockfile: true, dependencies: parsePackageLock(content) };
+    }
+    if (isRequirementsFile(filePath)) {
+      const dependencyType = /dev|test|lint|docs/i.test(filePath) ? 'dev' : 'direct';
+      return { filePath, ecosystem: 'pypi', lockfile: false, dependencies: parseRequirements(content, dependencyType) };
+    }
+    if (fileName === 'pyproject.toml') {
+      return { filePath, ecosystem: 'pypi', lockfile: false, dependencies: parsePyprojectDependencies(content) };
+    }
+    if (fileName === 'poetry.lock') {
+      return { filePath, ecosystem: 'pypi', lockfile: true, dependencies: parsePoetryLock(content) };
+    }
+    if (fileName === 'go.mod') {
+      return { filePath, ecosystem: 'go', lockfile: false, dependencies: parseGoMod(content) };
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not parse dependency manifest ${filePath}:`, error);
+  }
+
+  return null;
+}
+
+export function isDependencyManifest(filePath: string): boolean {
+  const fileName = basename(filePath);
+  return ['package.json', 'package-lock.json', 'pyproject.toml', 'poetry.lock', 'go.mod'].includes(fileName) ||
+    isRequirementsFile(filePath);
+}
+
+/**
+ * Comparable package name: PEP 503 normalisation for Python distributions
+ * (Django_REST.framework -> django-rest-framework), npm and Go names as written
+ */
+export function normalizePackageName(name: string, ecosystem: PackageEcosystem): string {
+  return ecosystem === 'pypi' ? name.toLowerCase().replace(/[-_.]+/g, '-') : name;
+}
+
+export function getPackageNodeId(name: string, ecosystem: PackageEcosystem): string {
+  return generateDeterministicId('package', `${ecosystem}:${normalizePackageName(name, ecosystem)}`);
+}
+
+/**
+ * requirements.txt, requirements-dev.txt, requirements/test.txt
+ */
+function isRequirementsFile(filePath: string): boolean {
+  return /^requirements[\w.-]*\.txt$/.test(basename(filePath)) || /(^|\/)requirements\/[\w.-]+\.txt$/.test(filePath);
+}
+
+function parsePackageJson(content: string): ManifestDependency[] {
+  const manifest = JSON.parse(content);
+  const dependencies: ManifestDependency[] = [];
+
+  const sections: Array<[string, DependencyType]> = [
+    ['dependencies', 'direct'],
+    ['peerDependencies', 'direct'],
+    ['optionalDependencies', 'direct'],
+    ['devDependencies', 'dev']
+  ];
+
+  for (const [section, dependencyType] of sections) {
+    for (const [name, version] of Object.entries(manifest[section] || {})) {
+      // Workspace and local path dependencies are project code, not packages
+      if (typeof version !== 'string' || /^(workspace|file|link|portal):/.test(version)) continue;
+      dependencies.push({ name, version, dependencyType });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Installed packages of an npm lockfile: `packages` (lockfileVersion 2 and 3) keyed by
+ * node_modules path, or the nested `dependencies` tree of lockfileVersion 1
+ */
+function parsePackageLock(content: string): ManifestDependency[] {
+  const lock = JSON.parse(content);
+  const dependencies: ManifestDependency[] = [];
+
+  if (lock.packages) {
+    // Hoisted installs first: nested node_modules hold other versions of the same packages
+    const depth = (packagePath: string) => packagePath.split('node_modules/').length;
+    const entries = Object.entries<Record<string, unknown>>(lock.packages)
+      .filter(([packagePath]) => packagePath.includes('node_modules/'))
+      .sort(([a], [b]) => depth(a) - depth(b));
+
+    for (const [packagePath, entry] of entries) {
+      if (entry.link || typeof entry.version !== 'string') continue;
+
+      dependencies.push({
+        name: packagePath.substring(packagePath.lastIndexOf('node_modules/') + 'node_modules/'.length),
+        version: entry.version,
+        dependencyType: entry.dev ? 'dev' : 'transitive'
+      });
+    }
+    return dependencies;
+  }
+
+  const collect = (tree: Record<string, Record<string, unknown>>) => {
+    for (const [name, entry] of Object.entries(tree)) {
+      if (typeof entry.version === 'string' && !/^(file|link):/.test(entry.version)) {
+        dependencies.push({ name, version: entry.version, dependencyType: entry.dev ? 'dev' : 'transitive' });
+      }
+      if (entry.dependencies) collect(entry.dependencies as Record<string, Record<string, unknown>>);
+    }
+  };
+  collect(lock.dependencies || {});
+
+  return dependencies;
+}
+
+function parseRequirements(content: string, dependencyType: DependencyType): ManifestDependency[] {
+  const dependencies: ManifestDependency[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    // Options (-r other.txt, -e ., --index-url) and direct URLs name no index package
+    if (!line || line.startsWith('-') || /^\w+:\/\//.test(line)) continue;
+
+    const requirement = parseRequirement(line);
+    if (requirement) dependencies.push({ ...requirement, dependencyType });
+  }
+
+  return dependencies;
+}
+
+/**
+ * PEP 508 requirement: name, optional [extras], version specifier and ; markers
+ */
+function parseRequirement(requirement: string): { name: string; version?: string } | null {
+  const match = requirement.match(/^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(\[[^\]]*\])?\s*([^;@]*)/);
+  if (!match) return null;
+
+  const version = match[3].trim().replace(/^\((.*)\)$/, '$1');
+  return version ? { name: match[1], version } : { name: match[1] };
+}
+
+/**
+ * PEP 621 `[project]` dependencies and optional dependencies, PEP 735 dependency
+ * groups and Poetry's `[tool.poetry.*dependencies]` tables
+ */
+function parsePyprojectDependencies(content: string): ManifestDependency[] {
+  const tables = splitTomlTables(content);
+  const dependencies: ManifestDependency[] = [];
+
+  const addRequirements = (values: string[], dependencyType: DependencyType) => {
+    for (const value of values) {
+      const requirement = parseRequirement(value);
+      if (requirement) dependencies.push({ ...requirement, dependencyType });
+    }
+  };
+
+  addRequirements(getTomlArray(tables.get('project') || '', 'dependencies'), 'direct');
+
+  for (const tableName of ['project.optional-dependencies', 'dependency-groups']) {
+    for (const [group, values] of getTomlArrays(tables.get(tableName) || '')) {
+      addRequirements(values, tableName === 'dependency-groups' || DEV_GROUP_PATTERN.test(group) ? 'dev' : 'direct');
+    }
+  }
+
+  for (const [tableName, body] of tables) {
+    const groupMatch = tableName.match(/^tool\.poetry\.(?:group\.([^.]+)\.)?(dev-)?dependencies$/);
+    if (!groupMatch) continue;
+
+    const isDev = !!groupMatch[2] || (groupMatch[1] !== undefined && groupMatch[1] !== 'main');
+    for (const line of body.split('\n')) {
+      const entry = line.match(/^\s*["']?([A-Za-z0-9][A-Za-z0-9._-]*)["']?\s*=\s*(.+?)\s*(#.*)?$/);
+      if (!entry || entry[1] === 'python') continue;
+
+      // name = "^2.31" or name = { version = "^2.31", extras = [...] }
+      const version = entry[2].match(/^["']([^"']*)["']/)?.[1] ?? entry[2].match(/version\s*=\s*["']([^"']*)["']/)?.[1];
+      dependencies.push({ name: entry[1], ...(version ? { version } : {}), dependencyType: isDev ? 'dev' : 'direct' });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * `[[package]]` entries of poetry.lock; `category = "dev"` marks dev-only packages in older lockfiles
+ */
+function parsePoetryLock(content: string): ManifestDependency[] {
+  const dependencies: ManifestDependency[] = [];
+
+  for (const block of content.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+    const body = block.split(/^\[/m)[0];
+    const name = body.match(/^name\s*=\s*"([^"]+)"/m)?.[1];
+    const version = body.match(/^version\s*=\s*"([^"]+)"/m)?.[1];
+    if (!name) continue;
+
+    const isDev = body.match(/^category\s*=\s*"([^"]+)"/m)?.[1] === 'dev';
+    dependencies.push({ name, ...(version ? { version } : {}), dependencyType: isDev ? 'dev' : 'transitive' });
+  }
+
+  return dependencies;
+}
+
+/**
+ * `require` directives of go.mod; `// indirect` requirements are transitive
+ */
+function parseGoMod(content: string): ManifestDependency[] {
+  const dependencies: ManifestDependency[] = [];
+  let inRequireBlock = false;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+
+    if (/^require\s*\($/.test(trimmed)) {
+      inRequireBlock = true;
+      continue;
+    }
+    if (inRequireBlock && trimmed === ')') {
+      inRequireBlock = false;
+      continue;
+    }
+
+    const requirement = inRequireBlock ? trimmed : trimmed.match(/^require\s+(.*)$/)?.[1];
+    const match = requirement?.match(/^"?([^\s"]+)"?\s+(\S+)(.*)$/);
+    if (!match) continue;
+
+    dependencies.push({
+      name: match[1],
+      version: match[2],
+      dependencyType: /\/\/\s*indirect/.test(match[3]) ? 'transitive' : 'direct'
+    });
+  }
+
+  return dependencies;
+}
+
+export function splitTomlTables(content: string): Map<string, string> {
+  const tables = new Map<string, string>();
+  let currentTable = '';
+
+  for (const line of content.split('\n')) {
+    const header = line.match(/^\s*\[\[?\s*([^\]]+?)\s*\]\]?\s*(#.*)?$/);
+    if (header) {
+      currentTable = header[1].replace(/["']/g, '');
+      continue;
+    }
+    tables.set(currentTable, (tables.get(currentTable) || '') + line + '\n');
+  }
+
+  return tables;
+}
+
+export const quotedStrings = (text: string): string[] => Array.from(text.matchAll(/"([^"]*)"|'([^']*)'/g), match => match[1] ?? match[2]);
+
+export function getTomlArray(body: string, key: string): string[] {
+  const match = body.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]\\s*$`, 'm'));
+  return match ? quotedStrings(match[1]) : [];
+}
+
+/**
+ * Every `key = [ ... ]` array of a table body
+ */
+function getTomlArrays(body: string): Array<[string, string[]]> {
+  return Array.from(
+    body.matchAll(/^\s*["']?([\w.-]+)["']?\s*=\s*\[([\s\S]*?)\]\s*$/gm),
+    (match): [string, string[]] => [match[1], quotedStrings(match[2])]
+  );
+}
+
+/**
+ * Package nodes of the graph by ecosystem and normalised name, for linking the bare
+ * imports that do not resolve to project files
+ */
+export class PackageIndex {
+  private packages: Map<string, string> = new Map();  // `${ecosystem}:${normalized name}` -> node id
+  private goModulePaths: string[] = [];                // Longest first, for prefix matching
+
+  constructor(nodes: GraphNode[]) {
+    for (const node of nodes) {
+      const { name, ecosystem } = node.properties;
+      if (node.label !== 'Package' || !name || typeof ecosystem !== 'string') continue;
+
+      this.packages.set(`${ecosystem}:${normalizePackageName(name, ecosystem as PackageEcosystem)}`, node.id);
+      if (ecosystem === 'go') this.goModulePaths.push(name);
+    }
+    this.goModulePaths.sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Package node a bare import specifier belongs to: `lodash/fp` -> lodash,
+   * `@acme/ui/button` -> @acme/ui, `google.cloud.storage` -> google-cloud-storage,
+   * `github.com/acme/lib/sub` -> github.com/acme/lib
+   */
+  public resolve(specifier: string, ecosystem: PackageEcosystem): string | null {
+    if (ecosystem === 'npm') {
+      if (specifier.startsWith('.') || specifier.startsWith('/')) return null;
+      const segments = specifier.split('/');
+      const name = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+      return this.packages.get(`npm:${name}`) || null;
+    }
+
+    if (ecosystem === 'pypi') {
+      if (specifier.startsWith('.')) return null;
+      const segments = specifier.split('.');
+
+      // Namespace packages are distributed per subpackage: google.cloud.storage -> google-cloud-storage
+      for (let length = segments.length; length > 0; length--) {
+        const packageId = this.packages.get(`pypi:${normalizePackageName(segments.slice(0, length).join('-'), 'pypi')}`);
+        if (packageId) return packageId;
+      }
+
+      const alias = PYTHON_IMPORT_ALIASES[segments[0]];
+      return alias ? this.packages.get(`pypi:${alias}`) || null : null;
+    }
+
+    const modulePath = this.goModulePaths.find(path => specifier === path || specifier.startsWith(path + '/'));
+    return modulePath ? this.packages.get(`go:${modulePath}`) || null : null;
+  }
+}
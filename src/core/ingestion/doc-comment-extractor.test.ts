@@ -0,0 +1,101 @@
+import { getDocProperties, parseDocComment } from './doc-comment-extractor.js';
+
+describe('parseDocComment', () => {
+  test('should parse JSDoc tags', () => {
+    const doc = parseDocComment(`/**
+     * Charge a customer.
+     *
+     * Retries once on network errors.
+     * @param {string} customerId - Customer to charge
+     * @param {number} [amount=100] Amount in cents,
+     *   before taxes
+     * @returns {Promise<Receipt>} The receipt
+     * @throws {PaymentError} When the card is declined
+     * @deprecated Use chargeV2 instead
+     */`);
+
+    expect(doc).toEqual({
+      description: 'Charge a customer.\n\nRetries once on network errors.',
+      params: [
+        { name: 'customerId', type: 'string', description: 'Customer to charge' },
+        { name: 'amount', type: 'number', description: 'Amount in cents, before taxes' }
+      ],
+      returns: { type: 'Promise<Receipt>', description: 'The receipt' },
+      throws: [{ type: 'PaymentError', description: 'When the card is declined' }],
+      deprecated: 'Use chargeV2 instead'
+    });
+  });
+
+  test('should parse TSDoc and Javadoc tags without braces', () => {
+    const doc = parseDocComment('/** Load a file.\n * @param path - File to read\n * @throws IOException if it is missing\n * @deprecated\n */');
+
+    expect(doc.params).toEqual([{ name: 'path', description: 'File to read' }]);
+    expect(doc.throws).toEqual([{ type: 'IOException', description: 'if it is missing' }]);
+    expect(doc.deprecated).toBe('');
+  });
+
+  test('should parse Google style docstrings', () => {
+    const doc = parseDocComment(`"""Fetch rows from the table.
+
+        Args:
+            table (str): Table name.
+            limit: Maximum number of rows,
+                all when None.
+
+        Returns:
+            list[dict]: The rows.
+
+        Raises:
+            KeyError: If the table does not exist.
+        """`);
+
+    expect(doc).toEqual({
+      description: 'Fetch rows from the table.',
+      params: [
+        { name: 'table', type: 'str', description: 'Table name.' },
+        { name: 'limit', description: 'Maximum number of rows, all when None.' }
+      ],
+      returns: { type: 'list[dict]', description: 'The rows.' },
+      throws: [{ type: 'KeyError', description: 'If the table does not exist.' }]
+    });
+  });
+
+  test('should parse Sphinx fields and deprecation directives', () => {
+    const doc = parseDocComment(`'''Send an email.
+
+    .. deprecated:: 2.0
+       Use notify() instead.
+
+    :param str to: Recipient address
+    :param subject: Subject line
+    :type subject: str
+    :returns: Message id
+    :rtype: int
+    :raises ValueError: on an invalid address
+    '''`);
+
+    expect(doc.description).toBe('Send an email.');
+    expect(doc.deprecated).toBe('2.0 Use notify() instead.');
+    expect(doc.params).toEqual([
+      { name: 'to', type: 'str', description: 'Recipient address' },
+      { name: 'subject', type: 'str', description: 'Subject line' }
+    ]);
+    expect(doc.returns).toEqual({ description: 'Message id', type: 'int' });
+    expect(doc.throws).toEqual([{ type: 'ValueError', description: 'on an invalid address' }]);
+  });
+});
+
+describe('getDocProperties', () => {
+  test('should flatten a doc comment into node properties', () => {
+    const properties = getDocProperties(parseDocComment('/**\n * Old API.\n * @param {string} id Record id\n * @returns {boolean}\n * @deprecated Use find()\n */'));
+
+    expect(properties).toEqual({
+      docstring: 'Old API.',
+      docParams: ['id (string): Record id'],
+      docReturns: '(boolean)',
+      deprecated: true,
+      deprecationMessage: 'Use find()'
+    });
+    expect(getDocProperties(parseDocComment('"""Plain."""'))).toEqual({ docstring: 'Plain.' });
+  });
+});
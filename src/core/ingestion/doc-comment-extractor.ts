@@ -0,0 +1,295 @@
+/**
+ * Documentation of definitions: the `/** ... *\/` block right before a JavaScript,
+ * TypeScript or Java definition (JSDoc / TSDoc / Javadoc), and the docstring opening a
+ * Python function or class body. Both are parsed into a description plus the
+ * `@param`, `@returns`, `@throws` and `@deprecated` tags; Python docstrings may write
+ * those as Sphinx fields (`:param x:`, `:raises E:`, `.. deprecated::`) or Google
+ * sections (`Args:`, `Returns:`, `Raises:`, `Deprecated:`).
+ */
+import type Parser from 'web-tree-sitter';
+import type { NodeProperties } from '../graph/types.ts';
+
+export interface DocParam {
+  name: string;
+  type?: string;
+  description?: string;
+}
+
+export interface DocTag {
+  type?: string;
+  description?: string;
+}
+
+export interface DocComment {
+  description: string;
+  params: DocParam[];
+  returns?: DocTag;
+  throws: DocTag[];
+  deprecated?: string;       // Deprecation note, empty when the tag has none
+}
+
+// Statements a definition can be wrapped in; its doc comment precedes the outermost one
+const DEFINITION_WRAPPERS = new Set([
+  'export_statement', 'lexical_declaration', 'variable_declaration', 'variable_declarator', 'ambient_declaration'
+]);
+
+const GOOGLE_SECTIONS: Record<string, 'params' | 'returns' | 'throws' | 'deprecated'> = {
+  args: 'params', arguments: 'params', parameters: 'params', params: 'params',
+  returns: 'returns', return: 'returns', yields: 'returns',
+  raises: 'throws', throws: 'throws', exceptions: 'throws',
+  deprecated: 'deprecated'
+};
+
+/**
+ * Raw documentation of a definition node, or null when it has none
+ */
+export function getDocCommentText(node: Parser.SyntaxNode, language: string | null): string | null {
+  if (language === 'python') {
+    // Decorated definitions keep the docstring in the inner definition's body
+    const body = node.childForFieldName('body');
+    const first = body?.firstNamedChild;
+    const literal = first?.type === 'expression_statement' ? first.firstNamedChild : null;
+    return literal?.type === 'string' ? literal.text : null;
+  }
+
+  let anchor = node;
+  while (anchor.parent && DEFINITION_WRAPPERS.has(anchor.parent.type)) anchor = anchor.parent;
+
+  // TypeScript member decorators sit between the comment and the member
+  let previous = anchor.previousNamedSibling;
+  let startRow = anchor.startPosition.row;
+  while (previous?.type === 'decorator') {
+    startRow = previous.startPosition.row;
+    previous = previous.previousNamedSibling;
+  }
+
+  if (!previous || (previous.type !== 'comment' && previous.type !== 'block_comment')) return null;
+  if (!previous.text.startsWith('/**') || previous.endPosition.row < startRow - 1) return null;
+  return previous.text;
+}
+
+/**
+ * Parse a `/** ... *\/` block or a Python string literal
+ */
+export function parseDocComment(text: string): DocComment {
+  const docstring = text.match(/^[rRuU]*("""|'''|"|')([\s\S]*)\1$/);
+  return docstring ? parsePythonDocstring(dedent(docstring[2])) : parseJSDoc(text);
+}
+
+/**
+ * Node properties for a parsed doc comment: the description as `docstring`, the tags as
+ * `docParams`, `docReturns`, `docThrows` and a `deprecated` flag with its note
+ */
+export function getDocProperties(doc: DocComment): NodeProperties {
+  const properties: NodeProperties = {};
+  if (doc.description) properties.docstring = doc.description;
+  if (doc.params.length > 0) properties.docParams = doc.params.map(param => formatEntry(param.name, param));
+  if (doc.returns) properties.docReturns = formatEntry('', doc.returns);
+  if (doc.throws.length > 0) properties.docThrows = doc.throws.map(tag => formatEntry('', tag));
+  if (doc.deprecated !== undefined) {
+    properties.deprecated = true;
+    if (doc.deprecated) properties.deprecationMessage = doc.deprecated;
+  }
+  return properties;
+}
+
+// "name (type): description", leaving out the missing parts
+function formatEntry(name: string, tag: DocTag): string {
+  const head = [name, tag.type ? `(${tag.type})` : ''].filter(Boolean).join(' ');
+  return [head, tag.description].filter(Boolean).join(': ');
+}
+
+function parseJSDoc(text: string): DocComment {
+  const lines = text
+    .replace(/^\/\*\*+/, '')
+    .replace(/\*+\/$/, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*\*(?!\/) ?/, '').trimEnd());
+
+  const doc: DocComment = { description: '', params: [], throws: [] };
+  const description: string[] = [];
+  const blocks: string[] = [];  // "@tag rest", continuation lines joined
+
+  for (const line of lines) {
+    if (/^\s*@\w+/.test(line)) {
+      blocks.push(line.trim());
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1] += ` ${line.trim()}`;
+    } else {
+      description.push(line);
+    }
+  }
+  doc.description = description.join('\n').trim();
+
+  for (const block of blocks) {
+    const [, tag, rest = ''] = block.match(/^@(\w+)\s*([\s\S]*)$/) || [];
+    const { type, remainder } = takeBraceType(rest.trim());
+
+    switch (tag) {
+      case 'param':
+      case 'arg':
+      case 'argument': {
+        // `name`, `[name]`, `[name=default]`, optionally followed by ` - description`
+        const name = remainder.match(/^(\[[^\]]*\]|\S+)\s*(?:-\s*)?([\s\S]*)$/);
+        if (!name) break;
+        doc.params.push(compact({ name: name[1].replace(/^\[|\]$/g, '').split('=')[0], type, description: name[2].trim() }));
+        break;
+      }
+      case 'returns':
+      case 'return':
+        doc.returns = compact({ type, description: remainder.replace(/^-\s*/, '') });
+        break;
+      case 'throws':
+      case 'throw':
+      case 'exception': {
+        // Javadoc and plain TSDoc name the error without braces: `@throws IOException when ...`
+        const named = !type ? remainder.match(/^([A-Z]\w*(?:\.\w+)*)\b\s*(?:-\s*)?([\s\S]*)$/) : null;
+        doc.throws.push(named ? compact({ type: named[1], description: named[2] }) : compact({ type, description: remainder }));
+        break;
+      }
+      case 'deprecated':
+        doc.deprecated = remainder.trim();
+        break;
+    }
+  }
+
+  return doc;
+}
+
+function parsePythonDocstring(text: string): DocComment {
+  const doc: DocComment = { description: '', params: [], throws: [] };
+  const description: string[] = [];
+  const paramTypes = new Map<string, string>();
+  let section: 'params' | 'returns' | 'throws' | 'deprecated' | null = null;
+  let returnType: string | undefined;
+  let sectionIndent: number | null = null;  // Indentation of the entries of the current Google section
+  let last: DocTag | null = null;            // Entry continuation lines extend
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+
+    // Sphinx fields: :param [type] name: ..., :type name: ..., :returns: ..., :rtype: ..., :raises E: ...
+    const field = trimmed.match(/^:(\w+)((?:\s+[^:]+)?):\s*(.*)$/);
+    if (field) {
+      const [, kind, argument, value] = field;
+      const words = argument.trim().split(/\s+/).filter(Boolean);
+      section = null;
+      last = null;
+      if (kind === 'param' || kind === 'parameter' || kind === 'arg' || kind === 'argument') {
+        const param: DocParam = compact({ name: words[words.length - 1] || '', type: words.slice(0, -1).join(' '), description: value });
+        doc.params.push(param);
+        last = param;
+      } else if (kind === 'type' && words.length > 0) {
+        paramTypes.set(words[0], value);
+      } else if (kind === 'returns' || kind === 'return') {
+        doc.returns = compact({ ...doc.returns, description: value });
+        last = doc.returns;
+      } else if (kind === 'rtype') {
+        returnType = value;
+      } else if (kind === 'raises' || kind === 'raise' || kind === 'except' || kind === 'exception') {
+        last = compact({ type: words.join(' '), description: value });
+        doc.throws.push(last);
+      }
+      continue;
+    }
+
+    const deprecation = trimmed.match(/^\.\.\s+deprecated::\s*(.*)$/);
+    if (deprecation) {
+      doc.deprecated = deprecation[1];
+      section = 'deprecated';
+      last = null;
+      continue;
+    }
+
+    // Google sections: an unindented `Args:` header followed by indented entries
+    const header = !/^\s/.test(line) && trimmed.match(/^(\w+):\s*(.*)$/);
+    if (header && GOOGLE_SECTIONS[header[1].toLowerCase()]) {
+      section = GOOGLE_SECTIONS[header[1].toLowerCase()];
+      sectionIndent = null;
+      last = null;
+      if (section === 'deprecated') doc.deprecated = header[2];
+      continue;
+    }
+
+    if (!trimmed) {
+      if (section === 'deprecated') section = null;
+      last = null;
+      continue;
+    }
+
+    if (section === null || !/^\s/.test(line)) {
+      if (last) {
+        last.description = [last.description, trimmed].filter(Boolean).join(' ');
+      } else {
+        section = null;
+        description.push(line);
+      }
+      continue;
+    }
+
+    // Indented line inside a Google section: an entry at the section's indentation, or
+    // a deeper continuation of the last entry
+    const indent = line.search(/\S/);
+    if (sectionIndent === null) sectionIndent = indent;
+    const entry = indent <= sectionIndent ? trimmed.match(/^(\*{0,2}[\w.[\]|]+(?:,\s*[\w.[\]|]+)*)(?:\s*\(([^)]*)\))?:\s*(.*)$/) : null;
+
+    if (section === 'deprecated') {
+      doc.deprecated = [doc.deprecated, trimmed].filter(Boolean).join(' ');
+    } else if (entry && section === 'params') {
+      const param: DocParam = compact({ name: entry[1].replace(/^\*+/, ''), type: entry[2], description: entry[3] });
+      doc.params.push(param);
+      last = param;
+    } else if (entry && section === 'throws') {
+      last = compact({ type: entry[1], description: entry[3] });
+      doc.throws.push(last);
+    } else if (entry && section === 'returns') {
+      doc.returns = compact({ type: entry[2] || entry[1], description: entry[3] });
+      last = doc.returns;
+    } else if (last) {
+      last.description = [last.description, trimmed].filter(Boolean).join(' ');
+    } else if (section === 'returns') {
+      doc.returns = compact({ description: trimmed });
+      last = doc.returns;
+    }
+  }
+
+  for (const param of doc.params) {
+    if (!param.type && paramTypes.has(param.name)) param.type = paramTypes.get(param.name);
+  }
+  if (returnType) doc.returns = compact({ ...doc.returns, type: returnType });
+
+  doc.description = description.join('\n').trim();
+  return doc;
+}
+
+// `{Type} rest` -> type and rest, with nested braces in the type (`{Record<string, {a: number}>}`)
+function takeBraceType(text: string): { type?: string; remainder: string } {
+  if (!text.startsWith('{')) return { remainder: text };
+
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    if (text[i] === '}' && --depth === 0) {
+      return { type: text.substring(1, i).trim(), remainder: text.substring(i + 1).trim() };
+    }
+  }
+  return { remainder: text };
+}
+
+// Drop empty fields so absent parts stay absent
+function compact<T extends object>(entry: T): T {
+  for (const key of Object.keys(entry) as Array<keyof T>) {
+    const value = entry[key];
+    if (value === undefined || (typeof value === 'string' && value.trim() === '')) delete entry[key];
+    else if (typeof value === 'string') entry[key] = value.trim() as T[keyof T];
+  }
+  return entry;
+}
+
+// Python docstrings indent every line but the first like the body (PEP 257 trim)
+function dedent(text: string): string {
+  const lines = text.replace(/\t/g, '    ').split('\n');
+  const indents = lines.slice(1).filter(line => line.trim()).map(line => line.search(/\S/));
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return [lines[0].trim(), ...lines.slice(1).map(line => line.substring(indent).trimEnd())].join('\n').trim();
+}
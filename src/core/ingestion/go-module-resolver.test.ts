@@ -0,0 +1,64 @@
+import { GoModuleResolver, filterGoPackageDefinitions, getGoPackageName, parseGoModulePath } from './go-module-resolver.js';
+
+// Root module with an internal package, plus a nested module under tools/
+const files = new Map<string, string>([
+  ['go.mod', 'module github.com/acme/svc\n\ngo 1.22\n\nrequire github.com/google/uuid v1.6.0\n'],
+  ['main.go', 'package main'],
+  ['internal/util/log.go', 'package util'],
+  ['internal/util/format.go', 'package util'],
+  ['internal/util/log_test.go', 'package util'],
+  ['internal/empty/README.md', ''],
+  ['tools/go.mod', 'module "github.com/acme/svc/tools"\n'],
+  ['tools/gen/gen.go', 'package gen']
+]);
+
+describe('GoModuleResolver', () => {
+  const resolver = new GoModuleResolver(files);
+
+  test('should resolve imports under the go.mod module path to package directories', () => {
+    expect(resolver.resolve('github.com/acme/svc/internal/util')).toBe('internal/util');
+    expect(resolver.resolve('github.com/acme/svc')).toBe('');
+  });
+
+  test('should prefer the nested module for its own packages', () => {
+    expect(resolver.resolve('github.com/acme/svc/tools/gen')).toBe('tools/gen');
+  });
+
+  test('should leave standard library, third-party and empty packages unresolved', () => {
+    expect(resolver.resolve('fmt')).toBeNull();
+    expect(resolver.resolve('github.com/google/uuid')).toBeNull();
+    expect(resolver.resolve('github.com/acme/svc/internal/empty')).toBeNull();
+    expect(resolver.resolve('github.com/acme/svcx/internal/util')).toBeNull();
+  });
+
+  test('should list the non-test files of a package', () => {
+    expect(resolver.getPackageFiles('internal/util')).toEqual(['internal/util/format.go', 'internal/util/log.go']);
+    expect(resolver.getPackageFiles('fmt')).toEqual([]);
+  });
+});
+
+describe('Go package helpers', () => {
+  test('should read the module path from go.mod', () => {
+    expect(parseGoModulePath('// comment\nmodule github.com/acme/svc // main module\n')).toBe('github.com/acme/svc');
+    expect(parseGoModulePath('go 1.22\n')).toBeNull();
+  });
+
+  test('should derive package qualifiers from import paths', () => {
+    expect(getGoPackageName('github.com/acme/svc/internal/util')).toBe('util');
+    expect(getGoPackageName('github.com/go-chi/chi/v5')).toBe('chi');
+    expect(getGoPackageName('gopkg.in/yaml.v3')).toBe('yaml');
+  });
+
+  test('should resolve selector calls to definitions in the imported package only', () => {
+    const resolver = new GoModuleResolver(files);
+    const definitions = [
+      { nodeId: 'main-log', filePath: 'main.go' },
+      { nodeId: 'util-log', filePath: 'internal/util/log.go' },
+      { nodeId: 'gen-log', filePath: 'tools/gen/gen.go' }
+    ];
+
+    // util.Log() in main.go, with util imported as github.com/acme/svc/internal/util
+    const packageDir = resolver.resolve('github.com/acme/svc/internal/util')!;
+    expect(filterGoPackageDefinitions(definitions, packageDir).map(definition => definition.nodeId)).toEqual(['util-log']);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Resolution of Go import paths against the ingested file map. Go imports whole
+ * packages: an import path under a go.mod module path maps to the package directory
+ * below that go.mod, and every non-test .go file directly in the directory belongs
+ * to the package.
+ */
+
+interface GoModule {
+  modulePath: string;  // e.g. github.com/acme/svc
+  rootDir: string;     // directory holding go.mod ('' for repository root)
+}
+
+const dirname = (filePath: string): string => {
+  const lastSlash = filePath.lastIndexOf('/');
+  return lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+};
+
+/**
+ * Module path declared by a go.mod file
+ */
+export function parseGoModulePath(content: string): string | null {
+  const moduleMatch = content.match(/^\s*module\s+"?([^\s"]+)"?/m);
+  return moduleMatch ? moduleMatch[1] : null;
+}
+
+/**
+ * Default package qualifier for a Go import path
+ * (last segment, skipping major version suffixes like /v2 and gopkg.in's .v3)
+ */
+export function getGoPackageName(importPath: string): string {
+  const segments = importPath.split('/').filter(s => s.length > 0);
+  let name = segments[segments.length - 1] || importPath;
+  if (/^v\d+$/.test(name) && segments.length > 1) {
+    name = segments[segments.length - 2];
+  }
+  return name.replace(/\.v\d+$/, '');
+}
+
+/**
+ * Definitions a selector call (pkg.Func(), pkg.Type{}) can reach through an import
+ * resolved to packageDir: those declared directly in the package directory
+ */
+export function filterGoPackageDefinitions<T extends { filePath: string }>(definitions: T[], packageDir: string): T[] {
+  return definitions.filter(definition => dirname(definition.filePath) === packageDir);
+}
+
+export class GoModuleResolver {
+  private modules: GoModule[] = [];
+  private packageFiles = new Map<string, string[]>();
+
+  constructor(fileContents: Map<string, string>) {
+    for (const [filePath, content] of fileContents) {
+      if (filePath === 'go.mod' || filePath.endsWith('/go.mod')) {
+        const modulePath = parseGoModulePath(content);
+        if (modulePath) {
+          this.modules.push({ modulePath, rootDir: dirname(filePath) });
+        }
+      } else if (filePath.endsWith('.go') && !filePath.endsWith('_test.go')) {
+        const packageDir = dirname(filePath);
+        if (!this.packageFiles.has(packageDir)) this.packageFiles.set(packageDir, []);
+        this.packageFiles.get(packageDir)!.push(filePath);
+      }
+    }
+
+    // Longest module path first so nested modules win over their parents
+    this.modules.sort((a, b) => b.modulePath.length - a.modulePath.length);
+    for (const files of this.packageFiles.values()) files.sort();
+  }
+
+  /**
+   * Package directory of an import path, or null for the standard library,
+   * third-party modules and paths with no Go files in the project
+   */
+  resolve(importPath: string): string | null {
+    for (const { modulePath, rootDir } of this.modules) {
+      if (importPath !== modulePath && !importPath.startsWith(modulePath + '/')) continue;
+
+      const relativeDir = importPath.substring(modulePath.length + 1);
+      const packageDir = [rootDir, relativeDir].filter(part => part.length > 0).join('/');
+      if (this.getPackageFiles(packageDir).length > 0) {
+        return packageDir;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Non-test Go source files that make up a package directory
+   */
+  getPackageFiles(packageDir: string): string[] {
+    return this.packageFiles.get(packageDir) || [];
+  }
+}
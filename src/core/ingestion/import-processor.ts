@@ -1,6 +1,28 @@
-import type { KnowledgeGraph, GraphRelationship } from '../graph/types.ts';
+import type { KnowledgeGraph, GraphNode, GraphRelationship } from '../graph/types.ts';
 import type { ParsedAST } from './parsing-processor.ts';
 import Parser from 'web-tree-sitter';
+import { JSModuleResolver } from './js-module-resolver.ts';
+import { PythonModuleResolver } from './python-module-resolver.ts';
+import { GoModuleResolver, getGoPackageName } from './go-module-resolver.ts';
+import { JavaPackageResolver } from './java-package-resolver.ts';
+import { RustModuleResolver, splitRustPath } from './rust-module-resolver.ts';
+import { CSharpNamespaceIndex, normalizeCSharpName, getCSharpNamespace } from './csharp-resolver.ts';
+import { getComponentFramework, getTemplateComponentUsages } from './sfc-extractor.ts';
+import { PackageIndex, type PackageEcosystem } from './dependency-manifest.ts';
+import { WorkspaceIndex } from './workspace-detection.ts';
+import { addDiagnosticNodes, type ResolutionDiagnostic } from './resolution-diagnostics.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+
+// Package registries whose manifests are ingested, by importing language
+const PACKAGE_ECOSYSTEMS: Partial<Record<string, PackageEcosystem>> = {
+  javascript: 'npm',
+  typescript: 'npm',
+  python: 'pypi',
+  go: 'go'
+};
+
+// Node labels a Vue / Svelte template tag can refer to
+const COMPONENT_TARGET_LABELS = new Set(['Component', 'Function', 'Class', 'Variable']);
 
 // Simple path utilities for browser compatibility
 const pathUtils = {
@@ -38,7 +60,7 @@ const pathUtils = {
 interface ImportMap {
   [importingFile: string]: {
     [localName: string]: {
-      targetFile: string;
+      targetFile: string;  // Resolved file path (package directory for Go imports, FQN for unresolved Java imports)
       exportedName: string;
       importType: 'default' | 'named' | 'namespace' | 'dynamic';
     }
@@ -51,15 +73,54 @@ interface ImportInfo {
   targetFile: string;
   exportedName: string;
   importType: 'default' | 'named' | 'namespace' | 'dynamic';
+  reExport?: boolean;  // `export ... from` statement rather than an import
+}
+
+type ImportMapEntry = ImportMap[string][string];
+
+/**
+ * What a JS/TS module exports: `source` is set for `export ... from` re-exports,
+ * otherwise `name` is a binding local to the module (a declaration or an import)
+ */
+interface JSExportEntry {
+  name: string;
+  source?: string;
+  importType: 'named' | 'namespace';
+}
+
+interface JSModuleExports {
+  named: Map<string, JSExportEntry>;
+  starSources: string[];  // export * from '...'
+}
+
+interface PythonModuleNames {
+  definedNames: Set<string>;   // Top-level functions, classes and assignments
+  allNames: string[] | null;   // Contents of __all__, if the module declares it
 }
 
 export class ImportProcessor {
   private importMap: ImportMap = {};
   private projectFiles: Set<string> = new Set();
+  private goModuleResolver: GoModuleResolver | null = null;
+  private javaPackageResolver: JavaPackageResolver | null = null;
+  private rustModuleResolver: RustModuleResolver | null = null;
+  private jsModuleResolver: JSModuleResolver | null = null;
+  private jsExports: Map<string, JSModuleExports> = new Map();
+  private pythonModuleResolver: PythonModuleResolver | null = null;
+  private pythonStarImports: Map<string, string[]> = new Map();  // importing file -> modules it star-imports
+  private pythonModuleNames: Map<string, PythonModuleNames> = new Map();
+  private csharpNamespaces: CSharpNamespaceIndex | null = null;
+  private csharpFileNamespaces: Map<string, Set<string>> = new Map();  // file -> namespaces it declares types in
+  private packageIndex: PackageIndex | null = null;
+  private workspaceIndex: WorkspaceIndex | null = null;
+  private astMap: Map<string, ParsedAST> = new Map();
+  private projectDirectories: Set<string> = new Set();
+  private diagnostics: ResolutionDiagnostic[] = [];
 
   private stats = {
     nodesProcessed: 0,
-    relationshipsProcessed: 0
+    relationshipsProcessed: 0,
+    crossPackageImports: 0
   };
 
   constructor() {
@@ -81,13 +142,42 @@ export class ImportProcessor {
       console.log('📦 ImportProcessor: Starting import resolution...');
       
       // Reset statistics
-      this.stats = { nodesProcessed: 0, relationshipsProcessed: 0 };
+      this.stats = { nodesProcessed: 0, relationshipsProcessed: 0, crossPackageImports: 0 };
+      this.diagnostics = [];
       
       // Build set of all project files for validation
       this.projectFiles = new Set(fileContents.keys());
+      this.projectDirectories = new Set([...this.projectFiles].map(filePath => pathUtils.dirname(filePath)));
+      
+      // Collect Go module roots so package imports can be mapped to directories
+      this.goModuleResolver = new GoModuleResolver(fileContents);
+      
+      // Java source roots and Rust crate module trees
+      this.javaPackageResolver = new JavaPackageResolver(this.projectFiles);
+      this.rustModuleResolver = new RustModuleResolver(this.projectFiles);
+      
+      // tsconfig/jsconfig path aliases and workspace package manifests for bare JS/TS specifiers
+      this.jsModuleResolver = new JSModuleResolver(fileContents);
+      
+      // Python package roots (src/ layouts, pyproject.toml package dirs)
+      this.pythonModuleResolver = new PythonModuleResolver(fileContents);
+      
+      // C# namespaces declared by the type nodes of every file, including carried ones
+      this.csharpNamespaces = new CSharpNamespaceIndex(graph.nodes);
+      
+      // Third-party packages declared by dependency manifests, for bare imports
+      this.packageIndex = new PackageIndex(graph.nodes);
+      
+      // Workspace members and submodules, for labelling imports that cross package boundaries
+      this.workspaceIndex = new WorkspaceIndex(graph.nodes);
       
       // Clear previous import map
       this.importMap = {};
+      this.jsExports = new Map();
+      this.pythonStarImports = new Map();
+      this.pythonModuleNames = new Map();
+      this.csharpFileNamespaces = new Map();
+      this.astMap = astMap;
       
       let totalImportsFound = 0;
       let totalImportsResolved = 0;
@@ -99,6 +189,20 @@ export class ImportProcessor {
         totalImportsResolved += fileImports.resolved;
       }
       
+      // Star imports, barrels and package re-exports need every module's imports first
+      this.resolveJSReExports();
+      this.resolvePythonImports();
+      
+      // Components rendered by Vue / Svelte markup, through the (re-export resolved) imports
+      this.createComponentUsages(graph, fileContents);
+      
+      // C# types of the enclosing namespaces are visible without a using directive
+      this.resolveCSharpNamespaceScopes();
+      this.createCSharpNamespaceNodes(graph);
+      
+      // Unresolved imports become UnresolvedImport nodes for the diagnostics report
+      this.stats.nodesProcessed += addDiagnosticNodes(graph, this.diagnostics);
+      
       console.log('✅ ImportProcessor: Completed import resolution');
       console.log(`📊 Found ${totalImportsFound} imports, resolved ${totalImportsResolved} (${totalImportsResolved > 0 ? ((totalImportsResolved/totalImportsFound)*100).toFixed(1) : '0'}%)`);
       console.log(`📋 Built import map for ${Object.keys(this.importMap).length} files`);
@@ -129,7 +233,11 @@ export class ImportProcessor {
     
     const imports = this.extractImports(ast.tree.rootNode, filePath);
     
-
+    // Export table for following barrel files (export * from / export { x } from)
+    const language = this.detectLanguage(filePath);
+    if (language === 'javascript' || language === 'typescript') {
+      await this.collectJSExports(ast.tree.rootNode, filePath, graph);
+    }
     
     if (imports.length === 0) return { found: 0, resolved: 0 };
 
@@ -140,12 +248,20 @@ export class ImportProcessor {
     let resolved = 0;
 
     for (const importInfo of imports) {
-      // Store in import map
-      this.importMap[filePath][importInfo.localName] = {
-        targetFile: importInfo.targetFile,
-        exportedName: importInfo.exportedName,
-        importType: importInfo.importType
-      };
+      if (importInfo.localName === '*') {
+        // Python star import: expanded into named entries once all modules are known
+        if (!this.pythonStarImports.has(filePath)) {
+          this.pythonStarImports.set(filePath, []);
+        }
+        this.pythonStarImports.get(filePath)!.push(importInfo.targetFile);
+      } else {
+        // Store in import map
+        this.importMap[filePath][importInfo.localName] = {
+          targetFile: importInfo.targetFile,
+          exportedName: importInfo.exportedName,
+          importType: importInfo.importType
+        };
+      }
 
       // Create IMPORTS relationship in graph
       await this.createImportRelationship(graph, importInfo);
@@ -168,11 +284,426 @@ export class ImportProcessor {
       this.extractPythonImports(rootNode, filePath, imports);
     } else if (language === 'javascript' || language === 'typescript') {
       this.extractJSImports(rootNode, filePath, imports);
+    } else if (language === 'go') {
+      this.extractGoImports(rootNode, filePath, imports);
+    } else if (language === 'java') {
+      this.extractJavaImports(rootNode, filePath, imports);
+    } else if (language === 'rust') {
+      this.extractRustImports(rootNode, filePath, imports);
+    } else if (language === 'csharp') {
+      this.extractCSharpImports(rootNode, filePath, imports);
     }
 
     return imports;
   }
 
+  /**
+   * Extract Go imports
+   * Go imports whole packages, so the target is the package directory and the
+   * local name is the package qualifier used at call sites (e.g. util.Log()).
+   */
+  private extractGoImports(
+    node: Parser.SyntaxNode,
+    filePath: string,
+    imports: ImportInfo[]
+  ): void {
+    if (node.type === 'import_spec') {
+      // Handle: import "github.com/acme/svc/internal/util"
+      // Handle: import u "github.com/acme/svc/internal/util"
+      const pathNode = node.childForFieldName('path');
+      if (pathNode) {
+        const importPath = pathNode.text.replace(/["`]/g, '');
+        const aliasNode = node.childForFieldName('name');
+        const targetFile = this.resolveModulePath(importPath, filePath, 'go');
+
+        let localName = aliasNode ? aliasNode.text : getGoPackageName(importPath);
+        if (localName === '_') {
+          localName = '_side_effect_';
+        }
+
+        imports.push({
+          importingFile: filePath,
+          localName,
+          targetFile,
+          exportedName: importPath,
+          importType: 'namespace'
+        });
+      }
+      return;
+    }
+
+    // Recursively process children
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i);
+      if (child) {
+        this.extractGoImports(child, filePath, imports);
+      }
+    }
+  }
+
+  /**
+   * Extract Java imports
+   * Imports name classes by fully qualified name (com.acme.util.Helper), which map
+   * onto the package directory layout under a source root such as src/main/java.
+   */
+  private extractJavaImports(
+    node: Parser.SyntaxNode,
+    filePath: string,
+    imports: ImportInfo[]
+  ): void {
+    if (node.type === 'import_declaration') {
+      const nameNode = node.namedChildren.find(child =>
+        child.type === 'scoped_identifier' || child.type === 'identifier'
+      );
+      if (!nameNode) return;
+
+      const qualifiedName = nameNode.text;
+      const isStatic = node.children.some(child => child.type === 'static');
+      const isWildcard = node.children.some(child => child.type === 'asterisk');
+
+      if (isWildcard && !isStatic) {
+        // Handle: import com.acme.model.*; (every class in the package becomes visible)
+        for (const classFile of (this.javaPackageResolver?.getPackageFiles(qualifiedName) || [])) {
+          const className = classFile.substring(classFile.lastIndexOf('/') + 1).replace(/\.java$/, '');
+          imports.push({
+            importingFile: filePath,
+            localName: className,
+            targetFile: classFile,
+            exportedName: className,
+            importType: 'named'
+          });
+        }
+        return;
+      }
+
+      const targetFile = this.resolveModulePath(qualifiedName, filePath, 'java');
+      const simpleName = qualifiedName.substring(qualifiedName.lastIndexOf('.') + 1);
+
+      if (isWildcard) {
+        // Handle: import static com.acme.util.Helper.*; (members are not known here, link the file only)
+        imports.push({
+          importingFile: filePath,
+          localName: `${qualifiedName}.*`,
+          targetFile,
+          exportedName: targetFile === qualifiedName ? qualifiedName : '*',
+          importType: 'namespace'
+        });
+        return;
+      }
+
+      // Handle: import com.acme.util.Helper; / import static com.acme.util.Helper.assist;
+      // Unresolved (JDK / third-party) imports keep the qualified name as both target and export
+      imports.push({
+        importingFile: filePath,
+        localName: simpleName,
+        targetFile,
+        exportedName: targetFile === qualifiedName ? qualifiedName : simpleName,
+        importType: 'named'
+      });
+      return;
+    }
+
+    // Imports only appear at the top level of a compilation unit
+    if (node.type !== 'program') return;
+
+    for (const child of node.namedChildren) {
+      this.extractJavaImports(child, filePath, imports);
+    }
+  }
+
+  /**
+   * Extract Rust module declarations and use declarations
+   * `mod foo;` links the parent module file to foo.rs or foo/mod.rs; `use` paths are
+   * resolved against the crate module tree (crate::, self::, super::).
+   */
+  private extractRustImports(
+    node: Parser.SyntaxNode,
+    filePath: string,
+    imports: ImportInfo[]
+  ): void {
+    if (node.type === 'mod_item') {
+      // Handle: mod util; (inline `mod util { ... }` bodies live in the same file)
+      const nameNode = node.childForFieldName('name');
+      if (nameNode && !node.childForFieldName('body')) {
+        const modulePath = [...(this.rustModuleResolver?.getModulePath(filePath) || []), nameNode.text];
+        const targetFile = this.rustModuleResolver?.resolveModuleFile(filePath, modulePath);
+        imports.push({
+          importingFile: filePath,
+          localName: nameNode.text,
+          targetFile: targetFile || nameNode.text,
+          exportedName: nameNode.text,
+          importType: 'namespace'
+        });
+      }
+      return;
+    }
+
+    if (node.type === 'use_declaration') {
+      const argument = node.childForFieldName('argument');
+      if (argument) {
+        this.processRustUseTree(argument, [], filePath, imports);
+      }
+      return;
+    }
+
+    // Recursively process children
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i);
+      if (child) {
+        this.extractRustImports(child, filePath, imports);
+      }
+    }
+  }
+
+  /**
+   * Expand one node of a use tree (a::b, a::{b, c as d}, a::*) into import entries
+   */
+  private processRustUseTree(
+    node: Parser.SyntaxNode,
+    prefix: string[],
+    filePath: string,
+    imports: ImportInfo[]
+  ): void {
+    switch (node.type) {
+      case 'scoped_use_list': {
+        // Handle: use crate::util::{assist, Helper as H};
+        const pathNode = node.childForFieldName('path');
+        const listNode = node.childForFieldName('list');
+        const basePath = pathNode ? [...prefix, ...splitRustPath(pathNode.text)] : prefix;
+        for (const item of listNode?.namedChildren || []) {
+          this.processRustUseTree(item, basePath, filePath, imports);
+        }
+        break;
+      }
+      case 'use_list':
+        for (const item of node.namedChildren) {
+          this.processRustUseTree(item, prefix, filePath, imports);
+        }
+        break;
+      case 'use_as_clause': {
+        // Handle: use crate::util::Helper as H;
+        const pathNode = node.childForFieldName('path');
+        const aliasNode = node.childForFieldName('alias');
+        if (pathNode) {
+          this.addRustUseImport([...prefix, ...splitRustPath(pathNode.text)], aliasNode?.text, filePath, imports);
+        }
+        break;
+      }
+      case 'use_wildcard': {
+        // Handle: use crate::models::*; (item names are not known here, link the module only)
+        const pathNode = node.namedChildren[0];
+        const fullPath = pathNode ? [...prefix, ...splitRustPath(pathNode.text)] : prefix;
+        const modulePath = this.rustModuleResolver?.toModulePath(fullPath, filePath);
+        const targetFile = modulePath ? this.rustModuleResolver?.resolveModuleFile(filePath, modulePath) : null;
+        const pathText = fullPath.join('::');
+        imports.push({
+          importingFile: filePath,
+          localName: `${pathText}::*`,
+          targetFile: targetFile || pathText,
+          exportedName: targetFile ? '*' : pathText,
+          importType: 'namespace'
+        });
+        break;
+      }
+      default:
+        // identifier, scoped_identifier, self, crate, super
+        this.addRustUseImport([...prefix, ...splitRustPath(node.text)], undefined, filePath, imports);
+    }
+  }
+
+  /**
+   * Record a single `use` path, importing either a module or an item declared in one
+   */
+  private addRustUseImport(
+    fullPath: string[],
+    alias: string | undefined,
+    filePath: string,
+    imports: ImportInfo[]
+  ): void {
+    // `use crate::util::{self}` imports the module itself
+    const segments = fullPath[fullPath.length - 1] === 'self' ? fullPath.slice(0, -1) : fullPath;
+    if (segments.length === 0) return;
+
+    const target = this.rustModuleResolver?.resolveUsePath(segments, filePath);
+    if (!target) return;
+    imports.push({ importingFile: filePath, localName: alias || segments[segments.length - 1], ...target });
+  }
+
+  /**
+   * Extract C# using directives
+   * `using` names a namespace, not a file: its target is every type the ingested files
+   * declare in that namespace, wherever they live. `using static` and aliases of a
+   * type link the declaring file; aliases of a namespace expose its types like a plain using.
+   */
+  private extractCSharpImports(
+    node: Parser.SyntaxNode,
+    filePath: string,
+    imports: ImportInfo[]
+  ): void {
+    if (node.type === 'using_directive') {
+      const nameNode = node.namedChildren.filter(child => child.type !== 'name_equals').pop();
+      if (!nameNode) return;
+
+      const target = normalizeCSharpName(nameNode.text);
+      const alias = node.namedChildren.find(child => child.type === 'name_equals')?.firstNamedChild?.text;
+      const isStatic = node.children.some(child => child.type === 'static');
+      const type = this.csharpNamespaces?.resolveType(target);
+
+      if (isStatic) {
+        // Handle: using static Acme.Util.Helpers; (members are not known here, link the file only)
+        imports.push({
+          importingFile: filePath,
+          localName: `${target}.*`,
+          targetFile: type ? type.filePath : target,
+          exportedName: type ? '*' : target,
+          importType: 'namespace'
+        });
+      } else if (alias && type) {
+        // Handle: using Repo = Acme.Data.Repository;
+        imports.push({ importingFile: filePath, localName: alias, targetFile: type.filePath, exportedName: type.name, importType: 'named' });
+      } else if (this.csharpNamespaces?.hasNamespace(target)) {
+        // Handle: using Acme.Models; (every type declared in the namespace becomes visible)
+        for (const namespaceType of this.csharpNamespaces.getTypes(target)) {
+          imports.push({
+            importingFile: filePath,
+            localName: namespaceType.name,
+            targetFile: namespaceType.filePath,
+            exportedName: namespaceType.name,
+            importType: 'named'
+          });
+        }
+      } else {
+        // BCL / NuGet namespaces keep the namespace as both target and export
+        imports.push({ importingFile: filePath, localName: alias || target, targetFile: target, exportedName: target, importType: 'namespace' });
+      }
+      return;
+    }
+
+    if (node.type === 'compilation_unit') {
+      // Every file sees the global namespace
+      this.csharpFileNamespaces.set(filePath, new Set(['']));
+    } else if (node.type === 'namespace_declaration' || node.type === 'file_scoped_namespace_declaration') {
+      const nameNode = node.childForFieldName('name');
+      if (nameNode) {
+        const namespace = [getCSharpNamespace(node), normalizeCSharpName(nameNode.text)].filter(Boolean).join('.');
+        this.csharpFileNamespaces.get(filePath)?.add(namespace);
+      }
+    } else if (node.type !== 'declaration_list') {
+      // Using directives only appear at the top of compilation units and namespace bodies
+      return;
+    }
+
+    for (const child of node.namedChildren) {
+      this.extractCSharpImports(child, filePath, imports);
+    }
+  }
+
+  /**
+   * Make the types of each namespace a C# file declares into (and of the namespaces
+   * enclosing it) resolvable by simple name, as the compiler does. Inner namespaces
+   * shadow outer ones and using directives.
+   */
+  private resolveCSharpNamespaceScopes(): void {
+    if (!this.csharpNamespaces) return;
+
+    for (const [filePath, namespaces] of this.csharpFileNamespaces) {
+      for (const namespace of namespaces) {
+        const visibleNamespaces = this.csharpNamespaces.getEnclosingNamespaces(namespace).reverse();
+
+        for (const visibleNamespace of visibleNamespaces) {
+          for (const type of this.csharpNamespaces.getTypes(visibleNamespace)) {
+            if (type.filePath === filePath) continue;
+            if (!this.importMap[filePath]) this.importMap[filePath] = {};
+            this.importMap[filePath][type.name] = { targetFile: type.filePath, exportedName: type.name, importType: 'named' };
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * USES edges from each parsed Vue / Svelte component to the imported components its
+   * markup renders (<UserCard/>, <user-card>)
+   */
+  private createComponentUsages(graph: KnowledgeGraph, fileContents: Map<string, string>): void {
+    const componentFiles = Array.from(this.astMap.keys()).filter(filePath => getComponentFramework(filePath));
+    if (componentFiles.length === 0) return;
+
+    // Import targets: a component file's default export is its Component node
+    const targetIds = new Map<string, string>();
+    for (const node of graph.nodes) {
+      const { filePath, name } = node.properties;
+      if (!COMPONENT_TARGET_LABELS.has(node.label) || !filePath) continue;
+      targetIds.set(`${filePath}#${node.label === 'Component' ? 'default' : name}`, node.id);
+    }
+
+    for (const filePath of componentFiles) {
+      const sourceId = targetIds.get(`${filePath}#default`);
+      const fileImports = this.importMap[filePath];
+      if (!sourceId || !fileImports) continue;
+
+      const linkedTargets = new Set<string>();
+      for (const usage of getTemplateComponentUsages(fileContents.get(filePath) || '', getComponentFramework(filePath)!)) {
+        const importInfo = fileImports[usage.name];
+        const targetId = importInfo && targetIds.get(`${importInfo.targetFile}#${importInfo.exportedName}`);
+        if (!targetId || targetId === sourceId || linkedTargets.has(targetId)) continue;
+
+        linkedTargets.add(targetId);
+        graph.addRelationship({
+          id: generateDeterministicId('uses', `${sourceId}-${targetId}`),
+          type: 'USES',
+          source: sourceId,
+          target: targetId,
+          properties: {
+            usageType: 'component',
+            context: usage.tagName,
+            line_number: usage.line
+          }
+        });
+        this.stats.relationshipsProcessed++;
+      }
+    }
+  }
+
+  /**
+   * One Module node per declared C# namespace, containing its types and nested namespaces
+   */
+  private createCSharpNamespaceNodes(graph: KnowledgeGraph): void {
+    if (!this.csharpNamespaces) return;
+
+    const namespaceId = (namespace: string) => generateDeterministicId('namespace', namespace);
+    const addContains = (source: string, target: string) => {
+      graph.addRelationship({
+        id: generateDeterministicId('contains', `${source}-${target}`),
+        type: 'CONTAINS',
+        source,
+        target,
+        properties: {}
+      });
+      this.stats.relationshipsProcessed++;
+    };
+
+    for (const namespace of this.csharpNamespaces.getNamespaces()) {
+      graph.addNode({
+        id: namespaceId(namespace),
+        label: 'Module',
+        properties: {
+          name: namespace,
+          path: namespace,
+          language: 'csharp'
+        }
+      });
+      this.stats.nodesProcessed++;
+
+      const parent = this.csharpNamespaces.getParentNamespace(namespace);
+      if (parent) addContains(namespaceId(parent), namespaceId(namespace));
+
+      for (const type of this.csharpNamespaces.getTypes(namespace)) {
+        addContains(namespaceId(namespace), type.nodeId);
+      }
+    }
+  }
+
   /**
    * Extract Python imports
    */
@@ -182,57 +713,61 @@ export class ImportProcessor {
     imports: ImportInfo[]
   ): void {
     if (node.type === 'import_statement') {
-      // Handle: import module
-      // Handle: import module as alias
-      const moduleNode = node.childForFieldName('name');
-      if (moduleNode) {
-        const moduleName = moduleNode.text;
-        const targetFile = this.resolveModulePath(moduleName, filePath, 'python');
-        
+      // Handle: import pkg.module
+      // Handle: import pkg.module as alias
+      for (const nameNode of node.namedChildren) {
+        const importName = this.getPythonImportName(nameNode);
+        if (!importName) continue;
+
         imports.push({
           importingFile: filePath,
-          localName: moduleName.split('.').pop() || moduleName,
-          targetFile,
-          exportedName: moduleName,
+          localName: importName.alias || importName.name,  // Calls go through the full dotted path: pkg.module.func()
+          targetFile: this.resolveModulePath(importName.name, filePath, 'python'),
+          exportedName: importName.name,
           importType: 'namespace'
         });
       }
-    } else if (node.type === 'import_from_statement') {
-      // Handle: from module import name
-      // Handle: from module import name as alias
+      return;
+    }
+
+    if (node.type === 'import_from_statement') {
+      // Handle: from module import a, b as c
+      // Handle: from . import submodule
+      // Handle: from ..package.module import *
       const moduleNode = node.childForFieldName('module_name');
-      const namesNode = node.childForFieldName('name');
-      
-      if (moduleNode && namesNode) {
-        const moduleName = moduleNode.text;
-        const targetFile = this.resolveModulePath(moduleName, filePath, 'python');
-        
-        // Handle multiple imports: from module import a, b, c
-        if (namesNode.type === 'import_list') {
-          for (let i = 0; i < namesNode.childCount; i++) {
-            const nameNode = namesNode.child(i);
-            if (nameNode && nameNode.type === 'import_from_statement') {
-              const importName = nameNode.text;
-              imports.push({
-                importingFile: filePath,
-                localName: importName,
-                targetFile,
-                exportedName: importName,
-                importType: 'named'
-              });
-            }
-          }
-        } else {
-          const importName = namesNode.text;
+      if (!moduleNode) return;
+
+      const moduleName = moduleNode.text.replace(/\s+/g, '');
+      const targetFile = this.resolveModulePath(moduleName, filePath, 'python');
+
+      for (const child of node.namedChildren) {
+        if (child.id === moduleNode.id) continue;
+
+        if (child.type === 'wildcard_import') {
           imports.push({
             importingFile: filePath,
-            localName: importName,
+            localName: '*',
             targetFile,
-            exportedName: importName,
-            importType: 'named'
+            exportedName: '*',
+            importType: 'namespace'
           });
+          continue;
         }
+
+        const importName = this.getPythonImportName(child);
+        if (!importName) continue;
+
+        // Submodules are imported as modules, everything else is an attribute of the module
+        const submodule = this.pythonModuleResolver?.resolveSubmodule(moduleName, importName.name, filePath);
+        imports.push({
+          importingFile: filePath,
+          localName: importName.alias || importName.name,
+          targetFile: submodule || targetFile,
+          exportedName: importName.name,
+          importType: submodule ? 'namespace' : 'named'
+        });
       }
+      return;
     }
 
     // Recursively process children
@@ -244,6 +779,143 @@ export class ImportProcessor {
     }
   }
 
+  /**
+   * Name and optional alias of a dotted_name / aliased_import node
+   */
+  private getPythonImportName(node: Parser.SyntaxNode): { name: string; alias?: string } | null {
+    if (node.type === 'dotted_name') {
+      return { name: node.text };
+    }
+    if (node.type === 'aliased_import') {
+      const name = node.childForFieldName('name')?.text;
+      const alias = node.childForFieldName('alias')?.text;
+      return name ? { name, alias } : null;
+    }
+    return null;
+  }
+
+  /**
+   * Python modules re-export everything they import: expand star imports into named
+   * entries (honouring __all__), then point named imports of re-exported symbols
+   * (`from pkg import Model` where pkg/__init__.py imports Model) at the defining module
+   */
+  private resolvePythonImports(): void {
+    const exportsCache = new Map<string, Map<string, ImportMapEntry>>();
+
+    for (const [importingFile, targetFiles] of this.pythonStarImports) {
+      const fileImports = this.importMap[importingFile];
+      for (const targetFile of targetFiles) {
+        for (const [name, entry] of this.getPythonModuleExports(targetFile, exportsCache, new Set())) {
+          if (!fileImports[name]) {
+            fileImports[name] = { ...entry };
+          }
+        }
+      }
+    }
+
+    for (const [filePath, fileImports] of Object.entries(this.importMap)) {
+      if (this.detectLanguage(filePath) !== 'python') continue;
+
+      for (const [localName, entry] of Object.entries(fileImports)) {
+        fileImports[localName] = this.followPythonReExport(entry);
+      }
+    }
+  }
+
+  /**
+   * Names `from module import *` binds: __all__ if declared, otherwise every public
+   * top-level definition and import (including the module's own star imports)
+   */
+  private getPythonModuleExports(
+    filePath: string,
+    cache: Map<string, Map<string, ImportMapEntry>>,
+    visiting: Set<string>
+  ): Map<string, ImportMapEntry> {
+    const cached = cache.get(filePath);
+    if (cached) return cached;
+    if (!this.projectFiles.has(filePath) || visiting.has(filePath)) return new Map();
+    visiting.add(filePath);
+
+    const available = new Map<string, ImportMapEntry>();
+    for (const targetFile of this.pythonStarImports.get(filePath) || []) {
+      this.getPythonModuleExports(targetFile, cache, visiting).forEach((entry, name) => available.set(name, entry));
+    }
+    for (const [localName, entry] of Object.entries(this.importMap[filePath] || {})) {
+      if (!localName.includes('.')) available.set(localName, entry);
+    }
+
+    const { definedNames, allNames } = this.getPythonModuleNames(filePath);
+    definedNames.forEach(name => available.set(name, { targetFile: filePath, exportedName: name, importType: 'named' }));
+
+    const exports = new Map<string, ImportMapEntry>();
+    const exportedNames = allNames ?? Array.from(available.keys()).filter(name => !name.startsWith('_'));
+    for (const name of exportedNames) {
+      exports.set(name, available.get(name) ?? { targetFile: filePath, exportedName: name, importType: 'named' });
+    }
+
+    cache.set(filePath, exports);
+    return exports;
+  }
+
+  /**
+   * Follow a named import through modules that only re-import the name
+   */
+  private followPythonReExport(entry: ImportMapEntry): ImportMapEntry {
+    let current = entry;
+    const visited = new Set<string>();
+
+    while (current.importType === 'named' && this.projectFiles.has(current.targetFile) && !visited.has(current.targetFile)) {
+      visited.add(current.targetFile);
+      if (this.getPythonModuleNames(current.targetFile).definedNames.has(current.exportedName)) break;
+
+      const next = this.importMap[current.targetFile]?.[current.exportedName];
+      if (!next) break;
+      current = next;
+    }
+
+    return current === entry ? entry : { ...current };
+  }
+
+  /**
+   * Top-level definitions and __all__ of a parsed Python module
+   */
+  private getPythonModuleNames(filePath: string): PythonModuleNames {
+    const cached = this.pythonModuleNames.get(filePath);
+    if (cached) return cached;
+
+    const names: PythonModuleNames = { definedNames: new Set(), allNames: null };
+    const rootNode = this.astMap.get(filePath)?.tree?.rootNode;
+
+    for (const statement of rootNode?.namedChildren || []) {
+      const definition = statement.type === 'decorated_definition' ? statement.childForFieldName('definition') : statement;
+      if (definition?.type === 'function_definition' || definition?.type === 'class_definition') {
+        const name = definition.childForFieldName('name')?.text;
+        if (name) names.definedNames.add(name);
+        continue;
+      }
+
+      const expression = statement.type === 'expression_statement' ? statement.namedChildren[0] : null;
+      if (expression?.type !== 'assignment' && expression?.type !== 'augmented_assignment') continue;
+
+      const left = expression.childForFieldName('left');
+      if (left?.type !== 'identifier') continue;
+
+      if (left.text === '__all__') {
+        // __all__ = [...] / __all__ += [...]
+        const right = expression.childForFieldName('right');
+        const listedNames = (right?.namedChildren || [])
+          .filter(child => child.type === 'string')
+          .map(child => child.text.replace(/^[rRuU]?(['"]{1,3})([\s\S]*)\1$/, '$2'));
+        names.allNames = expression.type === 'assignment' ? listedNames : [...(names.allNames || []), ...listedNames];
+      } else {
+        names.definedNames.add(left.text);
+      }
+    }
+
+    this.pythonModuleNames.set(filePath, names);
+    return names;
+  }
+
   /**
    * Extract JavaScript/TypeScript imports
    */
@@ -342,6 +1014,148 @@ export class ImportProcessor {
     }
   }
 
+  /**
+   * Build the export table of a JS/TS module from its top-level export statements
+   * and link re-exported modules with IMPORTS relationships
+   */
+  private async collectJSExports(rootNode: Parser.SyntaxNode, filePath: string, graph: KnowledgeGraph): Promise<void> {
+    const moduleExports: JSModuleExports = { named: new Map(), starSources: [] };
+
+    for (const statement of rootNode.namedChildren) {
+      if (statement.type !== 'export_statement') continue;
+
+      const sourceNode = statement.childForFieldName('source');
+      const source = sourceNode
+        ? this.resolveModulePath(sourceNode.text.replace(/['"`]/g, ''), filePath, 'javascript')
+        : undefined;
+      const exportClause = statement.namedChildren.find(child => child.type === 'export_clause');
+      const namespaceExport = statement.namedChildren.find(child => child.type === 'namespace_export');
+      const reExportedNames: string[] = [];
+      const sourceNames: string[] = [];
+
+      if (exportClause) {
+        // export { a, b as c } [from './x']
+        for (const specifier of exportClause.namedChildren) {
+          if (specifier.type !== 'export_specifier') continue;
+          const name = specifier.childForFieldName('name')?.text;
+          const alias = specifier.childForFieldName('alias')?.text;
+          if (name) {
+            moduleExports.named.set(alias || name, { name, source, importType: 'named' });
+            reExportedNames.push(alias || name);
+            sourceNames.push(name);
+          }
+        }
+      } else if (namespaceExport && source) {
+        // export * as ns from './x'
+        const alias = namespaceExport.namedChildren[0]?.text;
+        if (alias) {
+          moduleExports.named.set(alias, { name: '*', source, importType: 'namespace' });
+          reExportedNames.push(alias);
+        }
+      } else if (source) {
+        // export * from './x'
+        moduleExports.starSources.push(source);
+      } else {
+        // export function f() {} / export const a = 1, b = 2 / export default foo
+        const isDefault = statement.children.some(child => child.type === 'default');
+        const declaration = statement.childForFieldName('declaration');
+        const localNames = declaration
+          ? this.getJSDeclaredNames(declaration)
+          : [statement.childForFieldName('value')].filter(value => value?.type === 'identifier').map(value => value!.text);
+
+        for (const localName of localNames) {
+          moduleExports.named.set(isDefault ? 'default' : localName, { name: localName, importType: 'named' });
+        }
+      }
+
+      if (source) {
+        await this.createImportRelationship(graph, {
+          importingFile: filePath,
+          localName: reExportedNames.join(', ') || '*',
+          targetFile: source,
+          exportedName: sourceNames.join(', ') || '*',
+          importType: exportClause ? 'named' : 'namespace',
+          reExport: true
+        });
+      }
+    }
+
+    if (moduleExports.named.size > 0 || moduleExports.starSources.length > 0) {
+      this.jsExports.set(filePath, moduleExports);
+    }
+  }
+
+  private getJSDeclaredNames(declaration: Parser.SyntaxNode): string[] {
+    if (declaration.type === 'lexical_declaration' || declaration.type === 'variable_declaration') {
+      return declaration.namedChildren
+        .filter(child => child.type === 'variable_declarator' && child.childForFieldName('name')?.type === 'identifier')
+        .map(child => child.childForFieldName('name')!.text);
+    }
+    const name = declaration.childForFieldName('name')?.text;
+    return name ? [name] : [];
+  }
+
+  /**
+   * Point imports that go through barrel files at the module that defines the symbol
+   */
+  private resolveJSReExports(): void {
+    for (const [filePath, fileImports] of Object.entries(this.importMap)) {
+      const language = this.detectLanguage(filePath);
+      if (language !== 'javascript' && language !== 'typescript') continue;
+
+      for (const [localName, entry] of Object.entries(fileImports)) {
+        if (entry.importType !== 'named' && entry.importType !== 'default') continue;
+
+        const resolved = this.resolveJSExport(entry.targetFile, entry.exportedName, new Set());
+        if (resolved && (resolved.targetFile !== entry.targetFile || resolved.exportedName !== entry.exportedName)) {
+          fileImports[localName] = resolved;
+        }
+      }
+    }
+  }
+
+  /**
+   * Find where `exportedName` of `filePath` is defined, following re-exports
+   * @returns null if the module does not (knowingly) export the name
+   */
+  private resolveJSExport(filePath: string, exportedName: string, visited: Set<string>): ImportMapEntry | null {
+    const key = `${filePath}#${exportedName}`;
+    if (visited.has(key)) return null;  // Circular re-exports
+    visited.add(key);
+
+    const moduleExports = this.jsExports.get(filePath);
+    if (!moduleExports) return null;
+
+    const entry = moduleExports.named.get(exportedName);
+    if (entry) {
+      if (entry.importType === 'namespace') {
+        return { targetFile: entry.source!, exportedName: '*', importType: 'namespace' };
+      }
+
+      // Re-export of another module's export, or of a binding this module imported
+      const origin = entry.source
+        ? { targetFile: entry.source, exportedName: entry.name, importType: entry.name === 'default' ? 'default' : 'named' } as ImportMapEntry
+        : this.importMap[filePath]?.[entry.name];
+
+      if (!origin) {
+        return { targetFile: filePath, exportedName: entry.name, importType: 'named' };
+      }
+      if (origin.importType === 'namespace' || origin.importType === 'dynamic') {
+        return { ...origin };
+      }
+      return this.resolveJSExport(origin.targetFile, origin.exportedName, visited) ?? { ...origin };
+    }
+
+    // `export *` never re-exports default
+    if (exportedName === 'default') return null;
+
+    for (const source of moduleExports.starSources) {
+      const resolved = this.resolveJSExport(source, exportedName, visited);
+      if (resolved) return resolved;
+    }
+    return null;
+  }
+
   /**
    * Process JS import clause (handles named, default, namespace imports)
    */
@@ -538,14 +1352,25 @@ export class ImportProcessor {
   /**
    * Resolve module path to actual file path
    */
-  private resolveModulePath(moduleName: string, importingFile: string, language: 'python' | 'javascript'): string {
+  private resolveModulePath(moduleName: string, importingFile: string, language: 'python' | 'javascript' | 'go' | 'java'): string {
+    // Handle Java imports by fully qualified name (resolves to the declaring class file)
+    if (language === 'java') {
+      return this.javaPackageResolver?.resolveClassFile(moduleName) || moduleName;
+    }
+
+    // Handle Go package imports via go.mod module paths (resolves to the package directory)
+    if (language === 'go') {
+      // Standard library and third-party packages stay as the import path
+      return this.goModuleResolver?.resolve(moduleName) || moduleName;
+    }
+
     // Handle relative imports
-    if (moduleName.startsWith('.')) {
+    if (moduleName.startsWith('.') && language !== 'python') {
       const importingDir = pathUtils.dirname(importingFile);
       const resolvedPath = pathUtils.resolve(importingDir, moduleName);
       
       // Try different extensions
-      const extensions = language === 'python' ? ['.py'] : ['.js', '.ts', '.tsx', '.jsx'];
+      const extensions = ['.js', '.ts', '.tsx', '.jsx'];
       
       for (const ext of extensions) {
         const candidate = resolvedPath + ext;
@@ -562,64 +1387,30 @@ export class ImportProcessor {
         }
       }
       
-      return resolvedPath; // Return even if not found, for external modules
-    }
-
-    // Handle absolute/package imports for Python
-    if (language === 'python') {
-      // First, try to find files that match the module pattern
-      const modulePatterns = [
-        // Direct module.py
-        moduleName.replace(/\./g, '/') + '.py',
-        // Package with __init__.py
-        moduleName.replace(/\./g, '/') + '/__init__.py',
-        // Try within the project structure
-        `src/python/${moduleName.replace(/\./g, '/')}.py`,
-        `src/python/${moduleName.replace(/\./g, '/')}/__init__.py`,
-      ];
-      
-      // Also try to match partial paths for complex project structures
-      for (const filePath of this.projectFiles) {
-        if (filePath.endsWith('.py')) {
-          // Check if this file could match the module name
-          const moduleSegments = moduleName.split('.');
-          const pathSegments = filePath.replace('.py', '').split('/');
-          
-          // Try to match the last few segments
-          if (moduleSegments.length > 0) {
-            const lastSegment = moduleSegments[moduleSegments.length - 1];
-            const fileName = pathSegments[pathSegments.length - 1];
-            
-            // If the last segment matches the filename, this could be it
-            if (fileName === lastSegment) {
-              // Check if the path contains the module structure
-              const modulePathInFile = moduleSegments.slice(0, -1).join('/');
-              if (!modulePathInFile || filePath.includes(modulePathInFile)) {
-                return filePath;
-              }
-            }
-          }
-        }
-      }
-      
-      // Try the direct patterns
-      for (const pattern of modulePatterns) {
-        if (this.projectFiles.has(pattern)) {
-          return pattern;
+      // ESM-style specifiers ('./foo.js' for foo.ts)
+      if (language === 'javascript') {
+        const esmTarget = this.jsModuleResolver?.resolveFile(resolvedPath);
+        if (esmTarget) {
+          return esmTarget;
         }
       }
       
-      // For complex module paths, try to find any file that ends with the module name
-      const lastModuleSegment = moduleName.split('.').pop();
-      if (lastModuleSegment) {
-        for (const filePath of this.projectFiles) {
-          if (filePath.endsWith(`${lastModuleSegment}.py`)) {
-            return filePath;
-          }
-        }
+      return resolvedPath; // Return even if not found, for external modules
+    }
+
+    // Handle path aliases (@/components/Foo) and workspace packages (@acme/ui)
+    if (language === 'javascript') {
+      const aliasTarget = this.jsModuleResolver?.resolve(moduleName, importingFile);
+      if (aliasTarget) {
+        return aliasTarget;
       }
     }
 
+    // Handle Python modules (relative dots, src/ and pyproject.toml package roots)
+    if (language === 'python') {
+      return this.pythonModuleResolver?.resolve(moduleName, importingFile) || moduleName;
+    }
+
     // For external modules or unresolved, return as-is
     return moduleName;
   }
@@ -628,13 +1419,44 @@ export class ImportProcessor {
    * Create IMPORTS relationship in the graph with dual-write support
    */
   private async createImportRelationship(graph: KnowledgeGraph, importInfo: ImportInfo): Promise<void> {
+    // Go imports target a package directory: link to every file in the package
+    const language = this.detectLanguage(importInfo.importingFile);
+    const targetFiles = language === 'go'
+      ? this.goModuleResolver?.getPackageFiles(importInfo.targetFile) || []
+      : [importInfo.targetFile];
+
+    // Unresolved bare imports (react, requests, github.com/acme/lib) link to the declared Package
+    if (!targetFiles.some(targetFile => this.projectFiles.has(targetFile))) {
+      const ecosystem = PACKAGE_ECOSYSTEMS[language];
+      // from google.cloud import storage may name the google-cloud-storage distribution
+      const specifier = language === 'python' && importInfo.importType === 'named'
+        ? `${importInfo.targetFile}.${importInfo.exportedName}`
+        : importInfo.targetFile;
+      const packageId = ecosystem ? this.packageIndex?.resolve(specifier, ecosystem) : null;
+      if (packageId) {
+        this.createPackageImportRelationship(graph, importInfo, packageId);
+        return;
+      }
+      this.recordUnresolvedImport(importInfo);
+    }
+
+    for (const targetFile of targetFiles) {
+      await this.createFileImportRelationship(graph, importInfo, targetFile);
+    }
+  }
+
+  private async createFileImportRelationship(
+    graph: KnowledgeGraph,
+    importInfo: ImportInfo,
+    targetFile: string
+  ): Promise<void> {
     // Find source and target nodes
     const sourceNode = graph.nodes.find(n => 
       n.label === 'File' && n.properties.filePath === importInfo.importingFile
     );
     
     const targetNode = graph.nodes.find(n => 
-      n.label === 'File' && n.properties.filePath === importInfo.targetFile
+      n.label === 'File' && n.properties.filePath === targetFile
     );
 
     if (sourceNode && targetNode && sourceNode.id !== targetNode.id) {
@@ -654,7 +1476,9 @@ export class ImportProcessor {
           properties: {
             importType: importInfo.importType,
             localName: importInfo.localName,
-            exportedName: importInfo.exportedName
+            exportedName: importInfo.exportedName,
+            ...(importInfo.reExport ? { reExport: true } : {}),
+            ...this.getPackageBoundary(importInfo.importingFile, this.workspaceIndex?.packageOf(targetFile) || null)
           }
         };
 
@@ -664,14 +1488,100 @@ export class ImportProcessor {
     }
   }
 
+  /**
+   * Record an import that reaches neither a project file nor a declared package. A
+   * path inside a project folder (or a relative module) is a missing file; anything
+   * else is a standard library or undeclared third-party module.
+   */
+  private recordUnresolvedImport(importInfo: ImportInfo): void {
+    const moduleName = importInfo.targetFile;
+    const isProjectPath = moduleName.startsWith('.') ||
+      (moduleName.includes('/') && this.projectDirectories.has(pathUtils.dirname(moduleName)));
+
+    this.diagnostics.push({
+      kind: 'import',
+      filePath: importInfo.importingFile,
+      line: this.findImportLine(importInfo.importingFile, moduleName),
+      callee: moduleName,
+      category: isProjectPath ? 'missing_file' : 'external_module',
+      reason: isProjectPath
+        ? `No project file matches '${moduleName}'`
+        : `'${moduleName}' is not a project file or a declared dependency`
+    });
+  }
+
+  /**
+   * Line of the import statement naming a module (1 when it cannot be located)
+   */
+  private findImportLine(filePath: string, moduleName: string): number {
+    const lines = this.astMap.get(filePath)?.tree?.rootNode.text.split('\n') || [];
+    const needle = moduleName.split('/').pop() || moduleName;
+    const index = lines.findIndex(line => /\b(import|from|require|use|using|mod)\b/.test(line) && line.includes(needle));
+    return index + 1 || 1;
+  }
+
+  private createPackageImportRelationship(graph: KnowledgeGraph, importInfo: ImportInfo, packageId: string): void {
+    const sourceNode = graph.nodes.find(n =>
+      n.label === 'File' && n.properties.filePath === importInfo.importingFile
+    );
+    if (!sourceNode) return;
+
+    const existingRel = graph.relationships.find(r =>
+      r.type === 'IMPORTS' &&
+      r.source === sourceNode.id &&
+      r.target === packageId
+    );
+    if (existingRel) return;
+
+    // Only imports of workspace members can cross a boundary; third-party packages are dependencies
+    const workspacePackage = this.workspaceIndex?.get(packageId) || null;
+
+    graph.addRelationship({
+      id: `imports_${sourceNode.id}_${packageId}_${Date.now()}`,
+      type: 'IMPORTS',
+      source: sourceNode.id,
+      target: packageId,
+      properties: {
+        importType: importInfo.importType,
+        localName: importInfo.localName,
+        exportedName: importInfo.exportedName,
+        moduleName: importInfo.targetFile,
+        ...(workspacePackage ? this.getPackageBoundary(importInfo.importingFile, workspacePackage) : {})
+      }
+    });
+    this.stats.relationshipsProcessed++;
+  }
+
+  /**
+   * Properties of an import between two workspace packages (or a package and the code
+   * outside every package): `crossPackage` and the names of both sides
+   */
+  private getPackageBoundary(importingFile: string, targetPackage: GraphNode | null): Record<string, string | boolean> {
+    if (!this.workspaceIndex || this.workspaceIndex.size === 0) return {};
+
+    const sourcePackage = this.workspaceIndex.packageOf(importingFile);
+    if ((sourcePackage?.id ?? null) === (targetPackage?.id ?? null)) return {};
+
+    this.stats.crossPackageImports++;
+    return {
+      crossPackage: true,
+      ...(sourcePackage ? { sourcePackage: String(sourcePackage.properties.name) } : {}),
+      ...(targetPackage ? { targetPackage: String(targetPackage.properties.name) } : {})
+    };
+  }
+
   /**
    * Detect programming language from file extension
    */
-  private detectLanguage(filePath: string): 'python' | 'javascript' | 'typescript' {
+  private detectLanguage(filePath: string): 'python' | 'javascript' | 'typescript' | 'go' | 'java' | 'rust' | 'csharp' {
     const ext = pathUtils.extname(filePath).toLowerCase();
     
     if (ext === '.py') return 'python';
-    if (ext === '.ts' || ext === '.tsx') return 'typescript';
+    if (ext === '.go') return 'go';
+    if (ext === '.java') return 'java';
+    if (ext === '.rs') return 'rust';
+    if (ext === '.cs') return 'csharp';
+    if (ext === '.ts' || ext === '.tsx' || ext === '.vue' || ext === '.svelte') return 'typescript';
     return 'javascript'; // .js, .jsx, or default
   }
 
@@ -695,6 +1605,17 @@ export class ImportProcessor {
   clear(): void {
     this.importMap = {};
     this.projectFiles.clear();
+    this.goModuleResolver = null;
+    this.javaPackageResolver = null;
+    this.rustModuleResolver = null;
+    this.jsModuleResolver = null;
+    this.jsExports.clear();
+    this.pythonModuleResolver = null;
+    this.pythonStarImports.clear();
+    this.pythonModuleNames.clear();
+    this.csharpNamespaces = null;
+    this.csharpFileNamespaces.clear();
+    this.astMap = new Map();
   }
 
   /**
@@ -703,9 +1624,18 @@ export class ImportProcessor {
   public getStats() {
     return {
       nodesProcessed: this.stats.nodesProcessed,
-      relationshipsProcessed: this.stats.relationshipsProcessed
+      relationshipsProcessed: this.stats.relationshipsProcessed,
+      unresolvedImports: this.diagnostics.length,
+      crossPackageImports: this.stats.crossPackageImports
     };
   }
+
+  /**
+   * Imports that could not be resolved in the last run
+   */
+  public getDiagnostics(): ResolutionDiagnostic[] {
+    return [...this.diagnostics];
+  }
 }
 
 export type { ImportMap, ImportInfo }; 
\ No newline at end of file
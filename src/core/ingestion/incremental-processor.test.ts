@@ -0,0 +1,125 @@
+import { IncrementalProcessor } from './incremental-processor.js';
+import { SimpleKnowledgeGraph } from '../graph/graph.js';
+import { FunctionRegistryTrie } from '../graph/trie.js';
+import type { GraphNode, GraphRelationship } from '../graph/types.js';
+
+const node = (id: string, label: GraphNode['label'], name: string, filePath: string, startLine = 1): GraphNode => ({
+  id,
+  label,
+  properties: { name, filePath, startLine, endLine: startLine + 2 }
+});
+
+const rel = (id: string, type: GraphRelationship['type'], source: string, target: string): GraphRelationship => ({
+  id,
+  type,
+  source,
+  target,
+  properties: {}
+});
+
+// app.ts imports and calls repo.ts; util.ts is independent
+const previousNodes: GraphNode[] = [
+  node('file-app', 'File', 'app.ts', 'src/app.ts'),
+  node('file-repo', 'File', 'repo.ts', 'src/repo.ts'),
+  node('file-util', 'File', 'util.ts', 'src/util.ts'),
+  node('fn-main', 'Function', 'main', 'src/app.ts'),
+  node('fn-save', 'Function', 'save', 'src/repo.ts'),
+  node('fn-format', 'Function', 'format', 'src/util.ts')
+];
+
+const previousRelationships: GraphRelationship[] = [
+  rel('r1', 'DEFINES', 'file-app', 'fn-main'),
+  rel('r2', 'DEFINES', 'file-repo', 'fn-save'),
+  rel('r3', 'DEFINES', 'file-util', 'fn-format'),
+  rel('r4', 'IMPORTS', 'file-app', 'file-repo'),
+  rel('r5', 'CALLS', 'fn-main', 'fn-save')
+];
+
+const fileContents = new Map<string, string>([
+  ['src/app.ts', "import { save } from './repo';\nexport function main() { save(); }"],
+  ['src/repo.ts', 'export function save() {}\nexport function load() {}'],
+  ['src/util.ts', 'export function format() {}']
+]);
+
+describe('IncrementalProcessor', () => {
+  const createProcessor = () => new IncrementalProcessor({
+    previousNodes,
+    previousRelationships,
+    changes: { added: [], modified: ['src/repo.ts'], deleted: [] }
+  });
+
+  test('should re-parse changed files and files with edges into them', () => {
+    const processor = createProcessor();
+    expect(processor.getFilesToParse(fileContents).sort()).toEqual(['src/app.ts', 'src/repo.ts']);
+  });
+
+  test('should re-parse unparsed files that mention new definitions', () => {
+    const processor = createProcessor();
+    const contents = new Map(fileContents).set('src/util.ts', 'export function format() { load(); }');
+    processor.getFilesToParse(contents);
+
+    const functionTrie = new FunctionRegistryTrie();
+    ['save', 'load'].forEach((name, index) => functionTrie.addDefinition({
+      nodeId: `new-${name}`,
+      qualifiedName: `src/repo.ts:${name}`,
+      filePath: 'src/repo.ts',
+      functionName: name,
+      type: 'function',
+      startLine: index + 1
+    }));
+
+    expect(processor.getSymbolDependents(functionTrie, contents)).toEqual(['src/util.ts']);
+  });
+
+  test('should re-parse barrel files that imports resolve through', () => {
+    const barrelNodes = [
+      ...previousNodes,
+      node('file-index', 'File', 'index.ts', 'src/index.ts'),
+      node('file-main', 'File', 'main.ts', 'src/main.ts')
+    ];
+    const processor = new IncrementalProcessor({
+      previousNodes: barrelNodes,
+      previousRelationships: [
+        ...previousRelationships,
+        { ...rel('r6', 'IMPORTS', 'file-index', 'file-util'), properties: { reExport: true } },
+        rel('r7', 'IMPORTS', 'file-main', 'file-index')
+      ],
+      changes: { added: [], modified: ['src/main.ts'], deleted: [] }
+    });
+    const contents = new Map(fileContents)
+      .set('src/index.ts', "export * from './util';")
+      .set('src/main.ts', "import { format } from './index';");
+
+    expect(processor.getFilesToParse(contents).sort()).toEqual(['src/index.ts', 'src/main.ts', 'src/util.ts']);
+  });
+
+  test('should carry nodes and edges of untouched files only', async () => {
+    const processor = createProcessor();
+    processor.getFilesToParse(fileContents);
+
+    const graph = new SimpleKnowledgeGraph();
+    const functionTrie = new FunctionRegistryTrie();
+    await processor.process(graph, functionTrie);
+
+    expect(graph.nodes.map(n => n.id)).toEqual(['fn-format']);
+    expect(graph.relationships).toEqual([]);
+    expect(functionTrie.getAllDefinitions().map(def => def.functionName)).toEqual(['format']);
+  });
+
+  test('should drop nodes of deleted files', async () => {
+    const processor = new IncrementalProcessor({
+      previousNodes,
+      previousRelationships,
+      changes: { added: [], modified: [], deleted: ['src/util.ts'] }
+    });
+    const contents = new Map(fileContents);
+    contents.delete('src/util.ts');
+    expect(processor.getFilesToParse(contents)).toEqual([]);
+
+    const graph = new SimpleKnowledgeGraph();
+    await processor.process(graph, new FunctionRegistryTrie());
+
+    expect(graph.nodes.map(n => n.id).sort()).toEqual(['fn-main', 'fn-save']);
+    expect(graph.relationships.map(r => r.id)).toEqual(['r5']);
+  });
+});
@@ -0,0 +1,293 @@
+import type { KnowledgeGraph, GraphNode, GraphRelationship } from '../graph/types.ts';
+import { FunctionRegistryTrie, type FunctionDefinition, type SerializedFunctionRegistry } from '../graph/trie.ts';
+import { isDependencyManifest } from './dependency-manifest.ts';
+import { REPO_CONFIG_FILE } from './builtin-filter.ts';
+import { isWorkspaceManifest } from './workspace-detection.ts';
+
+// Simple path utilities for browser compatibility
+const pathUtils = {
+  basename: (filePath: string): string => {
+    const lastSlash = filePath.lastIndexOf('/');
+    return lastSlash === -1 ? filePath : filePath.substring(lastSlash + 1);
+  },
+  dirname: (filePath: string): string => {
+    const lastSlash = filePath.lastIndexOf('/');
+    return lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+  }
+};
+
+// Nodes and edges StructureProcessor rebuilds from the file list on every run
+const STRUCTURE_LABELS = new Set(['Project', 'Folder', 'File', 'Package']);
+const STRUCTURE_RELATIONSHIPS = new Set(['CONTAINS', 'DEPENDS_ON']);
+
+// Node labels that are registered in the FunctionRegistryTrie
+const REGISTRY_TYPES: Record<string, FunctionDefinition['type']> = {
+  Function: 'function',
+  Method: 'method',
+  Class: 'class',
+  Interface: 'interface',
+  Enum: 'enum'
+};
+
+// JS/TS index files, usually barrels re-exporting their directory
+const BARREL_FILE_PATTERN = /^index\.[cm]?[jt]sx?$/;
+
+// Entry files named after their directory rather than themselves
+const INDEX_FILE_NAMES = new Set(['index', '__init__', 'mod', 'main', 'lib']);
+
+/**
+ * File-level differences between the previous ingestion and the current file set,
+ * as reported by ContentHasher.compareHashes
+ */
+export interface FileChanges {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+}
+
+export interface IncrementalInput {
+  previousNodes: GraphNode[];
+  previousRelationships: GraphRelationship[];
+  changes: FileChanges;
+  functionRegistry?: SerializedFunctionRegistry;  // Registry persisted with the previous graph, if any
+}
+
+/**
+ * Rebuilds a graph from the previous ingestion by re-parsing only the files whose
+ * content changed plus the files whose resolution depends on them, and carrying
+ * every other node and edge over unchanged.
+ *
+ * A file is re-parsed when it changed, when it has IMPORTS / CALLS / EXTENDS /
+ * IMPLEMENTS / OVERRIDES edges into a changed or deleted file, or when it mentions
+ * a symbol (or module name) that a changed file introduces. Re-parsed files get all
+ * of their nodes and outgoing edges regenerated by the regular passes.
+ */
+export class IncrementalProcessor {
+  private input: IncrementalInput;
+  private nodesByFile: Map<string, GraphNode[]> = new Map();
+  private nodeFiles: Map<string, string> = new Map();  // node id -> owning file
+  private reparsedFiles: Set<string> = new Set();
+
+  private stats = {
+    changedFiles: 0,
+    dependentFiles: 0,
+    nodesCarried: 0,
+    relationshipsCarried: 0
+  };
+
+  constructor(input: IncrementalInput) {
+    this.input = input;
+
+    for (const node of input.previousNodes) {
+      const filePath = node.properties.filePath as string | undefined;
+      if (!filePath) continue;
+
+      this.nodeFiles.set(node.id, filePath);
+      if (!this.nodesByFile.has(filePath)) {
+        this.nodesByFile.set(filePath, []);
+      }
+      this.nodesByFile.get(filePath)!.push(node);
+    }
+  }
+
+  /**
+   * Files to parse first: changed files and files with edges into changed or deleted files
+   */
+  public getFilesToParse(fileContents: Map<string, string>): string[] {
+    const { added, modified, deleted } = this.input.changes;
+    const changedFiles = new Set([...added, ...modified]);
+    const staleFiles = new Set([...modified, ...deleted]);
+    const files = new Set<string>();
+
+    for (const filePath of changedFiles) {
+      if (fileContents.has(filePath)) files.add(filePath);
+    }
+
+    for (const relationship of this.input.previousRelationships) {
+      if (STRUCTURE_RELATIONSHIPS.has(relationship.type)) continue;
+
+      const sourceFile = this.nodeFiles.get(relationship.source);
+      const targetFile = this.nodeFiles.get(relationship.target);
+      if (sourceFile && targetFile && sourceFile !== targetFile && staleFiles.has(targetFile) && fileContents.has(sourceFile)) {
+        files.add(sourceFile);
+      }
+
+      // A type declared in several files (C# partial types) is rebuilt from all of its parts
+      if (relationship.type === 'DEFINES' && sourceFile && targetFile && sourceFile !== targetFile && staleFiles.has(sourceFile) && fileContents.has(targetFile)) {
+        files.add(targetFile);
+      }
+    }
+
+    // Packages a changed manifest declares can link bare imports of any file, and the
+    // builtin lists in .gitnexus.json decide which calls of any file are skipped, and the
+    // workspace declarations decide which imports of any file cross a package boundary
+    const isRepoWideFile = (filePath: string) => filePath === REPO_CONFIG_FILE || isWorkspaceManifest(filePath);
+    if ([...changedFiles].some(isDependencyManifest) || [...changedFiles, ...deleted].some(isRepoWideFile)) {
+      for (const filePath of this.nodesByFile.keys()) {
+        if (fileContents.has(filePath)) files.add(filePath);
+      }
+    }
+
+    // Imports resolve through the imports of the imported modules: re-exports of any
+    // Python module (including star imports) and of JS/TS barrel files
+    const importTargets = new Map<string, string[]>();
+    const barrelFiles = new Set<string>();
+    for (const relationship of this.input.previousRelationships) {
+      if (relationship.type !== 'IMPORTS') continue;
+
+      const sourceFile = this.nodeFiles.get(relationship.source);
+      const targetFile = this.nodeFiles.get(relationship.target);
+      if (!sourceFile || !targetFile || !fileContents.has(targetFile)) continue;
+
+      if (relationship.properties.reExport) barrelFiles.add(sourceFile);
+      if (!importTargets.has(sourceFile)) importTargets.set(sourceFile, []);
+      importTargets.get(sourceFile)!.push(targetFile);
+    }
+    const isBarrel = (filePath: string) => barrelFiles.has(filePath) || BARREL_FILE_PATTERN.test(pathUtils.basename(filePath));
+    const resolvesThrough = (sourceFile: string, targetFile: string) =>
+      (sourceFile.endsWith('.py') && targetFile.endsWith('.py')) || isBarrel(sourceFile) || isBarrel(targetFile);
+
+    const pending = Array.from(files);
+    while (pending.length > 0) {
+      const sourceFile = pending.pop()!;
+      for (const targetFile of importTargets.get(sourceFile) || []) {
+        if (!files.has(targetFile) && resolvesThrough(sourceFile, targetFile)) {
+          files.add(targetFile);
+          pending.push(targetFile);
+        }
+      }
+    }
+
+    this.stats.changedFiles = changedFiles.size;
+    this.stats.dependentFiles = files.size - [...changedFiles].filter(filePath => files.has(filePath)).length;
+    files.forEach(filePath => this.reparsedFiles.add(filePath));
+    return Array.from(files);
+  }
+
+  /**
+   * Files to parse once changed files are parsed: unparsed files that mention a
+   * definition name or module name the changed files did not have before
+   */
+  public getSymbolDependents(functionTrie: FunctionRegistryTrie, fileContents: Map<string, string>): string[] {
+    const { added, modified } = this.input.changes;
+    const newNames = new Set<string>();
+
+    for (const filePath of [...added, ...modified]) {
+      const previousNames = new Set((this.nodesByFile.get(filePath) || []).map(node => node.properties.name as string));
+      for (const def of functionTrie.getDefinitionsInFile(filePath)) {
+        if (!previousNames.has(def.functionName)) newNames.add(def.functionName);
+      }
+    }
+
+    // Imports of new modules that previously failed to resolve
+    for (const filePath of added) {
+      const fileName = pathUtils.basename(filePath).replace(/\.[^.]+$/, '');
+      newNames.add(INDEX_FILE_NAMES.has(fileName) ? pathUtils.basename(pathUtils.dirname(filePath)) : fileName);
+    }
+
+    const names = Array.from(newNames).filter(name => /^[A-Za-z_$][\w$]*$/.test(name));
+    if (names.length === 0) return [];
+
+    const mentionsNewName = new RegExp(`(^|[^\\w$])(${names.map(name => name.replace(/\$/g, '\\$')).join('|')})(?![\\w$])`);
+    const dependents: string[] = [];
+
+    for (const [filePath, content] of fileContents) {
+      if (this.reparsedFiles.has(filePath) || !this.nodesByFile.has(filePath)) continue;
+      if (mentionsNewName.test(content)) {
+        dependents.push(filePath);
+        this.reparsedFiles.add(filePath);
+      }
+    }
+
+    this.stats.dependentFiles += dependents.length;
+    return dependents;
+  }
+
+  /**
+   * Copy nodes and edges of files that were not re-parsed into the graph and register
+   * their definitions in the function registry. Runs after parsing and before the
+   * import, inheritance and call passes.
+   */
+  public async process(graph: KnowledgeGraph, functionTrie: FunctionRegistryTrie): Promise<KnowledgeGraph> {
+    const { deleted } = this.input.changes;
+    const droppedFiles = new Set([...this.reparsedFiles, ...deleted]);
+    const existingNodes = new Map(graph.nodes.map(node => [node.id, node]));
+
+    for (const node of this.input.previousNodes) {
+      const filePath = node.properties.filePath as string | undefined;
+
+      if (STRUCTURE_LABELS.has(node.label)) {
+        // Keep what parsing added to structure nodes (language, size, ...) for untouched files
+        const current = existingNodes.get(node.id);
+        if (current && filePath && !droppedFiles.has(filePath)) {
+          current.properties = { ...node.properties, ...current.properties };
+        }
+        continue;
+      }
+
+      if (!filePath || droppedFiles.has(filePath) || existingNodes.has(node.id)) continue;
+
+      graph.addNode(node);
+      existingNodes.set(node.id, node);
+      this.stats.nodesCarried++;
+    }
+
+    this.seedFunctionRegistry(functionTrie, droppedFiles, existingNodes);
+
+    for (const relationship of this.input.previousRelationships) {
+      if (STRUCTURE_RELATIONSHIPS.has(relationship.type)) continue;
+
+      const sourceFile = this.nodeFiles.get(relationship.source);
+      if (sourceFile && droppedFiles.has(sourceFile)) continue;
+      if (!existingNodes.has(relationship.source) || !existingNodes.has(relationship.target)) continue;
+
+      graph.addRelationship(relationship);
+      this.stats.relationshipsCarried++;
+    }
+
+    console.log(`♻️ IncrementalProcessor: ${this.stats.changedFiles} changed, ${this.stats.dependentFiles} dependent files re-parsed; carried ${this.stats.nodesCarried} nodes and ${this.stats.relationshipsCarried} relationships`);
+
+    return graph;
+  }
+
+  /**
+   * Register carried definitions, preferring the persisted registry over rebuilding it from nodes
+   */
+  private seedFunctionRegistry(functionTrie: FunctionRegistryTrie, droppedFiles: Set<string>, existingNodes: Map<string, GraphNode>): void {
+    if (this.input.functionRegistry) {
+      const previousRegistry = FunctionRegistryTrie.deserialize(this.input.functionRegistry);
+      droppedFiles.forEach(filePath => previousRegistry.removeFileDefinitions(filePath));
+
+      for (const def of previousRegistry.getAllDefinitions()) {
+        if (existingNodes.has(def.nodeId)) functionTrie.addDefinition(def);
+      }
+      return;
+    }
+
+    for (const [filePath, nodes] of this.nodesByFile) {
+      if (droppedFiles.has(filePath)) continue;
+
+      for (const node of nodes) {
+        const type = REGISTRY_TYPES[node.label];
+        if (!type || !existingNodes.has(node.id)) continue;
+
+        functionTrie.addDefinition({
+          nodeId: node.id,
+          qualifiedName: `${filePath}:${node.properties.name}`,
+          filePath,
+          functionName: node.properties.name as string,
+          type,
+          startLine: node.properties.startLine,
+          endLine: node.properties.endLine
+        });
+      }
+    }
+  }
+
+  /**
+   * Get processing statistics
+   */
+  public getStats() {
+    return { ...this.stats };
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Ingestion Fixtures
+ *
+ * Runs the parsing, import, inheritance and call passes on in-memory sources the way
+ * GraphPipeline does, for tests of the processors that build on them.
+ */
+
+import { SimpleKnowledgeGraph } from '../graph/graph.ts';
+import type { FunctionRegistryTrie } from '../graph/trie.ts';
+import type { GraphNode, NodeLabel } from '../graph/types.ts';
+import type { ParsedAST } from './parsing-processor.ts';
+import type { ImportMap } from './import-processor.ts';
+import { ParsingProcessor } from './parsing-processor.ts';
+import { ImportProcessor } from './import-processor.ts';
+import { InheritanceProcessor } from './inheritance-processor.ts';
+import { CallProcessor } from './call-processor.ts';
+
+export interface IngestedFixture {
+  graph: SimpleKnowledgeGraph;
+  astMap: Map<string, ParsedAST>;
+  functionTrie: FunctionRegistryTrie;
+  importMap: ImportMap;
+  fileContents: Map<string, string>;
+}
+
+/**
+ * Parse the files and resolve their imports, supertypes and calls
+ */
+export async function ingestFixture(files: Record<string, string>): Promise<IngestedFixture> {
+  const fileContents = new Map(Object.entries(files));
+  const graph = new SimpleKnowledgeGraph();
+
+  const parsingProcessor = new ParsingProcessor();
+  await parsingProcessor.process(graph, { filePaths: Array.from(fileContents.keys()), fileContents });
+  const astMap = parsingProcessor.getASTMap();
+  const functionTrie = parsingProcessor.getFunctionRegistry();
+
+  const importProcessor = new ImportProcessor();
+  await importProcessor.process(graph, astMap, fileContents);
+  const importMap = importProcessor.getImportMap();
+
+  await new InheritanceProcessor().process(graph, astMap, importMap);
+  await new CallProcessor(functionTrie).process(graph, astMap, importMap);
+
+  return { graph, astMap, functionTrie, importMap, fileContents };
+}
+
+/**
+ * The node with a label and name, optionally in a given file
+ * @throws Error when there is none, so tests fail on the lookup rather than later
+ */
+export function findNode(graph: SimpleKnowledgeGraph, label: NodeLabel, name: string, filePath?: string): GraphNode {
+  const node = graph.nodes.find(candidate =>
+    candidate.label === label &&
+    candidate.properties.name === name &&
+    (filePath === undefined || candidate.properties.filePath === filePath)
+  );
+  if (!node) {
+    throw new Error(`No ${label} node named ${name}${filePath ? ` in ${filePath}` : ''}`);
+  }
+  return node;
+}
@@ -0,0 +1,501 @@
+import type { KnowledgeGraph, GraphNode, GraphRelationship, RelationshipType, RelationshipProperties } from '../graph/types.ts';
+import type { ParsedAST } from './parsing-processor.ts';
+import type { ImportMap } from './import-processor.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+import { getCSharpQualifiedName, getPartialTypeNodeId, isCSharpPartial } from './csharp-resolver.ts';
+import { resolveTypeReference } from './reference-resolution.ts';
+import Parser from 'web-tree-sitter';
+
+// Simple path utilities for browser compatibility
+const pathUtils = {
+  extname: (filePath: string): string => {
+    const lastDot = filePath.lastIndexOf('.');
+    return lastDot === -1 ? '' : filePath.substring(lastDot);
+  }
+};
+
+type Language = 'python' | 'javascript' | 'typescript' | 'java' | 'rust' | 'csharp' | 'other';
+
+interface SupertypeRef {
+  name: string;        // Simple name, e.g. 'Base' for com.acme.Base<T>
+  qualifier?: string;  // Leading segment of a qualified reference, e.g. 'models' in models.Base
+  relation: 'EXTENDS' | 'IMPLEMENTS';
+  contextFile?: string;  // File whose imports resolve the name, when not the declaring file (Rust impls)
+  relationFromTarget?: boolean;  // C# base lists mix the base class and interfaces: decided by what the name resolves to
+}
+
+interface TypeDeclaration {
+  nodeId: string;
+  kind: 'class' | 'interface' | 'enum';
+  name: string;
+  filePath: string;
+  supertypes: SupertypeRef[];
+  methods: Map<string, string>;  // method name -> method node id
+}
+
+// Rust `impl [Trait for] Type` block, attached to its type once all declarations are known
+interface RustImpl {
+  filePath: string;
+  type: SupertypeRef;
+  trait?: SupertypeRef;
+  methods: Map<string, string>;
+}
+
+/**
+ * Pass run after import resolution that links classes, interfaces and enums to
+ * the declarations they extend or implement, and methods to the supertype
+ * methods they override.
+ */
+export class InheritanceProcessor {
+  private importMap: ImportMap = {};
+  private declarations: TypeDeclaration[] = [];
+  private declarationsByName: Map<string, TypeDeclaration[]> = new Map();
+  private rustImpls: RustImpl[] = [];
+  private resolvedSupertypes: Map<string, { declaration: TypeDeclaration; relation: SupertypeRef['relation'] }[]> = new Map();
+
+  private stats = {
+    nodesProcessed: 0,
+    relationshipsProcessed: 0,
+    supertypesFound: 0,
+    supertypesResolved: 0,
+    overrides: 0
+  };
+
+  /**
+   * Resolve type hierarchy edges for all parsed files
+   * @param graph The knowledge graph being built
+   * @param astMap Map of file paths to their parsed ASTs
+   * @param importMap Import map built by ImportProcessor
+   */
+  async process(
+    graph: KnowledgeGraph,
+    astMap: Map<string, ParsedAST>,
+    importMap: ImportMap
+  ): Promise<KnowledgeGraph> {
+    try {
+      console.log('🧬 InheritanceProcessor: Resolving type hierarchy...');
+
+      this.importMap = importMap;
+      this.stats = { nodesProcessed: 0, relationshipsProcessed: 0, supertypesFound: 0, supertypesResolved: 0, overrides: 0 };
+      this.declarations = [];
+      this.declarationsByName.clear();
+      this.rustImpls = [];
+      this.resolvedSupertypes.clear();
+
+      // Only declarations that made it into the graph can take part in edges
+      const nodeIds = new Set(graph.nodes.map(node => node.id));
+
+      for (const [filePath, ast] of astMap) {
+        const language = this.detectLanguage(filePath);
+        if (ast.tree && language !== 'other') {
+          this.collectDeclarations(ast.tree.rootNode, filePath, language, nodeIds);
+        }
+      }
+
+      this.collectGraphDeclarations(graph, astMap);
+      this.attachRustImpls();
+
+      for (const declaration of this.declarations) {
+        this.resolveSupertypes(graph, declaration);
+      }
+
+      for (const declaration of this.declarations) {
+        this.linkOverrides(graph, declaration);
+      }
+
+      console.log('✅ InheritanceProcessor: Completed type hierarchy resolution');
+      console.log(`📊 InheritanceProcessor: resolved ${this.stats.supertypesResolved}/${this.stats.supertypesFound} supertypes, ${this.stats.overrides} overrides`);
+
+      return graph;
+    } catch (error) {
+      console.error('❌ InheritanceProcessor failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Walk a syntax tree and record every class-like declaration with its supertypes and methods
+   */
+  private collectDeclarations(
+    node: Parser.SyntaxNode,
+    filePath: string,
+    language: Language,
+    nodeIds: Set<string>
+  ): void {
+    const kind = this.getDeclarationKind(node, language);
+
+    if (kind) {
+      const name = node.childForFieldName('name')?.text;
+      const isPartial = language === 'csharp' && isCSharpPartial(node);
+      const nodeId = !name ? null
+        : isPartial ? getPartialTypeNodeId(kind, getCSharpQualifiedName(node))
+        : generateDeterministicId(kind, `${filePath}_${name}_${node.startPosition.row + 1}`);
+      const partialDeclaration = isPartial ? this.declarations.find(declaration => declaration.nodeId === nodeId) : undefined;
+
+      if (partialDeclaration) {
+        // Another part of a partial C# type: its bases and methods belong to the same node
+        partialDeclaration.supertypes.push(...this.extractSupertypes(node, language));
+        this.extractMethods(node, filePath, nodeIds).forEach((methodId, methodName) => {
+          if (!partialDeclaration.methods.has(methodName)) partialDeclaration.methods.set(methodName, methodId);
+        });
+      } else if (name && nodeId && nodeIds.has(nodeId)) {
+        const declaration: TypeDeclaration = {
+          nodeId,
+          kind,
+          name,
+          filePath,
+          supertypes: this.extractSupertypes(node, language),
+          methods: this.extractMethods(node, filePath, nodeIds)
+        };
+
+        this.declarations.push(declaration);
+        this.declarationsByName.set(name, [...(this.declarationsByName.get(name) || []), declaration]);
+        this.stats.nodesProcessed++;
+      }
+    }
+
+    if (language === 'rust' && node.type === 'impl_item') {
+      const typeNode = node.childForFieldName('type');
+      const traitNode = node.childForFieldName('trait');
+      const type = typeNode ? this.toSupertypeRef(typeNode, 'EXTENDS') : null;
+      if (type) {
+        this.rustImpls.push({
+          filePath,
+          type,
+          trait: traitNode ? this.toSupertypeRef(traitNode, 'IMPLEMENTS') ?? undefined : undefined,
+          methods: this.extractMethods(node, filePath, nodeIds)
+        });
+      }
+    }
+
+    // Nested and inner classes are declarations too
+    for (const child of node.namedChildren) {
+      this.collectDeclarations(child, filePath, language, nodeIds);
+    }
+  }
+
+  /**
+   * Register class-like nodes of files that were not parsed in this run (incremental
+   * updates) so parsed declarations can still resolve and override them. Their own
+   * supertypes are read from the EXTENDS / IMPLEMENTS edges already in the graph.
+   */
+  private collectGraphDeclarations(graph: KnowledgeGraph, astMap: Map<string, ParsedAST>): void {
+    const graphDeclarations = new Map<string, { declaration: TypeDeclaration; node: GraphNode }>();
+    const methodsByFile = new Map<string, GraphNode[]>();
+
+    for (const node of graph.nodes) {
+      const filePath = node.properties.filePath as string | undefined;
+      if (!filePath || astMap.has(filePath)) continue;
+
+      if (node.label === 'Method' || node.label === 'Function') {
+        if (!methodsByFile.has(filePath)) methodsByFile.set(filePath, []);
+        methodsByFile.get(filePath)!.push(node);
+      } else if (node.label === 'Class' || node.label === 'Interface' || node.label === 'Enum') {
+        const declaration: TypeDeclaration = {
+          nodeId: node.id,
+          kind: node.label === 'Class' ? 'class' : node.label === 'Interface' ? 'interface' : 'enum',
+          name: node.properties.name as string,
+          filePath,
+          supertypes: [],
+          methods: new Map()
+        };
+        graphDeclarations.set(node.id, { declaration, node });
+      }
+    }
+
+    for (const { declaration, node } of graphDeclarations.values()) {
+      for (const method of methodsByFile.get(declaration.filePath) || []) {
+        const name = method.properties.name as string;
+        const inside = (method.properties.startLine as number) > (node.properties.startLine as number) &&
+          (method.properties.endLine as number) <= (node.properties.endLine as number);
+        if (inside && !declaration.methods.has(name)) {
+          declaration.methods.set(name, method.id);
+        }
+      }
+
+      this.declarationsByName.set(declaration.name, [...(this.declarationsByName.get(declaration.name) || []), declaration]);
+    }
+
+    if (graphDeclarations.size === 0) return;
+
+    const parsedDeclarations = new Map(this.declarations.map(declaration => [declaration.nodeId, declaration]));
+    for (const relationship of graph.relationships) {
+      if (relationship.type !== 'EXTENDS' && relationship.type !== 'IMPLEMENTS') continue;
+      const source = graphDeclarations.get(relationship.source)?.declaration;
+      const target = graphDeclarations.get(relationship.target)?.declaration ?? parsedDeclarations.get(relationship.target);
+      if (!source || !target) continue;
+
+      this.resolvedSupertypes.set(source.nodeId, [
+        ...(this.resolvedSupertypes.get(source.nodeId) || []),
+        { declaration: target, relation: relationship.type }
+      ]);
+    }
+  }
+
+  /**
+   * Map a syntax node to the definition type ParsingProcessor stored it under
+   */
+  private getDeclarationKind(node: Parser.SyntaxNode, language: Language): 'class' | 'interface' | 'enum' | null {
+    switch (language) {
+      case 'java':
+        if (node.type === 'class_declaration' || node.type === 'record_declaration') return 'class';
+        if (node.type === 'interface_declaration') return 'interface';
+        if (node.type === 'enum_declaration') return 'enum';
+        return null;
+      case 'typescript':
+        if (node.type === 'class_declaration') return 'class';
+        if (node.type === 'interface_declaration') return 'interface';
+        return null;
+      case 'javascript':
+        return node.type === 'class_declaration' ? 'class' : null;
+      case 'python':
+        return node.type === 'class_definition' ? 'class' : null;
+      case 'rust':
+        if (node.type === 'struct_item' || node.type === 'union_item') return 'class';
+        if (node.type === 'trait_item') return 'interface';
+        if (node.type === 'enum_item') return 'enum';
+        return null;
+      case 'csharp':
+        if (node.type === 'class_declaration' || node.type === 'struct_declaration' || node.type === 'record_declaration') return 'class';
+        if (node.type === 'interface_declaration') return 'interface';
+        if (node.type === 'enum_declaration') return 'enum';
+        return null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Read the extends / implements clauses of a declaration
+   */
+  private extractSupertypes(node: Parser.SyntaxNode, language: Language): SupertypeRef[] {
+    const supertypes: SupertypeRef[] = [];
+    const add = (typeNode: Parser.SyntaxNode | null, relation: SupertypeRef['relation']) => {
+      const ref = typeNode ? this.toSupertypeRef(typeNode, relation) : null;
+      if (ref) supertypes.push(ref);
+    };
+
+    if (language === 'java') {
+      // class A extends Base implements Runnable / enum E implements I / interface I extends J, K
+      add(node.childForFieldName('superclass')?.firstNamedChild ?? null, 'EXTENDS');
+      for (const child of node.namedChildren) {
+        const relation = child.type === 'extends_interfaces' ? 'EXTENDS'
+          : child.type === 'super_interfaces' ? 'IMPLEMENTS'
+          : null;
+        const typeList = relation ? child.namedChildren.find(c => c.type === 'type_list') : undefined;
+        if (relation && typeList) {
+          typeList.namedChildren.forEach(typeNode => add(typeNode, relation));
+        }
+      }
+    } else if (language === 'typescript' || language === 'javascript') {
+      const heritage = node.namedChildren.find(child => child.type === 'class_heritage');
+      for (const clause of heritage?.namedChildren || []) {
+        if (clause.type === 'extends_clause') {
+          add(clause.childForFieldName('value'), 'EXTENDS');
+        } else if (clause.type === 'implements_clause') {
+          clause.namedChildren.forEach(typeNode => add(typeNode, 'IMPLEMENTS'));
+        } else {
+          // JavaScript grammar: class_heritage holds the expression directly
+          add(clause, 'EXTENDS');
+        }
+      }
+      // interface I extends J, K
+      const extendsType = node.namedChildren.find(child => child.type === 'extends_type_clause');
+      extendsType?.namedChildren.forEach(typeNode => add(typeNode, 'EXTENDS'));
+    } else if (language === 'python') {
+      // class A(Base, mixins.Mixin, metaclass=Meta)
+      const superclasses = node.childForFieldName('superclasses');
+      for (const arg of superclasses?.namedChildren || []) {
+        if (arg.type === 'identifier' || arg.type === 'attribute') {
+          add(arg, 'EXTENDS');
+        }
+      }
+    } else if (language === 'rust') {
+      // Supertraits: trait Runner: Service + Clone (impl blocks are handled separately)
+      const bounds = node.childForFieldName('bounds');
+      for (const bound of bounds?.namedChildren || []) {
+        if (bound.type !== 'lifetime') add(bound, 'EXTENDS');
+      }
+    } else if (language === 'csharp') {
+      // class Repo : BaseRepo<T>, IRepo / interface IRepo : IDisposable / record Point(int X) : Shape(X)
+      const baseList = node.namedChildren.find(child => child.type === 'base_list');
+      for (const base of baseList?.namedChildren || []) {
+        const typeNode = base.type === 'primary_constructor_base_type' ? base.firstNamedChild : base;
+        const ref = typeNode ? this.toSupertypeRef(typeNode, 'EXTENDS') : null;
+        if (ref) supertypes.push({ ...ref, relationFromTarget: true });
+      }
+    }
+
+    return supertypes;
+  }
+
+  /**
+   * Normalise a type reference (Base<T>, com.acme.Base, models.Base, fmt::Display) to a name and qualifier
+   */
+  private toSupertypeRef(typeNode: Parser.SyntaxNode, relation: SupertypeRef['relation']): SupertypeRef | null {
+    const baseNode = typeNode.type === 'generic_type' ? typeNode.firstNamedChild : typeNode;
+    const text = (baseNode ?? typeNode).text.replace(/<[\s\S]*>$/, '').replace(/\s+/g, '');
+    const segments = text.split(/\.|::/).filter(segment => segment.length > 0);
+    if (segments.length === 0) return null;
+
+    return {
+      name: segments[segments.length - 1],
+      qualifier: segments.length > 1 ? segments[0] : undefined,
+      relation
+    };
+  }
+
+  /**
+   * Collect the methods declared directly in a class body
+   */
+  private extractMethods(node: Parser.SyntaxNode, filePath: string, nodeIds: Set<string>): Map<string, string> {
+    const methods = new Map<string, string>();
+    const body = node.childForFieldName('body');
+    if (!body) return methods;
+
+    const members = body.namedChildren.flatMap(member => {
+      // Java enum methods sit behind the constant list; Python decorators wrap the function
+      if (member.type === 'enum_body_declarations') return member.namedChildren;
+      if (member.type === 'decorated_definition') return member.namedChildren.filter(c => c.type === 'function_definition');
+      return [member];
+    });
+
+    for (const member of members) {
+      if (!['method_declaration', 'method_definition', 'function_definition', 'function_item', 'function_signature_item'].includes(member.type)) continue;
+
+      const name = member.childForFieldName('name')?.text;
+      if (!name) continue;
+
+      const methodId = generateDeterministicId('method', `${filePath}_${name}_${member.startPosition.row + 1}`);
+      if (nodeIds.has(methodId) && !methods.has(name)) {
+        methods.set(name, methodId);
+      }
+    }
+
+    return methods;
+  }
+
+  /**
+   * Merge Rust impl blocks into the type they implement: their methods become the
+   * type's methods and `impl Trait for Type` becomes an implemented supertype
+   */
+  private attachRustImpls(): void {
+    for (const impl of this.rustImpls) {
+      const target = this.resolveTypeName(impl.filePath, impl.type);
+      if (!target) continue;
+
+      for (const [methodName, methodId] of impl.methods) {
+        if (!target.methods.has(methodName)) {
+          target.methods.set(methodName, methodId);
+        }
+      }
+
+      if (impl.trait) {
+        target.supertypes.push({ ...impl.trait, contextFile: impl.filePath });
+      }
+    }
+  }
+
+  /**
+   * Resolve each supertype reference of a declaration and emit EXTENDS / IMPLEMENTS edges
+   */
+  private resolveSupertypes(graph: KnowledgeGraph, declaration: TypeDeclaration): void {
+    const resolved: { declaration: TypeDeclaration; relation: SupertypeRef['relation'] }[] = [];
+
+    for (const ref of declaration.supertypes) {
+      this.stats.supertypesFound++;
+      const target = this.resolveTypeName(ref.contextFile ?? declaration.filePath, ref);
+      if (!target || target.nodeId === declaration.nodeId) continue;
+
+      const relation = ref.relationFromTarget && declaration.kind !== 'interface' && target.kind === 'interface'
+        ? 'IMPLEMENTS'
+        : ref.relation;
+
+      this.stats.supertypesResolved++;
+      resolved.push({ declaration: target, relation });
+      this.addRelationship(graph, relation, declaration.nodeId, target.nodeId, { supertypeName: ref.name });
+    }
+
+    this.resolvedSupertypes.set(declaration.nodeId, resolved);
+  }
+
+  /**
+   * Find the declaration a type name used in `filePath` refers to
+   */
+  private resolveTypeName(filePath: string, ref: SupertypeRef): TypeDeclaration | null {
+    const importInfo = this.importMap[filePath]?.[ref.qualifier ?? ref.name];
+    return resolveTypeReference(this.declarationsByName.get(ref.name) || [], filePath, ref, importInfo, this.detectLanguage(filePath));
+  }
+
+  /**
+   * Emit OVERRIDES edges from each method to the nearest same-named supertype method
+   */
+  private linkOverrides(graph: KnowledgeGraph, declaration: TypeDeclaration): void {
+    for (const [methodName, methodId] of declaration.methods) {
+      // Constructors are never overrides
+      if (methodName === declaration.name || methodName === 'constructor' || methodName === '__init__') continue;
+
+      const visited = new Set<string>([declaration.nodeId]);
+      let frontier = this.resolvedSupertypes.get(declaration.nodeId) || [];
+
+      while (frontier.length > 0) {
+        const next: typeof frontier = [];
+
+        for (const { declaration: supertype } of frontier) {
+          if (visited.has(supertype.nodeId)) continue;
+          visited.add(supertype.nodeId);
+
+          const overriddenId = supertype.methods.get(methodName);
+          if (overriddenId) {
+            this.addRelationship(graph, 'OVERRIDES', methodId, overriddenId, { methodName });
+            this.stats.overrides++;
+          } else {
+            next.push(...(this.resolvedSupertypes.get(supertype.nodeId) || []));
+          }
+        }
+
+        frontier = next;
+      }
+    }
+  }
+
+  private addRelationship(
+    graph: KnowledgeGraph,
+    type: RelationshipType,
+    source: string,
+    target: string,
+    properties: RelationshipProperties
+  ): void {
+    const relationship: GraphRelationship = {
+      id: generateDeterministicId(type.toLowerCase(), `${source}-${target}`),
+      type,
+      source,
+      target,
+      properties
+    };
+
+    graph.addRelationship(relationship);
+    this.stats.relationshipsProcessed++;
+  }
+
+  /**
+   * Detect programming language from file extension
+   */
+  private detectLanguage(filePath: string): Language {
+    const ext = pathUtils.extname(filePath).toLowerCase();
+    if (ext === '.py') return 'python';
+    if (ext === '.java') return 'java';
+    if (ext === '.rs') return 'rust';
+    if (ext === '.cs') return 'csharp';
+    if (ext === '.ts' || ext === '.tsx' || ext === '.vue' || ext === '.svelte') return 'typescript';
+    if (ext === '.js' || ext === '.jsx') return 'javascript';
+    return 'other';
+  }
+
+  /**
+   * Get processing statistics
+   */
+  public getStats() {
+    return { ...this.stats };
+  }
+}
@@ -0,0 +1,48 @@
+import { JavaPackageResolver, preferJavaSourceRoot } from './java-package-resolver.js';
+
+// Maven layout with a test copy of one class, plus a non-Java file in a package directory
+const files = [
+  'pom.xml',
+  'src/main/java/com/acme/App.java',
+  'src/main/java/com/acme/util/Helper.java',
+  'src/main/java/com/acme/util/Strings.java',
+  'src/main/java/com/acme/util/internal/Cache.java',
+  'src/main/java/com/acme/util/notes.txt',
+  'src/test/java/com/acme/util/Helper.java',
+  'src/test/java/com/acme/util/HelperTest.java'
+];
+
+describe('JavaPackageResolver', () => {
+  const resolver = new JavaPackageResolver(files);
+
+  test('should resolve fully qualified names to the main source set', () => {
+    expect(resolver.resolveClassFile('com.acme.util.Helper')).toBe('src/main/java/com/acme/util/Helper.java');
+    expect(resolver.resolveClassFile('com.acme.util.HelperTest')).toBe('src/test/java/com/acme/util/HelperTest.java');
+  });
+
+  test('should resolve nested classes and static members to their outer class file', () => {
+    expect(resolver.resolveClassFile('com.acme.util.Helper.Options')).toBe('src/main/java/com/acme/util/Helper.java');
+    expect(resolver.resolveClassFile('com.acme.util.Strings.join')).toBe('src/main/java/com/acme/util/Strings.java');
+  });
+
+  test('should leave JDK and library classes unresolved', () => {
+    expect(resolver.resolveClassFile('java.util.List')).toBeNull();
+    expect(resolver.resolveClassFile('org.junit.jupiter.api.Test')).toBeNull();
+  });
+
+  test('should list the class files of a package without subpackages', () => {
+    expect(resolver.getPackageFiles('com.acme.util')).toEqual([
+      'src/main/java/com/acme/util/Helper.java',
+      'src/main/java/com/acme/util/Strings.java'
+    ]);
+    expect(resolver.getPackageFiles('com.acme.missing')).toEqual([]);
+  });
+});
+
+describe('preferJavaSourceRoot', () => {
+  test('should prefer src/main/java, then anything outside src/test', () => {
+    expect(preferJavaSourceRoot(['src/test/java/A.java', 'src/main/java/A.java'])).toBe('src/main/java/A.java');
+    expect(preferJavaSourceRoot(['src/test/java/A.java', 'lib/A.java'])).toBe('lib/A.java');
+    expect(preferJavaSourceRoot(['src/test/java/A.java'])).toBe('src/test/java/A.java');
+  });
+});
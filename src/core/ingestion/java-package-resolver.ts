@@ -0,0 +1,69 @@
+/**
+ * Resolution of Java fully qualified names against the ingested file map. Packages
+ * follow the directory layout under a source root (src/main/java, src, or the
+ * repository root), so com.acme.util.Helper is the file ending in com/acme/util/Helper.java.
+ */
+
+const dirname = (filePath: string): string => {
+  const lastSlash = filePath.lastIndexOf('/');
+  return lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+};
+
+/**
+ * Pick the main source set (src/main/java) over test or generated copies
+ */
+export function preferJavaSourceRoot(paths: string[]): string {
+  const sorted = [...paths].sort();
+  return sorted.find(p => p.startsWith('src/main/java/') || p.includes('/src/main/java/')) ||
+    sorted.find(p => !p.includes('src/test/')) ||
+    sorted[0];
+}
+
+export class JavaPackageResolver {
+  private javaFiles: string[];
+
+  constructor(filePaths: Iterable<string>) {
+    this.javaFiles = Array.from(filePaths).filter(filePath => filePath.endsWith('.java'));
+  }
+
+  /**
+   * Find the source file declaring a fully qualified Java name.
+   * Nested classes and static members live in their outer class file, so shorter
+   * prefixes are tried until one maps to a file.
+   */
+  resolveClassFile(qualifiedName: string): string | null {
+    const segments = qualifiedName.split('.');
+
+    for (let length = segments.length; length > 0; length--) {
+      const relativePath = segments.slice(0, length).join('/') + '.java';
+      const candidates = this.javaFiles.filter(filePath =>
+        filePath === relativePath || filePath.endsWith('/' + relativePath)
+      );
+
+      if (candidates.length > 0) {
+        return preferJavaSourceRoot(candidates);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the class files of a Java package (non-recursive, like the language itself)
+   */
+  getPackageFiles(packageName: string): string[] {
+    const packageDir = packageName.replace(/\./g, '/');
+    const filesByDir = new Map<string, string[]>();
+
+    for (const filePath of this.javaFiles) {
+      const dir = dirname(filePath);
+      if (dir === packageDir || dir.endsWith('/' + packageDir)) {
+        filesByDir.set(dir, [...(filesByDir.get(dir) || []), filePath]);
+      }
+    }
+
+    if (filesByDir.size === 0) return [];
+    const chosenDir = preferJavaSourceRoot(Array.from(filesByDir.keys()));
+    return (filesByDir.get(chosenDir) || []).sort();
+  }
+}
@@ -0,0 +1,62 @@
+import { JSModuleResolver, parseJsonWithComments } from './js-module-resolver.js';
+
+// Monorepo with a Vite app using a solution-style tsconfig and two workspace packages
+const files = new Map<string, string>([
+  ['package.json', '{ "name": "mono", "private": true }'],
+  ['packages/config/package.json', '{ "name": "@acme/config" }'],
+  ['packages/config/tsconfig.base.json', '{\n  // shared\n  "compilerOptions": { "strict": true, },\n}'],
+  ['apps/web/tsconfig.json', '{ "files": [], "references": [{ "path": "./tsconfig.app.json" }] }'],
+  ['apps/web/tsconfig.app.json', `{
+    "extends": "@acme/config/tsconfig.base.json",
+    "compilerOptions": {
+      /* aliases */
+      "baseUrl": ".",
+      "paths": { "@/*": ["./src/*"], "~lib": ["src/lib/index.ts"] }
+    }
+  }`],
+  ['apps/web/src/main.tsx', ''],
+  ['apps/web/src/local.ts', ''],
+  ['apps/web/src/components/Button.tsx', ''],
+  ['apps/web/src/lib/index.ts', ''],
+  ['packages/ui/package.json', '{ "name": "@acme/ui", "exports": { ".": { "types": "./dist/index.d.ts", "import": "./dist/index.js" } } }'],
+  ['packages/ui/src/index.ts', ''],
+  ['packages/utils/package.json', '{ "name": "@acme/utils", "exports": { "./*": "./src/*.ts" }, "main": "dist/index.js" }'],
+  ['packages/utils/src/format.ts', '']
+]);
+
+describe('JSModuleResolver', () => {
+  const resolver = new JSModuleResolver(files);
+  const importer = 'apps/web/src/main.tsx';
+
+  test('should resolve tsconfig paths wildcards from a referenced config', () => {
+    expect(resolver.resolve('@/components/Button', importer)).toBe('apps/web/src/components/Button.tsx');
+  });
+
+  test('should prefer exact paths keys', () => {
+    expect(resolver.resolve('~lib', importer)).toBe('apps/web/src/lib/index.ts');
+  });
+
+  test('should resolve bare specifiers against baseUrl', () => {
+    expect(resolver.resolve('src/local', importer)).toBe('apps/web/src/local.ts');
+  });
+
+  test('should map package exports in dist back to sources', () => {
+    expect(resolver.resolve('@acme/ui', importer)).toBe('packages/ui/src/index.ts');
+  });
+
+  test('should resolve subpath export patterns', () => {
+    expect(resolver.resolve('@acme/utils/format', importer)).toBe('packages/utils/src/format.ts');
+  });
+
+  test('should leave external packages unresolved', () => {
+    expect(resolver.resolve('react', importer)).toBeNull();
+  });
+
+  test('should resolve ESM .js specifiers to TypeScript sources', () => {
+    expect(resolver.resolveFile('apps/web/src/local.js')).toBe('apps/web/src/local.ts');
+  });
+
+  test('should parse JSON with comments and trailing commas', () => {
+    expect(parseJsonWithComments('{ "a": "http://x", /* c */ "b": [1, 2,], }')).toEqual({ a: 'http://x', b: [1, 2] });
+  });
+});
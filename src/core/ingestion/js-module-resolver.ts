@@ -0,0 +1,428 @@
+/**
+ * Resolution of non-relative JavaScript/TypeScript import specifiers against the
+ * ingested file map: tsconfig/jsconfig `paths` + `baseUrl` aliases (following
+ * `extends` and `references`) and workspace packages via package.json
+ * `exports` / `module` / `main`.
+ */
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Single-file components, only ever imported with their extension
+const COMPONENT_EXTENSIONS = ['.vue', '.svelte'];
+
+// Export conditions in the order a source-level resolver should prefer them
+const EXPORT_CONDITIONS = ['source', 'development', 'import', 'module', 'browser', 'default', 'require', 'node', 'types'];
+
+// Build output directories that usually mirror a src/ directory in the repository
+const BUILD_DIRECTORIES = ['dist', 'build', 'lib', 'out', 'esm', 'cjs'];
+
+interface CompilerPaths {
+  baseUrl?: string;                 // Absolute (project-relative) directory
+  paths?: Record<string, string[]>;
+  pathsBase?: string;               // Directory `paths` entries are relative to
+}
+
+interface WorkspacePackage {
+  name: string;
+  dir: string;
+  manifest: Record<string, unknown>;
+}
+
+const pathUtils = {
+  dirname: (filePath: string): string => {
+    const lastSlash = filePath.lastIndexOf('/');
+    return lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+  },
+  /**
+   * Join and normalise path segments, collapsing `.` and `..` (paths are project-relative)
+   */
+  join: (...parts: string[]): string => {
+    const segments: string[] = [];
+    for (const segment of parts.join('/').split('/')) {
+      if (segment === '' || segment === '.') continue;
+      if (segment === '..') segments.pop();
+      else segments.push(segment);
+    }
+    return segments.join('/');
+  }
+};
+
+/**
+ * Strip comments and trailing commas so tsconfig-style JSON can be parsed
+ */
+export function parseJsonWithComments(content: string): Record<string, unknown> | null {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && next === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < content.length && !(content[i] === '*' && content[i + 1] === '/')) i++;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  try {
+    const parsed = JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+export class JSModuleResolver {
+  private fileContents: Map<string, string>;
+  private projectFiles: Set<string>;
+  private compilerPathsByDir: Map<string, CompilerPaths | null> = new Map();
+  private configCache: Map<string, CompilerPaths | null> = new Map();
+  private workspacePackages: WorkspacePackage[];
+
+  constructor(fileContents: Map<string, string>) {
+    this.fileContents = fileContents;
+    this.projectFiles = new Set(fileContents.keys());
+    this.workspacePackages = this.collectWorkspacePackages();
+  }
+
+  /**
+   * Resolve a bare or aliased specifier imported from `importingFile`
+   * @returns The project file it refers to, or null for external modules
+   */
+  public resolve(specifier: string, importingFile: string): string | null {
+    return this.resolveCompilerPaths(specifier, importingFile) ??
+      this.resolveWorkspacePackage(specifier);
+  }
+
+  /**
+   * Try a path with the usual source extensions and index files
+   */
+  public resolveFile(basePath: string): string | null {
+    if (this.projectFiles.has(basePath) && [...SOURCE_EXTENSIONS, ...COMPONENT_EXTENSIONS].some(ext => basePath.endsWith(ext))) {
+      return basePath;
+    }
+
+    // ESM sources often import './foo.js' while the file on disk is foo.ts
+    const withoutJsExtension = basePath.replace(/\.(m|c)?js$/, '');
+    for (const candidateBase of withoutJsExtension === basePath ? [basePath] : [withoutJsExtension, basePath]) {
+      for (const ext of SOURCE_EXTENSIONS) {
+        if (this.projectFiles.has(candidateBase + ext)) return candidateBase + ext;
+      }
+    }
+
+    for (const ext of SOURCE_EXTENSIONS) {
+      const indexCandidate = pathUtils.join(basePath, `index${ext}`);
+      if (this.projectFiles.has(indexCandidate)) return indexCandidate;
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve through the `paths` / `baseUrl` of the nearest tsconfig.json or jsconfig.json
+   */
+  private resolveCompilerPaths(specifier: string, importingFile: string): string | null {
+    const compilerPaths = this.getCompilerPathsForDir(pathUtils.dirname(importingFile));
+    if (!compilerPaths) return null;
+
+    if (compilerPaths.paths) {
+      // The pattern with the longest prefix before '*' wins, as in TypeScript
+      const matches = Object.entries(compilerPaths.paths)
+        .map(([pattern, targets]) => ({ pattern, targets, wildcard: this.matchPattern(pattern, specifier) }))
+        .filter(match => match.wildcard !== null)
+        .sort((a, b) => this.patternPrefixLength(b.pattern) - this.patternPrefixLength(a.pattern));
+
+      for (const { targets, wildcard } of matches) {
+        for (const target of targets) {
+          const substituted = target.replace('*', wildcard ?? '');
+          const resolved = this.resolveFile(pathUtils.join(compilerPaths.pathsBase ?? '', substituted));
+          if (resolved) return resolved;
+        }
+      }
+    }
+
+    if (compilerPaths.baseUrl !== undefined) {
+      return this.resolveFile(pathUtils.join(compilerPaths.baseUrl, specifier));
+    }
+
+    return null;
+  }
+
+  private patternPrefixLength(pattern: string): number {
+    const starIndex = pattern.indexOf('*');
+    return starIndex === -1 ? Number.MAX_SAFE_INTEGER : starIndex;
+  }
+
+  /**
+   * Match a `paths` key ('@/*', 'utils') against a specifier
+   * @returns The text matched by '*' ('' for exact keys), or null when it does not match
+   */
+  private matchPattern(pattern: string, specifier: string): string | null {
+    const starIndex = pattern.indexOf('*');
+    if (starIndex === -1) {
+      return pattern === specifier ? '' : null;
+    }
+
+    const prefix = pattern.substring(0, starIndex);
+    const suffix = pattern.substring(starIndex + 1);
+    if (specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) && specifier.endsWith(suffix)) {
+      return specifier.substring(prefix.length, specifier.length - suffix.length);
+    }
+    return null;
+  }
+
+  /**
+   * Find the compiler paths that apply to a directory (nearest config file wins)
+   */
+  private getCompilerPathsForDir(dir: string): CompilerPaths | null {
+    const cached = this.compilerPathsByDir.get(dir);
+    if (cached !== undefined) return cached;
+
+    let result: CompilerPaths | null = null;
+    for (const configName of ['tsconfig.json', 'jsconfig.json']) {
+      const configPath = dir ? `${dir}/${configName}` : configName;
+      if (this.fileContents.has(configPath)) {
+        result = this.loadConfigWithReferences(configPath);
+        if (result) break;
+      }
+    }
+
+    if (!result && dir) {
+      result = this.getCompilerPathsForDir(pathUtils.dirname(dir));
+    }
+
+    this.compilerPathsByDir.set(dir, result);
+    return result;
+  }
+
+  /**
+   * Solution-style configs (Vite templates) keep `paths` in referenced files such as tsconfig.app.json
+   */
+  private loadConfigWithReferences(configPath: string): CompilerPaths | null {
+    const own = this.loadConfig(configPath, new Set());
+    if (own && (own.paths || own.baseUrl !== undefined)) return own;
+
+    const config = parseJsonWithComments(this.fileContents.get(configPath) || '');
+    const references = Array.isArray(config?.references) ? config.references as { path?: string }[] : [];
+
+    for (const reference of references) {
+      if (typeof reference?.path !== 'string') continue;
+      let referencePath = pathUtils.join(pathUtils.dirname(configPath), reference.path);
+      if (!referencePath.endsWith('.json')) referencePath = pathUtils.join(referencePath, 'tsconfig.json');
+
+      const referenced = this.loadConfig(referencePath, new Set());
+      if (referenced && (referenced.paths || referenced.baseUrl !== undefined)) return referenced;
+    }
+
+    return own;
+  }
+
+  /**
+   * Load compilerOptions.baseUrl/paths from a config file, following `extends`
+   */
+  private loadConfig(configPath: string, visited: Set<string>): CompilerPaths | null {
+    if (visited.has(configPath)) return null;
+    visited.add(configPath);
+
+    const cached = this.configCache.get(configPath);
+    if (cached !== undefined) return cached;
+
+    const content = this.fileContents.get(configPath);
+    const config = content ? parseJsonWithComments(content) : null;
+    if (!config) {
+      this.configCache.set(configPath, null);
+      return null;
+    }
+
+    const configDir = pathUtils.dirname(configPath);
+    let result: CompilerPaths = {};
+
+    // Parent configs first so this file's options override them
+    const parents = Array.isArray(config.extends) ? config.extends : [config.extends];
+    for (const parent of parents) {
+      if (typeof parent !== 'string') continue;
+      const parentPath = this.resolveExtendsPath(parent, configDir);
+      const parentPaths = parentPath ? this.loadConfig(parentPath, visited) : null;
+      if (parentPaths) result = { ...result, ...parentPaths };
+    }
+
+    const compilerOptions = (config.compilerOptions || {}) as { baseUrl?: unknown; paths?: unknown };
+    if (typeof compilerOptions.baseUrl === 'string') {
+      result.baseUrl = pathUtils.join(configDir, compilerOptions.baseUrl);
+      // `paths` resolve against baseUrl whenever one is set, including inherited paths
+      result.pathsBase = result.baseUrl;
+    }
+    if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+      result.paths = compilerOptions.paths as Record<string, string[]>;
+      result.pathsBase = result.baseUrl ?? configDir;
+    }
+
+    this.configCache.set(configPath, result);
+    return result;
+  }
+
+  /**
+   * Resolve an `extends` value: relative file paths or a workspace package's config
+   */
+  private resolveExtendsPath(extendsValue: string, configDir: string): string | null {
+    const candidates: string[] = [];
+
+    if (extendsValue.startsWith('.') || extendsValue.startsWith('/')) {
+      const basePath = pathUtils.join(configDir, extendsValue);
+      candidates.push(basePath, `${basePath}.json`, pathUtils.join(basePath, 'tsconfig.json'));
+    } else {
+      // Shared configs published from the same monorepo, e.g. "@acme/tsconfig/base.json"
+      const match = this.findWorkspacePackage(extendsValue);
+      if (match) {
+        const basePath = pathUtils.join(match.pkg.dir, match.subpath || 'tsconfig.json');
+        candidates.push(basePath, `${basePath}.json`);
+      }
+    }
+
+    return candidates.find(candidate => candidate.endsWith('.json') && this.fileContents.has(candidate)) || null;
+  }
+
+  /**
+   * Index every package.json with a name, skipping installed dependencies
+   */
+  private collectWorkspacePackages(): WorkspacePackage[] {
+    const packages: WorkspacePackage[] = [];
+
+    for (const [filePath, content] of this.fileContents) {
+      if (filePath !== 'package.json' && !filePath.endsWith('/package.json')) continue;
+      if (filePath.includes('node_modules/')) continue;
+
+      const manifest = parseJsonWithComments(content);
+      if (manifest && typeof manifest.name === 'string') {
+        packages.push({ name: manifest.name, dir: pathUtils.dirname(filePath), manifest });
+      }
+    }
+
+    return packages;
+  }
+
+  private findWorkspacePackage(specifier: string): { pkg: WorkspacePackage; subpath: string } | null {
+    for (const pkg of this.workspacePackages) {
+      if (specifier === pkg.name) return { pkg, subpath: '' };
+      if (specifier.startsWith(pkg.name + '/')) return { pkg, subpath: specifier.substring(pkg.name.length + 1) };
+    }
+    return null;
+  }
+
+  /**
+   * Resolve '@acme/ui' or '@acme/ui/button' to a source file of a workspace package
+   */
+  private resolveWorkspacePackage(specifier: string): string | null {
+    const match = this.findWorkspacePackage(specifier);
+    if (!match) return null;
+
+    const { pkg, subpath } = match;
+    const exportsField = pkg.manifest.exports;
+
+    if (exportsField !== undefined) {
+      const targets = this.resolveExportsTargets(exportsField, subpath ? `./${subpath}` : '.');
+      for (const target of targets) {
+        const resolved = this.resolvePackageTarget(pkg.dir, target);
+        if (resolved) return resolved;
+      }
+    }
+
+    if (subpath) {
+      return this.resolvePackageTarget(pkg.dir, subpath) ??
+        this.resolvePackageTarget(pkg.dir, `src/${subpath}`);
+    }
+
+    for (const field of ['source', 'module', 'main']) {
+      const entry = pkg.manifest[field];
+      if (typeof entry === 'string') {
+        const resolved = this.resolvePackageTarget(pkg.dir, entry);
+        if (resolved) return resolved;
+      }
+    }
+
+    return this.resolveFile(pathUtils.join(pkg.dir, 'src/index')) ?? this.resolveFile(pathUtils.join(pkg.dir, 'index'));
+  }
+
+  /**
+   * Candidate targets for a subpath ('.' or './button') from an `exports` field
+   */
+  private resolveExportsTargets(exportsField: unknown, subpath: string): string[] {
+    if (typeof exportsField === 'string' || Array.isArray(exportsField)) {
+      return subpath === '.' ? this.resolveConditions(exportsField) : [];
+    }
+    if (!exportsField || typeof exportsField !== 'object') return [];
+
+    const entries = Object.entries(exportsField as Record<string, unknown>);
+    const isSubpathMap = entries.some(([key]) => key.startsWith('.'));
+    if (!isSubpathMap) {
+      // Conditions only: { "import": "./dist/index.js", ... } applies to '.'
+      return subpath === '.' ? this.resolveConditions(exportsField) : [];
+    }
+
+    const exact = (exportsField as Record<string, unknown>)[subpath];
+    if (exact !== undefined) return this.resolveConditions(exact);
+
+    // Subpath patterns: "./*": "./src/*.ts"
+    for (const [key, value] of entries) {
+      const wildcard = this.matchPattern(key, subpath);
+      if (wildcard !== null && key.includes('*')) {
+        return this.resolveConditions(value).map(target => target.split('*').join(wildcard));
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Flatten a conditional export value into targets, most source-like condition first
+   */
+  private resolveConditions(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.flatMap(item => this.resolveConditions(item));
+    if (!value || typeof value !== 'object') return [];
+
+    const conditions = value as Record<string, unknown>;
+    const ordered = [
+      ...EXPORT_CONDITIONS.filter(condition => condition in conditions),
+      ...Object.keys(conditions).filter(condition => !EXPORT_CONDITIONS.includes(condition))
+    ];
+    return ordered.flatMap(condition => this.resolveConditions(conditions[condition]));
+  }
+
+  /**
+   * Resolve a package-relative target, mapping build output back to sources when the
+   * build directory is not part of the repository (dist/index.js -> src/index.ts)
+   */
+  private resolvePackageTarget(packageDir: string, target: string): string | null {
+    const targetPath = pathUtils.join(packageDir, target.replace(/\.d\.(m|c)?ts$/, ''));
+    const direct = this.resolveFile(targetPath);
+    if (direct) return direct;
+
+    const relativeTarget = pathUtils.join(target);
+    const [firstSegment, ...rest] = relativeTarget.split('/');
+    if (BUILD_DIRECTORIES.includes(firstSegment)) {
+      const sourcePath = pathUtils.join(packageDir, 'src', ...rest).replace(/\.d\.(m|c)?ts$/, '');
+      return this.resolveFile(sourcePath);
+    }
+
+    return null;
+  }
+}
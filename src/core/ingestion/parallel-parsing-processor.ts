@@ -11,7 +11,10 @@ import { WebWorkerPool, WebWorkerPoolUtils } from '../../lib/web-worker-pool.js'
 import { FunctionRegistryTrie, FunctionDefinition } from '../graph/trie.js';
 import { generateDeterministicId } from '../../lib/utils.ts';
 import Parser from 'web-tree-sitter';
-import { initTreeSitter, loadTypeScriptParser, loadPythonParser, loadJavaScriptParser } from '../tree-sitter/parser-loader.js';
+import { initTreeSitter, loadTypeScriptParser, loadTsxParser, loadPythonParser, loadJavaScriptParser, loadGoParser, loadJavaParser, loadRustParser, loadCSharpParser } from '../tree-sitter/parser-loader.js';
+import { getPartialTypeNodeId } from './csharp-resolver.js';
+import { createComponentNode, extractScriptSource, isSingleFileComponent } from './sfc-extractor.js';
+import { getDocProperties, parseDocComment } from './doc-comment-extractor.js';
 
 export interface ParsingInput {
 	filePaths: string[];
@@ -21,7 +24,7 @@ export interface ParsingInput {
 
 export interface ParsedDefinition {
 	name: string;
-	type: 'function' | 'class' | 'method' | 'variable' | 'import' | 'interface' | 'type' | 'decorator';
+	type: 'function' | 'class' | 'method' | 'variable' | 'import' | 'interface' | 'type' | 'enum' | 'decorator';
 	startLine: number;
 	endLine?: number;
 	parameters?: string[] | undefined;
@@ -35,7 +38,10 @@ export interface ParsedDefinition {
 	implements?: string[] | undefined;
 	importPath?: string | undefined;
 	exportType?: 'named' | 'default' | 'namespace';
-	docstring?: string | undefined;
+	docstring?: string | undefined;      // Doc comment or docstring as written, parsed into node properties
+	namespace?: string | undefined;      // C# declaring namespace
+	qualifiedName?: string | undefined;  // C# namespace-qualified type name
+	isPartial?: boolean | undefined;
 }
 
 export interface ParsedAST {
@@ -169,10 +175,10 @@ export interface ParallelParsingResult {
 	): Promise<ParallelParsingResult[]> {
 		const startTime = performance.now();
 		
-		// Prepare tasks for worker pool
+		// Prepare tasks for worker pool (components are parsed as their script blocks)
 		const tasks = filePaths.map(filePath => ({
 			filePath,
-			content: fileContents.get(filePath) || ''
+			content: this.getParseSource(filePath, fileContents.get(filePath) || '')
 		}));
 
 		console.log(`ParallelParsingProcessor: Starting parallel processing of ${tasks.length} files`);
@@ -260,6 +266,10 @@ export interface ParallelParsingResult {
 					totalDefinitions += result.definitions.length;
 				}
 
+				if (isSingleFileComponent(result.filePath)) {
+					this.addComponentToGraph(result.filePath, fileContents.get(result.filePath) || '', graph);
+				}
+
 				this.processedFiles.add(result.filePath);
 			} else {
 				failedFiles++;
@@ -302,9 +312,13 @@ export interface ParallelParsingResult {
 		graph: KnowledgeGraph
 	): Promise<void> {
 	// Generate unique ID based on file path and definition name (same as single-threaded)
-	const nodeId = generateDeterministicId(definition.type, `${filePath}_${definition.name}_${definition.startLine}`);
+	const nodeId = definition.isPartial && definition.qualifiedName
+		? getPartialTypeNodeId(definition.type, definition.qualifiedName)
+		: generateDeterministicId(definition.type, `${filePath}_${definition.name}_${definition.startLine}`);
 		
 		if (this.duplicateDetector.checkAndMark(nodeId)) {
+			// Further parts of a partial type: register and link them to the shared node
+			if (definition.isPartial) this.addPartialDeclaration(filePath, nodeId, definition, graph);
 			return;
 		}
 
@@ -318,14 +332,17 @@ export interface ParallelParsingResult {
 				type: definition.type,
 				startLine: definition.startLine,
 				endLine: definition.endLine,
-				qualifiedName: `${filePath}:${definition.name}`,
+				qualifiedName: definition.qualifiedName || `${filePath}:${definition.name}`,
+				namespace: definition.namespace,
+				isPartial: definition.isPartial,
 				parameters: definition.parameters,
 				returnType: definition.returnType,
 				accessibility: definition.accessibility,
 				isStatic: definition.isStatic,
 				isAsync: definition.isAsync,
 				parentClass: definition.parentClass,
-				docstring: definition.docstring
+				decorators: definition.decorators,
+				...(definition.docstring ? getDocProperties(parseDocComment(definition.docstring)) : {})
 			}
 		};
 
@@ -378,34 +395,7 @@ export interface ParallelParsingResult {
 
 		graph.addRelationship(definesRelationship);
 
-		// Add additional relationships like single-threaded version
-		if (definition.extends && definition.extends.length > 0) {
-			definition.extends.forEach((extendedClass) => {
-			const extendsRelationship: GraphRelationship = { 
-				id: generateDeterministicId('extends', `${nodeId}-${extendedClass}`),
-				type: 'EXTENDS' as RelationshipType,
-				source: nodeId,
-				target: generateDeterministicId('class', extendedClass),
-					properties: {}
-				};
-
-				graph.addRelationship(extendsRelationship);
-			});
-		}
-
-		if (definition.implements && definition.implements.length > 0) {
-			definition.implements.forEach((implementedInterface) => {
-			const implementsRelationship: GraphRelationship = {
-				id: generateDeterministicId('implements', `${nodeId}-${implementedInterface}`),
-				type: 'IMPLEMENTS' as RelationshipType,
-				source: nodeId,
-				target: generateDeterministicId('interface', implementedInterface),
-					properties: {}
-				};
-
-				graph.addRelationship(implementsRelationship);
-			});
-		}
+		// EXTENDS / IMPLEMENTS edges are resolved later by InheritanceProcessor
 
 		if (definition.importPath) {
 		const importRelationship: GraphRelationship = { 
@@ -432,6 +422,78 @@ export interface ParallelParsingResult {
 		}
 	}
 
+	/**
+	 * Register a further declaration of a partial C# type (same as single-threaded)
+	 */
+	private addPartialDeclaration(
+		filePath: string,
+		nodeId: string,
+		definition: ParsedDefinition,
+		graph: KnowledgeGraph
+	): void {
+		const alreadyDefined = this.functionTrie.getDefinitionsInFile(filePath).some(existing => existing.nodeId === nodeId);
+
+		this.functionTrie.addDefinition({
+			nodeId,
+			qualifiedName: `${filePath}:${definition.name}`,
+			filePath,
+			functionName: definition.name,
+			type: definition.type as FunctionDefinition['type'],
+		});
+
+		const fileNode = graph.nodes.find(node => node.label === 'File' && node.properties.filePath === filePath);
+		if (alreadyDefined || !fileNode) return;
+
+		// The node belongs to the first declaring file by path, whatever order files are parsed in
+		const typeNode = graph.nodes.find(node => node.id === nodeId);
+		if (typeNode?.properties.filePath && filePath < typeNode.properties.filePath) {
+			Object.assign(typeNode.properties, { filePath, startLine: definition.startLine, endLine: definition.endLine });
+		}
+
+		graph.addRelationship({
+			id: generateDeterministicId('defines', `${fileNode.id}-${nodeId}`),
+			type: 'DEFINES',
+			source: fileNode.id,
+			target: nodeId,
+			properties: {
+				filePath,
+				line_number: definition.startLine
+			}
+		});
+	}
+
+	/**
+	 * Add the node of a Vue / Svelte component, defined by its file (same as single-threaded)
+	 */
+	private addComponentToGraph(filePath: string, content: string, graph: KnowledgeGraph): void {
+		const ast = this.astMap.get(filePath);
+		if (!ast) return;
+
+		const componentNode = createComponentNode(filePath, content, ast.tree.rootNode);
+		if (this.duplicateDetector.checkAndMark(componentNode.id)) return;
+
+		graph.addNode(componentNode);
+
+		const fileNodeId = generateDeterministicId('file', filePath);
+		graph.addRelationship({
+			id: generateDeterministicId('defines', `${fileNodeId}-${componentNode.id}`),
+			type: 'DEFINES',
+			source: fileNodeId,
+			target: componentNode.id,
+			properties: {
+				filePath,
+				line_number: 1
+			}
+		});
+	}
+
+	/**
+	 * Source handed to the parser: the script blocks of a component, kept at their original positions
+	 */
+	private getParseSource(filePath: string, content: string): string {
+		return isSingleFileComponent(filePath) ? extractScriptSource(content) : content;
+	}
+
 	/**
 	 * Map definition type to node label
 	 */
@@ -451,6 +513,8 @@ export interface ParallelParsingResult {
 				return 'Interface';
 			case 'type':
 				return 'Type';
+			case 'enum':
+				return 'Enum';
 			case 'decorator':
 				return 'Decorator';
 			default:
@@ -507,11 +571,12 @@ export interface ParallelParsingResult {
 			'.cpp', '.c', '.cc', '.cxx', '.h', '.hpp', '.hxx',
 			// C#
 			'.cs',
+			// Vue / Svelte single-file components (script blocks)
+			'.vue', '.svelte',
 			// Only include other languages if they're commonly used
 			'.php', '.rb', '.go', '.rs'
 			// Removed: .mjs, .cjs (might be build artifacts)
 			// Removed: .html, .htm, .xml (markup, not source code)
-			// Removed: .vue, .svelte (framework-specific)
 			// Removed: .kt, .scala, .swift (less common)
 		];
 		return sourceExtensions.some(ext => filePath.toLowerCase().endsWith(ext));
@@ -721,6 +786,8 @@ export interface ParallelParsingResult {
 		switch (ext) {
 			case 'ts':
 			case 'tsx':
+			case 'vue':
+			case 'svelte':
 				return 'typescript';
 			case 'js':
 			case 'jsx':
@@ -730,6 +797,12 @@ export interface ParallelParsingResult {
 				return 'python';
 			case 'java':
 				return 'java';
+			case 'go':
+				return 'go';
+			case 'rs':
+				return 'rust';
+			case 'cs':
+				return 'csharp';
 			case 'cpp':
 			case 'cc':
 			case 'cxx':
@@ -754,8 +827,13 @@ export interface ParallelParsingResult {
 
 		const languageLoaders = {
 			typescript: loadTypeScriptParser,
+			tsx: loadTsxParser,
 			javascript: loadJavaScriptParser,
 			python: loadPythonParser,
+			go: loadGoParser,
+			java: loadJavaParser,
+			rust: loadRustParser,
+			csharp: loadCSharpParser,
 		};
 
 		for (const [lang, loader] of Object.entries(languageLoaders)) {
@@ -775,14 +853,15 @@ export interface ParallelParsingResult {
 		const content = fileContents.get(filePath);
 		if (!content || !this.parser) return;
 
+		// JSX needs the TSX grammar (same as single-threaded)
 		const language = this.detectLanguage(filePath);
-		const langParser = this.languageParsers.get(language);
+		const langParser = this.languageParsers.get(filePath.toLowerCase().endsWith('.tsx') ? 'tsx' : language);
 
 		if (!langParser) return;
 
 		try {
 			this.parser.setLanguage(langParser);
-			const tree = this.parser.parse(content);
+			const tree = this.parser.parse(this.getParseSource(filePath, content));
 			
 			// Store in AST map for import/call processors
 			this.astMap.set(filePath, { tree });
@@ -4,6 +4,14 @@ import { StructureProcessor } from './structure-processor.ts';
 import { ParallelParsingProcessor } from './parallel-parsing-processor.ts';
 import { ImportProcessor } from './import-processor.ts';
 import { CallProcessor } from './call-processor.ts';
+import { InheritanceProcessor } from './inheritance-processor.ts';
+import { AccessProcessor } from './access-processor.ts';
+import { RouteProcessor } from './route-processor.ts';
+import { TestProcessor } from './test-processor.ts';
+import { loadBuiltinFilter } from './builtin-filter.ts';
+import { CFGProcessor } from './cfg-processor.ts';
+import { IncrementalProcessor, type IncrementalInput } from './incremental-processor.ts';
+import type { FunctionRegistryTrie } from '../graph/trie.ts';
 import { WebWorkerPoolUtils } from '../../lib/web-worker-pool.js';
 import { isKuzuDBEnabled } from '../../config/features.ts';
 
@@ -12,6 +20,7 @@ export interface PipelineInput {
   projectName: string;
   filePaths: string[];
   fileContents: Map<string, string>;
+  incremental?: IncrementalInput;  // Previous graph and file changes; only affected files are re-parsed
   options?: {
     directoryFilter?: string;
     fileExtensions?: string;
@@ -31,13 +40,24 @@ export class ParallelGraphPipeline {
   private structureProcessor: StructureProcessor;
   private parsingProcessor: ParallelParsingProcessor;
   private importProcessor: ImportProcessor;
+  private inheritanceProcessor: InheritanceProcessor;
   private callProcessor!: CallProcessor;
+  private accessProcessor: AccessProcessor;
+  private routeProcessor: RouteProcessor;
+  private testProcessor: TestProcessor;
+  private cfgProcessor: CFGProcessor;
+  private functionRegistry: FunctionRegistryTrie | null = null;
   private progressCallback?: (progress: PipelineProgress) => void;
 
   constructor() {
     this.structureProcessor = new StructureProcessor();
     this.parsingProcessor = new ParallelParsingProcessor();
     this.importProcessor = new ImportProcessor();
+    this.inheritanceProcessor = new InheritanceProcessor();
+    this.accessProcessor = new AccessProcessor();
+    this.routeProcessor = new RouteProcessor();
+    this.testProcessor = new TestProcessor();
+    this.cfgProcessor = new CFGProcessor();
   }
 
   /**
@@ -62,13 +82,13 @@ export class ParallelGraphPipeline {
   }
 
   public async run(input: PipelineInput): Promise<KnowledgeGraph> {
-    const { projectRoot, projectName, filePaths, fileContents, options } = input;
+    const { projectRoot, projectName, filePaths, fileContents, options, incremental } = input;
     
     // Create appropriate graph implementation based on feature flags
     const graph = await this.createGraph();
     const startTime = performance.now();
 
-    console.log(`🚀 Starting parallel 4-pass ingestion for project: ${projectName}`);
+    console.log(`🚀 Starting parallel 4-pass ${incremental ? 'incremental ' : ''}ingestion for project: ${projectName}`);
     console.log(`📊 Processing ${filePaths.length} files with ${options?.useParallelProcessing ? 'parallel' : 'sequential'} processing`);
 
     try {
@@ -79,7 +99,8 @@ export class ParallelGraphPipeline {
       await this.structureProcessor.process(graph, {
         projectRoot,
         projectName,
-        filePaths
+        filePaths,
+        fileContents
       });
       
       this.updateProgress('structure', 'Project structure analysis complete', 100);
@@ -88,19 +109,30 @@ export class ParallelGraphPipeline {
       console.log('🔍 Pass 2: Parsing code and extracting definitions (parallel)...');
       this.updateProgress('parsing', 'Initializing parallel parsing...', 0);
       
+      const incrementalProcessor = incremental ? new IncrementalProcessor(incremental) : null;
       await this.parsingProcessor.process(graph, {
-        filePaths,
+        filePaths: incrementalProcessor ? incrementalProcessor.getFilesToParse(fileContents) : filePaths,
         fileContents,
         options
       });
       
-      this.updateProgress('parsing', 'Parallel parsing complete', 100);
-      
       // Get AST map and function registry from parsing processor
       const astMap = this.parsingProcessor.getASTMap();
       const functionTrie = this.parsingProcessor.getFunctionRegistry();
+      this.functionRegistry = functionTrie;
+      
+      // Incremental mode: parse files that may now resolve to new symbols, then carry over the rest
+      if (incrementalProcessor) {
+        const symbolDependents = incrementalProcessor.getSymbolDependents(functionTrie, fileContents);
+        if (symbolDependents.length > 0) {
+          await this.parsingProcessor.process(graph, { filePaths: symbolDependents, fileContents, options });
+        }
+        await incrementalProcessor.process(graph, functionTrie);
+      }
+      
+      this.updateProgress('parsing', 'Parallel parsing complete', 100);
       
-      this.callProcessor = new CallProcessor(functionTrie);
+      this.callProcessor = new CallProcessor(functionTrie, await loadBuiltinFilter(fileContents));
       
       // Pass 3: Import Resolution (Sequential - depends on parsing results)
       console.log('🔗 Pass 3: Resolving imports and building dependency map...');
@@ -108,16 +140,34 @@ export class ParallelGraphPipeline {
       
       await this.importProcessor.process(graph, astMap, fileContents);
       
+      // Resolve EXTENDS / IMPLEMENTS / OVERRIDES now that imports are known
+      const importMap = this.importProcessor.getImportMap();
+      await this.inheritanceProcessor.process(graph, astMap, importMap);
+      
       this.updateProgress('imports', 'Import resolution complete', 100);
       
       // Pass 4: Call Resolution (Sequential - depends on import map)
       console.log('📞 Pass 4: Resolving function calls with 3-stage strategy...');
       this.updateProgress('calls', 'Resolving function calls...', 0);
       
-      const importMap = this.importProcessor.getImportMap();
       await this.callProcessor.process(graph, astMap, importMap);
       
-      this.updateProgress('calls', 'Call resolution complete', 100);
+      // Resolve ACCESSES edges for variable and field reads / writes
+      await this.accessProcessor.process(graph, astMap, importMap);
+      
+      // Framework routes (FastAPI, Flask, Express, NestJS) and the functions handling them
+      await this.routeProcessor.process(graph, astMap, importMap, functionTrie);
+      
+      // Test cases and TESTS edges to the code they reach through CALLS
+      await this.testProcessor.process(graph, astMap, functionTrie);
+      
+      // Pass 5: Control Flow (Sequential - reads the parsed ASTs)
+      console.log('🔀 Pass 5: Building control flow graphs...');
+      this.updateProgress('calls', 'Building control flow graphs...', 80);
+      
+      await this.cfgProcessor.process(graph, astMap);
+      
+      this.updateProgress('calls', 'Call and control flow analysis complete', 100);
       
       const endTime = performance.now();
       const totalDuration = endTime - startTime;
@@ -230,6 +280,13 @@ export class ParallelGraphPipeline {
     return this.parsingProcessor.getWorkerPoolStats();
   }
 
+  /**
+   * Function registry of the last run, for persisting alongside the graph
+   */
+  public getFunctionRegistry(): FunctionRegistryTrie | null {
+    return this.functionRegistry;
+  }
+
   /**
    * Check if parallel processing is supported
    */
@@ -9,10 +9,14 @@ import {
 } from '../../lib/shared-utils.js';
 import { ignoreService } from '../../config/ignore-service.js';
 import Parser from 'web-tree-sitter';
-import { TYPESCRIPT_QUERIES, JAVASCRIPT_QUERIES, PYTHON_QUERIES, JAVA_QUERIES } from './tree-sitter-queries';
-import { initTreeSitter, loadTypeScriptParser, loadPythonParser, loadJavaScriptParser } from '../tree-sitter/parser-loader.js';
+import { TYPESCRIPT_QUERIES, JAVASCRIPT_QUERIES, PYTHON_QUERIES, JAVA_QUERIES, GO_QUERIES, RUST_QUERIES, CSHARP_QUERIES } from './tree-sitter-queries';
+import { initTreeSitter, loadTypeScriptParser, loadTsxParser, loadPythonParser, loadJavaScriptParser, loadGoParser, loadJavaParser, loadRustParser, loadCSharpParser } from '../tree-sitter/parser-loader.js';
 import { FunctionRegistryTrie, FunctionDefinition } from '../graph/trie.js';
 import { generateDeterministicId } from '../../lib/utils';
+import { getCSharpNamespace, getCSharpQualifiedName, getPartialTypeNodeId, isCSharpPartial } from './csharp-resolver.js';
+import { createComponentNode, extractScriptSource, isSingleFileComponent } from './sfc-extractor.js';
+import { getDecoratorNames } from './decorator-extractor.js';
+import { getDocCommentText, getDocProperties, parseDocComment } from './doc-comment-extractor.js';
 
 export interface ParsingInput {
 	filePaths: string[];
@@ -22,7 +26,7 @@ export interface ParsingInput {
 
 export interface ParsedDefinition {
 	name: string;
-	type: 'function' | 'class' | 'method' | 'variable' | 'import' | 'interface' | 'type' | 'decorator';
+	type: 'function' | 'class' | 'method' | 'variable' | 'import' | 'interface' | 'type' | 'enum' | 'decorator';
 	startLine: number;
 	endLine?: number;
 	parameters?: string[] | undefined;
@@ -37,7 +41,10 @@ export interface ParsedDefinition {
 	implements?: string[] | undefined;
 	importPath?: string | undefined;
 	exportType?: 'named' | 'default' | 'namespace';
-	docstring?: string | undefined;
+	docstring?: string | undefined;      // Doc comment or docstring as written, parsed into node properties
+	namespace?: string | undefined;      // C# declaring namespace
+	qualifiedName?: string | undefined;  // C# namespace-qualified type name
+	isPartial?: boolean | undefined;
 }
 
 export interface ParsedAST {
@@ -180,11 +187,12 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 			'.cpp', '.c', '.cc', '.cxx', '.h', '.hpp', '.hxx',
 			// C#
 			'.cs',
+			// Vue / Svelte single-file components (script blocks)
+			'.vue', '.svelte',
 			// Only include other languages if they're commonly used
 			'.php', '.rb', '.go', '.rs'
 			// Removed: .mjs, .cjs (might be build artifacts)
 			// Removed: .html, .htm, .xml (markup, not source code)
-			// Removed: .vue, .svelte (framework-specific)
 			// Removed: .kt, .scala, .swift (less common)
 		];
 		return sourceExtensions.some(ext => filePath.toLowerCase().endsWith(ext));
@@ -217,8 +225,13 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 
     const languageLoaders = {
       typescript: loadTypeScriptParser,
+      tsx: loadTsxParser,
       javascript: loadJavaScriptParser,
       python: loadPythonParser,
+      go: loadGoParser,
+      java: loadJavaParser,
+      rust: loadRustParser,
+      csharp: loadCSharpParser,
     };
 
     for (const [lang, loader] of Object.entries(languageLoaders)) {
@@ -242,7 +255,8 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
     }
     
 
-    const langParser = this.languageParsers.get(language);
+    // JSX needs the TSX grammar; the TypeScript queries apply to both
+    const langParser = this.languageParsers.get(filePath.toLowerCase().endsWith('.tsx') ? 'tsx' : language);
 
     if (!langParser || !this.parser) {
       await this.parseGenericFile(graph, filePath, content);
@@ -250,8 +264,11 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
     }
 
     try {
+      // Components are parsed as their script blocks, kept at their original positions
+      const source = isSingleFileComponent(filePath) ? extractScriptSource(content) : content;
+
       this.parser.setLanguage(langParser);
-      const tree = this.parser.parse(content);
+      const tree = this.parser.parse(source);
       this.astMap.set(filePath, { tree });
       const definitions: ParsedDefinition[] = [];
 
@@ -287,6 +304,10 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 
 
       await this.addDefinitionsToGraph(graph, filePath, definitions);
+
+      if (isSingleFileComponent(filePath)) {
+        this.addComponentToGraph(graph, filePath, content, tree.rootNode);
+      }
     } catch (parseError) {
       await this.parseGenericFile(graph, filePath, content);
     }
@@ -391,7 +412,7 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
       if (parametersNode) {
         const params: string[] = [];
         for (const param of parametersNode.namedChildren) {
-          if (param.type === 'identifier' || param.type === 'formal_parameter') {
+          if (param.type === 'identifier' || param.type === 'formal_parameter' || param.type === 'parameter_declaration' || param.type === 'parameter') {
             params.push(param.text);
           }
         }
@@ -416,10 +437,30 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
       // Try to extract inheritance information
       const superclassNode = node.childForFieldName('superclass');
       if (superclassNode) {
-        definition.extends = [superclassNode.text];
+        // Java wraps the type in a (superclass) node whose text includes the 'extends' keyword
+        const typeNode = superclassNode.type === 'superclass' ? superclassNode.firstNamedChild : superclassNode;
+        definition.extends = [(typeNode ?? superclassNode).text];
       }
     }
     
+    // Python and TypeScript decorators (@app.get, @Injectable), as written without arguments
+    if (definition.type === 'function' || definition.type === 'method' || definition.type === 'class') {
+      const decorators = getDecoratorNames(node);
+      if (decorators.length > 0) definition.decorators = decorators;
+    }
+    
+    // JSDoc / TSDoc / Javadoc comments and Python docstrings
+    const docstring = getDocCommentText(node, this.detectLanguage(filePath));
+    if (docstring) definition.docstring = docstring;
+    
+    // C# types are identified by namespace-qualified name; partial ones may span files
+    if (this.detectLanguage(filePath) === 'csharp' &&
+        (definition.type === 'class' || definition.type === 'interface' || definition.type === 'enum')) {
+      definition.namespace = getCSharpNamespace(node);
+      definition.qualifiedName = getCSharpQualifiedName(node);
+      definition.isPartial = isCSharpPartial(node) || undefined;
+    }
+    
     // Handle variable types with additional context
     if (definition.type === 'variable') {
       if (queryName === 'hookCalls' || queryName === 'hookDestructuring') {
@@ -444,6 +485,7 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
       case 'classes': 
       case 'exportClasses': return 'class';
       case 'methods': 
+      case 'constructors':
       case 'properties':
       case 'staticmethods':
       case 'classmethods': return 'method';
@@ -469,7 +511,7 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
       case 'moduleExports': return 'function'; // Exports usually export functions
       case 'interfaces': return 'interface';
       case 'types': return 'type';
-      case 'enums': return 'type';
+      case 'enums': return 'enum';
       case 'decorators': return 'decorator';
       default: 
         console.warn(`Unknown query type: ${queryName}, defaulting to 'function'`);
@@ -524,6 +566,15 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 				return 'python';
 			case '.java': 
 				return 'java';
+			case '.go':
+				return 'go';
+			case '.rs':
+				return 'rust';
+			case '.cs':
+				return 'csharp';
+			case '.vue':
+			case '.svelte':
+				return 'typescript';
 			default: 
 				return 'generic';
 		}
@@ -539,6 +590,12 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
         return PYTHON_QUERIES;
       case 'java':
         return JAVA_QUERIES;
+      case 'go':
+        return GO_QUERIES;
+      case 'rust':
+        return RUST_QUERIES;
+      case 'csharp':
+        return CSHARP_QUERIES;
       default:
         return null;
     }
@@ -600,10 +657,16 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 		}
 
 		for (const def of definitions) {
-			// Generate unique ID based on file path and definition name
-			const nodeId = generateDeterministicId(def.type, `${filePath}_${def.name}_${def.startLine}`);
-
-			if (this.duplicateDetector.checkAndMark(nodeId)) continue;
+			// Generate unique ID based on file path and definition name (partial C# types share one node)
+			const nodeId = def.isPartial && def.qualifiedName
+				? getPartialTypeNodeId(def.type, def.qualifiedName)
+				: generateDeterministicId(def.type, `${filePath}_${def.name}_${def.startLine}`);
+
+			if (this.duplicateDetector.checkAndMark(nodeId)) {
+				// Further parts of a partial type: register and link them to the shared node
+				if (def.isPartial) this.addPartialDeclaration(graph, fileNode, nodeId, filePath, def);
+				continue;
+			}
 
 			const node: GraphNode = {
 				id: nodeId,
@@ -624,7 +687,10 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 					implements: def.implements,
 					importPath: def.importPath,
 					exportType: def.exportType,
-					docstring: def.docstring,
+					...(def.docstring ? getDocProperties(parseDocComment(def.docstring)) : {}),
+					namespace: def.namespace,
+					qualifiedName: def.qualifiedName,
+					isPartial: def.isPartial,
 					filePath: filePath
 				}
 			};
@@ -632,7 +698,7 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 			graph.addNode(node);
 		this.stats.nodesProcessed++;
 
-      if (def.type === 'function' || def.type === 'method' || def.type === 'class' || def.type === 'interface') {
+      if (def.type === 'function' || def.type === 'method' || def.type === 'class' || def.type === 'interface' || def.type === 'enum') {
         const functionDef: FunctionDefinition = {
           nodeId: nodeId,
           qualifiedName: `${filePath}:${def.name}`,
@@ -659,35 +725,8 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 			graph.addRelationship(definesRelationship);
 		this.stats.relationshipsProcessed++;
 
-			if (def.extends && def.extends.length > 0) {
-				for (const extendedClass of def.extends) {
-				const extendsRelationship: GraphRelationship = { 
-					id: generateDeterministicId('extends', `${node.id}-${extendedClass}`),
-					type: 'INHERITS' as RelationshipType,
-					source: node.id,
-					target: generateDeterministicId('class', extendedClass),
-						properties: {}
-					};
-
-					graph.addRelationship(extendsRelationship);
-				this.stats.relationshipsProcessed++;
-				}
-			}
-
-			if (def.implements && def.implements.length > 0) {
-				for (const implementedInterface of def.implements) {
-				const implementsRelationship: GraphRelationship = {
-					id: generateDeterministicId('implements', `${node.id}-${implementedInterface}`),
-					type: 'IMPLEMENTS' as RelationshipType,
-					source: node.id,
-					target: generateDeterministicId('interface', implementedInterface),
-						properties: {}
-					};
-
-					graph.addRelationship(implementsRelationship);
-				this.stats.relationshipsProcessed++;
-				}
-			}
+			// EXTENDS / IMPLEMENTS edges are resolved later by InheritanceProcessor,
+			// once the import map can tell which declaration a supertype name refers to
 
 			if (def.importPath) {
 			const importRelationship: GraphRelationship = { 
@@ -717,6 +756,73 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 		}
 	}
 
+	/**
+	 * Register a further declaration of a partial C# type: the type stays one node, but
+	 * every declaring file defines it and resolves members against its own part
+	 */
+	private addPartialDeclaration(
+		graph: KnowledgeGraph,
+		fileNode: GraphNode,
+		nodeId: string,
+		filePath: string,
+		def: ParsedDefinition
+	): void {
+		const alreadyDefined = this.functionTrie.getDefinitionsInFile(filePath).some(existing => existing.nodeId === nodeId);
+
+		this.functionTrie.addDefinition({
+			nodeId,
+			qualifiedName: `${filePath}:${def.name}`,
+			filePath,
+			functionName: def.name,
+			type: def.type as FunctionDefinition['type'],
+			startLine: def.startLine,
+			endLine: def.endLine,
+		});
+		if (alreadyDefined) return;
+
+		// The node belongs to the first declaring file by path, whatever order files are parsed in
+		const typeNode = graph.nodes.find(node => node.id === nodeId);
+		if (typeNode?.properties.filePath && filePath < typeNode.properties.filePath) {
+			Object.assign(typeNode.properties, { filePath, startLine: def.startLine, endLine: def.endLine });
+		}
+
+		graph.addRelationship({
+			id: generateDeterministicId('defines', `${fileNode.id}-${nodeId}`),
+			type: 'DEFINES',
+			source: fileNode.id,
+			target: nodeId,
+			properties: {
+				filePath,
+				line_number: def.startLine
+			}
+		});
+		this.stats.relationshipsProcessed++;
+	}
+
+	/**
+	 * Add the node of a Vue / Svelte component, defined by its file
+	 */
+	private addComponentToGraph(graph: KnowledgeGraph, filePath: string, content: string, root: Parser.SyntaxNode): void {
+		const componentNode = createComponentNode(filePath, content, root);
+		if (this.duplicateDetector.checkAndMark(componentNode.id)) return;
+
+		graph.addNode(componentNode);
+		this.stats.nodesProcessed++;
+
+		const fileNodeId = generateDeterministicId('file', filePath);
+		graph.addRelationship({
+			id: generateDeterministicId('defines', `${fileNodeId}-${componentNode.id}`),
+			type: 'DEFINES',
+			source: fileNodeId,
+			target: componentNode.id,
+			properties: {
+				filePath,
+				line_number: 1
+			}
+		});
+		this.stats.relationshipsProcessed++;
+	}
+
 	private getNodeLabelForType(type: string): NodeLabel {
 		switch (type) {			
 			case 'class': return 'Class' as NodeLabel;
@@ -726,6 +832,7 @@ export class ParsingProcessor implements GraphProcessor<ParsingInput> {
 			case 'import': return 'Import' as NodeLabel;
 			case 'interface': return 'Interface' as NodeLabel;
 			case 'type': return 'Type' as NodeLabel;
+			case 'enum': return 'Enum' as NodeLabel;
 			case 'decorator': return 'Decorator' as NodeLabel;
 			default: return 'CodeElement' as NodeLabel;
 		}
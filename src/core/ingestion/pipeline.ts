@@ -5,6 +5,14 @@ import { ParsingProcessor } from './parsing-processor.ts';
 import { ParallelParsingProcessor } from './parallel-parsing-processor.ts';
 import { ImportProcessor } from './import-processor.ts';
 import { CallProcessor } from './call-processor.ts';
+import { InheritanceProcessor } from './inheritance-processor.ts';
+import { AccessProcessor } from './access-processor.ts';
+import { RouteProcessor } from './route-processor.ts';
+import { TestProcessor } from './test-processor.ts';
+import { loadBuiltinFilter } from './builtin-filter.ts';
+import { CFGProcessor } from './cfg-processor.ts';
+import { IncrementalProcessor, type IncrementalInput } from './incremental-processor.ts';
+import type { FunctionRegistryTrie } from '../graph/trie.ts';
 import { isParallelParsingEnabled, isKuzuDBEnabled } from '../../config/features.ts';
 
 export interface PipelineInput {
@@ -12,6 +20,7 @@ export interface PipelineInput {
   projectName: string;
   filePaths: string[];
   fileContents: Map<string, string>;
+  incremental?: IncrementalInput;  // Previous graph and file changes; only affected files are re-parsed
   options?: {
     directoryFilter?: string;
     fileExtensions?: string;
@@ -22,7 +31,13 @@ export class GraphPipeline {
   private structureProcessor: StructureProcessor;
   private parsingProcessor: ParsingProcessor | ParallelParsingProcessor;
   private importProcessor: ImportProcessor;
+  private inheritanceProcessor: InheritanceProcessor;
   private callProcessor!: CallProcessor;
+  private accessProcessor: AccessProcessor;
+  private routeProcessor: RouteProcessor;
+  private testProcessor: TestProcessor;
+  private cfgProcessor: CFGProcessor;
+  private functionRegistry: FunctionRegistryTrie | null = null;
 
   constructor() {
     this.structureProcessor = new StructureProcessor();
@@ -37,11 +52,16 @@ export class GraphPipeline {
     }
     
     this.importProcessor = new ImportProcessor();
+    this.inheritanceProcessor = new InheritanceProcessor();
+    this.accessProcessor = new AccessProcessor();
+    this.routeProcessor = new RouteProcessor();
+    this.testProcessor = new TestProcessor();
+    this.cfgProcessor = new CFGProcessor();
     
   }
 
   public async run(input: PipelineInput): Promise<KnowledgeGraph> {
-    const { projectRoot, projectName, filePaths, fileContents, options } = input;
+    const { projectRoot, projectName, filePaths, fileContents, options, incremental } = input;
     
     // Create appropriate graph implementation based on feature flags
     const graph = await this.createGraph();
@@ -56,7 +76,7 @@ export class GraphPipeline {
     }
 
     const processingMode = isParallelParsingEnabled() ? 'parallel' : 'single-threaded';
-    console.log(`🚀 Starting 4-pass ingestion for project: ${projectName} (${processingMode} processing)`);
+    console.log(`🚀 Starting 4-pass ${incremental ? 'incremental ' : ''}ingestion for project: ${projectName} (${processingMode} processing)`);
     
     const startTime = performance.now();
     
@@ -66,25 +86,37 @@ export class GraphPipeline {
     await this.structureProcessor.process(graph, {
       projectRoot,
       projectName,
-      filePaths
+      filePaths,
+      fileContents
     });
     console.log(`   Pass 1 completed in ${(performance.now() - pass1Start).toFixed(0)}ms`);
     
     // Pass 2: Code Parsing and Definition Extraction (populates FunctionRegistryTrie)
     console.log(`🔍 Pass 2: Parsing code and extracting definitions (${processingMode})...`);
     const pass2Start = performance.now();
+    const incrementalProcessor = incremental ? new IncrementalProcessor(incremental) : null;
     await this.parsingProcessor.process(graph, {
-      filePaths,
+      filePaths: incrementalProcessor ? incrementalProcessor.getFilesToParse(fileContents) : filePaths,
       fileContents,
       options  // Pass filtering options to ParsingProcessor
     });
-    console.log(`   Pass 2 completed in ${(performance.now() - pass2Start).toFixed(0)}ms`);
     
     // Get AST map and function registry from parsing processor
     const astMap = this.parsingProcessor.getASTMap();
     const functionTrie = this.parsingProcessor.getFunctionRegistry();
+    this.functionRegistry = functionTrie;
     
-    this.callProcessor = new CallProcessor(functionTrie);
+    // Incremental mode: parse files that may now resolve to new symbols, then carry over the rest
+    if (incrementalProcessor) {
+      const symbolDependents = incrementalProcessor.getSymbolDependents(functionTrie, fileContents);
+      if (symbolDependents.length > 0) {
+        await this.parsingProcessor.process(graph, { filePaths: symbolDependents, fileContents, options });
+      }
+      await incrementalProcessor.process(graph, functionTrie);
+    }
+    console.log(`   Pass 2 completed in ${(performance.now() - pass2Start).toFixed(0)}ms`);
+    
+    this.callProcessor = new CallProcessor(functionTrie, await loadBuiltinFilter(fileContents));
     
     // Pass 3: Import Resolution (builds complete import map)
     console.log('🔗 Pass 3: Resolving imports and building dependency map...');
@@ -92,13 +124,31 @@ export class GraphPipeline {
     await this.importProcessor.process(graph, astMap, fileContents);
     console.log(`   Pass 3 completed in ${(performance.now() - pass3Start).toFixed(0)}ms`);
     
+    // Resolve EXTENDS / IMPLEMENTS / OVERRIDES now that imports are known
+    const importMap = this.importProcessor.getImportMap();
+    await this.inheritanceProcessor.process(graph, astMap, importMap);
+    
     // Pass 4: Call Resolution (uses import map and function trie)
     console.log('📞 Pass 4: Resolving function calls with 3-stage strategy...');
     const pass4Start = performance.now();
-    const importMap = this.importProcessor.getImportMap();
     await this.callProcessor.process(graph, astMap, importMap);
+    
+    // Resolve ACCESSES edges for variable and field reads / writes
+    await this.accessProcessor.process(graph, astMap, importMap);
+    
+    // Framework routes (FastAPI, Flask, Express, NestJS) and the functions handling them
+    await this.routeProcessor.process(graph, astMap, importMap, functionTrie);
+    
+    // Test cases and TESTS edges to the code they reach through CALLS
+    await this.testProcessor.process(graph, astMap, functionTrie);
     console.log(`   Pass 4 completed in ${(performance.now() - pass4Start).toFixed(0)}ms`);
     
+    // Pass 5: Control Flow (basic blocks and cyclomatic complexity per function)
+    console.log('🔀 Pass 5: Building control flow graphs...');
+    const pass5Start = performance.now();
+    await this.cfgProcessor.process(graph, astMap);
+    console.log(`   Pass 5 completed in ${(performance.now() - pass5Start).toFixed(0)}ms`);
+    
     const totalTime = performance.now() - startTime;
     console.log(`✅ Ingestion complete in ${totalTime.toFixed(0)}ms. Graph contains ${graph.nodes.length} nodes and ${graph.relationships.length} relationships.`);
     
@@ -307,6 +357,13 @@ export class GraphPipeline {
     return { nodeStats, relationshipStats };
   }
 
+  /**
+   * Function registry of the last run, for persisting alongside the graph
+   */
+  public getFunctionRegistry(): FunctionRegistryTrie | null {
+    return this.functionRegistry;
+  }
+
   public getCallStats() {
     return this.callProcessor.getStats();
   }
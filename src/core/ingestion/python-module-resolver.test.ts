@@ -0,0 +1,64 @@
+import { PythonModuleResolver, parsePyprojectPackageRoots } from './python-module-resolver.js';
+
+// src-layout package declared in pyproject.toml, plus a Django project in a subdirectory
+const files = new Map<string, string>([
+  ['pyproject.toml', '[project]\nname = "shop"\n\n[tool.setuptools.packages.find]\nwhere = ["src"]\n'],
+  ['src/shop/__init__.py', ''],
+  ['src/shop/utils.py', ''],
+  ['src/shop/orders/__init__.py', ''],
+  ['src/shop/orders/utils.py', ''],
+  ['src/shop/orders/views.py', ''],
+  ['src/shop/billing.py', ''],
+  ['src/shop/billing/__init__.py', ''],
+  ['backend/manage.py', ''],
+  ['backend/accounts/__init__.py', ''],
+  ['backend/accounts/models.py', ''],
+  ['scripts/helpers.py', ''],
+  ['scripts/run.py', '']
+]);
+
+describe('PythonModuleResolver', () => {
+  const resolver = new PythonModuleResolver(files);
+  const importer = 'src/shop/orders/views.py';
+
+  test('should resolve single-dot imports to sibling modules', () => {
+    expect(resolver.resolve('.utils', importer)).toBe('src/shop/orders/utils.py');
+  });
+
+  test('should go one package up per extra dot', () => {
+    expect(resolver.resolve('..utils', importer)).toBe('src/shop/utils.py');
+    expect(resolver.resolve('..', importer)).toBe('src/shop/__init__.py');
+  });
+
+  test('should resolve absolute imports under src/ package roots', () => {
+    expect(resolver.resolve('shop.orders.utils', 'backend/accounts/models.py')).toBe('src/shop/orders/utils.py');
+  });
+
+  test('should prefer packages over modules of the same name', () => {
+    expect(resolver.resolve('shop.billing', importer)).toBe('src/shop/billing/__init__.py');
+  });
+
+  test('should treat Django project directories as roots', () => {
+    expect(resolver.resolve('accounts.models', 'backend/accounts/__init__.py')).toBe('backend/accounts/models.py');
+  });
+
+  test('should resolve modules next to scripts', () => {
+    expect(resolver.resolve('helpers', 'scripts/run.py')).toBe('scripts/helpers.py');
+  });
+
+  test('should not bind ambiguous module names to an arbitrary file', () => {
+    expect(resolver.resolve('utils', 'backend/accounts/models.py')).toBeNull();
+  });
+
+  test('should resolve submodules named in from-imports', () => {
+    expect(resolver.resolveSubmodule('.', 'utils', importer)).toBe('src/shop/orders/utils.py');
+    expect(resolver.resolveSubmodule('shop', 'orders', importer)).toBe('src/shop/orders/__init__.py');
+    expect(resolver.resolveSubmodule('shop.orders', 'Order', importer)).toBeNull();
+  });
+
+  test('should read package roots from pyproject.toml', () => {
+    expect(parsePyprojectPackageRoots('[tool.poetry]\npackages = [\n  { include = "app", from = "lib" },\n]\n')).toEqual(['lib']);
+    expect(parsePyprojectPackageRoots('[tool.setuptools]\npackage-dir = {"" = "python"}\n')).toEqual(['python']);
+    expect(parsePyprojectPackageRoots('[tool.hatch.build.targets.wheel]\npackages = ["src/app"]\n')).toEqual(['src']);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Resolution of Python module names against the ingested file map: leading-dot
+ * relative imports, package roots (repository root, `src/` layouts, directories
+ * declared in pyproject.toml and Django project directories) and
+ * package-over-module precedence (`pkg/__init__.py` before `pkg.py`).
+ */
+
+// Files that mark the directory they live in as a project (and import) root
+const PROJECT_MARKERS = ['pyproject.toml', 'setup.py', 'setup.cfg', 'manage.py'];
+
+const pathUtils = {
+  dirname: (filePath: string): string => {
+    const lastSlash = filePath.lastIndexOf('/');
+    return lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+  },
+  basename: (filePath: string): string => {
+    const lastSlash = filePath.lastIndexOf('/');
+    return lastSlash === -1 ? filePath : filePath.substring(lastSlash + 1);
+  },
+  /**
+   * Join and normalise path segments, collapsing `.` and `..` (paths are project-relative)
+   */
+  join: (...parts: string[]): string => {
+    const segments: string[] = [];
+    for (const segment of parts.join('/').split('/')) {
+      if (segment === '' || segment === '.') continue;
+      if (segment === '..') segments.pop();
+      else segments.push(segment);
+    }
+    return segments.join('/');
+  }
+};
+
+/**
+ * Directories pyproject.toml declares packages under, relative to the file:
+ * setuptools `package-dir` / `packages.find.where`, Poetry `packages[].from`,
+ * Hatch wheel `packages` and PDM `package-dir`
+ */
+export function parsePyprojectPackageRoots(content: string): string[] {
+  const roots = new Set<string>();
+  const tables = new Map<string, string>();
+
+  let currentTable = '';
+  for (const line of content.split('\n')) {
+    const header = line.match(/^\s*\[\[?\s*([^\]]+?)\s*\]\]?\s*(#.*)?$/);
+    if (header) {
+      currentTable = header[1];
+      continue;
+    }
+    tables.set(currentTable, (tables.get(currentTable) || '') + line + '\n');
+  }
+
+  const quoted = (text: string): string[] => Array.from(text.matchAll(/["']([^"']*)["']/g), match => match[1]);
+  const arrayValue = (body: string, key: string): string[] => {
+    const match = body.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'));
+    return match ? quoted(match[1]) : [];
+  };
+
+  const setuptools = tables.get('tool.setuptools') || '';
+  const packageDir = setuptools.match(/^\s*package-dir\s*=\s*\{([^}]*)\}/m);
+  if (packageDir) {
+    const rootMapping = packageDir[1].match(/["']{2}\s*=\s*["']([^"']+)["']/);
+    if (rootMapping) roots.add(rootMapping[1]);
+  }
+
+  arrayValue(tables.get('tool.setuptools.packages.find') || '', 'where').forEach(where => roots.add(where));
+
+  const poetry = tables.get('tool.poetry') || '';
+  for (const match of poetry.matchAll(/\bfrom\s*=\s*["']([^"']+)["']/g)) {
+    roots.add(match[1]);
+  }
+
+  for (const packagePath of arrayValue(tables.get('tool.hatch.build.targets.wheel') || '', 'packages')) {
+    roots.add(pathUtils.dirname(packagePath));
+  }
+
+  const pdmPackageDir = (tables.get('tool.pdm.build') || '').match(/^\s*package-dir\s*=\s*["']([^"']+)["']/m);
+  if (pdmPackageDir) roots.add(pdmPackageDir[1]);
+
+  return Array.from(roots);
+}
+
+export class PythonModuleResolver {
+  private projectFiles: Set<string>;
+  private packageRoots: string[];
+
+  constructor(fileContents: Map<string, string>) {
+    this.projectFiles = new Set(Array.from(fileContents.keys()).filter(filePath => filePath.endsWith('.py')));
+    this.packageRoots = this.collectPackageRoots(fileContents);
+  }
+
+  /**
+   * Resolve an imported module name ('pkg.models', '.models', '..', ...) from `importingFile`
+   * @returns The module file or package `__init__.py`, or null for external and namespace packages
+   */
+  public resolve(moduleName: string, importingFile: string): string | null {
+    if (moduleName.startsWith('.')) {
+      return this.resolveRelative(moduleName, importingFile);
+    }
+
+    const modulePath = moduleName.replace(/\./g, '/');
+
+    for (const root of this.getSearchRoots(importingFile)) {
+      const moduleFile = this.resolveModuleFile(pathUtils.join(root, modulePath));
+      if (moduleFile) return moduleFile;
+    }
+
+    // Unknown root: accept a unique file whose path ends with the full dotted module path
+    const matches = Array.from(this.projectFiles).filter(filePath =>
+      filePath.endsWith(`/${modulePath}.py`) || filePath.endsWith(`/${modulePath}/__init__.py`)
+    );
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  /**
+   * Resolve `name` in `from <moduleName> import name` when it is a submodule rather than an attribute
+   */
+  public resolveSubmodule(moduleName: string, name: string, importingFile: string): string | null {
+    return this.resolve(moduleName.endsWith('.') ? moduleName + name : `${moduleName}.${name}`, importingFile);
+  }
+
+  public getPackageRoots(): string[] {
+    return [...this.packageRoots];
+  }
+
+  /**
+   * '.models' is a sibling of the importing module, each further dot goes one package up
+   */
+  private resolveRelative(moduleName: string, importingFile: string): string | null {
+    const level = moduleName.match(/^\.+/)![0].length;
+    const modulePath = moduleName.substring(level).replace(/\./g, '/');
+
+    let baseDir = pathUtils.dirname(importingFile);
+    for (let i = 1; i < level; i++) {
+      if (!baseDir) return null;  // Beyond the top-level package
+      baseDir = pathUtils.dirname(baseDir);
+    }
+
+    return this.resolveModuleFile(pathUtils.join(baseDir, modulePath));
+  }
+
+  /**
+   * Regular packages take precedence over modules of the same name
+   */
+  private resolveModuleFile(basePath: string): string | null {
+    const packageInit = pathUtils.join(basePath, '__init__.py');
+    if (this.projectFiles.has(packageInit)) return packageInit;
+    if (basePath && this.projectFiles.has(`${basePath}.py`)) return `${basePath}.py`;
+    return null;
+  }
+
+  /**
+   * Package roots containing the importing file first (innermost first), then the rest,
+   * then the importing file's own directory as for scripts run directly
+   */
+  private getSearchRoots(importingFile: string): string[] {
+    const contains = (root: string) => root === '' || importingFile.startsWith(root + '/');
+    return [
+      ...this.packageRoots.filter(contains),
+      ...this.packageRoots.filter(root => !contains(root)),
+      pathUtils.dirname(importingFile)
+    ];
+  }
+
+  private collectPackageRoots(fileContents: Map<string, string>): string[] {
+    const roots = new Set<string>(['']);
+    const hasPythonUnder = (dir: string) => Array.from(this.projectFiles).some(filePath => filePath.startsWith(dir + '/'));
+
+    const projectDirs = new Set<string>(['']);
+    for (const filePath of fileContents.keys()) {
+      if (PROJECT_MARKERS.includes(pathUtils.basename(filePath))) {
+        projectDirs.add(pathUtils.dirname(filePath));
+      }
+    }
+
+    for (const dir of projectDirs) {
+      roots.add(dir);
+
+      const srcDir = pathUtils.join(dir, 'src');
+      if (hasPythonUnder(srcDir)) roots.add(srcDir);
+
+      const pyproject = fileContents.get(pathUtils.join(dir, 'pyproject.toml'));
+      if (pyproject) {
+        parsePyprojectPackageRoots(pyproject).forEach(root => roots.add(pathUtils.join(dir, root)));
+      }
+    }
+
+    // Deeper roots are more specific
+    return Array.from(roots).sort((a, b) => b.split('/').length - a.split('/').length || b.length - a.length);
+  }
+}
@@ -0,0 +1,176 @@
+import { normalizeTypeName, ReceiverTypeIndex } from './receiver-type-inference.js';
+import { ingestFixture, findNode } from './ingestion-fixtures.js';
+import type { SimpleKnowledgeGraph } from '../graph/graph.js';
+import type { GraphNode } from '../graph/types.js';
+
+describe('normalizeTypeName', () => {
+  test('should keep simple class names', () => {
+    expect(normalizeTypeName('Repo')).toBe('Repo');
+    expect(normalizeTypeName(': Repo')).toBe('Repo');
+  });
+
+  test('should strip generics and namespaces', () => {
+    expect(normalizeTypeName('Repo<User>')).toBe('Repo');
+    expect(normalizeTypeName('models.User')).toBe('User');
+    expect(normalizeTypeName('"models.User"')).toBe('User');
+  });
+
+  test('should unwrap nullable and optional types', () => {
+    expect(normalizeTypeName('Repo | null')).toBe('Repo');
+    expect(normalizeTypeName('Optional[Repo]')).toBe('Repo');
+    expect(normalizeTypeName('Readonly<Repo>')).toBe('Repo');
+  });
+
+  test('should reject containers and ambiguous unions', () => {
+    expect(normalizeTypeName('Repo[]')).toBeNull();
+    expect(normalizeTypeName('Repo | Cache')).toBeNull();
+  });
+});
+
+// Both classes define save(), so only the receiver's type tells the calls apart
+const TS_FILES = {
+  'src/store.ts': `export class Repo {
+  save(item: string) {
+    return item;
+  }
+}
+
+export class Cache {
+  save(item: string) {
+    return item;
+  }
+}
+
+export class AuditRepo extends Repo {}
+`,
+  'src/service.ts': `import { Repo, Cache, AuditRepo } from './store';
+
+export class Service {
+  private cache: Cache;
+
+  constructor(private repo: Repo) {
+    this.cache = new Cache();
+  }
+
+  run(other: Repo) {
+    const fresh = new Repo();
+    fresh.save('a');
+    this.cache.save('b');
+    this.repo.save('c');
+    other.save('d');
+  }
+}
+
+export function audit() {
+  const log = new AuditRepo();
+  log.save('e');
+}
+`
+};
+
+const PY_FILES = {
+  'app/store.py': `class Repo:
+    def save(self, item):
+        return item
+
+
+class Cache:
+    def save(self, item):
+        return item
+`,
+  'app/service.py': `from app.store import Repo, Cache
+
+
+class Service:
+    def __init__(self):
+        self.repo = Repo()
+
+    def run(self, cache: Cache):
+        self.repo.save('a')
+        cache.save('b')
+`
+};
+
+const callsBetween = (graph: SimpleKnowledgeGraph, source: GraphNode, target: GraphNode) =>
+  graph.relationships.filter(rel => rel.type === 'CALLS' && rel.source === source.id && rel.target === target.id);
+
+const methodAt = (graph: SimpleKnowledgeGraph, filePath: string, startLine: number): GraphNode => {
+  const method = graph.nodes.find(node =>
+    node.label === 'Method' && node.properties.filePath === filePath && node.properties.startLine === startLine
+  );
+  if (!method) {
+    throw new Error(`No Method at ${filePath}:${startLine}`);
+  }
+  return method;
+};
+
+describe('ReceiverTypeIndex', () => {
+  test('should type TypeScript receivers from constructors, parameters and properties', async () => {
+    const { astMap } = await ingestFixture(TS_FILES);
+    const index = new ReceiverTypeIndex(astMap.get('src/service.ts')!.tree.rootNode, 'javascript');
+
+    expect(index.lookup('fresh', 12)).toBe('Repo');
+    expect(index.lookup('other', 15)).toBe('Repo');
+    expect(index.lookup('this.cache', 13)).toBe('Cache');
+    expect(index.lookup('this.repo', 14)).toBe('Repo');
+    expect(index.lookup('this', 12)).toBe('Service');
+  });
+
+  test('should scope bindings to the function that declares them', async () => {
+    const { astMap } = await ingestFixture(TS_FILES);
+    const index = new ReceiverTypeIndex(astMap.get('src/service.ts')!.tree.rootNode, 'javascript');
+
+    expect(index.lookup('fresh', 7)).toBeNull();
+    expect(index.lookup('other', 7)).toBeNull();
+    expect(index.lookup('missing', 12)).toBeNull();
+  });
+
+  test('should type Python receivers from self attributes and parameter annotations', async () => {
+    const { astMap } = await ingestFixture(PY_FILES);
+    const index = new ReceiverTypeIndex(astMap.get('app/service.py')!.tree.rootNode, 'python');
+
+    expect(index.lookup('self.repo', 9)).toBe('Repo');
+    expect(index.lookup('cache', 10)).toBe('Cache');
+    expect(index.lookup('self', 9)).toBe('Service');
+  });
+});
+
+describe('CallProcessor - type_inference stage', () => {
+  test('should resolve TypeScript method calls to the receiver type', async () => {
+    const { graph } = await ingestFixture(TS_FILES);
+    const run = findNode(graph, 'Method', 'run', 'src/service.ts');
+    const repoSave = methodAt(graph, 'src/store.ts', 2);
+    const cacheSave = methodAt(graph, 'src/store.ts', 8);
+
+    const [repoCall] = callsBetween(graph, run, repoSave);
+    const [cacheCall] = callsBetween(graph, run, cacheSave);
+
+    expect(repoCall.properties).toMatchObject({ callType: 'method', functionName: 'save', stage: 'type_inference', confidence: 0.85 });
+    expect(cacheCall.properties).toMatchObject({ callType: 'method', functionName: 'save', stage: 'type_inference', confidence: 0.85 });
+    expect(repoCall.properties.startLine).toBe(12);
+    expect(cacheCall.properties.startLine).toBe(13);
+  });
+
+  test('should score a method inherited by the receiver type lower', async () => {
+    const { graph } = await ingestFixture(TS_FILES);
+    const audit = findNode(graph, 'Function', 'audit', 'src/service.ts');
+    const repoSave = methodAt(graph, 'src/store.ts', 2);
+
+    const [inheritedCall] = callsBetween(graph, audit, repoSave);
+
+    expect(inheritedCall.properties).toMatchObject({ stage: 'type_inference', confidence: 0.75, startLine: 21 });
+  });
+
+  test('should resolve Python method calls to the receiver type', async () => {
+    const { graph } = await ingestFixture(PY_FILES);
+    const run = findNode(graph, 'Function', 'run', 'app/service.py');
+    const repoSave = methodAt(graph, 'app/store.py', 2);
+    const cacheSave = methodAt(graph, 'app/store.py', 7);
+
+    const [repoCall] = callsBetween(graph, run, repoSave);
+    const [cacheCall] = callsBetween(graph, run, cacheSave);
+
+    expect(repoCall.properties).toMatchObject({ stage: 'type_inference', confidence: 0.85, startLine: 9 });
+    expect(cacheCall.properties).toMatchObject({ stage: 'type_inference', confidence: 0.85, startLine: 10 });
+  });
+});
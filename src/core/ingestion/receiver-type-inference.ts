@@ -0,0 +1,261 @@
+import Parser from 'web-tree-sitter';
+
+/**
+ * Local receiver type inference for method calls (obj.save(), this.repo.save(),
+ * self.repo.save()). Bindings come from constructor assignments, TypeScript type
+ * annotations, Python parameter annotations and `self.` attribute assignments.
+ */
+
+interface TypeBinding {
+  type: string;
+  line: number;        // Line the binding is introduced on
+  scopeStart: number;  // Line range the binding is visible in
+  scopeEnd: number;
+}
+
+// Nodes that open a new variable scope
+const JS_SCOPE_NODES = new Set([
+  'function_declaration', 'function_expression', 'function', 'arrow_function',
+  'method_definition', 'generator_function_declaration', 'generator_function'
+]);
+const JS_CLASS_NODES = new Set(['class_declaration', 'class', 'abstract_class_declaration']);
+
+// Wrapper types whose single type argument is the actual receiver type
+const OPTIONAL_WRAPPERS = new Set(['Optional', 'Readonly', 'Required', 'Partial', 'NonNullable']);
+
+/**
+ * Reduce a written type to the simple class name a method would be declared on:
+ * `ns.Repo<T>` -> Repo, `Repo | null` -> Repo, `Optional[Repo]` -> Repo, `"models.User"` -> User.
+ * Arrays (`Repo[]`) and ambiguous unions yield null; other generics reduce to their base type.
+ */
+export function normalizeTypeName(typeText: string): string | null {
+  let text = typeText.trim().replace(/^:\s*/, '').replace(/^['"]|['"]$/g, '').trim();
+
+  const members = text.split('|').map(part => part.trim())
+    .filter(part => part && !['null', 'undefined', 'None', 'void'].includes(part));
+  if (members.length !== 1) return null;
+  text = members[0];
+
+  if (text.endsWith('[]')) return null;
+
+  const wrapper = text.match(/^([\w.]+)\s*[<[](.*)[>\]]$/);
+  if (wrapper) {
+    const wrapperName = wrapper[1].split('.').pop()!;
+    if (!OPTIONAL_WRAPPERS.has(wrapperName)) {
+      text = wrapper[1];
+    } else {
+      return normalizeTypeName(wrapper[2]);
+    }
+  }
+
+  const name = text.split('.').pop()!.trim();
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : null;
+}
+
+export class ReceiverTypeIndex {
+  private bindings: Map<string, TypeBinding[]> = new Map();
+
+  constructor(rootNode: Parser.SyntaxNode, language: 'javascript' | 'python') {
+    const fileScope = { start: rootNode.startPosition.row + 1, end: rootNode.endPosition.row + 1 };
+    if (language === 'python') {
+      this.collectPython(rootNode, fileScope, null);
+    } else {
+      this.collectJS(rootNode, fileScope, null);
+    }
+  }
+
+  /**
+   * Type of a receiver expression ('repo', 'this.repo', 'self', ...) at a given line
+   */
+  lookup(receiver: string, line: number): string | null {
+    const candidates = (this.bindings.get(receiver) || [])
+      .filter(binding => binding.scopeStart <= line && binding.scopeEnd >= line);
+    if (candidates.length === 0) return null;
+
+    // Innermost scope wins; within it the latest binding introduced before the call
+    candidates.sort((a, b) =>
+      (a.scopeEnd - a.scopeStart) - (b.scopeEnd - b.scopeStart) ||
+      Number(b.line <= line) - Number(a.line <= line) ||
+      b.line - a.line
+    );
+    return candidates[0].type;
+  }
+
+  private bind(name: string, typeText: string | null | undefined, node: Parser.SyntaxNode, scope: { start: number; end: number }): void {
+    const type = typeText ? normalizeTypeName(typeText) : null;
+    if (!type) return;
+
+    if (!this.bindings.has(name)) {
+      this.bindings.set(name, []);
+    }
+    this.bindings.get(name)!.push({
+      type,
+      line: node.startPosition.row + 1,
+      scopeStart: scope.start,
+      scopeEnd: scope.end
+    });
+  }
+
+  private rangeOf(node: Parser.SyntaxNode): { start: number; end: number } {
+    return { start: node.startPosition.row + 1, end: node.endPosition.row + 1 };
+  }
+
+  private collectJS(
+    node: Parser.SyntaxNode,
+    scope: { start: number; end: number },
+    classNode: Parser.SyntaxNode | null
+  ): void {
+    if (JS_CLASS_NODES.has(node.type)) {
+      classNode = node;
+      const className = node.childForFieldName('name')?.text;
+      if (className) {
+        this.bind('this', className, node, this.rangeOf(node));
+      }
+    } else if (JS_SCOPE_NODES.has(node.type)) {
+      scope = this.rangeOf(node);
+    }
+
+    switch (node.type) {
+      case 'variable_declarator': {
+        const nameNode = node.childForFieldName('name');
+        if (nameNode?.type === 'identifier') {
+          this.bind(nameNode.text, this.jsDeclaredType(node), node, scope);
+        }
+        break;
+      }
+      case 'required_parameter':
+      case 'optional_parameter': {
+        const pattern = node.childForFieldName('pattern');
+        const typeText = node.childForFieldName('type')?.text;
+        if (pattern?.type === 'identifier') {
+          this.bind(pattern.text, typeText, node, scope);
+          // Constructor parameter properties: constructor(private repo: Repo)
+          const isParameterProperty = node.children.some(child =>
+            child.type === 'accessibility_modifier' || child.type === 'override_modifier' || child.type === 'readonly'
+          );
+          if (isParameterProperty && classNode) {
+            this.bind(`this.${pattern.text}`, typeText, node, this.rangeOf(classNode));
+          }
+        }
+        break;
+      }
+      case 'public_field_definition':
+      case 'field_definition': {
+        const nameNode = node.childForFieldName('name') || node.childForFieldName('property');
+        if (nameNode && classNode) {
+          this.bind(`this.${nameNode.text}`, this.jsDeclaredType(node), node, this.rangeOf(classNode));
+        }
+        break;
+      }
+      case 'assignment_expression': {
+        const left = node.childForFieldName('left');
+        const constructedType = this.jsConstructedType(node.childForFieldName('right'));
+        if (left?.type === 'identifier') {
+          this.bind(left.text, constructedType, node, scope);
+        } else if (left?.type === 'member_expression' && left.childForFieldName('object')?.type === 'this' && classNode) {
+          const property = left.childForFieldName('property')?.text;
+          if (property) {
+            this.bind(`this.${property}`, constructedType, node, this.rangeOf(classNode));
+          }
+        }
+        break;
+      }
+    }
+
+    for (const child of node.namedChildren) {
+      this.collectJS(child, scope, classNode);
+    }
+  }
+
+  /**
+   * Type of a declaration from its annotation, falling back to `new Type()` initialisers
+   */
+  private jsDeclaredType(node: Parser.SyntaxNode): string | null {
+    const annotation = node.childForFieldName('type');
+    if (annotation) return annotation.text;
+    return this.jsConstructedType(node.childForFieldName('value'));
+  }
+
+  private jsConstructedType(valueNode: Parser.SyntaxNode | null): string | null {
+    if (!valueNode) return null;
+    if (valueNode.type === 'await_expression' || valueNode.type === 'parenthesized_expression') {
+      return this.jsConstructedType(valueNode.namedChildren[0] || null);
+    }
+    if (valueNode.type === 'as_expression' || valueNode.type === 'satisfies_expression') {
+      return valueNode.namedChildren[1]?.text || null;
+    }
+    if (valueNode.type === 'new_expression') {
+      return valueNode.childForFieldName('constructor')?.text || null;
+    }
+    return null;
+  }
+
+  private collectPython(
+    node: Parser.SyntaxNode,
+    scope: { start: number; end: number },
+    classNode: Parser.SyntaxNode | null
+  ): void {
+    if (node.type === 'class_definition') {
+      classNode = node;
+      const className = node.childForFieldName('name')?.text;
+      if (className) {
+        // self inside methods, cls inside classmethods
+        this.bind('self', className, node, this.rangeOf(node));
+        this.bind('cls', className, node, this.rangeOf(node));
+      }
+    } else if (node.type === 'function_definition') {
+      scope = this.rangeOf(node);
+    }
+
+    switch (node.type) {
+      case 'typed_parameter': {
+        const nameNode = node.namedChildren.find(child => child.type === 'identifier');
+        if (nameNode) {
+          this.bind(nameNode.text, node.childForFieldName('type')?.text, node, scope);
+        }
+        break;
+      }
+      case 'typed_default_parameter': {
+        const nameNode = node.childForFieldName('name');
+        if (nameNode) {
+          this.bind(nameNode.text, node.childForFieldName('type')?.text, node, scope);
+        }
+        break;
+      }
+      case 'assignment': {
+        const left = node.childForFieldName('left');
+        const typeText = node.childForFieldName('type')?.text || this.pythonConstructedType(node.childForFieldName('right'));
+        if (left?.type === 'identifier') {
+          // Class-level annotations (cache: Cache) describe instance attributes
+          if (classNode && node.parent?.parent?.parent?.id === classNode.id) {
+            this.bind(`self.${left.text}`, typeText, node, this.rangeOf(classNode));
+          }
+          this.bind(left.text, typeText, node, scope);
+        } else if (left?.type === 'attribute' && left.childForFieldName('object')?.text === 'self' && classNode) {
+          const attribute = left.childForFieldName('attribute')?.text;
+          if (attribute) {
+            this.bind(`self.${attribute}`, typeText, node, this.rangeOf(classNode));
+          }
+        }
+        break;
+      }
+    }
+
+    for (const child of node.namedChildren) {
+      this.collectPython(child, scope, classNode);
+    }
+  }
+
+  /**
+   * Python has no `new`; Foo() and models.Foo() are treated as constructions and
+   * only resolve later if a class with that name exists
+   */
+  private pythonConstructedType(valueNode: Parser.SyntaxNode | null): string | null {
+    if (valueNode?.type !== 'call') return null;
+    const functionNode = valueNode.childForFieldName('function');
+    if (functionNode?.type === 'identifier' || functionNode?.type === 'attribute') {
+      return functionNode.text;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,71 @@
+import { filterReceiverCallTargets, resolveTypeReference } from './reference-resolution.js';
+
+const definitions = [
+  { filePath: 'src/main/java/com/acme/util/Helper.java', name: 'assist' },
+  { filePath: 'src/main/java/com/acme/legacy/Helper.java', name: 'assist' },
+  { filePath: 'src/util/helpers.rs', name: 'assist' },
+  { filePath: 'src/net/mod.rs', name: 'assist' },
+  { filePath: 'internal/util/log.go', name: 'assist' }
+];
+
+describe('filterReceiverCallTargets', () => {
+  test('should follow a Java class import to that class only', () => {
+    const targets = filterReceiverCallTargets(definitions, {
+      targetFile: 'src/main/java/com/acme/util/Helper.java',
+      importType: 'named'
+    }, 'java');
+    expect(targets).toEqual([definitions[0]]);
+  });
+
+  test('should follow a Rust module or item import to the module file', () => {
+    expect(filterReceiverCallTargets(definitions, { targetFile: 'src/util/helpers.rs', importType: 'namespace' }, 'rust'))
+      .toEqual([definitions[2]]);
+    expect(filterReceiverCallTargets(definitions, { targetFile: 'src/net/mod.rs', importType: 'named' }, 'rust'))
+      .toEqual([definitions[3]]);
+  });
+
+  test('should follow a Go import to the package directory', () => {
+    expect(filterReceiverCallTargets(definitions, { targetFile: 'internal/util', importType: 'namespace' }, 'go'))
+      .toEqual([definitions[4]]);
+  });
+
+  test('should ignore named imports used as receivers in JavaScript', () => {
+    expect(filterReceiverCallTargets(definitions, { targetFile: 'src/util/helpers.rs', importType: 'named' }, 'javascript'))
+      .toEqual([]);
+  });
+});
+
+describe('resolveTypeReference', () => {
+  const declarations = [
+    { filePath: 'src/main/java/com/acme/model/Base.java' },
+    { filePath: 'src/main/java/com/acme/legacy/Base.java' },
+    { filePath: 'src/model.rs' }
+  ];
+
+  test('should prefer the imported declaration', () => {
+    const imported = resolveTypeReference(declarations, 'src/main/java/com/acme/app/User.java', { name: 'Base' }, {
+      targetFile: 'src/main/java/com/acme/legacy/Base.java',
+      importType: 'named'
+    }, 'java');
+    expect(imported).toBe(declarations[1]);
+  });
+
+  test('should fall back to the same Java package', () => {
+    expect(resolveTypeReference(declarations, 'src/main/java/com/acme/model/User.java', { name: 'Base' }, undefined, 'java'))
+      .toBe(declarations[0]);
+  });
+
+  test('should resolve a Rust trait through its module qualifier', () => {
+    expect(resolveTypeReference(declarations, 'src/lib.rs', { name: 'Base', qualifier: 'model' }, {
+      targetFile: 'src/model.rs',
+      importType: 'namespace'
+    }, 'rust')).toBe(declarations[2]);
+  });
+
+  test('should give up on ambiguous names', () => {
+    expect(resolveTypeReference(declarations, 'src/main/java/com/acme/app/User.java', { name: 'Base' }, undefined, 'java'))
+      .toBeNull();
+    expect(resolveTypeReference(declarations.slice(2), 'src/lib.rs', { name: 'Base' }, undefined, 'rust'))
+      .toBe(declarations[2]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Lookups shared by the call and inheritance passes once import resolution has run:
+ * which definition a qualified call or a supertype name refers to, given the import
+ * its receiver or qualifier is bound to.
+ */
+
+import type { ImportMap } from './import-processor.ts';
+import { filterGoPackageDefinitions } from './go-module-resolver.ts';
+
+type ImportBinding = Pick<ImportMap[string][string], 'targetFile' | 'importType'>;
+
+const dirname = (filePath: string): string => {
+  const lastSlash = filePath.lastIndexOf('/');
+  return lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+};
+
+/**
+ * Definitions a qualified call reaches through the import bound to its receiver:
+ * utils.fn() (namespace import), pkg.Func() (Go package directory), Helper.assist()
+ * (Java class, C# type) and Type::new() / util::assist() (Rust item or module)
+ */
+export function filterReceiverCallTargets<T extends { filePath: string }>(
+  candidates: T[],
+  receiverImport: ImportBinding,
+  language: string
+): T[] {
+  if (receiverImport.importType !== 'namespace' && language !== 'java' && language !== 'rust' && language !== 'csharp') {
+    return [];
+  }
+  return language === 'go'
+    ? filterGoPackageDefinitions(candidates, receiverImport.targetFile)
+    : candidates.filter(candidate => candidate.filePath === receiverImport.targetFile);
+}
+
+/**
+ * The declaration a type name used in `filePath` refers to: imports first, then the
+ * same file, then the same package (Java), then a unique match anywhere in the project
+ */
+export function resolveTypeReference<T extends { filePath: string }>(
+  candidates: T[],
+  filePath: string,
+  ref: { name: string; qualifier?: string },
+  importInfo: ImportBinding | undefined,
+  language: string
+): T | null {
+  if (candidates.length === 0) return null;
+
+  if (importInfo) {
+    const imported = candidates.find(candidate => candidate.filePath === importInfo.targetFile);
+    if (imported) return imported;
+  }
+
+  if (!ref.qualifier) {
+    const sameFile = candidates.find(candidate => candidate.filePath === filePath);
+    if (sameFile) return sameFile;
+
+    if (language === 'java') {
+      const packageDir = dirname(filePath);
+      const samePackage = candidates.find(candidate => dirname(candidate.filePath) === packageDir);
+      if (samePackage) return samePackage;
+    }
+  }
+
+  return candidates.length === 1 ? candidates[0] : null;
+}
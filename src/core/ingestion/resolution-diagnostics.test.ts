@@ -0,0 +1,43 @@
+import { addDiagnosticNodes, getFrequentCallees, getResolutionDiagnostics, type ResolutionDiagnostic } from './resolution-diagnostics.js';
+import { SimpleKnowledgeGraph } from '../graph/graph.js';
+
+const diagnostics: ResolutionDiagnostic[] = [
+  { kind: 'call', filePath: 'src/b.ts', line: 3, callee: 'structuredClone', category: 'not_found', reason: 'No definition' },
+  { kind: 'call', filePath: 'src/a.ts', line: 9, callee: 'repo.save', category: 'unknown_receiver', reason: 'Type of repo not inferred' },
+  { kind: 'call', filePath: 'src/a.ts', line: 2, callee: 'structuredClone', category: 'not_found', reason: 'No definition' },
+  { kind: 'import', filePath: 'src/a.ts', line: 1, callee: 'src/missing', category: 'missing_file', reason: 'No project file' },
+  { kind: 'call', filePath: 'src/a.ts', line: 2, callee: 'structuredClone', category: 'not_found', reason: 'No definition' }
+];
+
+describe('addDiagnosticNodes', () => {
+  test('should add one node per file, line and callee', () => {
+    const graph = new SimpleKnowledgeGraph();
+
+    expect(addDiagnosticNodes(graph, diagnostics)).toBe(4);
+    expect(graph.nodes.map(node => node.label)).toEqual(['UnresolvedCall', 'UnresolvedCall', 'UnresolvedCall', 'UnresolvedImport']);
+  });
+});
+
+describe('getResolutionDiagnostics', () => {
+  test('should read diagnostics back from the graph ordered by file and line', () => {
+    const graph = new SimpleKnowledgeGraph();
+    addDiagnosticNodes(graph, diagnostics);
+
+    expect(getResolutionDiagnostics(graph)).toEqual([
+      diagnostics[3],
+      diagnostics[2],
+      diagnostics[1],
+      diagnostics[0]
+    ]);
+  });
+});
+
+describe('getFrequentCallees', () => {
+  test('should count callees of a category, most frequent first', () => {
+    expect(getFrequentCallees(diagnostics, 'not_found')).toEqual([{ callee: 'structuredClone', count: 3 }]);
+    expect(getFrequentCallees(diagnostics, undefined, 2)).toEqual([
+      { callee: 'structuredClone', count: 3 },
+      { callee: 'repo.save', count: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Calls and imports the resolver could not link to a definition, kept in the graph as
+ * UnresolvedCall / UnresolvedImport nodes (file, line, callee text, failure category)
+ * so they can be queried, listed in the DiagnosticPanel and exported. Frequent
+ * `not_found` callees are usually builtins or globals missing from the `languages` config.
+ */
+import type { GraphNode, KnowledgeGraph } from '../graph/types.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+
+export type UnresolvedCallCategory =
+  | 'missing_definition'  // Imported from a project file that does not define it
+  | 'external_library'    // Imported from a module outside the project
+  | 'ambiguous'           // Defined in other files, none of them imported
+  | 'unknown_receiver'    // Method defined in the project, receiver type not inferred
+  | 'not_found';          // Defined nowhere in the project: builtin, global or dynamic
+
+export type UnresolvedImportCategory =
+  | 'missing_file'        // Relative / project path with no matching file
+  | 'external_module';    // Standard library or a package no manifest declares
+
+export interface ResolutionDiagnostic {
+  kind: 'call' | 'import';
+  filePath: string;
+  line: number;
+  callee: string;         // Callee as written (repo.save, useAuth) or module specifier
+  category: UnresolvedCallCategory | UnresolvedImportCategory;
+  reason: string;
+}
+
+/**
+ * Graph node recording an unresolved call or import
+ */
+export function createDiagnosticNode(diagnostic: ResolutionDiagnostic): GraphNode {
+  const kind = diagnostic.kind === 'call' ? 'unresolved_call' : 'unresolved_import';
+  return {
+    id: generateDeterministicId(kind, `${diagnostic.filePath}_${diagnostic.callee}_${diagnostic.line}`),
+    label: diagnostic.kind === 'call' ? 'UnresolvedCall' : 'UnresolvedImport',
+    properties: {
+      name: diagnostic.callee,
+      filePath: diagnostic.filePath,
+      startLine: diagnostic.line,
+      category: diagnostic.category,
+      reason: diagnostic.reason
+    }
+  };
+}
+
+/**
+ * Add diagnostic nodes to the graph, one per file, line and callee
+ */
+export function addDiagnosticNodes(graph: KnowledgeGraph, diagnostics: ResolutionDiagnostic[]): number {
+  const added = new Set<string>();
+  for (const diagnostic of diagnostics) {
+    const node = createDiagnosticNode(diagnostic);
+    if (added.has(node.id)) continue;
+    added.add(node.id);
+    graph.addNode(node);
+  }
+  return added.size;
+}
+
+/**
+ * Diagnostics recorded in a graph, ordered by file and line
+ */
+export function getResolutionDiagnostics(graph: KnowledgeGraph): ResolutionDiagnostic[] {
+  return graph.nodes
+    .filter(node => node.label === 'UnresolvedCall' || node.label === 'UnresolvedImport')
+    .map((node): ResolutionDiagnostic => ({
+      kind: node.label === 'UnresolvedCall' ? 'call' : 'import',
+      filePath: String(node.properties.filePath),
+      line: Number(node.properties.startLine),
+      callee: String(node.properties.name),
+      category: node.properties.category as ResolutionDiagnostic['category'],
+      reason: String(node.properties.reason || '')
+    }))
+    .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line);
+}
+
+/**
+ * Most frequent unresolved callees of a category (e.g. `not_found` builtin candidates)
+ */
+export function getFrequentCallees(
+  diagnostics: ResolutionDiagnostic[],
+  category?: ResolutionDiagnostic['category'],
+  limit = 20
+): Array<{ callee: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const diagnostic of diagnostics) {
+    if (category && diagnostic.category !== category) continue;
+    counts.set(diagnostic.callee, (counts.get(diagnostic.callee) || 0) + 1);
+  }
+  return Array.from(counts, ([callee, count]) => ({ callee, count }))
+    .sort((a, b) => b.count - a.count || a.callee.localeCompare(b.callee))
+    .slice(0, limit);
+}
@@ -0,0 +1,143 @@
+import { RouteProcessor } from './route-processor.js';
+import { ingestFixture, findNode } from './ingestion-fixtures.js';
+import { generateDeterministicId } from '../../lib/utils.js';
+import type { SimpleKnowledgeGraph } from '../graph/graph.js';
+
+const extractRoutes = async (files: Record<string, string>) => {
+  const { graph, astMap, importMap, functionTrie } = await ingestFixture(files);
+  await new RouteProcessor().process(graph, astMap, importMap, functionTrie);
+  return graph;
+};
+
+const routeNamed = (graph: SimpleKnowledgeGraph, name: string, filePath: string) => findNode(graph, 'Route', name, filePath);
+
+const handlersOf = (graph: SimpleKnowledgeGraph, routeId: string) =>
+  graph.relationships.filter(rel => rel.type === 'HANDLES' && rel.target === routeId).map(rel => rel.source);
+
+describe('RouteProcessor - Python', () => {
+  test('should extract FastAPI routes with their router prefix', async () => {
+    const graph = await extractRoutes({
+      'app/main.py': `from fastapi import FastAPI, APIRouter
+
+app = FastAPI()
+router = APIRouter(prefix="/items")
+
+
+@app.get("/health")
+def health():
+    return {"ok": True}
+
+
+@router.post("/")
+def create_item(item):
+    return item
+`
+    });
+
+    const health = routeNamed(graph, 'GET /health', 'app/main.py');
+    const createItem = routeNamed(graph, 'POST /items', 'app/main.py');
+
+    expect(health.properties).toMatchObject({ method: 'GET', path: '/health', framework: 'fastapi', startLine: 7 });
+    expect(handlersOf(graph, health.id)).toEqual([findNode(graph, 'Function', 'health', 'app/main.py').id]);
+    expect(handlersOf(graph, createItem.id)).toEqual([findNode(graph, 'Function', 'create_item', 'app/main.py').id]);
+  });
+
+  test('should take the method of a Flask route from its methods argument', async () => {
+    const graph = await extractRoutes({
+      'app/web.py': `from flask import Flask
+
+app = Flask(__name__)
+
+
+@app.route("/users", methods=["POST"])
+def create_user():
+    return "ok"
+`
+    });
+
+    const route = routeNamed(graph, 'POST /users', 'app/web.py');
+
+    expect(route.properties.framework).toBe('flask');
+    expect(handlersOf(graph, route.id)).toEqual([findNode(graph, 'Function', 'create_user', 'app/web.py').id]);
+  });
+});
+
+describe('RouteProcessor - Express', () => {
+  const EXPRESS_FILES = {
+    'src/server.ts': `import express from 'express';
+import { listUsers } from './handlers';
+
+const router = express.Router();
+
+router.get('/users', listUsers);
+router.post('/users', (req, res) => {
+  res.send('created');
+});
+
+export default router;
+`,
+    'src/handlers.ts': `export function listUsers(req: Request, res: Response) {
+  res.json([]);
+}
+`
+  };
+
+  test('should resolve a handler registered by name through its import', async () => {
+    const graph = await extractRoutes(EXPRESS_FILES);
+    const route = routeNamed(graph, 'GET /users', 'src/server.ts');
+
+    expect(route.properties.framework).toBe('express');
+    expect(handlersOf(graph, route.id)).toEqual([findNode(graph, 'Function', 'listUsers', 'src/handlers.ts').id]);
+  });
+
+  test('should let the enclosing file handle a route with an inline handler', async () => {
+    const graph = await extractRoutes(EXPRESS_FILES);
+    const route = routeNamed(graph, 'POST /users', 'src/server.ts');
+
+    // Calls inside the arrow function are attributed to the file, so it serves the route
+    expect(route.properties).toMatchObject({ startLine: 7, endLine: 9 });
+    expect(handlersOf(graph, route.id)).toEqual([generateDeterministicId('file', 'src/server.ts')]);
+  });
+
+  test('should define every route in its file', async () => {
+    const graph = await extractRoutes(EXPRESS_FILES);
+    const fileId = generateDeterministicId('file', 'src/server.ts');
+
+    const defined = graph.relationships
+      .filter(rel => rel.type === 'DEFINES' && rel.source === fileId)
+      .map(rel => graph.nodes.find(node => node.id === rel.target))
+      .filter(node => node?.label === 'Route')
+      .map(node => node!.properties.name);
+
+    expect(defined).toEqual(['GET /users', 'POST /users']);
+  });
+});
+
+describe('RouteProcessor - NestJS', () => {
+  test('should join controller and method paths', async () => {
+    const graph = await extractRoutes({
+      'src/cats.controller.ts': `import { Controller, Get, Post } from '@nestjs/common';
+
+@Controller('cats')
+export class CatsController {
+  @Get(':id')
+  findOne(id: string) {
+    return id;
+  }
+
+  @Post()
+  create() {
+    return 'created';
+  }
+}
+`
+    });
+
+    const findOne = routeNamed(graph, 'GET /cats/:id', 'src/cats.controller.ts');
+    const create = routeNamed(graph, 'POST /cats', 'src/cats.controller.ts');
+
+    expect(findOne.properties).toMatchObject({ path: '/cats/:id', framework: 'nestjs' });
+    expect(handlersOf(graph, findOne.id)).toEqual([findNode(graph, 'Method', 'findOne', 'src/cats.controller.ts').id]);
+    expect(handlersOf(graph, create.id)).toEqual([findNode(graph, 'Method', 'create', 'src/cats.controller.ts').id]);
+  });
+});
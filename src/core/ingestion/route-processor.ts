@@ -0,0 +1,345 @@
+import type { KnowledgeGraph, GraphNode } from '../graph/types.ts';
+import type { ParsedAST } from './parsing-processor.ts';
+import type { ImportMap } from './import-processor.ts';
+import type { FunctionRegistryTrie } from '../graph/trie.ts';
+import { getDecoratedDefinition, getDecoratorCall, getDecoratorNodes } from './decorator-extractor.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+import Parser from 'web-tree-sitter';
+
+/**
+ * HTTP routes declared through web frameworks: FastAPI and Flask route decorators
+ * (`@app.get("/x")`, `@bp.route("/x", methods=[...])`), Express router calls
+ * (`router.post('/x', handler)`) and NestJS controller decorators (`@Get(':id')` under
+ * `@Controller('users')`). Each route becomes a Route node with its method and path,
+ * defined by its file and HANDLED by the function that serves it, so the endpoints
+ * affected by a change can be found by walking CALLS edges back to a handler.
+ */
+
+type RouteFramework = 'fastapi' | 'flask' | 'express' | 'nestjs';
+
+interface RouteInfo {
+  method: string;
+  path: string;
+  framework: RouteFramework;
+  node: Parser.SyntaxNode;  // Decorator or router call declaring the route
+  handlerId: string | null;
+}
+
+// @app.get("/x") / @router.api_route("/x", methods=[...]) / @bp.route("/x")
+const PYTHON_ROUTE_METHODS = new Set(['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'route', 'api_route', 'websocket']);
+
+// router.get('/x', handler)
+const EXPRESS_ROUTE_METHODS = new Set(['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'all']);
+
+// Objects Express routes are registered on: app, router, server, usersRouter, adminApp
+const EXPRESS_RECEIVER_PATTERN = /^(app|router|server|\w+Router|\w+App)$/;
+
+// @Get(':id') and friends from @nestjs/common
+const NEST_ROUTE_DECORATORS = new Set(['Get', 'Post', 'Put', 'Delete', 'Patch', 'Options', 'Head', 'All']);
+
+// Routers declaring a prefix for their routes: APIRouter(prefix="/items"), Blueprint(..., url_prefix="/items")
+const PYTHON_ROUTER_PREFIXES: Record<string, string> = { APIRouter: 'prefix', Blueprint: 'url_prefix' };
+
+const FUNCTION_NODES = new Set(['arrow_function', 'function_expression', 'function']);
+
+export class RouteProcessor {
+  private importMap: ImportMap = {};
+  private functionTrie: FunctionRegistryTrie | null = null;
+
+  private stats = {
+    routes: 0,
+    handled: 0
+  };
+
+  /**
+   * Extract the routes declared in the parsed files
+   * @param graph The knowledge graph being built
+   * @param astMap Map of file paths to their parsed ASTs
+   * @param importMap Import map built by ImportProcessor, to resolve handlers registered by name
+   * @param functionTrie Registry of parsed definitions
+   * @returns Updated graph with Route nodes and HANDLES relationships
+   */
+  async process(
+    graph: KnowledgeGraph,
+    astMap: Map<string, ParsedAST>,
+    importMap: ImportMap,
+    functionTrie: FunctionRegistryTrie
+  ): Promise<KnowledgeGraph> {
+    console.log('🛣️ RouteProcessor: Extracting framework routes...');
+    this.importMap = importMap;
+    this.functionTrie = functionTrie;
+    this.stats = { routes: 0, handled: 0 };
+
+    for (const [filePath, ast] of astMap) {
+      if (!ast.tree) continue;
+
+      try {
+        const routes = filePath.endsWith('.py')
+          ? this.extractPythonRoutes(filePath, ast.tree.rootNode)
+          : /\.(js|jsx|ts|tsx|mjs|cjs)$/.test(filePath) ? this.extractJSRoutes(filePath, ast.tree.rootNode) : [];
+
+        for (const route of routes) {
+          this.addRouteToGraph(graph, filePath, route);
+        }
+      } catch (error) {
+        console.warn(`⚠️ RouteProcessor: failed to extract routes from ${filePath}:`, error);
+      }
+    }
+
+    console.log(`✅ RouteProcessor: ${this.stats.routes} routes, ${this.stats.handled} linked to handlers`);
+    return graph;
+  }
+
+  /**
+   * FastAPI and Flask route decorators on functions
+   */
+  private extractPythonRoutes(filePath: string, rootNode: Parser.SyntaxNode): RouteInfo[] {
+    const routes: RouteInfo[] = [];
+    const isFlask = /^\s*(from|import)\s+flask\b/m.test(rootNode.text);
+    const prefixes = this.collectPythonRouterPrefixes(rootNode);
+
+    for (const decorator of rootNode.descendantsOfType('decorator')) {
+      const call = getDecoratorCall(decorator);
+      if (!call?.arguments || call.callee.type !== 'attribute') continue;
+
+      const methodName = call.callee.childForFieldName('attribute')?.text || '';
+      const receiver = call.callee.childForFieldName('object')?.text || '';
+      if (!PYTHON_ROUTE_METHODS.has(methodName)) continue;
+
+      const pathArgument = call.arguments.namedChildren.find(argument => argument.type !== 'keyword_argument')
+        ?? this.getKeywordArgument(call.arguments, 'path')
+        ?? this.getKeywordArgument(call.arguments, 'rule');
+      const path = pathArgument ? this.getStringValue(pathArgument) : null;
+      if (path === null) continue;
+
+      let methods = [methodName === 'websocket' ? 'WEBSOCKET' : methodName.toUpperCase()];
+      if (methodName === 'route' || methodName === 'api_route') {
+        const methodList = this.getKeywordArgument(call.arguments, 'methods');
+        const listed = methodList?.namedChildren.map(item => this.getStringValue(item)?.toUpperCase()).filter((method): method is string => !!method);
+        methods = listed && listed.length > 0 ? listed : ['GET'];
+      }
+
+      const handlerId = this.resolveDecoratedHandler(filePath, decorator);
+      for (const method of methods) {
+        routes.push({
+          method,
+          path: this.joinPaths(prefixes.get(receiver) || '', path),
+          framework: isFlask || methodName === 'route' ? 'flask' : 'fastapi',
+          node: decorator,
+          handlerId
+        });
+      }
+    }
+
+    return routes;
+  }
+
+  /**
+   * Module-level routers created with a prefix: router = APIRouter(prefix="/items")
+   */
+  private collectPythonRouterPrefixes(rootNode: Parser.SyntaxNode): Map<string, string> {
+    const prefixes = new Map<string, string>();
+
+    for (const statement of rootNode.namedChildren) {
+      const assignment = statement.type === 'expression_statement' ? statement.firstNamedChild : null;
+      if (assignment?.type !== 'assignment') continue;
+
+      const target = assignment.childForFieldName('left');
+      const value = assignment.childForFieldName('right');
+      const constructorName = value?.type === 'call' ? value.childForFieldName('function')?.text.split('.').pop() : undefined;
+      const prefixKeyword = constructorName ? PYTHON_ROUTER_PREFIXES[constructorName] : undefined;
+      if (!target || !value || !prefixKeyword) continue;
+
+      const prefixArgument = this.getKeywordArgument(value.childForFieldName('arguments'), prefixKeyword);
+      const prefix = prefixArgument ? this.getStringValue(prefixArgument) : null;
+      if (prefix) prefixes.set(target.text, prefix);
+    }
+
+    return prefixes;
+  }
+
+  /**
+   * Express router calls and NestJS controller method decorators
+   */
+  private extractJSRoutes(filePath: string, rootNode: Parser.SyntaxNode): RouteInfo[] {
+    const routes: RouteInfo[] = [];
+
+    for (const call of rootNode.descendantsOfType('call_expression')) {
+      const route = this.getExpressRoute(filePath, call);
+      if (route) routes.push(route);
+    }
+
+    for (const decorator of rootNode.descendantsOfType('decorator')) {
+      const call = getDecoratorCall(decorator);
+      if (!call?.arguments || call.callee.type !== 'identifier' || !NEST_ROUTE_DECORATORS.has(call.name)) continue;
+
+      const method = getDecoratedDefinition(decorator);
+      const controller = method?.parent?.type === 'class_body' ? method.parent.parent : null;
+      const controllerDecorator = controller ? getDecoratorNodes(controller).find(node => getDecoratorCall(node)?.name === 'Controller') : undefined;
+      if (!method || !controllerDecorator) continue;
+
+      const prefixArgument = getDecoratorCall(controllerDecorator)?.arguments?.firstNamedChild;
+      const pathArgument = call.arguments.firstNamedChild;
+
+      routes.push({
+        method: call.name.toUpperCase(),
+        path: this.joinPaths(
+          prefixArgument ? this.getStringValue(prefixArgument) ?? '' : '',
+          pathArgument ? this.getStringValue(pathArgument) ?? '' : ''
+        ),
+        framework: 'nestjs',
+        node: decorator,
+        handlerId: this.resolveDecoratedHandler(filePath, decorator)
+      });
+    }
+
+    return routes;
+  }
+
+  /**
+   * router.get('/users/:id', [middleware,] handler): the last argument serves the route
+   */
+  private getExpressRoute(filePath: string, call: Parser.SyntaxNode): RouteInfo | null {
+    const callee = call.childForFieldName('function');
+    if (callee?.type !== 'member_expression') return null;
+
+    const methodName = callee.childForFieldName('property')?.text || '';
+    const receiver = callee.childForFieldName('object');
+    const receiverName = receiver?.type === 'member_expression' ? receiver.childForFieldName('property')?.text : receiver?.text;
+    if (!EXPRESS_ROUTE_METHODS.has(methodName) || !receiverName || !EXPRESS_RECEIVER_PATTERN.test(receiverName)) return null;
+
+    const args = call.childForFieldName('arguments')?.namedChildren || [];
+    const path = args.length >= 2 ? this.getStringValue(args[0]) : null;
+    if (path === null || !path.startsWith('/')) return null;
+
+    const handler = args[args.length - 1];
+    let handlerId: string | null = null;
+    if (handler.type === 'identifier') {
+      handlerId = this.resolveHandlerName(filePath, handler.text);
+    } else if (handler.type === 'member_expression') {
+      // usersController.list: the method of an imported controller object or class
+      const property = handler.childForFieldName('property')?.text;
+      handlerId = property ? this.resolveHandlerName(filePath, property) : null;
+    } else if (FUNCTION_NODES.has(handler.type)) {
+      // Inline handlers: calls inside them belong to the enclosing definition (or file)
+      handlerId = this.findEnclosingDefinition(filePath, call.startPosition.row + 1);
+    }
+
+    return {
+      method: methodName.toUpperCase(),
+      path,
+      framework: 'express',
+      node: call,
+      handlerId
+    };
+  }
+
+  /**
+   * The function or method a route decorator is applied to
+   */
+  private resolveDecoratedHandler(filePath: string, decorator: Parser.SyntaxNode): string | null {
+    const definition = getDecoratedDefinition(decorator);
+    const name = definition?.childForFieldName('name')?.text;
+    if (!definition || !name) return null;
+
+    const startLine = decorator.startPosition.row + 1;
+    const endLine = definition.endPosition.row + 1;
+    const handler = this.functionTrie!.findInSameFile(filePath, name).find(def =>
+      (def.startLine ?? 0) >= startLine && (def.startLine ?? 0) <= endLine
+    );
+    return handler?.nodeId ?? null;
+  }
+
+  /**
+   * A handler registered by name: imported, or defined in the same file
+   */
+  private resolveHandlerName(filePath: string, name: string): string | null {
+    const imported = this.importMap[filePath]?.[name];
+    if (imported) {
+      const exportedName = imported.importType === 'named' ? imported.exportedName : name;
+      const definition = this.functionTrie!.findInSameFile(imported.targetFile, exportedName)[0];
+      if (definition) return definition.nodeId;
+    }
+
+    return this.functionTrie!.findInSameFile(filePath, name)[0]?.nodeId ?? null;
+  }
+
+  /**
+   * Innermost function or method spanning a line, else the file itself
+   */
+  private findEnclosingDefinition(filePath: string, line: number): string {
+    const enclosing = this.functionTrie!.getDefinitionsInFile(filePath)
+      .filter(def => (def.type === 'function' || def.type === 'method') && (def.startLine ?? 0) <= line && (def.endLine ?? 0) >= line)
+      .sort((a, b) => (b.startLine ?? 0) - (a.startLine ?? 0))[0];
+    return enclosing?.nodeId ?? generateDeterministicId('file', filePath);
+  }
+
+  private addRouteToGraph(graph: KnowledgeGraph, filePath: string, route: RouteInfo): void {
+    const startLine = route.node.startPosition.row + 1;
+    const routeNode: GraphNode = {
+      id: generateDeterministicId('route', `${filePath}_${route.method} ${route.path}_${startLine}`),
+      label: 'Route',
+      properties: {
+        name: `${route.method} ${route.path}`,
+        method: route.method,
+        path: route.path,
+        framework: route.framework,
+        filePath,
+        startLine,
+        endLine: route.node.endPosition.row + 1
+      }
+    };
+
+    graph.addNode(routeNode);
+    this.stats.routes++;
+
+    const fileId = generateDeterministicId('file', filePath);
+    graph.addRelationship({
+      id: generateDeterministicId('defines', `${fileId}-${routeNode.id}`),
+      type: 'DEFINES',
+      source: fileId,
+      target: routeNode.id,
+      properties: {
+        filePath,
+        line_number: startLine
+      }
+    });
+
+    if (route.handlerId) {
+      graph.addRelationship({
+        id: generateDeterministicId('handles', `${route.handlerId}-${routeNode.id}`),
+        type: 'HANDLES',
+        source: route.handlerId,
+        target: routeNode.id,
+        properties: {
+          framework: route.framework
+        }
+      });
+      this.stats.handled++;
+    }
+  }
+
+  private getKeywordArgument(argumentList: Parser.SyntaxNode | null, name: string): Parser.SyntaxNode | null {
+    const keyword = argumentList?.namedChildren.find(argument =>
+      argument.type === 'keyword_argument' && argument.childForFieldName('name')?.text === name
+    );
+    return keyword?.childForFieldName('value') ?? null;
+  }
+
+  /**
+   * Value of a plain string literal; null for anything computed (f-strings, template substitutions)
+   */
+  private getStringValue(node: Parser.SyntaxNode): string | null {
+    if (node.type !== 'string' && node.type !== 'template_string') return null;
+    if (node.namedChildren.some(child => child.type === 'interpolation' || child.type === 'template_substitution')) return null;
+    return node.text.replace(/^[rRbBuU]*("""|'''|["'`])/, '').replace(/("""|'''|["'`])$/, '');
+  }
+
+  /**
+   * Join a router prefix and a route path: ('/users', ':id') -> /users/:id
+   */
+  private joinPaths(prefix: string, path: string): string {
+    const joined = [prefix, path].map(part => part.replace(/^\/+|\/+$/g, '')).filter(part => part.length > 0).join('/');
+    return '/' + joined + (path.length > 1 && path.endsWith('/') ? '/' : '');
+  }
+}
@@ -0,0 +1,52 @@
+import { RustModuleResolver, splitRustPath } from './rust-module-resolver.js';
+
+// Library crate with a directory module (net/mod.rs) and a binary crate under tools/
+const files = [
+  'Cargo.toml',
+  'src/lib.rs',
+  'src/util.rs',
+  'src/util/helpers.rs',
+  'src/net/mod.rs',
+  'src/net/server.rs',
+  'tools/src/main.rs',
+  'tools/src/cli.rs'
+];
+
+describe('RustModuleResolver', () => {
+  const resolver = new RustModuleResolver(files);
+
+  test('should map files to module paths within their crate', () => {
+    expect(resolver.getModulePath('src/lib.rs')).toEqual([]);
+    expect(resolver.getModulePath('src/net/mod.rs')).toEqual(['net']);
+    expect(resolver.getModulePath('src/net/server.rs')).toEqual(['net', 'server']);
+    expect(resolver.getModulePath('tools/src/cli.rs')).toEqual(['cli']);
+  });
+
+  test('should resolve crate::, self:: and super:: paths to module files', () => {
+    expect(resolver.resolveUsePath(splitRustPath('crate::util::helpers'), 'src/net/server.rs'))
+      .toEqual({ targetFile: 'src/util/helpers.rs', exportedName: 'helpers', importType: 'namespace' });
+    expect(resolver.resolveUsePath(splitRustPath('self::server'), 'src/net/mod.rs'))
+      .toEqual({ targetFile: 'src/net/server.rs', exportedName: 'server', importType: 'namespace' });
+    expect(resolver.resolveUsePath(splitRustPath('super::super::util'), 'src/net/server.rs'))
+      .toEqual({ targetFile: 'src/util.rs', exportedName: 'util', importType: 'namespace' });
+  });
+
+  test('should resolve an item to the module declaring it', () => {
+    expect(resolver.resolveUsePath(splitRustPath('crate::net::server::Server'), 'src/lib.rs'))
+      .toEqual({ targetFile: 'src/net/server.rs', exportedName: 'Server', importType: 'named' });
+    expect(resolver.resolveUsePath(splitRustPath('net::connect'), 'src/lib.rs'))
+      .toEqual({ targetFile: 'src/net/mod.rs', exportedName: 'connect', importType: 'named' });
+  });
+
+  test('should resolve within the importing file\'s own crate', () => {
+    expect(resolver.resolveUsePath(splitRustPath('crate::cli::run'), 'tools/src/main.rs'))
+      .toEqual({ targetFile: 'tools/src/cli.rs', exportedName: 'run', importType: 'named' });
+    expect(resolver.resolveModuleFile('tools/src/main.rs', ['util'])).toBeNull();
+  });
+
+  test('should leave external crates as unresolved paths', () => {
+    expect(resolver.toModulePath(splitRustPath('std::collections::HashMap'), 'src/lib.rs')).toBeNull();
+    expect(resolver.resolveUsePath(splitRustPath('serde::Serialize'), 'src/lib.rs'))
+      .toEqual({ targetFile: 'serde::Serialize', exportedName: 'serde::Serialize', importType: 'named' });
+  });
+});
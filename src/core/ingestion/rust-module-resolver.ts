@@ -0,0 +1,133 @@
+/**
+ * Resolution of Rust module and `use` paths against the ingested file map. A crate
+ * is the directory holding lib.rs or main.rs; module `a::b` is a/b.rs or a/b/mod.rs
+ * below it, and use paths are absolute (crate::) or relative (self::, super::, or a
+ * child module of the current one).
+ */
+
+export interface RustUseTarget {
+  targetFile: string;
+  exportedName: string;
+  importType: 'namespace' | 'named';
+}
+
+const dirname = (filePath: string): string => {
+  const lastSlash = filePath.lastIndexOf('/');
+  return lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+};
+
+export function splitRustPath(pathText: string): string[] {
+  return pathText.split('::').map(segment => segment.trim()).filter(segment => segment.length > 0);
+}
+
+export class RustModuleResolver {
+  private projectFiles: Set<string>;
+
+  constructor(filePaths: Iterable<string>) {
+    this.projectFiles = new Set(filePaths);
+  }
+
+  /**
+   * What a `use` path imports: the file of a module (use crate::util::helpers;), the
+   * module declaring an item (use crate::util::helpers::assist;), or, for external
+   * crates (std, serde, ...) and unresolved paths, the path itself
+   */
+  resolveUsePath(segments: string[], filePath: string): RustUseTarget {
+    const name = segments[segments.length - 1];
+    const pathText = segments.join('::');
+    const modulePath = this.toModulePath(segments, filePath);
+
+    if (modulePath) {
+      const moduleFile = this.resolveModuleFile(filePath, modulePath);
+      if (moduleFile) {
+        return { targetFile: moduleFile, exportedName: name, importType: 'namespace' };
+      }
+
+      const parentFile = this.resolveModuleFile(filePath, modulePath.slice(0, -1));
+      if (parentFile) {
+        return { targetFile: parentFile, exportedName: name, importType: 'named' };
+      }
+    }
+
+    return { targetFile: pathText, exportedName: pathText, importType: 'named' };
+  }
+
+  /**
+   * Turn a use path into an absolute module path within the importing file's crate,
+   * or null when it names an external crate
+   */
+  toModulePath(segments: string[], filePath: string): string[] | null {
+    const currentModule = this.getModulePath(filePath);
+    const [head, ...rest] = segments;
+
+    if (head === 'crate') return rest;
+    if (head === 'self') return [...currentModule, ...rest];
+    if (head === 'super') {
+      let parent = currentModule.slice(0, -1);
+      while (rest[0] === 'super') {
+        parent = parent.slice(0, -1);
+        rest.shift();
+      }
+      return [...parent, ...rest];
+    }
+
+    // 2018 edition: a bare path may start with a child module of the current module
+    if (head && this.resolveModuleFile(filePath, [...currentModule, head])) {
+      return [...currentModule, ...segments];
+    }
+
+    return null;
+  }
+
+  /**
+   * Module path of a file within its crate, e.g. src/net/server.rs -> ['net', 'server']
+   */
+  getModulePath(filePath: string): string[] {
+    const crateRoot = this.findCrateRoot(filePath);
+    if (!crateRoot) return [];
+
+    const relativePath = crateRoot.dir ? filePath.substring(crateRoot.dir.length + 1) : filePath;
+    const segments = relativePath.replace(/\.rs$/, '').split('/');
+    const last = segments[segments.length - 1];
+
+    if (segments.length === 1 && (last === 'lib' || last === 'main')) return [];
+    if (last === 'mod') segments.pop();
+    return segments;
+  }
+
+  /**
+   * Find the file for an absolute module path: the crate root, foo.rs or foo/mod.rs
+   */
+  resolveModuleFile(importingFile: string, modulePath: string[]): string | null {
+    const crateRoot = this.findCrateRoot(importingFile);
+    if (!crateRoot) return null;
+    if (modulePath.length === 0) return crateRoot.file;
+
+    const base = [crateRoot.dir, ...modulePath].filter(part => part.length > 0).join('/');
+    for (const candidate of [`${base}.rs`, `${base}/mod.rs`]) {
+      if (this.projectFiles.has(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Nearest enclosing directory holding lib.rs or main.rs
+   */
+  private findCrateRoot(filePath: string): { dir: string; file: string } | null {
+    let dir = dirname(filePath);
+
+    while (true) {
+      const normalizedDir = dir === '.' ? '' : dir;
+      for (const rootName of ['lib.rs', 'main.rs']) {
+        const candidate = normalizedDir ? `${normalizedDir}/${rootName}` : rootName;
+        if (this.projectFiles.has(candidate)) {
+          return { dir: normalizedDir, file: candidate };
+        }
+      }
+      if (!normalizedDir) return null;
+      dir = dirname(normalizedDir);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { extractScriptSource, getComponentName, getScriptBlocks, getTemplateComponentUsages } from './sfc-extractor.js';
+
+const vueComponent = `<template>
+  <!-- <Legacy/> -->
+  <KeepAlive>
+    <user-card :user="me" />
+  </KeepAlive>
+  <Form.Field name="x" /><div></div>
+</template>
+
+<script lang="ts">
+export default {};
+</script>
+<script setup lang="ts">
+import UserCard from './UserCard.vue';
+const title = '<NotATag>';
+</script>
+
+<style>
+.Card { color: red; }
+</style>
+`;
+
+describe('extractScriptSource', () => {
+  const source = extractScriptSource(vueComponent);
+
+  test('should keep script content at its original line and column', () => {
+    const originalLines = vueComponent.split('\n');
+    const sourceLines = source.split('\n');
+
+    expect(sourceLines).toHaveLength(originalLines.length);
+    expect(sourceLines[9]).toBe('export default {};');
+    expect(sourceLines[12]).toBe("import UserCard from './UserCard.vue';");
+  });
+
+  test('should blank out markup, styles and script tags', () => {
+    expect(source).not.toMatch(/template|KeepAlive|script|color/);
+    expect(source.length).toBe(vueComponent.length);
+  });
+});
+
+describe('getScriptBlocks', () => {
+  test('should report lines, lang and setup of each script block', () => {
+    expect(getScriptBlocks(vueComponent)).toEqual([
+      { startLine: 9, endLine: 11, lang: 'ts', setup: false },
+      { startLine: 12, endLine: 15, lang: 'ts', setup: true }
+    ]);
+  });
+});
+
+describe('getTemplateComponentUsages', () => {
+  test('should find PascalCase and kebab-case component tags outside scripts and comments', () => {
+    expect(getTemplateComponentUsages(vueComponent, 'vue')).toEqual([
+      { name: 'UserCard', tagName: 'user-card', line: 4 },
+      { name: 'Form', tagName: 'Form.Field', line: 6 }
+    ]);
+  });
+
+  test('should only treat PascalCase tags as Svelte components', () => {
+    const svelteComponent = '<script>\n  import Avatar from "./Avatar.svelte";\n</script>\n\n<svelte:window />\n<my-element />\n<Avatar />\n';
+    expect(getTemplateComponentUsages(svelteComponent, 'svelte')).toEqual([
+      { name: 'Avatar', tagName: 'Avatar', line: 7 }
+    ]);
+  });
+});
+
+describe('getComponentName', () => {
+  test('should name components after their file', () => {
+    expect(getComponentName('src/components/UserCard.vue')).toBe('UserCard');
+    expect(getComponentName('Counter.svelte')).toBe('Counter');
+  });
+});
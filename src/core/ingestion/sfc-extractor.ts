@@ -0,0 +1,293 @@
+/**
+ * Vue and Svelte single-file components: the `<script>` blocks are parsed with the
+ * TypeScript grammar in place (everything else blanked out, so rows and columns
+ * match the original file), props/emits are read from the script AST and component
+ * usages from the markup.
+ */
+import type Parser from 'web-tree-sitter';
+import type { GraphNode } from '../graph/types.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+
+const SCRIPT_BLOCK_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const NON_MARKUP_PATTERN = /<script\b[^>]*>[\s\S]*?<\/script\s*>|<style\b[^>]*>[\s\S]*?<\/style\s*>|<!--[\s\S]*?-->/gi;
+const TAG_PATTERN = /<([A-Za-z][\w.-]*)(?=[\s/>])/g;
+
+// Built-in Vue components that never resolve to project code
+const VUE_BUILTIN_COMPONENTS = new Set(['Transition', 'TransitionGroup', 'KeepAlive', 'Teleport', 'Suspense', 'Component', 'Slot', 'Template']);
+
+export type ComponentFramework = 'vue' | 'svelte';
+
+export interface ScriptBlock {
+  startLine: number;  // 1-based line of the opening tag, where the script content starts
+  endLine: number;    // Line of the closing tag
+  lang?: string;      // lang="ts"
+  setup: boolean;     // <script setup>
+}
+
+export interface ComponentUsage {
+  name: string;       // PascalCase name as it would be imported
+  tagName: string;    // Tag as written in the markup
+  line: number;
+}
+
+export interface ComponentMacros {
+  props: string[];
+  emits: string[];
+}
+
+export function getComponentFramework(filePath: string): ComponentFramework | null {
+  const lowerPath = filePath.toLowerCase();
+  if (lowerPath.endsWith('.vue')) return 'vue';
+  if (lowerPath.endsWith('.svelte')) return 'svelte';
+  return null;
+}
+
+export function isSingleFileComponent(filePath: string): boolean {
+  return getComponentFramework(filePath) !== null;
+}
+
+/**
+ * Component name as importers refer to it: the file name without extension
+ */
+export function getComponentName(filePath: string): string {
+  const fileName = filePath.substring(filePath.lastIndexOf('/') + 1);
+  return fileName.replace(/\.(vue|svelte)$/i, '');
+}
+
+export function getComponentNodeId(filePath: string): string {
+  return generateDeterministicId('component', filePath);
+}
+
+/**
+ * Node for the component a .vue / .svelte file declares, spanning the whole file
+ * @param root Root of the tree parsed from `extractScriptSource(content)`
+ */
+export function createComponentNode(filePath: string, content: string, root: Parser.SyntaxNode): GraphNode {
+  const framework = getComponentFramework(filePath)!;
+  const { props, emits } = getComponentMacros(root, framework);
+
+  return {
+    id: getComponentNodeId(filePath),
+    label: 'Component',
+    properties: {
+      name: getComponentName(filePath),
+      filePath,
+      startLine: 1,
+      endLine: 1 + countNewlines(content, 0, content.length),
+      framework,
+      props,
+      emits,
+      scriptSetup: getScriptBlocks(content).some(block => block.setup)
+    }
+  };
+}
+
+/**
+ * Replace every character outside `<script>` blocks with a space (newlines are kept),
+ * so the result parses as one script whose positions match the component file
+ */
+export function extractScriptSource(content: string): string {
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(SCRIPT_BLOCK_PATTERN)) {
+    const scriptStart = match.index! + match[0].indexOf('>') + 1;
+    source += blankOut(content.substring(lastIndex, scriptStart)) + match[2];
+    lastIndex = scriptStart + match[2].length;
+  }
+
+  return source + blankOut(content.substring(lastIndex));
+}
+
+export function getScriptBlocks(content: string): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+
+  for (const match of content.matchAll(SCRIPT_BLOCK_PATTERN)) {
+    const scriptStart = match.index! + match[0].indexOf('>') + 1;
+    const startLine = 1 + countNewlines(content, 0, scriptStart);
+    const lang = match[1].match(/\blang\s*=\s*["']([^"']+)["']/)?.[1];
+
+    blocks.push({
+      startLine,
+      endLine: startLine + (match[2].match(/\n/g)?.length ?? 0),
+      lang,
+      setup: /(^|\s)setup(\s|=|$)/.test(match[1])
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Components used in the markup: PascalCase tags (<UserCard/>, <Form.Field>) and, for
+ * Vue, kebab-case tags (<user-card>) converted to the PascalCase name they register as
+ */
+export function getTemplateComponentUsages(content: string, framework: ComponentFramework): ComponentUsage[] {
+  const markup = content.replace(NON_MARKUP_PATTERN, blankOut);
+  const usages: ComponentUsage[] = [];
+  let line = 1;
+  let lineIndex = 0;
+
+  for (const match of markup.matchAll(TAG_PATTERN)) {
+    const tagName = match[1];
+    line += countNewlines(markup, lineIndex, match.index!);
+    lineIndex = match.index!;
+
+    let name: string | null = null;
+
+    if (/^[A-Z]/.test(tagName)) {
+      name = tagName.split('.')[0];
+    } else if (framework === 'vue' && tagName.includes('-')) {
+      name = tagName.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+    }
+
+    if (!name || (framework === 'vue' && VUE_BUILTIN_COMPONENTS.has(name))) continue;
+    usages.push({ name, tagName, line });
+  }
+
+  return usages;
+}
+
+/**
+ * Props and emitted events declared by the component script: Vue `defineProps` /
+ * `defineEmits` (type-based or runtime declarations) and Options API `props` / `emits`,
+ * Svelte `export let` and `$props()`
+ */
+export function getComponentMacros(root: Parser.SyntaxNode, framework: ComponentFramework): ComponentMacros {
+  const props = new Set<string>();
+  const emits = new Set<string>();
+
+  if (framework === 'vue') {
+    for (const call of root.descendantsOfType('call_expression')) {
+      const functionName = call.childForFieldName('function')?.text;
+      if (functionName !== 'defineProps' && functionName !== 'defineEmits') continue;
+
+      const names = functionName === 'defineProps' ? props : emits;
+      const typeArgument = call.childForFieldName('type_arguments')?.firstNamedChild;
+      const runtimeArgument = call.childForFieldName('arguments')?.firstNamedChild;
+
+      if (typeArgument) {
+        collectTypeMemberNames(resolveLocalType(root, typeArgument), names);
+      } else if (runtimeArgument) {
+        collectRuntimeNames(runtimeArgument, names);
+      }
+    }
+
+    // Options API: export default { props: [...], emits: [...] }, optionally wrapped in defineComponent()
+    for (const statement of root.namedChildren) {
+      if (statement.type !== 'export_statement' || !statement.children.some(child => child.type === 'default')) continue;
+
+      let options = statement.childForFieldName('value');
+      if (options?.type === 'call_expression') options = options.childForFieldName('arguments')?.firstNamedChild ?? null;
+      if (options?.type !== 'object') continue;
+
+      for (const option of options.namedChildren) {
+        const key = option.type === 'pair' ? option.childForFieldName('key')?.text : undefined;
+        const value = option.childForFieldName('value');
+        if (key === 'props' && value) collectRuntimeNames(value, props);
+        if (key === 'emits' && value) collectRuntimeNames(value, emits);
+      }
+    }
+  } else {
+    for (const statement of root.namedChildren) {
+      // Svelte 4: export let title;
+      if (statement.type === 'export_statement') {
+        const declaration = statement.childForFieldName('declaration');
+        if (declaration?.type === 'lexical_declaration' && declaration.firstChild?.text === 'let') {
+          for (const declarator of declaration.namedChildren) {
+            const name = declarator.childForFieldName('name');
+            if (declarator.type === 'variable_declarator' && name?.type === 'identifier') props.add(name.text);
+          }
+        }
+      }
+
+      // Svelte 5: let { title, count = 0 } = $props();
+      if (statement.type === 'lexical_declaration') {
+        for (const declarator of statement.namedChildren) {
+          const pattern = declarator.childForFieldName('name');
+          if (declarator.childForFieldName('value')?.childForFieldName('function')?.text === '$props' && pattern?.type === 'object_pattern') {
+            collectPatternNames(pattern, props);
+          }
+        }
+      }
+    }
+  }
+
+  return { props: Array.from(props), emits: Array.from(emits) };
+}
+
+/**
+ * Follow `defineProps<Props>()` to the interface or type alias declared in the script
+ */
+function resolveLocalType(root: Parser.SyntaxNode, typeNode: Parser.SyntaxNode): Parser.SyntaxNode {
+  if (typeNode.type !== 'type_identifier') return typeNode;
+
+  for (const declaration of root.descendantsOfType(['interface_declaration', 'type_alias_declaration'])) {
+    if (declaration.childForFieldName('name')?.text !== typeNode.text) continue;
+    return declaration.childForFieldName('body') ?? declaration.childForFieldName('value') ?? typeNode;
+  }
+  return typeNode;
+}
+
+/**
+ * Member names of an object type: property signatures, and the literal event name of
+ * call signatures (`(e: 'change', id: number): void`)
+ */
+function collectTypeMemberNames(typeNode: Parser.SyntaxNode, names: Set<string>): void {
+  for (const member of typeNode.namedChildren) {
+    if (member.type === 'property_signature') {
+      const name = member.childForFieldName('name');
+      if (name) names.add(unquote(name.text));
+    } else if (member.type === 'call_signature') {
+      const eventParameter = member.childForFieldName('parameters')?.firstNamedChild;
+      const eventType = eventParameter?.childForFieldName('type')?.firstNamedChild;
+      if (eventType?.type === 'literal_type') names.add(unquote(eventType.text));
+    }
+  }
+}
+
+/**
+ * Names from runtime declarations: ['a', 'b'] or { a: String, b: { type: Number } }
+ */
+function collectRuntimeNames(argument: Parser.SyntaxNode, names: Set<string>): void {
+  for (const element of argument.namedChildren) {
+    if (argument.type === 'array' && element.type === 'string') {
+      names.add(unquote(element.text));
+    } else if (argument.type === 'object' && (element.type === 'pair' || element.type === 'method_definition')) {
+      const key = element.childForFieldName(element.type === 'pair' ? 'key' : 'name');
+      if (key) names.add(unquote(key.text));
+    } else if (argument.type === 'object' && element.type === 'shorthand_property_identifier') {
+      names.add(element.text);
+    }
+  }
+}
+
+function collectPatternNames(pattern: Parser.SyntaxNode, names: Set<string>): void {
+  for (const element of pattern.namedChildren) {
+    if (element.type === 'shorthand_property_identifier_pattern') {
+      names.add(element.text);
+    } else if (element.type === 'object_assignment_pattern') {
+      const left = element.childForFieldName('left');
+      if (left) names.add(left.text);
+    } else if (element.type === 'pair_pattern') {
+      const key = element.childForFieldName('key');
+      if (key) names.add(unquote(key.text));
+    }
+  }
+}
+
+function blankOut(text: string): string {
+  return text.replace(/[^\n]/g, ' ');
+}
+
+function countNewlines(text: string, from: number, to: number): number {
+  let count = 0;
+  for (let i = from; i < to; i++) {
+    if (text.charCodeAt(i) === 10) count++;
+  }
+  return count;
+}
+
+function unquote(text: string): string {
+  return text.replace(/^['"`]|['"`]$/g, '');
+}
@@ -0,0 +1,74 @@
+import { StructureProcessor } from './structure-processor.js';
+import { getPackageNodeId } from './dependency-manifest.js';
+import { SimpleKnowledgeGraph } from '../graph/graph.js';
+
+const WORKSPACE_FILES = new Map([
+  ['package.json', JSON.stringify({ name: 'acme', workspaces: ['packages/*'], devDependencies: { typescript: '^5.4.0' } })],
+  ['package-lock.json', JSON.stringify({
+    lockfileVersion: 3,
+    packages: {
+      '': { name: 'acme' },
+      'node_modules/typescript': { version: '5.4.5', dev: true },
+      'node_modules/express': { version: '4.19.2' },
+      'node_modules/accepts': { version: '1.3.8' },
+      'node_modules/@acme/shared': { link: true }
+    }
+  })],
+  ['packages/api/package.json', JSON.stringify({ name: '@acme/api', dependencies: { express: '^4.19.0', '@acme/shared': 'workspace:*' } })],
+  ['packages/api/index.ts', 'export {};\n'],
+  ['packages/shared/package.json', JSON.stringify({ name: '@acme/shared', dependencies: { express: '^4.18.0' } })]
+]);
+
+const buildStructure = async () => {
+  const graph = new SimpleKnowledgeGraph();
+  const filePaths = ['packages', 'packages/api', 'packages/shared', ...WORKSPACE_FILES.keys()];
+  await new StructureProcessor().process(graph, {
+    projectRoot: '',
+    projectName: 'acme',
+    filePaths,
+    fileContents: WORKSPACE_FILES
+  });
+  return graph;
+};
+
+/**
+ * DEPENDS_ON edges as `source -> package (dependencyType)`, sorted
+ */
+const dependencies = (graph: SimpleKnowledgeGraph) => graph.relationships
+  .filter(rel => rel.type === 'DEPENDS_ON')
+  .map(rel => {
+    const source = graph.nodes.find(node => node.id === rel.source)!;
+    const target = graph.nodes.find(node => node.id === rel.target)!;
+    return `${source.properties.name} -> ${target.properties.name} (${rel.properties.dependencyType})`;
+  })
+  .sort();
+
+describe('StructureProcessor - dependencies', () => {
+  test('should attribute dependencies to the workspace package that declares them', async () => {
+    const graph = await buildStructure();
+
+    expect(dependencies(graph)).toEqual([
+      '@acme/api -> express (direct)',
+      '@acme/shared -> express (direct)',
+      'acme -> accepts (transitive)',
+      'acme -> typescript (dev)'
+    ]);
+  });
+
+  test('should pin packages to their locked version', async () => {
+    const graph = await buildStructure();
+
+    const express = graph.nodes.find(node => node.id === getPackageNodeId('express', 'npm'));
+
+    expect(express?.properties.version).toBe('4.19.2');
+  });
+
+  test('should not give workspace members a third-party Package node', async () => {
+    const graph = await buildStructure();
+
+    const shared = graph.nodes.filter(node => node.label === 'Package' && node.properties.name === '@acme/shared');
+
+    expect(shared).toHaveLength(1);
+    expect(shared[0].properties.workspace).toBe(true);
+  });
+});
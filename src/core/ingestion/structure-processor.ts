@@ -2,11 +2,16 @@ import type { KnowledgeGraph } from '../graph/graph.ts';
 import type { GraphNode, GraphRelationship } from '../graph/types.ts';
 import { generateDeterministicId } from '../../lib/utils.ts';
 import { ignoreService } from '../../config/ignore-service.js';
+import { parseProjectReferences } from './csharp-resolver.ts';
+import { getPackageNodeId, parseDependencyManifest, type DependencyManifest, type DependencyType } from './dependency-manifest.ts';
+import { loadTestFileMatcher, type TestFileMatcher } from './test-detection.ts';
+import { detectWorkspacePackages, getWorkspacePackageNodeId } from './workspace-detection.ts';
 
 export interface StructureInput {
   projectRoot: string;
   projectName: string;
   filePaths: string[];  // Now includes ALL paths: files AND directories
+  fileContents?: Map<string, string>;  // Needed to read project files (.csproj) and dependency manifests
 }
 
 export class StructureProcessor {
@@ -24,7 +29,7 @@ export class StructureProcessor {
    * Now includes KuzuDB dual-write support
    */
   public async process(graph: KnowledgeGraph, input: StructureInput): Promise<void> {
-    const { projectRoot, projectName, filePaths } = input;
+    const { projectRoot, projectName, filePaths, fileContents } = input;
     
     try {
       // Reset statistics
@@ -34,6 +39,7 @@ export class StructureProcessor {
       
       // Create project root node
       const projectNode = this.createProjectNode(projectName, projectRoot);
+      this.nodeIdMap.set('', projectNode.id); // Empty path represents project root
       graph.addNode(projectNode);
       this.stats.nodesProcessed++;
       
@@ -55,8 +61,8 @@ export class StructureProcessor {
       const visibleFiles = files.filter(file => !this.shouldHideFile(file));
       const hiddenFilesCount = files.length - visibleFiles.length;
       
-      // Create file nodes only for visible files
-      const fileNodes = this.createFileNodes(visibleFiles);
+      // Create file nodes only for visible files, tagging test files
+      const fileNodes = this.createFileNodes(visibleFiles, await loadTestFileMatcher());
       for (const node of fileNodes) {
         graph.addNode(node);
         this.stats.nodesProcessed++;
@@ -65,6 +71,13 @@ export class StructureProcessor {
       // Establish CONTAINS relationships for visible structure only
       this.createContainsRelationships(graph, projectNode.id, visibleDirectories, visibleFiles);
       
+      // .NET solutions: one Project node per .csproj, linked by their ProjectReferences
+      if (fileContents) {
+        this.createDotNetProjects(graph, projectNode.id, visibleFiles, fileContents);
+        const workspacePackages = this.createWorkspacePackages(graph, projectNode.id, fileContents);
+        this.createDependencyPackages(graph, projectNode.id, visibleFiles, fileContents, workspacePackages);
+      }
+      
       const totalHidden = hiddenDirectoriesCount + hiddenFilesCount;
       console.log(`✅ Structure processing completed. Hidden ${totalHidden} items from display.`);
       
@@ -119,9 +132,9 @@ export class StructureProcessor {
     };
   }
 
-  private createProjectNode(projectName: string, projectRoot: string): GraphNode {
-    const id = generateDeterministicId('project', projectName);
-    this.nodeIdMap.set('', id); // Empty path represents project root
+  private createProjectNode(projectName: string, projectRoot: string, projectFile?: string): GraphNode {
+    // Sub-projects are keyed by their project file, so they never collide with the root
+    const id = generateDeterministicId('project', projectFile || projectName);
     
     return {
       id,
@@ -129,11 +142,224 @@ export class StructureProcessor {
       properties: {
         name: projectName,
         path: projectRoot,
+        ...(projectFile ? { projectFile } : {}),
         createdAt: new Date().toISOString()
       }
     };
   }
 
+  /**
+   * Create a Project node for every .csproj, contained by the root project, and
+   * DEPENDS_ON edges for the ProjectReferences between them
+   */
+  private createDotNetProjects(
+    graph: KnowledgeGraph,
+    rootProjectId: string,
+    files: string[],
+    fileContents: Map<string, string>
+  ): void {
+    const projectFiles = files.filter(file => file.endsWith('.csproj'));
+    const projectIds = new Map<string, string>();
+
+    for (const projectFile of projectFiles) {
+      const fileName = projectFile.split('/').pop() || projectFile;
+      const projectNode = this.createProjectNode(
+        fileName.replace(/\.csproj$/, ''),
+        this.getParentPath(projectFile),
+        projectFile
+      );
+      graph.addNode(projectNode);
+      projectIds.set(projectFile, projectNode.id);
+      this.stats.nodesProcessed++;
+
+      graph.addRelationship({
+        id: generateDeterministicId('contains', `${rootProjectId}-${projectNode.id}`),
+        type: 'CONTAINS',
+        source: rootProjectId,
+        target: projectNode.id,
+        properties: {}
+      });
+      this.stats.relationshipsProcessed++;
+    }
+
+    for (const projectFile of projectFiles) {
+      const sourceId = projectIds.get(projectFile)!;
+
+      for (const reference of parseProjectReferences(projectFile, fileContents.get(projectFile) || '')) {
+        const targetId = projectIds.get(reference);
+        if (!targetId || targetId === sourceId) continue;
+
+        graph.addRelationship({
+          id: generateDeterministicId('depends_on', `${sourceId}-${targetId}`),
+          type: 'DEPENDS_ON',
+          source: sourceId,
+          target: targetId,
+          properties: {
+            dependencyType: 'direct'
+          }
+        });
+        this.stats.relationshipsProcessed++;
+      }
+    }
+  }
+
+  /**
+   * Create a Package node for every workspace member (npm / yarn / pnpm workspaces, uv
+   * and rye Python workspaces) and git submodule, contained by the project and
+   * containing the member's root folder
+   * @returns Root folder of each workspace package by node id
+   */
+  private createWorkspacePackages(
+    graph: KnowledgeGraph,
+    projectId: string,
+    fileContents: Map<string, string>
+  ): Map<string, string> {
+    const packageDirs = new Map<string, string>();
+
+    for (const pkg of detectWorkspacePackages(fileContents)) {
+      const folderId = this.nodeIdMap.get(pkg.dir);
+      const packageId = getWorkspacePackageNodeId(pkg);
+      if (!folderId || packageDirs.has(packageId)) continue;
+
+      graph.addNode({
+        id: packageId,
+        label: 'Package',
+        properties: {
+          name: pkg.name,
+          path: pkg.dir,
+          ecosystem: pkg.ecosystem,
+          manifestPath: pkg.manifestPath,
+          workspace: true,
+          ...(pkg.version ? { version: pkg.version } : {})
+        }
+      });
+      packageDirs.set(packageId, pkg.dir);
+      this.stats.nodesProcessed++;
+
+      for (const [source, target] of [[projectId, packageId], [packageId, folderId]]) {
+        graph.addRelationship({
+          id: generateDeterministicId('contains', `${source}-${target}`),
+          type: 'CONTAINS',
+          source,
+          target,
+          properties: {}
+        });
+        this.stats.relationshipsProcessed++;
+      }
+    }
+
+    return packageDirs;
+  }
+
+  /**
+   * Create a Package node for every third-party dependency declared by the manifests
+   * (package.json, requirements*.txt, pyproject.toml, go.mod), with DEPENDS_ON edges
+   * from the workspace package whose folder holds the manifest, else from the project.
+   * Lockfiles pin the package versions and add transitive packages.
+   * Dependencies on workspace members are project code and get no Package node of their own.
+   */
+  private createDependencyPackages(
+    graph: KnowledgeGraph,
+    projectId: string,
+    files: string[],
+    fileContents: Map<string, string>,
+    workspacePackages: Map<string, string>
+  ): void {
+    const manifests = files
+      .map(file => parseDependencyManifest(file, fileContents.get(file) || ''))
+      .filter((manifest): manifest is DependencyManifest => manifest !== null)
+      .sort((a, b) => Number(a.lockfile) - Number(b.lockfile));
+
+    const packageNodes = new Map<string, GraphNode>();
+    const dependencyEdges = new Map<string, GraphRelationship>();  // By source and package
+    const dependedOnPackages = new Set<string>();
+    const lockedPackages = new Set<string>();
+    // A package declared both as a dependency and a dev dependency is a dependency
+    const precedence: Record<DependencyType, number> = { direct: 0, dev: 1, transitive: 2 };
+
+    for (const manifest of manifests) {
+      const sourceId = this.findWorkspacePackage(manifest.filePath, workspacePackages) ?? projectId;
+
+      for (const dependency of manifest.dependencies) {
+        const packageId = getPackageNodeId(dependency.name, manifest.ecosystem);
+        if (workspacePackages.has(packageId)) continue;
+
+        let packageNode = packageNodes.get(packageId);
+        if (!packageNode) {
+          packageNode = {
+            id: packageId,
+            label: 'Package',
+            properties: {
+              name: dependency.name,
+              ecosystem: manifest.ecosystem,
+              manifestPath: manifest.filePath
+            }
+          };
+          packageNodes.set(packageId, packageNode);
+        }
+
+        // The node carries the installed version when a lockfile pins it, else the declared one
+        if (manifest.lockfile && dependency.version && !lockedPackages.has(packageId)) {
+          packageNode.properties.version = dependency.version;
+          lockedPackages.add(packageId);
+        } else if (!packageNode.properties.version && dependency.version) {
+          packageNode.properties.version = dependency.version;
+        }
+
+        const edgeKey = `${sourceId}-${packageId}`;
+        const existingEdge = dependencyEdges.get(edgeKey);
+        if (existingEdge) {
+          const existingType = existingEdge.properties.dependencyType as DependencyType;
+          if (!manifest.lockfile && precedence[dependency.dependencyType] < precedence[existingType]) {
+            existingEdge.properties.dependencyType = dependency.dependencyType;
+          }
+          continue;
+        }
+
+        // A root lockfile also lists what the members declare: those stay the members' dependencies
+        if (manifest.lockfile && dependedOnPackages.has(packageId)) continue;
+
+        const relationship: GraphRelationship = {
+          id: generateDeterministicId('depends_on', edgeKey),
+          type: 'DEPENDS_ON',
+          source: sourceId,
+          target: packageId,
+          properties: {
+            dependencyType: dependency.dependencyType,
+            ...(dependency.version ? { version: dependency.version } : {})
+          }
+        };
+        dependencyEdges.set(edgeKey, relationship);
+        dependedOnPackages.add(packageId);
+      }
+    }
+
+    // Added once every manifest is merged, as the graph may write them through to KuzuDB
+    for (const packageNode of packageNodes.values()) {
+      graph.addNode(packageNode);
+      this.stats.nodesProcessed++;
+    }
+    for (const relationship of dependencyEdges.values()) {
+      graph.addRelationship(relationship);
+      this.stats.relationshipsProcessed++;
+    }
+  }
+
+  /**
+   * Workspace package holding a file, the innermost one when members are nested
+   */
+  private findWorkspacePackage(filePath: string, workspacePackages: Map<string, string>): string | null {
+    let ownerId: string | null = null;
+    let ownerDir = '';
+    for (const [packageId, dir] of workspacePackages) {
+      if (filePath.startsWith(`${dir}/`) && dir.length > ownerDir.length) {
+        ownerId = packageId;
+        ownerDir = dir;
+      }
+    }
+    return ownerId;
+  }
+
   /**
    * Create nodes for directories directly from discovered directory paths
    */
@@ -169,7 +395,7 @@ export class StructureProcessor {
   /**
    * Create nodes for files directly from discovered file paths
    */
-  private createFileNodes(filePaths: string[]): GraphNode[] {
+  private createFileNodes(filePaths: string[], isTestFile: TestFileMatcher): GraphNode[] {
     const nodes: GraphNode[] = [];
     
     for (const filePath of filePaths) {
@@ -189,6 +415,7 @@ export class StructureProcessor {
           path: filePath,
           filePath: filePath,  // For compatibility with existing code
           extension,
+          isTest: isTestFile(filePath),
           // Note: definitionCount will be set later by ParsingProcessor
           // language will be determined later by ParsingProcessor
         }
@@ -0,0 +1,40 @@
+import { createTestFileMatcher, globToRegExp } from './test-detection.js';
+
+describe('globToRegExp', () => {
+  test('should let **/ match zero or more folders', () => {
+    const regex = globToRegExp('**/test_*.py');
+
+    expect(regex.test('test_api.py')).toBe(true);
+    expect(regex.test('tests/unit/test_api.py')).toBe(true);
+    expect(regex.test('tests/api_test_helpers.py')).toBe(false);
+  });
+
+  test('should keep * within a single folder and expand {a,b} alternatives', () => {
+    const regex = globToRegExp('src/*.{test,spec}.ts');
+
+    expect(regex.test('src/user.test.ts')).toBe(true);
+    expect(regex.test('src/user.spec.ts')).toBe(true);
+    expect(regex.test('src/models/user.test.ts')).toBe(false);
+    expect(regex.test('src/user.test.tsx')).toBe(false);
+  });
+});
+
+describe('createTestFileMatcher', () => {
+  const isTestFile = createTestFileMatcher([
+    '**/*.{test,spec}.{js,ts,tsx}',
+    '**/__tests__/**/*.{js,ts,tsx}',
+    '**/*_test.py'
+  ]);
+
+  test('should match Jest, Vitest and pytest conventions', () => {
+    expect(isTestFile('src/lib/export.test.ts')).toBe(true);
+    expect(isTestFile('web/__tests__/setup/render.tsx')).toBe(true);
+    expect(isTestFile('./api/service_test.py')).toBe(true);
+  });
+
+  test('should not match source files', () => {
+    expect(isTestFile('src/lib/test-utils.ts')).toBe(false);
+    expect(isTestFile('src/latest.ts')).toBe(false);
+    expect(isTestFile('api/testing.py')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Test file detection from the `testing.filePatterns` globs in gitnexus.config.ts
+ * (Jest / Vitest `*.test.ts` and `__tests__/`, pytest `test_*.py` by default).
+ * Globs support `**` (any number of folders), `*`, `?` and `{a,b}` alternatives and
+ * are matched against repository-relative paths.
+ */
+import { configLoader } from '../../config/config-loader.ts';
+
+export type TestFileMatcher = (filePath: string) => boolean;
+
+/**
+ * Compile a glob into an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more folders, a trailing `**` everything below
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      const alternatives = glob.slice(i + 1, close).split(',').map(alternative => alternative.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+      source += `(?:${alternatives.join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Matcher for a set of test file globs
+ */
+export function createTestFileMatcher(patterns: string[]): TestFileMatcher {
+  const regexes = patterns.map(globToRegExp);
+  return (filePath: string) => {
+    const normalized = filePath.replace(/\\/g, '/').replace(/^\.?\/+/, '');
+    return regexes.some(regex => regex.test(normalized));
+  };
+}
+
+/**
+ * Matcher built from the configured test file patterns (matches nothing when test
+ * detection is disabled)
+ */
+export async function loadTestFileMatcher(): Promise<TestFileMatcher> {
+  const { testing } = await configLoader.loadConfig();
+  return testing.enabled ? createTestFileMatcher(testing.filePatterns) : () => false;
+}
@@ -0,0 +1,132 @@
+import { TestProcessor } from './test-processor.js';
+import { ingestFixture, findNode } from './ingestion-fixtures.js';
+import { configLoader } from '../../config/config-loader.js';
+import type { SimpleKnowledgeGraph } from '../graph/graph.js';
+
+const JEST_FILES = {
+  'src/math.ts': `export function total(items: number[]) {
+  return sumItems(items);
+}
+
+function sumItems(items: number[]) {
+  return items.length;
+}
+`,
+  'src/math.test.ts': `import { total } from './math';
+
+describe('math', () => {
+  describe('total', () => {
+    it('adds items', () => {
+      expect(total([1, 2])).toBe(3);
+    });
+  });
+
+  test('is empty without items', () => {
+    expect(total([])).toBe(0);
+  });
+});
+`
+};
+
+const PYTEST_FILES = {
+  'app/math.py': `def total(items):
+    return sum_items(items)
+
+
+def sum_items(items):
+    return 0
+`,
+  'tests/test_math.py': `from app.math import total
+
+
+def test_total():
+    assert total([1, 2]) == 3
+
+
+class TestTotal:
+    def test_empty(self):
+        assert total([]) == 0
+
+
+def helper():
+    return total([])
+`
+};
+
+const mapTests = async (files: Record<string, string>) => {
+  const { graph, astMap, functionTrie } = await ingestFixture(files);
+  await new TestProcessor().process(graph, astMap, functionTrie);
+  return graph;
+};
+
+/**
+ * Definitions a test covers as `name depth`, sorted
+ */
+const testedBy = (graph: SimpleKnowledgeGraph, testName: string, filePath: string) => {
+  const test = findNode(graph, 'Test', testName, filePath);
+  return graph.relationships
+    .filter(rel => rel.type === 'TESTS' && rel.source === test.id)
+    .map(rel => `${graph.nodes.find(node => node.id === rel.target)!.properties.name} ${rel.properties.depth}`)
+    .sort();
+};
+
+describe('TestProcessor - Jest', () => {
+  test('should create a Test node per case with its describe blocks as the suite', async () => {
+    const graph = await mapTests(JEST_FILES);
+
+    const tests = graph.nodes.filter(node => node.label === 'Test');
+
+    expect(tests.map(node => node.properties)).toEqual([
+      { name: 'adds items', suite: 'math > total', framework: 'jest', filePath: 'src/math.test.ts', startLine: 5, endLine: 7 },
+      { name: 'is empty without items', suite: 'math', framework: 'jest', filePath: 'src/math.test.ts', startLine: 10, endLine: 12 }
+    ]);
+  });
+
+  test('should link a case to the code it calls directly and transitively', async () => {
+    const graph = await mapTests(JEST_FILES);
+
+    expect(testedBy(graph, 'adds items', 'src/math.test.ts')).toEqual(['sumItems 2', 'total 1']);
+  });
+
+  test('should stop following calls after maxCallDepth hops', async () => {
+    const { testing } = await configLoader.loadConfig();
+    const depth = testing.maxCallDepth;
+    const steps = Array.from({ length: depth + 1 }, (_, index) => index < depth
+      ? `export function step${index}() {\n  return step${index + 1}();\n}\n`
+      : `export function step${index}() {\n  return ${index};\n}\n`
+    );
+
+    const graph = await mapTests({
+      'src/chain.ts': steps.join('\n'),
+      'src/chain.test.ts': `import { step0 } from './chain';
+
+test('walks the chain', () => {
+  expect(step0()).toBe(0);
+});
+`
+    });
+
+    const tested = testedBy(graph, 'walks the chain', 'src/chain.test.ts');
+
+    expect(tested).toHaveLength(depth);
+    expect(tested).toContain(`step${depth - 1} ${depth}`);
+    expect(tested.some(entry => entry.startsWith(`step${depth} `))).toBe(false);
+  });
+});
+
+describe('TestProcessor - pytest', () => {
+  test('should create Test nodes for test_ functions and methods of test classes', async () => {
+    const graph = await mapTests(PYTEST_FILES);
+
+    const tests = graph.nodes.filter(node => node.label === 'Test').map(node => [node.properties.name, node.properties.suite, node.properties.framework]);
+
+    expect(tests).toEqual([['test_total', '', 'pytest'], ['test_empty', 'TestTotal', 'pytest']]);
+  });
+
+  test('should link test functions to the code they call', async () => {
+    const graph = await mapTests(PYTEST_FILES);
+
+    expect(testedBy(graph, 'test_total', 'tests/test_math.py')).toEqual(['sum_items 2', 'total 1']);
+    expect(testedBy(graph, 'test_empty', 'tests/test_math.py')).toEqual(['sum_items 2', 'total 1']);
+  });
+});
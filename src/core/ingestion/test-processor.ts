@@ -0,0 +1,308 @@
+import type { KnowledgeGraph, GraphNode, GraphRelationship } from '../graph/types.ts';
+import type { ParsedAST } from './parsing-processor.ts';
+import type { FunctionRegistryTrie } from '../graph/trie.ts';
+import { configLoader } from '../../config/config-loader.ts';
+import { loadTestFileMatcher, type TestFileMatcher } from './test-detection.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+import Parser from 'web-tree-sitter';
+
+/**
+ * Test cases and the code they exercise. Every `it` / `test` case of a Jest or Vitest
+ * file and every pytest / unittest `test*` function becomes a Test node, with TESTS
+ * edges to the functions, methods and classes it reaches through CALLS and RENDERS (up to
+ * `testing.maxCallDepth` hops, skipping other test code). Changing any of those
+ * definitions selects the test (see `selectTestsForChanges` in graph/query.ts).
+ */
+
+type TestFramework = 'jest' | 'vitest' | 'pytest' | 'unittest';
+
+interface TestCase {
+  name: string;
+  suite: string[];          // Enclosing describe blocks / test class
+  framework: TestFramework;
+  node: Parser.SyntaxNode;  // it(...) call or test function definition
+}
+
+// describe('...', () => {...}) / it('...', () => {...}) and their .only / .skip / .each variants
+const SUITE_FUNCTIONS = new Set(['describe', 'context', 'suite']);
+const CASE_FUNCTIONS = new Set(['it', 'test', 'specify']);
+
+const TESTED_LABELS = new Set(['Function', 'Method', 'Class']);
+
+// Edges a test is followed along: calls, and components rendered with JSX
+const CALL_RELATIONSHIPS = new Set(['CALLS', 'RENDERS']);
+
+export class TestProcessor {
+  private isTestFile: TestFileMatcher = () => false;
+  private maxCallDepth = 5;
+  private nodeById = new Map<string, GraphNode>();
+  private callsBySource = new Map<string, GraphRelationship[]>();
+
+  private stats = {
+    tests: 0,
+    testsRelationships: 0
+  };
+
+  /**
+   * Extract test cases from the parsed test files and link them to the code they call
+   * @param graph The knowledge graph being built (CALLS must already be resolved)
+   * @param astMap Map of file paths to their parsed ASTs
+   * @param functionTrie Registry of parsed definitions
+   * @returns Updated graph with Test nodes and TESTS relationships
+   */
+  async process(
+    graph: KnowledgeGraph,
+    astMap: Map<string, ParsedAST>,
+    functionTrie: FunctionRegistryTrie
+  ): Promise<KnowledgeGraph> {
+    const { testing } = await configLoader.loadConfig();
+    if (!testing.enabled) return graph;
+
+    console.log('🧪 TestProcessor: Mapping tests to the code they exercise...');
+    this.isTestFile = await loadTestFileMatcher();
+    this.maxCallDepth = testing.maxCallDepth;
+    this.stats = { tests: 0, testsRelationships: 0 };
+    this.indexGraph(graph);
+
+    for (const [filePath, ast] of astMap) {
+      if (!ast.tree || !this.isTestFile(filePath)) continue;
+
+      try {
+        const testCases = filePath.endsWith('.py')
+          ? this.extractPythonTests(ast.tree.rootNode)
+          : this.extractJSTests(ast.tree.rootNode);
+
+        for (const testCase of testCases) {
+          this.addTestToGraph(graph, filePath, testCase, functionTrie);
+        }
+      } catch (error) {
+        console.warn(`⚠️ TestProcessor: failed to extract tests from ${filePath}:`, error);
+      }
+    }
+
+    console.log(`✅ TestProcessor: ${this.stats.tests} tests, ${this.stats.testsRelationships} TESTS relationships`);
+    return graph;
+  }
+
+  private indexGraph(graph: KnowledgeGraph): void {
+    this.nodeById = new Map(graph.nodes.map(node => [node.id, node]));
+    this.callsBySource = new Map();
+
+    for (const rel of graph.relationships) {
+      if (!CALL_RELATIONSHIPS.has(rel.type)) continue;
+      if (!this.callsBySource.has(rel.source)) this.callsBySource.set(rel.source, []);
+      this.callsBySource.get(rel.source)!.push(rel);
+    }
+  }
+
+  /**
+   * Jest / Vitest cases, with the titles of the describe blocks around them
+   */
+  private extractJSTests(rootNode: Parser.SyntaxNode): TestCase[] {
+    const testCases: TestCase[] = [];
+    const framework: TestFramework = /from\s+['"]vitest['"]/.test(rootNode.text) ? 'vitest' : 'jest';
+
+    const visit = (node: Parser.SyntaxNode, suite: string[]) => {
+      if (node.type === 'call_expression') {
+        const kind = this.getTestFunction(node);
+        const title = kind ? this.getTestTitle(node) : null;
+
+        if (kind === 'case' && title !== null) {
+          testCases.push({ name: title, suite, framework, node });
+          return;
+        }
+        if (kind === 'suite' && title !== null) {
+          suite = [...suite, title];
+        }
+      }
+
+      for (const child of node.namedChildren) {
+        visit(child, suite);
+      }
+    };
+
+    visit(rootNode, []);
+    return testCases;
+  }
+
+  /**
+   * Whether a call declares a suite or a case: describe(...), it.only(...), test.each(rows)(...)
+   */
+  private getTestFunction(call: Parser.SyntaxNode): 'suite' | 'case' | null {
+    let callee = call.childForFieldName('function');
+    if (callee?.type === 'call_expression') callee = callee.childForFieldName('function');
+    while (callee?.type === 'member_expression') callee = callee.childForFieldName('object');
+    if (callee?.type !== 'identifier') return null;
+
+    if (SUITE_FUNCTIONS.has(callee.text)) return 'suite';
+    if (CASE_FUNCTIONS.has(callee.text)) return 'case';
+    return null;
+  }
+
+  private getTestTitle(call: Parser.SyntaxNode): string | null {
+    const title = call.childForFieldName('arguments')?.firstNamedChild;
+    if (!title || (title.type !== 'string' && title.type !== 'template_string')) return null;
+    return title.text.slice(1, -1);
+  }
+
+  /**
+   * pytest `test_*` functions and `test*` methods of test classes
+   */
+  private extractPythonTests(rootNode: Parser.SyntaxNode): TestCase[] {
+    const testCases: TestCase[] = [];
+    const framework: TestFramework = /^\s*(import unittest|from unittest\b)/m.test(rootNode.text) ? 'unittest' : 'pytest';
+
+    for (const statement of rootNode.namedChildren) {
+      const definition = statement.type === 'decorated_definition' ? statement.childForFieldName('definition') : statement;
+      const name = definition?.childForFieldName('name')?.text || '';
+
+      if (definition?.type === 'function_definition' && name.startsWith('test')) {
+        testCases.push({ name, suite: [], framework, node: definition });
+      } else if (definition?.type === 'class_definition' && /^Test|Tests?$/.test(name)) {
+        for (const member of definition.childForFieldName('body')?.namedChildren || []) {
+          const method = member.type === 'decorated_definition' ? member.childForFieldName('definition') : member;
+          const methodName = method?.childForFieldName('name')?.text || '';
+          if (method?.type === 'function_definition' && methodName.startsWith('test')) {
+            testCases.push({ name: methodName, suite: [name], framework, node: method });
+          }
+        }
+      }
+    }
+
+    return testCases;
+  }
+
+  private addTestToGraph(graph: KnowledgeGraph, filePath: string, testCase: TestCase, functionTrie: FunctionRegistryTrie): void {
+    const startLine = testCase.node.startPosition.row + 1;
+    const endLine = testCase.node.endPosition.row + 1;
+    const suite = testCase.suite.join(' > ');
+
+    const testNode: GraphNode = {
+      id: generateDeterministicId('test', `${filePath}_${suite}_${testCase.name}_${startLine}`),
+      label: 'Test',
+      properties: {
+        name: testCase.name,
+        suite,
+        framework: testCase.framework,
+        filePath,
+        startLine,
+        endLine
+      }
+    };
+
+    graph.addNode(testNode);
+    this.stats.tests++;
+
+    const fileId = generateDeterministicId('file', filePath);
+    graph.addRelationship({
+      id: generateDeterministicId('defines', `${fileId}-${testNode.id}`),
+      type: 'DEFINES',
+      source: fileId,
+      target: testNode.id,
+      properties: {
+        filePath,
+        line_number: startLine
+      }
+    });
+
+    for (const [targetId, depth] of this.findTestedDefinitions(filePath, testCase, functionTrie)) {
+      graph.addRelationship({
+        id: generateDeterministicId('tests', `${testNode.id}-${targetId}`),
+        type: 'TESTS',
+        source: testNode.id,
+        target: targetId,
+        properties: {
+          depth
+        }
+      });
+      this.stats.testsRelationships++;
+    }
+  }
+
+  /**
+   * Definitions outside test files reachable from a test case through CALLS, with the
+   * number of hops to the nearest call
+   */
+  private findTestedDefinitions(filePath: string, testCase: TestCase, functionTrie: FunctionRegistryTrie): Map<string, number> {
+    const tested = new Map<string, number>();
+    const visited = new Set<string>();
+    let frontier = this.getDirectCalls(filePath, testCase, functionTrie);
+
+    for (let depth = 1; depth <= this.maxCallDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+
+      for (const targetId of frontier) {
+        if (visited.has(targetId)) continue;
+        visited.add(targetId);
+
+        const target = this.nodeById.get(targetId);
+        const targetFile = target?.properties.filePath as string | undefined;
+        if (target && TESTED_LABELS.has(target.label) && targetFile && !this.isTestFile(targetFile)) {
+          tested.set(targetId, depth);
+        }
+
+        for (const rel of this.callsBySource.get(targetId) || []) {
+          next.push(rel.target);
+        }
+      }
+
+      frontier = next;
+    }
+
+    return tested;
+  }
+
+  /**
+   * Targets of the calls made in a test case's body. Test functions (pytest) are
+   * callers in their own right; calls inside anonymous `it` callbacks are attributed
+   * to the file (or an enclosing function), so those are matched by called name
+   * within the test file's CALLS.
+   */
+  private getDirectCalls(filePath: string, testCase: TestCase, functionTrie: FunctionRegistryTrie): string[] {
+    const startLine = testCase.node.startPosition.row + 1;
+    const endLine = testCase.node.endPosition.row + 1;
+    const definitions = functionTrie.getDefinitionsInFile(filePath);
+
+    const testFunction = definitions.find(def => def.functionName === testCase.name && def.startLine === startLine);
+    if (testFunction) {
+      return (this.callsBySource.get(testFunction.nodeId) || []).map(rel => rel.target);
+    }
+
+    const calledNames = new Set(
+      testCase.node.descendantsOfType(['call_expression', 'new_expression', 'jsx_opening_element', 'jsx_self_closing_element'])
+        .map(call => this.getCalledName(call))
+        .filter((name): name is string => !!name)
+    );
+
+    const targets: string[] = [];
+    const enclosingCallers = [
+      generateDeterministicId('file', filePath),
+      ...definitions
+        .filter(def => (def.startLine ?? 0) <= startLine && (def.endLine ?? 0) >= endLine)
+        .map(def => def.nodeId)
+    ];
+    for (const callerId of enclosingCallers) {
+      for (const rel of this.callsBySource.get(callerId) || []) {
+        const calledName = rel.properties?.functionName ?? rel.properties?.componentName;
+        if (calledNames.has(calledName as string)) targets.push(rel.target);
+      }
+    }
+
+    // Helpers declared inside the case body call on its behalf
+    for (const def of definitions) {
+      if ((def.startLine ?? 0) >= startLine && (def.endLine ?? 0) <= endLine) {
+        targets.push(...(this.callsBySource.get(def.nodeId) || []).map(rel => rel.target));
+      }
+    }
+
+    return targets;
+  }
+
+  private getCalledName(call: Parser.SyntaxNode): string | null {
+    const field = call.type === 'new_expression' ? 'constructor' : call.type === 'call_expression' ? 'function' : 'name';
+    const callee = call.childForFieldName(field);
+    if (callee?.type === 'identifier') return callee.text;
+    if (callee?.type === 'member_expression') return callee.childForFieldName('property')?.text ?? null;
+    return null;
+  }
+}
@@ -244,13 +244,106 @@ export const PYTHON_QUERIES = {
 };
 
 export const JAVA_QUERIES = {
+  // Records are immutable classes as far as the graph is concerned
   classes: `
-    (class_declaration) @class
+    [(class_declaration) (record_declaration)] @class
   `,
   methods: `
     (method_declaration) @method
   `,
+  constructors: `
+    (constructor_declaration) @method
+  `,
+  interfaces: `
+    [(interface_declaration) (annotation_type_declaration)] @interface
+  `,
+  enums: `
+    (enum_declaration) @enum
+  `,
+};
+
+
+export const GO_QUERIES = {
+  functions: `
+    (function_declaration) @function
+  `,
+  // Methods declared with a receiver: func (s *Server) Start()
+  methods: `
+    (method_declaration) @method
+  `,
+  // Structs are the closest Go equivalent to classes
+  classes: `
+    (type_declaration
+      (type_spec
+        type: (struct_type)) @class)
+  `,
+  interfaces: `
+    (type_declaration
+      (type_spec
+        type: (interface_type)) @interface)
+  `,
+  types: `
+    (type_declaration
+      (type_spec
+        type: [(type_identifier) (qualified_type) (pointer_type) (slice_type)
+               (map_type) (array_type) (function_type) (channel_type) (generic_type)]) @type)
+  `,
+  // Package-level vars and consts only; locals are not graph-worthy
+  variables: `
+    (source_file
+      (var_declaration
+        (var_spec) @variable))
+  `,
+  constDeclarations: `
+    (source_file
+      (const_declaration
+        (const_spec) @const))
+  `,
+};
+
+export const RUST_QUERIES = {
+  // Free functions at crate or inline-module level; impl/trait functions are methods
+  functions: `
+    (source_file (function_item) @function)
+    (mod_item body: (declaration_list (function_item) @function))
+  `,
+  methods: `
+    (impl_item body: (declaration_list (function_item) @method))
+    (trait_item body: (declaration_list [(function_item) (function_signature_item)] @method))
+  `,
+  classes: `
+    [(struct_item) (union_item)] @class
+  `,
+  enums: `
+    (enum_item) @enum
+  `,
+  // Traits are Rust's interfaces
+  interfaces: `
+    (trait_item) @interface
+  `,
+  types: `
+    (type_item) @type
+  `,
+  constDeclarations: `
+    (source_file [(const_item) (static_item)] @const)
+  `,
+};
+
+export const CSHARP_QUERIES = {
+  // Structs and records are classes as far as the graph is concerned
+  classes: `
+    [(class_declaration) (struct_declaration) (record_declaration)] @class
+  `,
+  methods: `
+    (method_declaration) @method
+  `,
+  constructors: `
+    (constructor_declaration) @method
+  `,
   interfaces: `
     (interface_declaration) @interface
   `,
+  enums: `
+    (enum_declaration) @enum
+  `,
 };
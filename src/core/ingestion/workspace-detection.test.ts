@@ -0,0 +1,71 @@
+import { detectWorkspacePackages, getWorkspacePackageNodeId, WorkspaceIndex } from './workspace-detection.js';
+
+describe('detectWorkspacePackages', () => {
+  test('should read npm and yarn workspaces', () => {
+    const packages = detectWorkspacePackages(new Map([
+      ['package.json', JSON.stringify({ name: 'root', workspaces: ['packages/*'] })],
+      ['packages/ui/package.json', JSON.stringify({ name: '@acme/ui', version: '1.2.0' })],
+      ['packages/app/package.json', JSON.stringify({ private: true })],
+      ['tools/lint/package.json', JSON.stringify({ name: 'lint', workspaces: { packages: ['rules/*'] } })],
+      ['tools/lint/rules/core/package.json', JSON.stringify({ name: 'lint-core' })],
+      ['node_modules/left-pad/package.json', JSON.stringify({ name: 'left-pad' })]
+    ]));
+
+    expect(packages).toEqual([
+      { name: 'app', dir: 'packages/app', ecosystem: 'npm', manifestPath: 'packages/app/package.json' },
+      { name: '@acme/ui', dir: 'packages/ui', ecosystem: 'npm', manifestPath: 'packages/ui/package.json', version: '1.2.0' },
+      { name: 'lint-core', dir: 'tools/lint/rules/core', ecosystem: 'npm', manifestPath: 'tools/lint/rules/core/package.json' }
+    ]);
+  });
+
+  test('should read pnpm-workspace.yaml with exclusions', () => {
+    const packages = detectWorkspacePackages(new Map([
+      ['pnpm-workspace.yaml', "packages:\n  - 'apps/*'\n  - \"libs/**\"\n  - '!libs/legacy'\ncatalog:\n  react: ^18\n"],
+      ['apps/web/package.json', JSON.stringify({ name: 'web' })],
+      ['libs/core/package.json', JSON.stringify({ name: 'core' })],
+      ['libs/legacy/package.json', JSON.stringify({ name: 'legacy' })],
+      ['scripts/package.json', JSON.stringify({ name: 'scripts' })]
+    ]));
+
+    expect(packages.map(pkg => pkg.name)).toEqual(['web', 'core']);
+  });
+
+  test('should read pyproject workspace members', () => {
+    const packages = detectWorkspacePackages(new Map([
+      ['pyproject.toml', '[project]\nname = "mono"\n\n[tool.uv.workspace]\nmembers = ["libs/*"]\nexclude = ["libs/scratch"]\n'],
+      ['libs/billing/pyproject.toml', '[project]\nname = "acme-billing"\nversion = "0.3.0"\n'],
+      ['libs/scratch/pyproject.toml', '[project]\nname = "scratch"\n']
+    ]));
+
+    expect(packages).toEqual([
+      { name: 'acme-billing', dir: 'libs/billing', ecosystem: 'pypi', manifestPath: 'libs/billing/pyproject.toml', version: '0.3.0' }
+    ]);
+  });
+
+  test('should read git submodules', () => {
+    const packages = detectWorkspacePackages(new Map([
+      ['.gitmodules', '[submodule "vendor/protos"]\n\tpath = vendor/protos\n\turl = https://example.com/protos.git\n']
+    ]));
+
+    expect(packages).toEqual([
+      { name: 'vendor/protos', dir: 'vendor/protos', ecosystem: 'git', manifestPath: '.gitmodules' }
+    ]);
+    expect(getWorkspacePackageNodeId(packages[0])).not.toBe(getWorkspacePackageNodeId({ ...packages[0], dir: 'vendor/other' }));
+  });
+});
+
+describe('WorkspaceIndex', () => {
+  test('should find the innermost package of a file', () => {
+    const index = new WorkspaceIndex([
+      { id: 'outer', label: 'Package', properties: { name: 'outer', path: 'packages/outer', workspace: true } },
+      { id: 'inner', label: 'Package', properties: { name: 'inner', path: 'packages/outer/inner', workspace: true } },
+      { id: 'react', label: 'Package', properties: { name: 'react', ecosystem: 'npm' } }
+    ]);
+
+    expect(index.size).toBe(2);
+    expect(index.packageOf('packages/outer/inner/src/a.ts')?.id).toBe('inner');
+    expect(index.packageOf('packages/outer/src/a.ts')?.id).toBe('outer');
+    expect(index.packageOf('packages/outer-two/a.ts')).toBeNull();
+    expect(index.get('react')).toBeNull();
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Monorepo workspace members and git submodules. Workspace roots are read from
+ * package.json `workspaces` (npm / yarn), pnpm-workspace.yaml and the
+ * `[tool.<name>.workspace]` tables of pyproject.toml (uv, rye); their member globs
+ * are matched against the folders holding a package.json or pyproject.toml. Each
+ * member becomes a Package node and imports between members are labelled
+ * cross-package.
+ */
+import type { GraphNode } from '../graph/types.ts';
+import { generateDeterministicId } from '../../lib/utils.ts';
+import { getPackageNodeId, getTomlArray, quotedStrings, splitTomlTables } from './dependency-manifest.ts';
+import { globToRegExp } from './test-detection.ts';
+
+export type WorkspaceEcosystem = 'npm' | 'pypi' | 'git';
+
+export interface WorkspacePackage {
+  name: string;
+  dir: string;                 // Package root folder, project-relative
+  ecosystem: WorkspaceEcosystem;
+  manifestPath: string;        // package.json / pyproject.toml of the member, .gitmodules for submodules
+  version?: string;
+}
+
+const WORKSPACE_FILES = ['pnpm-workspace.yaml', '.gitmodules'];
+
+const basename = (filePath: string): string => filePath.substring(filePath.lastIndexOf('/') + 1);
+const dirname = (filePath: string): string => filePath.includes('/') ? filePath.substring(0, filePath.lastIndexOf('/')) : '';
+
+/**
+ * Files declaring workspaces that are not dependency manifests already
+ */
+export function isWorkspaceManifest(filePath: string): boolean {
+  return WORKSPACE_FILES.includes(basename(filePath));
+}
+
+/**
+ * Every workspace member and submodule of the repository, ordered by folder
+ */
+export function detectWorkspacePackages(fileContents: Map<string, string>): WorkspacePackage[] {
+  const npmDirs: string[] = [];
+  const pythonDirs: string[] = [];
+  for (const filePath of fileContents.keys()) {
+    if (filePath.includes('node_modules/')) continue;
+    if (basename(filePath) === 'package.json') npmDirs.push(dirname(filePath));
+    if (basename(filePath) === 'pyproject.toml') pythonDirs.push(dirname(filePath));
+  }
+
+  const packages = new Map<string, WorkspacePackage>();  // dir -> package, first declaration wins
+  const addMembers = (rootDir: string, globs: string[], ecosystem: 'npm' | 'pypi') => {
+    const candidates = ecosystem === 'npm' ? npmDirs : pythonDirs;
+    for (const dir of matchMembers(rootDir, globs, candidates)) {
+      if (packages.has(dir)) continue;
+      const manifestPath = dir ? `${dir}/${ecosystem === 'npm' ? 'package.json' : 'pyproject.toml'}` : '';
+      packages.set(dir, readMemberManifest(dir, manifestPath, fileContents.get(manifestPath) || '', ecosystem));
+    }
+  };
+
+  for (const [filePath, content] of fileContents) {
+    if (filePath.includes('node_modules/')) continue;
+    const fileName = basename(filePath);
+    const rootDir = dirname(filePath);
+
+    try {
+      if (fileName === 'package.json') {
+        const workspaces = JSON.parse(content).workspaces;
+        // npm / yarn: ["packages/*"], yarn classic also { packages: [...], nohoist: [...] }
+        const globs = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+        if (Array.isArray(globs)) addMembers(rootDir, globs.filter((glob): glob is string => typeof glob === 'string'), 'npm');
+      } else if (fileName === 'pnpm-workspace.yaml') {
+        addMembers(rootDir, parsePnpmWorkspace(content), 'npm');
+      } else if (fileName === 'pyproject.toml') {
+        for (const [tableName, body] of splitTomlTables(content)) {
+          if (!/^tool\.[\w-]+\.workspace$/.test(tableName)) continue;
+          const excludes = getTomlArray(body, 'exclude').map(glob => `!${glob}`);
+          addMembers(rootDir, [...getTomlArray(body, 'members'), ...excludes], 'pypi');
+        }
+      } else if (fileName === '.gitmodules') {
+        for (const submodule of parseGitModules(content)) {
+          const dir = [rootDir, submodule.path].filter(Boolean).join('/');
+          if (!packages.has(dir)) packages.set(dir, { name: submodule.name, dir, ecosystem: 'git', manifestPath: filePath });
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not read workspace declaration ${filePath}:`, error);
+    }
+  }
+
+  return Array.from(packages.values()).sort((a, b) => a.dir.localeCompare(b.dir));
+}
+
+/**
+ * Node id of a workspace package: the same as a third-party Package of that name, so a
+ * member another member declares as a dependency is one node
+ */
+export function getWorkspacePackageNodeId(pkg: WorkspacePackage): string {
+  return pkg.ecosystem === 'git'
+    ? generateDeterministicId('package', `git:${pkg.dir}`)
+    : getPackageNodeId(pkg.name, pkg.ecosystem);
+}
+
+/**
+ * Folders matched by member globs relative to the workspace root; `!` globs exclude
+ */
+function matchMembers(rootDir: string, globs: string[], candidateDirs: string[]): string[] {
+  const toRegExp = (glob: string) => {
+    const relative = glob.replace(/^\.\//, '').replace(/\/+$/, '');
+    return globToRegExp(rootDir ? `${rootDir}/${relative}` : relative);
+  };
+  const includes = globs.filter(glob => !glob.startsWith('!')).map(toRegExp);
+  const excludes = globs.filter(glob => glob.startsWith('!')).map(glob => toRegExp(glob.substring(1)));
+
+  return candidateDirs.filter(dir =>
+    dir !== rootDir &&
+    includes.some(regex => regex.test(dir)) &&
+    !excludes.some(regex => regex.test(dir) || regex.test(`${dir}/`))
+  );
+}
+
+function readMemberManifest(dir: string, manifestPath: string, content: string, ecosystem: 'npm' | 'pypi'): WorkspacePackage {
+  let name: string | undefined;
+  let version: string | undefined;
+
+  try {
+    if (ecosystem === 'npm') {
+      const manifest = JSON.parse(content);
+      if (typeof manifest.name === 'string') name = manifest.name;
+      if (typeof manifest.version === 'string') version = manifest.version;
+    } else {
+      const tables = splitTomlTables(content);
+      const body = tables.get('project') || tables.get('tool.poetry') || '';
+      name = body.match(/^\s*name\s*=\s*["']([^"']+)["']/m)?.[1];
+      version = body.match(/^\s*version\s*=\s*["']([^"']+)["']/m)?.[1];
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not parse workspace member manifest ${manifestPath}:`, error);
+  }
+
+  // Unnamed members (private apps) are known by their folder
+  return { name: name || basename(dir), dir, ecosystem, manifestPath, ...(version ? { version } : {}) };
+}
+
+/**
+ * `packages:` list of pnpm-workspace.yaml, block (`- 'apps/*'`) or flow (`['apps/*']`) style
+ */
+function parsePnpmWorkspace(content: string): string[] {
+  const globs: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split('\n')) {
+    const key = line.match(/^packages\s*:\s*(.*)$/);
+    if (key) {
+      if (key[1].startsWith('[')) {
+        globs.push(...quotedStrings(key[1]));
+      } else {
+        inPackages = true;
+      }
+      continue;
+    }
+    if (!inPackages) continue;
+
+    const item = line.match(/^\s*-\s*(?:"([^"]*)"|'([^']*)'|([^\s#]+))/);
+    if (item) {
+      globs.push(item[1] ?? item[2] ?? item[3]);
+    } else if (/^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+
+  return globs;
+}
+
+/**
+ * `[submodule "name"]` sections of .gitmodules with their `path`
+ */
+function parseGitModules(content: string): Array<{ name: string; path: string }> {
+  const submodules: Array<{ name: string; path: string }> = [];
+
+  for (const section of content.split(/^\s*\[submodule\s+/m).slice(1)) {
+    const name = section.match(/^"([^"]+)"/)?.[1];
+    const path = section.match(/^\s*path\s*=\s*(.+?)\s*$/m)?.[1];
+    if (name && path) submodules.push({ name, path: path.replace(/\/+$/, '') });
+  }
+
+  return submodules;
+}
+
+/**
+ * Workspace Package nodes of the graph by folder, for finding the package a file belongs to
+ */
+export class WorkspaceIndex {
+  private packages: GraphNode[];  // Deepest folder first, so nested packages win
+
+  constructor(nodes: GraphNode[]) {
+    this.packages = nodes
+      .filter(node => node.label === 'Package' && node.properties.workspace === true && typeof node.properties.path === 'string')
+      .sort((a, b) => String(b.properties.path).length - String(a.properties.path).length);
+  }
+
+  /**
+   * Workspace Package node by id
+   */
+  public get(packageId: string): GraphNode | null {
+    return this.packages.find(pkg => pkg.id === packageId) || null;
+  }
+
+  public get size(): number {
+    return this.packages.length;
+  }
+
+  /**
+   * Workspace package containing a file, or null for files outside every package
+   */
+  public packageOf(filePath: string): GraphNode | null {
+    return this.packages.find(pkg => filePath.startsWith(`${pkg.properties.path}/`)) || null;
+  }
+}
@@ -0,0 +1,20 @@
+import { hasParameters, toParameterizedPropertyMap } from './cypher-parameters.js';
+
+describe('toParameterizedPropertyMap', () => {
+  test('should reference every value as a parameter', () => {
+    const map = toParameterizedPropertyMap({ id: "File:it's.ts", name: "it's.ts", startLine: 3, exported: true, missing: undefined, empty: null });
+
+    expect(map.pattern).toBe('{id: $id, name: $name, startLine: $startLine, exported: $exported}');
+    expect(map.params).toEqual({ id: "File:it's.ts", name: "it's.ts", startLine: 3, exported: true });
+  });
+
+  test('should prefix parameter names and serialize nested objects', () => {
+    const map = toParameterizedPropertyMap({ tags: ['a', 'b'], options: { strict: true } }, 'r_');
+
+    expect(map.pattern).toBe('{tags: $r_tags, options: $r_options}');
+    expect(map.params).toEqual({ r_tags: ['a', 'b'], r_options: '{"strict":true}' });
+    expect(hasParameters(map.params)).toBe(true);
+    expect(toParameterizedPropertyMap({})).toEqual({ pattern: '', params: {} });
+    expect(hasParameters({})).toBe(false);
+  });
+});
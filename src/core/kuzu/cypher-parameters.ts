@@ -0,0 +1,48 @@
+/**
+ * Helpers for building parameterized Cypher statements
+ *
+ * Values are never spliced into the query text: statements reference `$name`
+ * parameters and the values travel separately to a prepared statement, so quotes
+ * and backslashes in file paths or names cannot break (or change) a query.
+ */
+
+export type CypherParameters = Record<string, unknown>;
+
+export interface ParameterizedPropertyMap {
+  pattern: string;             // `{id: $id, name: $name}`, empty without properties
+  params: CypherParameters;
+}
+
+/**
+ * Property map pattern for MATCH / MERGE / CREATE whose values are parameters.
+ * Null and undefined properties are left out; `prefix` keeps the parameter names of
+ * several maps in one statement apart.
+ */
+export function toParameterizedPropertyMap(properties: Record<string, unknown>, prefix = ''): ParameterizedPropertyMap {
+  const entries: string[] = [];
+  const params: CypherParameters = {};
+
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === null || value === undefined) continue;
+    const name = `${prefix}${key}`;
+    entries.push(`${key}: $${name}`);
+    params[name] = toParameterValue(value);
+  }
+
+  return { pattern: entries.length > 0 ? `{${entries.join(', ')}}` : '', params };
+}
+
+/**
+ * Value as Kuzu binds it: primitives and lists as they are, anything else as JSON
+ */
+export function toParameterValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.map(toParameterValue);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+export function hasParameters(params?: CypherParameters): params is CypherParameters {
+  return params !== undefined && Object.keys(params).length > 0;
+}
@@ -0,0 +1,47 @@
+import { KuzuConnectionPool } from './kuzu-connection-pool.js';
+
+function createFakeConnection(id: number) {
+  return { id, query: jest.fn(), close: jest.fn() };
+}
+
+describe('KuzuConnectionPool', () => {
+  test('should hand a released connection to the longest waiting caller', async () => {
+    let created = 0;
+    const pool = new KuzuConnectionPool(() => createFakeConnection(++created), { maxConnections: 2 });
+
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+    expect(first).not.toBe(second);
+
+    const waiting = [pool.acquire(), pool.acquire()];
+    expect(pool.getStats()).toEqual({ total: 2, idle: 0, inUse: 2, waiting: 2 });
+
+    pool.release(second);
+    pool.release(first);
+    await expect(Promise.all(waiting)).resolves.toEqual([second, first]);
+    expect(created).toBe(2);
+
+    const [third, fourth] = await Promise.all(waiting);
+    pool.release(third);
+    pool.release(fourth);
+    await expect(pool.withConnection(async connection => connection)).resolves.toBe(fourth);
+    expect(pool.getStats()).toEqual({ total: 2, idle: 2, inUse: 0, waiting: 0 });
+  });
+
+  test('should time out waiting callers and close its connections', async () => {
+    const connection = createFakeConnection(1);
+    const pool = new KuzuConnectionPool(() => connection, { maxConnections: 1, acquireTimeout: 10 });
+
+    await pool.acquire();
+    await expect(pool.acquire()).rejects.toThrow('Timed out after 10ms');
+
+    const waiting = pool.acquire();
+    await pool.close();
+    await expect(waiting).rejects.toThrow('closed');
+    expect(connection.close).not.toHaveBeenCalled();
+
+    pool.release(connection);
+    expect(connection.close).toHaveBeenCalledTimes(1);
+    await expect(pool.acquire()).rejects.toThrow('closed');
+  });
+});
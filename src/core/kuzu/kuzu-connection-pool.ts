@@ -0,0 +1,153 @@
+/**
+ * KuzuDB Connection Pool
+ *
+ * kuzu-wasm runs every statement of a connection in order, and a transaction
+ * belongs to the connection that began it. With a single shared connection, UI
+ * queries queue behind ingestion writes and would even run inside an open write
+ * transaction. The pool hands each caller its own connection to the same
+ * database: a transaction keeps one leased until it ends while reads go through
+ * the others, seeing the last committed state.
+ */
+
+/**
+ * A kuzu-wasm Connection as far as the pool is concerned; statements run through
+ * the runner of whoever owns the pool
+ */
+export interface KuzuConnection {
+  query(cypher: string): unknown;
+  close(): unknown;
+}
+
+export interface KuzuConnectionPoolOptions {
+  maxConnections?: number;
+  acquireTimeout?: number; // Milliseconds to wait for a free connection
+}
+
+export interface KuzuConnectionPoolStats {
+  total: number;
+  idle: number;
+  inUse: number;
+  waiting: number;
+}
+
+interface Waiter {
+  resolve: (connection: KuzuConnection) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class KuzuConnectionPool {
+  private idle: KuzuConnection[] = [];
+  private inUse = new Set<KuzuConnection>();
+  private waiters: Waiter[] = [];
+  private creating = 0;
+  private closed = false;
+  private maxConnections: number;
+  private acquireTimeout: number;
+
+  constructor(
+    private createConnection: () => KuzuConnection | Promise<KuzuConnection>,
+    options: KuzuConnectionPoolOptions = {}
+  ) {
+    this.maxConnections = Math.max(1, options.maxConnections ?? 4);
+    this.acquireTimeout = options.acquireTimeout ?? 30000;
+  }
+
+  /**
+   * Lease a connection: an idle one, a new one while below the limit, or the next
+   * one released. Every acquire must be paired with release().
+   */
+  async acquire(): Promise<KuzuConnection> {
+    if (this.closed) {
+      throw new Error('KuzuDB connection pool is closed');
+    }
+
+    const connection = this.idle.pop();
+    if (connection) {
+      this.inUse.add(connection);
+      return connection;
+    }
+
+    if (this.inUse.size + this.creating < this.maxConnections) {
+      this.creating++;
+      try {
+        const created = await this.createConnection();
+        this.inUse.add(created);
+        return created;
+      } finally {
+        this.creating--;
+      }
+    }
+
+    return new Promise<KuzuConnection>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(other => other !== waiter);
+          reject(new Error(`Timed out after ${this.acquireTimeout}ms waiting for a KuzuDB connection (${this.maxConnections} in use)`));
+        }, this.acquireTimeout)
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Return a leased connection, handing it straight to the longest waiting caller
+   */
+  release(connection: KuzuConnection): void {
+    if (!this.inUse.has(connection)) return;
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(connection);
+      return;
+    }
+
+    this.inUse.delete(connection);
+    if (this.closed) {
+      void connection.close();
+    } else {
+      this.idle.push(connection);
+    }
+  }
+
+  /**
+   * Run `task` with a leased connection, releasing it however the task ends
+   */
+  async withConnection<T>(task: (connection: KuzuConnection) => Promise<T>): Promise<T> {
+    const connection = await this.acquire();
+    try {
+      return await task(connection);
+    } finally {
+      this.release(connection);
+    }
+  }
+
+  /**
+   * Close idle connections now and leased ones when they are released
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('KuzuDB connection pool is closed'));
+    }
+    this.waiters = [];
+
+    const idle = this.idle;
+    this.idle = [];
+    await Promise.all(idle.map(connection => connection.close()));
+  }
+
+  getStats(): KuzuConnectionPoolStats {
+    return {
+      total: this.idle.length + this.inUse.size,
+      idle: this.idle.length,
+      inUse: this.inUse.size,
+      waiting: this.waiters.length
+    };
+  }
+}
@@ -6,6 +6,12 @@
  * graph database operations.
  */
 
+import type { CypherParameters } from './cypher-parameters.ts';
+import type { KuzuTransaction } from './kuzu-transaction-manager.ts';
+import { hasParameters, toParameterizedPropertyMap } from './cypher-parameters.ts';
+import { KuzuConnectionPool } from './kuzu-connection-pool.ts';
+import { KuzuTransactionManager } from './kuzu-transaction-manager.ts';
+
 export interface DatabaseInfo {
   version: string;
   nodeTableCount: number;
@@ -75,9 +81,17 @@ export interface KuzuInstance {
   ): Promise<void>;
 
   /**
-   * Execute a Cypher query and return results
+   * Execute a Cypher query and return results. With `params`, the query is run as a
+   * prepared statement and its `$name` placeholders are bound to those values.
    */
-  executeQuery(cypher: string): Promise<QueryResult>;
+  executeQuery(cypher: string, params?: CypherParameters): Promise<QueryResult>;
+
+  /**
+   * Run `task` in an explicit transaction on a pooled connection of its own: committed
+   * when the task resolves, rolled back when it throws. Only statements run through
+   * the transaction belong to it; executeQuery keeps using the other connections.
+   */
+  runInTransaction<T>(task: (transaction: KuzuTransaction) => Promise<T>): Promise<T>;
 
   /**
    * Get database information and statistics
@@ -114,9 +128,16 @@ interface KuzuWASMDatabase {
 
 interface KuzuWASMConnection {
   query(cypher: string): KuzuWASMQueryResult;
+  prepare(cypher: string): KuzuWASMPreparedStatement;
+  execute(statement: KuzuWASMPreparedStatement, params: CypherParameters): KuzuWASMQueryResult;
   close(): void;
 }
 
+interface KuzuWASMPreparedStatement {
+  isSuccess(): boolean;
+  getErrorMessage(): string;
+}
+
 interface KuzuWASMQueryResult {
   hasNext(): boolean;
   getNext(): any[];
@@ -130,7 +151,8 @@ interface KuzuWASMQueryResult {
 class KuzuInstanceImpl implements KuzuInstance {
   private wasmModule: KuzuWASMModule | null = null;
   private database: KuzuWASMDatabase | null = null;
-  private connection: KuzuWASMConnection | null = null;
+  private pool: KuzuConnectionPool | null = null;
+  private transactions: KuzuTransactionManager | null = null;
   private databasePath: string = '';
   private ready: boolean = false;
 
@@ -146,7 +168,15 @@ class KuzuInstanceImpl implements KuzuInstance {
 
       this.databasePath = path;
       this.database = new this.wasmModule!.Database(path);
-      this.connection = new this.wasmModule!.Connection(this.database);
+      const database = this.database;
+      this.pool = new KuzuConnectionPool(() => new this.wasmModule!.Connection(database), { maxConnections: 4 });
+      this.transactions = new KuzuTransactionManager(this.pool, async (connection, cypher, params) => {
+        const result = await this.runOnConnection(connection as KuzuWASMConnection, cypher, params);
+        if (result.error) {
+          throw new Error(result.error);
+        }
+        return result;
+      });
       this.ready = true;
 
       console.log(`✅ KuzuDB database created at: ${path}`);
@@ -158,9 +188,10 @@ class KuzuInstanceImpl implements KuzuInstance {
 
   async closeDatabase(): Promise<void> {
     try {
-      if (this.connection) {
-        this.connection.close();
-        this.connection = null;
+      if (this.pool) {
+        await this.pool.close();
+        this.pool = null;
+        this.transactions = null;
       }
 
       if (this.database) {
@@ -179,7 +210,7 @@ class KuzuInstanceImpl implements KuzuInstance {
   }
 
   async createNodeTable(tableName: string, schema: NodeSchema): Promise<void> {
-    if (!this.connection) {
+    if (!this.pool) {
       throw new Error('Database not initialized. Call createDatabase() first.');
     }
 
@@ -206,7 +237,7 @@ class KuzuInstanceImpl implements KuzuInstance {
     toTable: string, 
     schema: RelationshipSchema = {}
   ): Promise<void> {
-    if (!this.connection) {
+    if (!this.pool) {
       throw new Error('Database not initialized. Call createDatabase() first.');
     }
 
@@ -229,19 +260,16 @@ class KuzuInstanceImpl implements KuzuInstance {
   }
 
   async insertNode(tableName: string, data: Record<string, any>): Promise<void> {
-    if (!this.connection) {
+    if (!this.pool) {
       throw new Error('Database not initialized. Call createDatabase() first.');
     }
 
     try {
       // Build CREATE statement for node
-      const properties = Object.entries(data)
-        .map(([key, value]) => `${key}: ${this.formatValue(value)}`)
-        .join(', ');
-      
-      const cypher = `CREATE (n:${tableName} {${properties}})`;
+      const properties = toParameterizedPropertyMap(data);
+      const cypher = `CREATE (n:${tableName} ${properties.pattern})`;
 
-      await this.executeQuery(cypher);
+      await this.executeQuery(cypher, properties.params);
     } catch (error) {
       console.error(`❌ Failed to insert node into ${tableName}:`, error);
       throw new Error(`Failed to insert node: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -254,40 +282,60 @@ class KuzuInstanceImpl implements KuzuInstance {
     targetId: string, 
     data: Record<string, any> = {}
   ): Promise<void> {
-    if (!this.connection) {
+    if (!this.pool) {
       throw new Error('Database not initialized. Call createDatabase() first.');
     }
 
     try {
       // Build CREATE statement for relationship
-      const properties = Object.entries(data).length > 0
-        ? ' {' + Object.entries(data)
-            .map(([key, value]) => `${key}: ${this.formatValue(value)}`)
-            .join(', ') + '}'
-        : '';
+      const properties = toParameterizedPropertyMap(data, 'r_');
       
       const cypher = `
         MATCH (a), (b) 
-        WHERE a.id = ${this.formatValue(sourceId)} AND b.id = ${this.formatValue(targetId)}
-        CREATE (a)-[r:${tableName}${properties}]->(b)
+        WHERE a.id = $sourceId AND b.id = $targetId
+        CREATE (a)-[r:${tableName} ${properties.pattern}]->(b)
       `;
 
-      await this.executeQuery(cypher);
+      await this.executeQuery(cypher, { sourceId, targetId, ...properties.params });
     } catch (error) {
       console.error(`❌ Failed to insert relationship ${tableName}:`, error);
       throw new Error(`Failed to insert relationship: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async executeQuery(cypher: string): Promise<QueryResult> {
-    if (!this.connection) {
+  async executeQuery(cypher: string, params?: CypherParameters): Promise<QueryResult> {
+    if (!this.pool) {
+      throw new Error('Database not initialized. Call createDatabase() first.');
+    }
+
+    return this.pool.withConnection(connection => this.runOnConnection(connection as KuzuWASMConnection, cypher, params));
+  }
+
+  async runInTransaction<T>(task: (transaction: KuzuTransaction) => Promise<T>): Promise<T> {
+    if (!this.transactions) {
       throw new Error('Database not initialized. Call createDatabase() first.');
     }
 
+    return this.transactions.runInTransaction(task);
+  }
+
+  /**
+   * Run one statement on a given connection
+   */
+  private async runOnConnection(connection: KuzuWASMConnection, cypher: string, params?: CypherParameters): Promise<QueryResult> {
     const startTime = performance.now();
 
     try {
-      const result = this.connection.query(cypher);
+      let result: KuzuWASMQueryResult;
+      if (hasParameters(params)) {
+        const statement = connection.prepare(cypher);
+        if (!statement.isSuccess()) {
+          throw new Error(statement.getErrorMessage());
+        }
+        result = connection.execute(statement, params);
+      } else {
+        result = connection.query(cypher);
+      }
       const columns = result.getColumnNames();
       const rows: any[][] = [];
 
@@ -329,7 +377,7 @@ class KuzuInstanceImpl implements KuzuInstance {
   }
 
   async getDatabaseInfo(): Promise<DatabaseInfo> {
-    if (!this.connection) {
+    if (!this.pool) {
       throw new Error('Database not initialized. Call createDatabase() first.');
     }
 
@@ -376,7 +424,7 @@ class KuzuInstanceImpl implements KuzuInstance {
   }
 
   isReady(): boolean {
-    return this.ready && this.connection !== null;
+    return this.ready && this.pool !== null;
   }
 
   getDatabasePath(): string {
@@ -389,22 +437,6 @@ class KuzuInstanceImpl implements KuzuInstance {
     throw new Error('FS API not available in WASM loader fallback. Use kuzu-npm-integration instead.');
   }
 
-  /**
-   * Format a value for use in Cypher queries
-   */
-  private formatValue(value: any): string {
-    if (typeof value === 'string') {
-      return `'${value.replace(/'/g, "\\'")}'`;
-    } else if (typeof value === 'number' || typeof value === 'boolean') {
-      return String(value);
-    } else if (Array.isArray(value)) {
-      return '[' + value.map(v => this.formatValue(v)).join(', ') + ']';
-    } else if (value === null || value === undefined) {
-      return 'null';
-    } else {
-      return `'${String(value).replace(/'/g, "\\'")}'`;
-    }
-  }
 }
 
 /**
@@ -530,6 +562,21 @@ async function loadKuzuWASM(): Promise<KuzuWASMModule> {
             close: () => {}
           };
         }
+
+        prepare(cypher: string): KuzuWASMPreparedStatement {
+          console.log(`Preparing query: ${cypher}`);
+          // TODO: Prepare actual WASM statement
+          return {
+            isSuccess: () => true,
+            getErrorMessage: () => ''
+          };
+        }
+
+        execute(statement: KuzuWASMPreparedStatement, params: CypherParameters): KuzuWASMQueryResult {
+          console.log(`Executing prepared query with ${Object.keys(params).length} parameters`);
+          // TODO: Execute actual WASM statement
+          return this.query('');
+        }
         
         close(): void {
           console.log('Closing KuzuDB connection');
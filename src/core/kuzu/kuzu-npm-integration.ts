@@ -6,12 +6,47 @@
  */
 
 import type { DatabaseInfo, QueryResult, NodeSchema, RelationshipSchema, KuzuInstance } from './kuzu-loader.ts';
+import type { CypherParameters } from './cypher-parameters.ts';
+import type { KuzuTransaction } from './kuzu-transaction-manager.ts';
+import { hasParameters, toParameterizedPropertyMap } from './cypher-parameters.ts';
+import { KuzuConnectionPool } from './kuzu-connection-pool.ts';
+import { KuzuTransactionManager } from './kuzu-transaction-manager.ts';
+
+// Connections for queries and transactions, next to the one used for schema changes
+const CONNECTION_POOL_SIZE = 4;
 
 let kuzuModule: any = null;
 let database: any = null;
 let connection: any = null;
+let pool: KuzuConnectionPool | null = null;
+let transactionManager: KuzuTransactionManager | null = null;
 let isInitialized = false;
 
+/**
+ * The parts of a kuzu-wasm Connection that runQuery uses
+ */
+interface KuzuNPMConnection {
+  query(cypher: string): Promise<KuzuNPMQueryResult>;
+  prepare(cypher: string): Promise<KuzuNPMPreparedStatement>;
+  execute(statement: KuzuNPMPreparedStatement, params: CypherParameters): Promise<KuzuNPMQueryResult>;
+  close(): unknown;
+}
+
+interface KuzuNPMPreparedStatement {
+  isSuccess(): boolean;
+  getErrorMessage(): string | Promise<string>;
+  close(): unknown;
+}
+
+interface KuzuNPMQueryResult {
+  isSuccess(): boolean;
+  getErrorMessage(): string;
+  getColumnNames(): string[];
+  getAllRows(): Promise<unknown[][]>;
+  getNumTuples(): Promise<number | bigint>;
+  close(): void;
+}
+
 /**
  * Initialize KuzuDB using the npm package
  */
@@ -43,6 +78,12 @@ export async function initKuzuNPM(): Promise<KuzuInstance> {
     connection = new kuzuModule.default.Connection(database);
     console.log('✅ KuzuDB connection established');
     
+    const pooledDatabase = database;
+    pool = new KuzuConnectionPool(() => new kuzuModule.default.Connection(pooledDatabase), { maxConnections: CONNECTION_POOL_SIZE });
+    transactionManager = new KuzuTransactionManager(pool, (pooled, cypher, params) =>
+      runQuery(pooled as KuzuNPMConnection, cypher, params)
+    );
+    
     isInitialized = true;
     console.log('🎉 KuzuDB npm integration initialized successfully!');
     
@@ -70,6 +111,7 @@ function createKuzuInstance(): KuzuInstance {
     
     async closeDatabase(): Promise<void> {
       console.log('🔒 Closing KuzuDB database...');
+      await closePool();
       if (connection) {
         connection.close();
         connection = null;
@@ -121,12 +163,10 @@ function createKuzuInstance(): KuzuInstance {
     },
     
     async insertNode(tableName: string, data: Record<string, any>): Promise<void> {
-      const properties = Object.entries(data)
-        .map(([key, value]) => `${key}: ${formatValue(value)}`)
-        .join(', ');
+      const properties = toParameterizedPropertyMap(data);
       
-      const query = `CREATE (n:${tableName} {${properties}});`;
-      await connection.query(query);
+      const query = `CREATE (n:${tableName} ${properties.pattern});`;
+      await this.executeQuery(query, properties.params);
     },
     
     async insertRel(
@@ -135,59 +175,24 @@ function createKuzuInstance(): KuzuInstance {
       target: string, 
       data: Record<string, any>
     ): Promise<void> {
-      const properties = Object.keys(data).length > 0 
-        ? `{${Object.entries(data).map(([k, v]) => `${k}: ${formatValue(v)}`).join(', ')}}`
-        : '';
+      const properties = toParameterizedPropertyMap(data, 'r_');
       
-      const query = `MATCH (a {id: ${formatValue(source)}}), (b {id: ${formatValue(target)}}) CREATE (a)-[:${tableName} ${properties}]->(b);`;
-      await connection.query(query);
+      const query = `MATCH (a {id: $source}), (b {id: $target}) CREATE (a)-[:${tableName} ${properties.pattern}]->(b);`;
+      await this.executeQuery(query, { source, target, ...properties.params });
     },
     
-    async executeQuery(cypher: string): Promise<QueryResult> {
-      // Trim long queries for cleaner logs
-      const trimmedQuery = cypher.length > 100 ? cypher.substring(0, 100) + '...' : cypher;
-      console.log(`🔍 Executing query: ${trimmedQuery}`);
-      
-      try {
-        const result = await connection.query(cypher);
-        
-        // Check if query was successful
-        if (!result.isSuccess()) {
-          throw new Error(`Query failed: ${result.getErrorMessage()}`);
-        }
-        
-        // Extract data from kuzu-wasm result
-        const columns = result.getColumnNames();
-        const rawRows = await result.getAllRows(); // Get all rows at once (async)
-        const rowCount = await result.getNumTuples(); // This might be async too
-        
-        // Convert BigInt values to strings to avoid serialization issues
-        const rows = rawRows.map(row => 
-          row.map(cell => {
-            if (typeof cell === 'bigint') {
-              return cell.toString();
-            }
-            return cell;
-          })
-        );
-        
-        const queryResult: QueryResult = {
-          columns,
-          rows,
-          rowCount: typeof rowCount === 'bigint' ? Number(rowCount) : rowCount,
-          executionTime: 0 // TODO: Add timing if available
-        };
-        
-        // Close the result
-        result.close();
-        
-        console.log(`✅ Query completed: ${rowCount} rows returned`);
-        return queryResult;
-        
-      } catch (error) {
-        console.error(`❌ Query failed: ${error}`);
-        throw error;
+    async executeQuery(cypher: string, params?: CypherParameters): Promise<QueryResult> {
+      if (!pool) {
+        throw new Error('KuzuDB not initialized');
+      }
+      return pool.withConnection(pooled => runQuery(pooled as KuzuNPMConnection, cypher, params));
+    },
+    
+    async runInTransaction<T>(task: (transaction: KuzuTransaction) => Promise<T>): Promise<T> {
+      if (!transactionManager) {
+        throw new Error('KuzuDB not initialized');
       }
+      return transactionManager.runInTransaction(task);
     },
     
     async getDatabaseInfo(): Promise<DatabaseInfo> {
@@ -248,19 +253,73 @@ function createKuzuInstance(): KuzuInstance {
 }
 
 /**
- * Format a value for use in Cypher queries
+ * Run one statement on a given connection
  */
-function formatValue(value: any): string {
-  if (value === null || value === undefined) {
-    return 'null';
-  } else if (typeof value === 'boolean') {
-    return value ? 'true' : 'false';
-  } else if (typeof value === 'number') {
-    return String(value);
-  } else if (Array.isArray(value)) {
-    return `[${value.map(v => formatValue(v)).join(', ')}]`;
-  } else {
-    return `'${String(value).replace(/'/g, "\\'")}'`;
+async function runQuery(queryConnection: KuzuNPMConnection, cypher: string, params?: CypherParameters): Promise<QueryResult> {
+  // Trim long queries for cleaner logs
+  const trimmedQuery = cypher.length > 100 ? cypher.substring(0, 100) + '...' : cypher;
+  console.log(`🔍 Executing query: ${trimmedQuery}`);
+  
+  let statement: KuzuNPMPreparedStatement | null = null;
+  try {
+    // Values go through a prepared statement instead of being spliced into the text
+    let result: KuzuNPMQueryResult;
+    if (hasParameters(params)) {
+      statement = await queryConnection.prepare(cypher);
+      if (!statement.isSuccess()) {
+        throw new Error(`Query failed: ${await statement.getErrorMessage()}`);
+      }
+      result = await queryConnection.execute(statement, params);
+    } else {
+      result = await queryConnection.query(cypher);
+    }
+    
+    // Check if query was successful
+    if (!result.isSuccess()) {
+      throw new Error(`Query failed: ${result.getErrorMessage()}`);
+    }
+    
+    // Extract data from kuzu-wasm result
+    const columns = result.getColumnNames();
+    const rawRows = await result.getAllRows(); // Get all rows at once (async)
+    const rowCount = await result.getNumTuples(); // This might be async too
+    
+    // Convert BigInt values to strings to avoid serialization issues
+    const rows = rawRows.map(row => 
+      row.map(cell => {
+        if (typeof cell === 'bigint') {
+          return cell.toString();
+        }
+        return cell;
+      })
+    );
+    
+    const queryResult: QueryResult = {
+      columns,
+      rows,
+      rowCount: typeof rowCount === 'bigint' ? Number(rowCount) : rowCount,
+      executionTime: 0 // TODO: Add timing if available
+    };
+    
+    // Close the result
+    result.close();
+    
+    console.log(`✅ Query completed: ${rowCount} rows returned`);
+    return queryResult;
+    
+  } catch (error) {
+    console.error(`❌ Query failed: ${error}`);
+    throw error;
+  } finally {
+    await statement?.close();
+  }
+}
+
+async function closePool(): Promise<void> {
+  if (pool) {
+    await pool.close();
+    pool = null;
+    transactionManager = null;
   }
 }
 
@@ -280,6 +339,7 @@ export function isKuzuNPMAvailable(): boolean {
  * Clean up KuzuDB resources
  */
 export async function closeKuzuNPM(): Promise<void> {
+  await closePool();
   if (connection) {
     connection.close();
     connection = null;
@@ -0,0 +1,43 @@
+import { KuzuQueryOptimizer } from './kuzu-query-optimizer.js';
+
+const optimizer = new KuzuQueryOptimizer({ maxVariableLengthHops: 5 });
+
+describe('KuzuQueryOptimizer', () => {
+  test('should bound unbounded variable-length relationships', () => {
+    expect(optimizer.optimize('MATCH (a)-[:CALLS*]->(b) RETURN b').cypher).toBe('MATCH (a)-[:CALLS*1..5]->(b) RETURN b');
+    expect(optimizer.optimize('MATCH (a)<-[r:CALLS*2..]-(b) RETURN b').cypher).toBe('MATCH (a)<-[r:CALLS*2..5]-(b) RETURN b');
+    expect(optimizer.optimize('MATCH (a)-[*..]->(b) RETURN b').cypher).toBe('MATCH (a)-[*1..5]->(b) RETURN b');
+
+    const bounded = 'MATCH (a)-[:CALLS*1..3]->(b)-[:CALLS*2]->(c) RETURN [x IN [1, 2] | x * 2], a.size * 2';
+    expect(optimizer.optimize(bounded)).toEqual({ cypher: bounded, rewrites: [] });
+  });
+
+  test('should move label filters from WHERE into the pattern', () => {
+    expect(optimizer.optimize("MATCH (f)-[:CALLS]->(g) WHERE f:Function AND g.name = 'x' RETURN f").cypher)
+      .toBe("MATCH (f:Function)-[:CALLS]->(g) WHERE g.name = 'x' RETURN f");
+
+    const polymorphic = optimizer.optimize(
+      "MATCH (f:CodeElement {name: 'a'})-[r:CodeRelationship]->(g:CodeElement) WHERE r.relationshipType = 'CALLS' AND 'Function' = g.elementType AND f.elementType = $type RETURN g"
+    );
+    expect(polymorphic.cypher).toBe(
+      "MATCH (f:CodeElement {name: 'a'})-[r:CodeRelationship {relationshipType: 'CALLS'}]->(g:CodeElement {elementType: 'Function'}) WHERE f.elementType = $type RETURN g"
+    );
+    expect(polymorphic.rewrites).toHaveLength(2);
+  });
+
+  test('should leave filters it cannot move safely', () => {
+    const queries = [
+      "MATCH (f) WHERE f:Function OR f:Method RETURN f",           // OR
+      "MATCH (f:Method) WHERE f:Function RETURN f",                 // a second label means "any of" in KuzuDB
+      "MATCH (f) WITH f MATCH (g) WHERE f:Function RETURN g",       // bound by an earlier clause
+      "MATCH (f {elementType: 'Class'}) WHERE f.elementType = 'Function' RETURN f",
+      "MATCH (f) WHERE f.name = 'WHERE f:Function' RETURN f"
+    ];
+    for (const query of queries) {
+      expect(optimizer.optimize(query).cypher).toBe(query);
+    }
+
+    expect(optimizer.optimize("MATCH (f:Function) WHERE f:Function RETURN f").cypher).toBe('MATCH (f:Function) RETURN f');
+    expect(optimizer.optimize("MATCH (f {name: 'it").cypher).toBe("MATCH (f {name: 'it");
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * KuzuDB Query Optimizer
+ *
+ * Rewrites a query before KuzuQueryEngine sends it to KuzuDB:
+ *
+ * - Unbounded variable-length relationships (`[*]`, `[:CALLS*2..]`, `[*..]`) get an
+ *   upper bound, so a query over a large call graph cannot expand for minutes.
+ * - Label filters in the WHERE of a MATCH (`WHERE f:Function`, and the polymorphic
+ *   `WHERE f.elementType = 'Function'` / `r.relationshipType = 'CALLS'`) move into
+ *   the pattern, where KuzuDB scans only the matching table or rows. KuzuDB does not
+ *   parse `WHERE f:Function` at all, so this also fixes such generated queries.
+ *
+ * The rewrite works on tokens and splices edits into the original text: strings,
+ * comments and parameters are left as written. Queries that do not tokenize are
+ * returned unchanged for KuzuDB to report.
+ */
+
+import type { Token } from '../graph/cypher-parser.ts';
+import { tokenizeCypher } from '../graph/cypher-parser.ts';
+
+export interface KuzuQueryOptimizerOptions {
+  maxVariableLengthHops?: number;
+  pushDownLabelFilters?: boolean;
+}
+
+export interface OptimizedQuery {
+  cypher: string;
+  rewrites: string[];          // What was changed, for logging
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Discriminator properties of the polymorphic CodeElement / CodeRelationship tables
+const DISCRIMINATOR_PROPERTIES = new Set(['elementType', 'relationshipType']);
+
+// Keywords that end a WHERE
+const CLAUSE_KEYWORDS = new Set([
+  'MATCH', 'OPTIONAL', 'WHERE', 'WITH', 'RETURN', 'UNWIND', 'ORDER', 'SKIP', 'LIMIT',
+  'CREATE', 'MERGE', 'SET', 'DELETE', 'DETACH', 'REMOVE', 'CALL', 'UNION', 'FOREACH'
+]);
+
+export class KuzuQueryOptimizer {
+  private maxVariableLengthHops: number;
+  private pushDownLabelFilters: boolean;
+
+  constructor(options: KuzuQueryOptimizerOptions = {}) {
+    this.maxVariableLengthHops = options.maxVariableLengthHops ?? 10;
+    this.pushDownLabelFilters = options.pushDownLabelFilters ?? true;
+  }
+
+  optimize(cypher: string): OptimizedQuery {
+    let tokens: Token[];
+    try {
+      tokens = tokenizeCypher(cypher);
+    } catch {
+      return { cypher, rewrites: [] };
+    }
+
+    const edits: Edit[] = [];
+    const rewrites: string[] = [];
+
+    this.boundVariableLengthPatterns(tokens, edits, rewrites);
+    if (this.pushDownLabelFilters) {
+      this.pushDownWhereLabels(cypher, tokens, edits, rewrites);
+    }
+
+    return { cypher: applyEdits(cypher, edits), rewrites };
+  }
+
+  /**
+   * `*` → `*1..max`, `*n..` → `*n..max`, `*..` → `*1..max`
+   */
+  private boundVariableLengthPatterns(tokens: Token[], edits: Edit[], rewrites: string[]): void {
+    const max = this.maxVariableLengthHops;
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (!isSymbol(tokens[i], '[') || !(isSymbol(tokens[i - 1], '-') || isSymbol(tokens[i - 1], '<-'))) continue;
+
+      const close = findClosing(tokens, i);
+      let braces = 0;
+      for (let j = i + 1; j < close; j++) {
+        if (isSymbol(tokens[j], '{')) braces++;
+        if (isSymbol(tokens[j], '}')) braces--;
+        if (braces > 0 || !isSymbol(tokens[j], '*')) continue;
+
+        const [lower, range, upper] = [tokens[j + 1], tokens[j + 2], tokens[j + 3]];
+        if (lower.type === 'number') {
+          if (!isSymbol(range, '..') || upper.type === 'number') continue;
+          const bound = Math.max(Number(lower.value), max);
+          edits.push({ start: range.end, end: range.end, text: String(bound) });
+          rewrites.push(`Bounded *${lower.value}.. to *${lower.value}..${bound}`);
+        } else if (isSymbol(lower, '..')) {
+          if (range.type === 'number') continue;
+          edits.push({ start: lower.position, end: lower.end, text: `1..${max}` });
+          rewrites.push(`Bounded *.. to *1..${max}`);
+        } else {
+          edits.push({ start: tokens[j].end, end: tokens[j].end, text: `1..${max}` });
+          rewrites.push(`Bounded * to *1..${max}`);
+        }
+        j = close;
+      }
+      i = close;
+    }
+  }
+
+  /**
+   * Move `v:Label` and discriminator equalities among the top-level AND conjuncts of
+   * a MATCH ... WHERE into the pattern that introduces `v` in that MATCH
+   */
+  private pushDownWhereLabels(cypher: string, tokens: Token[], edits: Edit[], rewrites: string[]): void {
+    for (let i = 0; i < tokens.length; i++) {
+      if (!isKeyword(tokens[i], 'MATCH') || depthAt(tokens, i) !== 0) continue;
+
+      const where = nextClauseKeyword(tokens, i + 1);
+      if (where === -1 || !isKeyword(tokens[where], 'WHERE')) continue;
+      let whereEnd = nextClauseKeyword(tokens, where + 1);
+      if (whereEnd === -1) whereEnd = tokens.length - 1;
+      if (isSymbol(tokens[whereEnd - 1], ';')) whereEnd--;
+
+      const conjuncts = splitConjuncts(tokens, where + 1, whereEnd);
+      if (!conjuncts) continue;
+
+      const kept: Array<[number, number]> = [];
+      for (const [start, end] of conjuncts) {
+        const pushed = this.pushDownConjunct(cypher, tokens, i + 1, where, start, end, edits);
+        if (pushed) {
+          rewrites.push(`Moved WHERE ${cypher.substring(tokens[start].position, tokens[end - 1].end)} into the MATCH pattern`);
+        } else {
+          kept.push([start, end]);
+        }
+      }
+      if (kept.length === conjuncts.length) continue;
+
+      const remaining = kept.map(([start, end]) => cypher.substring(tokens[start].position, tokens[end - 1].end));
+      edits.push({
+        start: tokens[where - 1].end,
+        end: tokens[whereEnd - 1].end,
+        text: remaining.length > 0 ? ` WHERE ${remaining.join(' AND ')}` : ''
+      });
+      i = whereEnd - 1;
+    }
+  }
+
+  private pushDownConjunct(
+    cypher: string,
+    tokens: Token[],
+    patternStart: number,
+    patternEnd: number,
+    start: number,
+    end: number,
+    edits: Edit[]
+  ): boolean {
+    const conjunct = tokens.slice(start, end);
+    const text = (token: Token) => cypher.substring(token.position, token.end);
+
+    // v:Label
+    if (conjunct.length === 3 && conjunct[0].type === 'identifier' && isSymbol(conjunct[1], ':') && conjunct[2].type === 'identifier') {
+      const element = findElementPattern(tokens, patternStart, patternEnd, conjunct[0].value);
+      if (element === -1) return false;
+
+      const after = tokens[element + 1];
+      if (isSymbol(after, ':')) {
+        // KuzuDB reads several labels as "any of", so only a repeated label can go
+        return tokens[element + 2]?.value === conjunct[2].value && !isSymbol(tokens[element + 3], '|') && !isSymbol(tokens[element + 3], ':');
+      }
+      edits.push({ start: tokens[element].end, end: tokens[element].end, text: `:${text(conjunct[2])}` });
+      return true;
+    }
+
+    // v.elementType = 'X' or 'X' = v.elementType
+    let access: Token[] | null = null;
+    let value: Token | null = null;
+    if (conjunct.length === 5 && isSymbol(conjunct[1], '.') && isSymbol(conjunct[3], '=') && conjunct[4].type === 'string') {
+      access = conjunct.slice(0, 3);
+      value = conjunct[4];
+    } else if (conjunct.length === 5 && conjunct[0].type === 'string' && isSymbol(conjunct[1], '=') && isSymbol(conjunct[3], '.')) {
+      access = conjunct.slice(2, 5);
+      value = conjunct[0];
+    }
+    if (!access || !value || access[0].type !== 'identifier' || !DISCRIMINATOR_PROPERTIES.has(access[2].value)) return false;
+
+    const element = findElementPattern(tokens, patternStart, patternEnd, access[0].value);
+    if (element === -1) return false;
+
+    // Skip the labels / types (and leave variable-length relationships alone)
+    let k = element + 1;
+    while (isSymbol(tokens[k], ':') || isSymbol(tokens[k], '|')) k += 2;
+    if (isSymbol(tokens[k], '*')) return false;
+
+    const property = `${access[2].value}: ${text(value)}`;
+    if (isSymbol(tokens[k], '{')) {
+      const close = findClosing(tokens, k);
+      for (let m = k + 1; m < close; m++) {
+        if (tokens[m].value === access[2].value && isSymbol(tokens[m + 1], ':') && depthBetween(tokens, k, m) === 1) return false;
+      }
+      edits.push({ start: tokens[close].position, end: tokens[close].position, text: close === k + 1 ? property : `, ${property}` });
+    } else {
+      edits.push({ start: tokens[k - 1].end, end: tokens[k - 1].end, text: ` {${property}}` });
+    }
+    return true;
+  }
+}
+
+function isSymbol(token: Token | undefined, value: string): boolean {
+  return token !== undefined && token.type === 'symbol' && token.value === value;
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token !== undefined && token.type === 'identifier' && !token.quoted && token.value.toUpperCase() === keyword;
+}
+
+const OPENING = new Set(['(', '[', '{']);
+const CLOSING = new Set([')', ']', '}']);
+
+// Index of the bracket closing the one at `open`
+function findClosing(tokens: Token[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].type !== 'symbol') continue;
+    if (OPENING.has(tokens[i].value)) depth++;
+    if (CLOSING.has(tokens[i].value) && --depth === 0) return i;
+  }
+  return tokens.length - 1;
+}
+
+function depthBetween(tokens: Token[], from: number, to: number): number {
+  let depth = 0;
+  for (let i = from; i < to; i++) {
+    if (tokens[i].type !== 'symbol') continue;
+    if (OPENING.has(tokens[i].value)) depth++;
+    if (CLOSING.has(tokens[i].value)) depth--;
+  }
+  return depth;
+}
+
+function depthAt(tokens: Token[], index: number): number {
+  return depthBetween(tokens, 0, index);
+}
+
+// Next clause keyword at the nesting depth of `from`, or -1
+function nextClauseKeyword(tokens: Token[], from: number): number {
+  let depth = 0;
+  for (let i = from; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'symbol' && OPENING.has(token.value)) depth++;
+    if (token.type === 'symbol' && CLOSING.has(token.value)) depth--;
+    if (depth < 0) return -1;
+    if (depth === 0 && token.type === 'identifier' && !token.quoted && CLAUSE_KEYWORDS.has(token.value.toUpperCase())) {
+      // `ORDER` and friends only end a WHERE when they start a clause, not as property names
+      if (!isSymbol(tokens[i - 1], '.')) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Token ranges of the top-level AND conjuncts in [from, to), or null when the
+ * expression has a top-level OR / XOR and cannot be split
+ */
+function splitConjuncts(tokens: Token[], from: number, to: number): Array<[number, number]> | null {
+  const conjuncts: Array<[number, number]> = [];
+  let depth = 0;
+  let start = from;
+
+  for (let i = from; i < to; i++) {
+    const token = tokens[i];
+    if (token.type === 'symbol' && OPENING.has(token.value)) depth++;
+    if (token.type === 'symbol' && CLOSING.has(token.value)) depth--;
+    if (depth !== 0) continue;
+    if (isKeyword(token, 'OR') || isKeyword(token, 'XOR')) return null;
+    if (isKeyword(token, 'AND')) {
+      if (i === start) return null;
+      conjuncts.push([start, i]);
+      start = i + 1;
+    }
+  }
+
+  if (start >= to) return null;
+  conjuncts.push([start, to]);
+  return conjuncts;
+}
+
+// Index of the variable token of the first `(v` / `[v` pattern element in [from, to), or -1
+function findElementPattern(tokens: Token[], from: number, to: number, variable: string): number {
+  for (let i = from; i < to - 1; i++) {
+    if (!(isSymbol(tokens[i], '(') || isSymbol(tokens[i], '['))) continue;
+    const candidate = tokens[i + 1];
+    if (candidate.type !== 'identifier' || candidate.value !== variable) continue;
+    const next = tokens[i + 2];
+    if (isSymbol(next, ':') || isSymbol(next, ')') || isSymbol(next, ']') || isSymbol(next, '{') || isSymbol(next, '*')) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+// Later edits at the same position go after earlier ones
+function applyEdits(cypher: string, edits: Edit[]): string {
+  const ordered = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index);
+
+  let result = cypher;
+  for (const { edit } of ordered) {
+    result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+  }
+  return result;
+}
@@ -22,6 +22,7 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     path: 'STRING',
     description: 'STRING',
     version: 'STRING',
+    projectFile: 'STRING',
     createdAt: 'STRING'
   },
 
@@ -42,7 +43,8 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     language: 'STRING',
     size: 'INT64',
     definitionCount: 'INT64',
-    lineCount: 'INT64'
+    lineCount: 'INT64',
+    isTest: 'BOOLEAN'
   },
 
   Function: {
@@ -59,7 +61,13 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     isStatic: 'BOOLEAN',
     isAsync: 'BOOLEAN',
     parentClass: 'STRING',
-    docstring: 'STRING'
+    docstring: 'STRING',
+    docParams: 'STRING[]',
+    docReturns: 'STRING',
+    docThrows: 'STRING[]',
+    deprecated: 'BOOLEAN',
+    deprecationMessage: 'STRING',
+    cyclomaticComplexity: 'INT64'
   },
 
   Class: {
@@ -73,7 +81,11 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     isAbstract: 'BOOLEAN',
     extends: 'STRING[]',
     implements: 'STRING[]',
-    docstring: 'STRING'
+    docstring: 'STRING',
+    deprecated: 'BOOLEAN',
+    deprecationMessage: 'STRING',
+    namespace: 'STRING',
+    isPartial: 'BOOLEAN'
   },
 
   Method: {
@@ -89,7 +101,13 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     isStatic: 'BOOLEAN',
     isAsync: 'BOOLEAN',
     parentClass: 'STRING',
-    docstring: 'STRING'
+    docstring: 'STRING',
+    docParams: 'STRING[]',
+    docReturns: 'STRING',
+    docThrows: 'STRING[]',
+    deprecated: 'BOOLEAN',
+    deprecationMessage: 'STRING',
+    cyclomaticComplexity: 'INT64'
   },
 
   Variable: {
@@ -100,7 +118,10 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     endLine: 'INT64',
     type: 'STRING',
     accessibility: 'STRING',
-    isStatic: 'BOOLEAN'
+    isStatic: 'BOOLEAN',
+    scope: 'STRING',
+    parentClass: 'STRING',
+    qualifiedName: 'STRING'
   },
 
   Interface: {
@@ -111,7 +132,11 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     endLine: 'INT64',
     qualifiedName: 'STRING',
     extends: 'STRING[]',
-    docstring: 'STRING'
+    docstring: 'STRING',
+    deprecated: 'BOOLEAN',
+    deprecationMessage: 'STRING',
+    namespace: 'STRING',
+    isPartial: 'BOOLEAN'
   },
 
   Type: {
@@ -122,7 +147,9 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     endLine: 'INT64',
     qualifiedName: 'STRING',
     typeDefinition: 'STRING',
-    docstring: 'STRING'
+    docstring: 'STRING',
+    deprecated: 'BOOLEAN',
+    deprecationMessage: 'STRING'
   },
 
   Decorator: {
@@ -156,6 +183,68 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     docstring: 'STRING'
   },
 
+  BasicBlock: {
+    id: 'STRING',
+    name: 'STRING',
+    filePath: 'STRING',
+    startLine: 'INT64',
+    endLine: 'INT64',
+    functionId: 'STRING',
+    blockType: 'STRING',
+    statementCount: 'INT64'
+  },
+
+  Route: {
+    id: 'STRING',
+    name: 'STRING',
+    method: 'STRING',
+    path: 'STRING',
+    framework: 'STRING',
+    filePath: 'STRING',
+    startLine: 'INT64',
+    endLine: 'INT64'
+  },
+
+  Test: {
+    id: 'STRING',
+    name: 'STRING',
+    suite: 'STRING',
+    framework: 'STRING',
+    filePath: 'STRING',
+    startLine: 'INT64',
+    endLine: 'INT64'
+  },
+
+  UnresolvedCall: {
+    id: 'STRING',
+    name: 'STRING',
+    filePath: 'STRING',
+    startLine: 'INT64',
+    category: 'STRING',
+    reason: 'STRING'
+  },
+
+  UnresolvedImport: {
+    id: 'STRING',
+    name: 'STRING',
+    filePath: 'STRING',
+    startLine: 'INT64',
+    category: 'STRING',
+    reason: 'STRING'
+  },
+
+  Component: {
+    id: 'STRING',
+    name: 'STRING',
+    filePath: 'STRING',
+    startLine: 'INT64',
+    endLine: 'INT64',
+    framework: 'STRING',
+    props: 'STRING[]',
+    emits: 'STRING[]',
+    scriptSetup: 'BOOLEAN'
+  },
+
   CodeElement: {
     id: 'STRING',
     name: 'STRING',
@@ -170,7 +259,10 @@ export const INDIVIDUAL_NODE_SCHEMAS: Record<NodeLabel, NodeSchema> = {
     name: 'STRING',
     path: 'STRING',
     version: 'STRING',
-    description: 'STRING'
+    description: 'STRING',
+    ecosystem: 'STRING',
+    manifestPath: 'STRING',
+    workspace: 'BOOLEAN'
   },
 
   Module: {
@@ -246,8 +338,15 @@ export const INDIVIDUAL_RELATIONSHIP_SCHEMAS: RelationshipTableDefinition[] = [
   {
     name: 'CONTAINS',
     connections: [
+      { from: 'Project', to: 'Project' },
       { from: 'Project', to: 'Folder' },
       { from: 'Project', to: 'File' },
+      { from: 'Project', to: 'Package' },
+      { from: 'Package', to: 'Folder' },
+      { from: 'Module', to: 'Module' },
+      { from: 'Module', to: 'Class' },
+      { from: 'Module', to: 'Interface' },
+      { from: 'Module', to: 'Enum' },
       { from: 'Folder', to: 'Folder' },
       { from: 'Folder', to: 'File' },
       { from: 'File', to: 'Function' },
@@ -276,7 +375,9 @@ export const INDIVIDUAL_RELATIONSHIP_SCHEMAS: RelationshipTableDefinition[] = [
       callType: 'STRING',
       functionName: 'STRING',
       startLine: 'INT64',
-      endLine: 'INT64'
+      endLine: 'INT64',
+      confidence: 'DOUBLE',
+      stage: 'STRING'
     }
   },
 
@@ -303,12 +404,18 @@ export const INDIVIDUAL_RELATIONSHIP_SCHEMAS: RelationshipTableDefinition[] = [
   {
     name: 'IMPORTS',
     connections: [
-      { from: 'File', to: 'File' }
+      { from: 'File', to: 'File' },
+      { from: 'File', to: 'Package' }
     ],
     schema: {
       importType: 'STRING',
       localName: 'STRING',
-      exportedName: 'STRING'
+      exportedName: 'STRING',
+      reExport: 'BOOLEAN',
+      moduleName: 'STRING',
+      crossPackage: 'BOOLEAN',
+      sourcePackage: 'STRING',
+      targetPackage: 'STRING'
     }
   },
 
@@ -327,11 +434,21 @@ export const INDIVIDUAL_RELATIONSHIP_SCHEMAS: RelationshipTableDefinition[] = [
     connections: [
       { from: 'Decorator', to: 'Function' },
       { from: 'Decorator', to: 'Class' },
-      { from: 'Decorator', to: 'Method' }
+      { from: 'Decorator', to: 'Method' },
+      { from: 'Function', to: 'Function' },
+      { from: 'Function', to: 'Class' },
+      { from: 'Function', to: 'Method' },
+      { from: 'Class', to: 'Function' },
+      { from: 'Class', to: 'Class' },
+      { from: 'Class', to: 'Method' }
     ],
     schema: {
       decoratorType: 'STRING',
-      arguments: 'STRING[]'
+      decorator: 'STRING',
+      arguments: 'STRING[]',
+      line_number: 'INT64',
+      confidence: 'DOUBLE',
+      stage: 'STRING'
     }
   },
 
@@ -346,6 +463,9 @@ export const INDIVIDUAL_RELATIONSHIP_SCHEMAS: RelationshipTableDefinition[] = [
       { from: 'File', to: 'Type' },
       { from: 'File', to: 'Decorator' },
       { from: 'File', to: 'Import' },
+      { from: 'File', to: 'Component' },
+      { from: 'File', to: 'Route' },
+      { from: 'File', to: 'Test' },
       { from: 'Class', to: 'Method' },
       { from: 'Class', to: 'Variable' }
     ],
@@ -374,11 +494,19 @@ export const INDIVIDUAL_RELATIONSHIP_SCHEMAS: RelationshipTableDefinition[] = [
       { from: 'Method', to: 'Variable' },
       { from: 'Class', to: 'Interface' },
       { from: 'Function', to: 'Type' },
-      { from: 'Method', to: 'Type' }
+      { from: 'Method', to: 'Type' },
+      { from: 'Component', to: 'Component' },
+      { from: 'Component', to: 'Function' },
+      { from: 'Component', to: 'Class' },
+      { from: 'Component', to: 'Variable' },
+      { from: 'Function', to: 'Function' },
+      { from: 'Method', to: 'Function' },
+      { from: 'File', to: 'Function' }
     ],
     schema: {
       usageType: 'STRING',
-      context: 'STRING'
+      context: 'STRING',
+      line_number: 'INT64'
     }
   },
 
@@ -389,7 +517,7 @@ export const INDIVIDUAL_RELATIONSHIP_SCHEMAS: RelationshipTableDefinition[] = [
       { from: 'Method', to: 'Variable' }
     ],
     schema: {
-      accessType: 'STRING',
+      mode: 'STRING',
       line_number: 'INT64'
     }
   },
@@ -403,6 +531,77 @@ export const INDIVIDUAL_RELATIONSHIP_SCHEMAS: RelationshipTableDefinition[] = [
     schema: {
       extensionType: 'STRING'
     }
+  },
+
+  {
+    name: 'FLOWS_TO',
+    connections: [
+      { from: 'Function', to: 'BasicBlock' },
+      { from: 'Method', to: 'BasicBlock' },
+      { from: 'BasicBlock', to: 'BasicBlock' }
+    ],
+    schema: {
+      flowType: 'STRING'
+    }
+  },
+
+  {
+    name: 'DEPENDS_ON',
+    connections: [
+      { from: 'Project', to: 'Project' },
+      { from: 'Project', to: 'Package' },
+      { from: 'Package', to: 'Package' }
+    ],
+    schema: {
+      dependencyType: 'STRING',
+      version: 'STRING'
+    }
+  },
+
+  {
+    name: 'RENDERS',
+    connections: [
+      { from: 'Function', to: 'Function' },
+      { from: 'Function', to: 'Class' },
+      { from: 'Method', to: 'Function' },
+      { from: 'Method', to: 'Class' },
+      { from: 'Class', to: 'Function' },
+      { from: 'Class', to: 'Class' },
+      { from: 'File', to: 'Function' },
+      { from: 'File', to: 'Class' }
+    ],
+    schema: {
+      componentName: 'STRING',
+      props: 'STRING[]',
+      startLine: 'INT64',
+      endLine: 'INT64',
+      confidence: 'DOUBLE',
+      stage: 'STRING'
+    }
+  },
+
+  {
+    name: 'HANDLES',
+    connections: [
+      { from: 'Function', to: 'Route' },
+      { from: 'Method', to: 'Route' },
+      { from: 'File', to: 'Route' }
+    ],
+    schema: {
+      framework: 'STRING'
+    }
+  },
+
+  {
+    name: 'TESTS',
+    connections: [
+      { from: 'Test', to: 'Function' },
+      { from: 'Test', to: 'Method' },
+      { from: 'Test', to: 'Class' }
+    ],
+    schema: {
+      depth: 'INT64'
+    }
   }
 ];
 
@@ -478,6 +677,13 @@ export const INDEX_DEFINITIONS: IndexDefinition[] = [
   { table: 'Type', column: 'id', type: 'PRIMARY' },
   { table: 'Decorator', column: 'id', type: 'PRIMARY' },
   { table: 'Import', column: 'id', type: 'PRIMARY' },
+  { table: 'BasicBlock', column: 'id', type: 'PRIMARY' },
+  { table: 'Component', column: 'id', type: 'PRIMARY' },
+  { table: 'Route', column: 'id', type: 'PRIMARY' },
+  { table: 'Test', column: 'id', type: 'PRIMARY' },
+  { table: 'UnresolvedCall', column: 'id', type: 'PRIMARY' },
+  { table: 'UnresolvedImport', column: 'id', type: 'PRIMARY' },
+  { table: 'Package', column: 'id', type: 'PRIMARY' },
   { table: 'CodeElement', column: 'id', type: 'PRIMARY' },
 
   // Secondary indexes for common queries
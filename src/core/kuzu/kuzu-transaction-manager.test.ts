@@ -0,0 +1,75 @@
+import { KuzuConnectionPool } from './kuzu-connection-pool.js';
+import { KuzuTransactionManager } from './kuzu-transaction-manager.js';
+
+function createManager(failOn?: string) {
+  const statements: string[] = [];
+  const pool = new KuzuConnectionPool(() => ({ query: jest.fn(), close: jest.fn() }), { maxConnections: 2 });
+  const manager = new KuzuTransactionManager(pool, async (_connection, cypher) => {
+    statements.push(cypher);
+    if (cypher === failOn) {
+      throw new Error(`Binder exception: ${cypher}`);
+    }
+    return { columns: [], rows: [], rowCount: 0, executionTime: 0 };
+  });
+  return { manager, pool, statements };
+}
+
+describe('KuzuTransactionManager', () => {
+  test('should commit when the task resolves and roll back when it throws', async () => {
+    const { manager, pool, statements } = createManager();
+
+    await expect(manager.runInTransaction(async transaction => {
+      await transaction.executeQuery('CREATE (:File {id: $id})', { id: 'a' });
+      return 'done';
+    })).resolves.toBe('done');
+
+    await expect(manager.runInTransaction(async transaction => {
+      await transaction.executeQuery('CREATE (:File {id: $id})', { id: 'b' });
+      throw new Error('parse failed');
+    })).rejects.toThrow('parse failed');
+
+    expect(statements).toEqual([
+      'BEGIN TRANSACTION', 'CREATE (:File {id: $id})', 'COMMIT',
+      'BEGIN TRANSACTION', 'CREATE (:File {id: $id})', 'ROLLBACK'
+    ]);
+    expect(pool.getStats().inUse).toBe(0);
+    expect(manager.getActiveTransaction()).toBeNull();
+  });
+
+  test('should refuse statements after a failed one without sending ROLLBACK', async () => {
+    const { manager, statements } = createManager('MERGE (n:Missing)');
+
+    let state: string | undefined;
+    await expect(manager.runInTransaction(async transaction => {
+      try {
+        await transaction.executeQuery('MERGE (n:Missing)');
+      } catch {
+        // A fallback retrying the write must not run in auto-commit mode
+        await transaction.executeQuery('MERGE (n:Fallback)');
+      } finally {
+        state = transaction.state;
+      }
+    })).rejects.toThrow('was rolled back after a failed statement: Binder exception');
+
+    expect(state).toBe('failed');
+    expect(statements).toEqual(['BEGIN TRANSACTION', 'MERGE (n:Missing)']);
+  });
+
+  test('should run one transaction at a time', async () => {
+    const { manager, statements } = createManager();
+
+    const first = await manager.begin();
+    const second = manager.begin();
+    await first.executeQuery('CREATE (:File)');
+    expect(statements).toEqual(['BEGIN TRANSACTION', 'CREATE (:File)']);
+
+    await first.commit();
+    await expect(first.commit()).rejects.toThrow('already committed');
+    const next = await second;
+    expect(manager.getActiveTransaction()).toBe(next);
+    await next.rollback();
+
+    expect(statements).toEqual(['BEGIN TRANSACTION', 'CREATE (:File)', 'COMMIT', 'BEGIN TRANSACTION', 'ROLLBACK']);
+    expect(next.state).toBe('rolledBack');
+  });
+});
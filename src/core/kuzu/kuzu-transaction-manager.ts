@@ -0,0 +1,173 @@
+/**
+ * KuzuDB Transaction Manager
+ *
+ * Explicit BEGIN TRANSACTION / COMMIT / ROLLBACK on a pooled connection, so a batch
+ * of writes lands in the database completely or not at all.
+ *
+ * When a statement fails inside a transaction, KuzuDB rolls the transaction back
+ * on its own and runs any later statement of the connection in auto-commit mode.
+ * A transaction therefore refuses every statement after a failure: fallbacks
+ * that retry a write cannot commit half a batch behind the caller's back.
+ */
+
+import type { QueryResult } from './kuzu-loader.ts';
+import type { CypherParameters } from './cypher-parameters.ts';
+import type { KuzuConnection, KuzuConnectionPool } from './kuzu-connection-pool.ts';
+
+export type KuzuTransactionState = 'active' | 'committed' | 'rolledBack' | 'failed';
+
+/**
+ * Runs one statement on a given connection
+ */
+export type KuzuStatementRunner = (connection: KuzuConnection, cypher: string, params?: CypherParameters) => Promise<QueryResult>;
+
+export interface KuzuTransaction {
+  readonly id: number;
+  readonly state: KuzuTransactionState;
+  executeQuery(cypher: string, params?: CypherParameters): Promise<QueryResult>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+}
+
+export class KuzuTransactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KuzuTransactionError';
+  }
+}
+
+class Transaction implements KuzuTransaction {
+  public state: KuzuTransactionState = 'active';
+  private failure: Error | null = null;
+  private ended = false;
+
+  constructor(
+    public readonly id: number,
+    private connection: KuzuConnection,
+    private runStatement: KuzuStatementRunner,
+    private onEnd: () => void
+  ) {}
+
+  async executeQuery(cypher: string, params?: CypherParameters): Promise<QueryResult> {
+    if (this.state !== 'active') {
+      throw new KuzuTransactionError(this.describeInactive());
+    }
+
+    try {
+      return await this.runStatement(this.connection, cypher, params);
+    } catch (error) {
+      // KuzuDB has already rolled the transaction back
+      this.state = 'failed';
+      this.failure = error instanceof Error ? error : new Error(String(error));
+      throw error;
+    }
+  }
+
+  async commit(): Promise<void> {
+    if (this.state !== 'active') {
+      this.end();
+      throw new KuzuTransactionError(this.describeInactive());
+    }
+
+    try {
+      await this.runStatement(this.connection, 'COMMIT');
+      this.state = 'committed';
+    } catch (error) {
+      this.state = 'failed';
+      this.failure = error instanceof Error ? error : new Error(String(error));
+      throw new KuzuTransactionError(`Transaction ${this.id} failed to commit: ${this.failure.message}`);
+    } finally {
+      this.end();
+    }
+  }
+
+  async rollback(): Promise<void> {
+    try {
+      if (this.state === 'active') {
+        await this.runStatement(this.connection, 'ROLLBACK');
+      }
+    } catch (error) {
+      console.warn(`⚠️ ROLLBACK of transaction ${this.id} failed:`, error);
+    } finally {
+      if (this.state === 'active' || this.state === 'failed') {
+        this.state = 'rolledBack';
+      }
+      this.end();
+    }
+  }
+
+  private describeInactive(): string {
+    if (this.failure) {
+      return `Transaction ${this.id} was rolled back after a failed statement: ${this.failure.message}`;
+    }
+    return `Transaction ${this.id} is already ${this.state === 'committed' ? 'committed' : 'rolled back'}`;
+  }
+
+  private end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.onEnd();
+  }
+}
+
+export class KuzuTransactionManager {
+  private nextId = 1;
+  private active: KuzuTransaction | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private pool: KuzuConnectionPool, private runStatement: KuzuStatementRunner) {}
+
+  /**
+   * Begin a transaction on its own pooled connection. KuzuDB allows a single write
+   * transaction at a time, so this waits until the previous one has ended.
+   */
+  async begin(): Promise<KuzuTransaction> {
+    const previous = this.queue;
+    let finished!: () => void;
+    this.queue = new Promise<void>(resolve => {
+      finished = resolve;
+    });
+    await previous;
+
+    let connection: KuzuConnection | null = null;
+    try {
+      connection = await this.pool.acquire();
+      await this.runStatement(connection, 'BEGIN TRANSACTION');
+    } catch (error) {
+      if (connection) this.pool.release(connection);
+      finished();
+      throw error;
+    }
+
+    const leased = connection;
+    const transaction = new Transaction(this.nextId++, leased, this.runStatement, () => {
+      this.pool.release(leased);
+      this.active = null;
+      finished();
+    });
+    this.active = transaction;
+    return transaction;
+  }
+
+  /**
+   * Run `task` in a transaction: commit when it resolves, roll back when it throws
+   */
+  async runInTransaction<T>(task: (transaction: KuzuTransaction) => Promise<T>): Promise<T> {
+    const transaction = await this.begin();
+
+    let result: T;
+    try {
+      result = await task(transaction);
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    await transaction.commit();
+    return result;
+  }
+
+  getActiveTransaction(): KuzuTransaction | null {
+    return this.active;
+  }
+}
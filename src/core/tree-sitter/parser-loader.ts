@@ -7,11 +7,12 @@ const getWasmPath = (path: string) => {
   return `${finalBaseUrl}wasm/${path}`;
 };
 
-let parserInstance: Parser | null = null;
+let parserInitialized = false;
 const parserCache = new Map<string, Parser.Language>();
 
+// Each caller gets its own parser (processors delete theirs when done); the WASM runtime is initialised once
 export async function initTreeSitter(): Promise<Parser> {
-  if (parserInstance) return parserInstance;
+  if (parserInitialized) return new Parser();
   
   try {
     // Initialize WebAssembly with proper configuration
@@ -24,8 +25,8 @@ export async function initTreeSitter(): Promise<Parser> {
         return scriptDirectory + scriptName;
       }
     });
-    parserInstance = new Parser();
-    return parserInstance;
+    parserInitialized = true;
+    return new Parser();
   } catch (error) {
     console.error('Failed to initialize Tree-sitter:', error);
     throw new Error(`Tree-sitter initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -102,4 +103,72 @@ export async function loadTsxParser(): Promise<Parser.Language> {
     console.error('Failed to load TSX parser:', error);
     throw new Error(`TSX parser loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
+
+export async function loadGoParser(): Promise<Parser.Language> {
+  if (parserCache.has('go')) {
+    return parserCache.get('go')!;
+  }
+  try {
+    const wasmPath = getWasmPath('go/tree-sitter-go.wasm');
+    console.log('Loading Go parser from:', wasmPath);
+    const goLang = await Parser.Language.load(wasmPath);
+    parserCache.set('go', goLang);
+    console.log('Go parser loaded successfully');
+    return goLang;
+  } catch (error) {
+    console.error('Failed to load Go parser:', error);
+    throw new Error(`Go parser loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function loadJavaParser(): Promise<Parser.Language> {
+  if (parserCache.has('java')) {
+    return parserCache.get('java')!;
+  }
+  try {
+    const wasmPath = getWasmPath('java/tree-sitter-java.wasm');
+    console.log('Loading Java parser from:', wasmPath);
+    const javaLang = await Parser.Language.load(wasmPath);
+    parserCache.set('java', javaLang);
+    console.log('Java parser loaded successfully');
+    return javaLang;
+  } catch (error) {
+    console.error('Failed to load Java parser:', error);
+    throw new Error(`Java parser loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function loadRustParser(): Promise<Parser.Language> {
+  if (parserCache.has('rust')) {
+    return parserCache.get('rust')!;
+  }
+  try {
+    const wasmPath = getWasmPath('rust/tree-sitter-rust.wasm');
+    console.log('Loading Rust parser from:', wasmPath);
+    const rustLang = await Parser.Language.load(wasmPath);
+    parserCache.set('rust', rustLang);
+    console.log('Rust parser loaded successfully');
+    return rustLang;
+  } catch (error) {
+    console.error('Failed to load Rust parser:', error);
+    throw new Error(`Rust parser loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function loadCSharpParser(): Promise<Parser.Language> {
+  if (parserCache.has('csharp')) {
+    return parserCache.get('csharp')!;
+  }
+  try {
+    const wasmPath = getWasmPath('csharp/tree-sitter-c_sharp.wasm');
+    console.log('Loading C# parser from:', wasmPath);
+    const csharpLang = await Parser.Language.load(wasmPath);
+    parserCache.set('csharp', csharpLang);
+    console.log('C# parser loaded successfully');
+    return csharpLang;
+  } catch (error) {
+    console.error('Failed to load C# parser:', error);
+    throw new Error(`C# parser loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
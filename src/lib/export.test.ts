@@ -1,4 +1,4 @@
-import { exportGraphToCSV } from './export.js';
+import { exportDiagnosticsToJSON, exportGraphToCSV } from './export.js';
 import type { KnowledgeGraph } from '../core/graph/types.js';
 
 // Mock knowledge graph for testing
@@ -107,4 +107,18 @@ describe('CSV Export', () => {
   });
 });
 
+describe('Diagnostics Export', () => {
+  test('should export diagnostics with counts per category', () => {
+    const json = exportDiagnosticsToJSON([
+      { kind: 'call', filePath: 'src/a.ts', line: 2, callee: 'structuredClone', category: 'not_found', reason: 'No definition' },
+      { kind: 'import', filePath: 'src/a.ts', line: 1, callee: 'lodash', category: 'external_module', reason: 'Not declared' }
+    ], { includeTimestamp: false });
+
+    const exported = JSON.parse(json);
+    expect(exported.total).toBe(2);
+    expect(exported.byCategory).toEqual({ not_found: 1, external_module: 1 });
+    expect(exported.diagnostics[1].callee).toBe('lodash');
+  });
+});
+
 console.log('CSV Export tests completed successfully!');
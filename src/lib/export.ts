@@ -1,4 +1,5 @@
 import type { KnowledgeGraph } from '../core/graph/types.ts';
+import type { ResolutionDiagnostic } from '../core/ingestion/resolution-diagnostics.ts';
 
 export interface ExportOptions {
   filename?: string;
@@ -405,6 +406,28 @@ export function validateGraphForExport(graph: KnowledgeGraph): {
   };
 }
 
+/**
+ * Export unresolved call / import diagnostics to JSON, with counts per category
+ */
+export function exportDiagnosticsToJSON(
+  diagnostics: ResolutionDiagnostic[],
+  options: Pick<ExportOptions, 'prettyPrint' | 'includeTimestamp'> = {}
+): string {
+  const { prettyPrint = true, includeTimestamp = true } = options;
+
+  const byCategory = diagnostics.reduce<Record<string, number>>((acc, diagnostic) => {
+    acc[diagnostic.category] = (acc[diagnostic.category] || 0) + 1;
+    return acc;
+  }, {});
+
+  return JSON.stringify({
+    exportedAt: includeTimestamp ? new Date().toISOString() : '',
+    total: diagnostics.length,
+    byCategory,
+    diagnostics
+  }, null, prettyPrint ? 2 : 0);
+}
+
 /**
  * Import a KnowledgeGraph from JSON string
  */
@@ -0,0 +1,18 @@
+import { GitHubArchiveService } from './github-archive.js';
+
+describe('GitHubArchiveService file filter', () => {
+  const service = GitHubArchiveService.getInstance();
+  const includes = (path: string) => service['shouldIncludeFile'](`svc-main/${path}`);
+
+  test('should keep go.mod so Go imports of the module resolve', () => {
+    expect(includes('go.mod')).toBe(true);
+    expect(includes('tools/go.mod')).toBe(true);
+    expect(includes('internal/util/log.go')).toBe(true);
+  });
+
+  test('should keep .NET project, solution and MSBuild property files', () => {
+    expect(includes('src/Acme.Api/Acme.Api.csproj')).toBe(true);
+    expect(includes('Acme.sln')).toBe(true);
+    expect(includes('Directory.Build.props')).toBe(true);
+  });
+});
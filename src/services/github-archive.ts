@@ -350,6 +350,9 @@ export class GitHubArchiveService {
       ".h",
       ".hpp",
       ".cs",
+      ".csproj",
+      ".sln",
+      ".props",
       ".php",
       ".rb",
       ".go",
@@ -358,6 +361,8 @@ export class GitHubArchiveService {
       ".yaml",
       ".yml",
       ".toml",
+      ".mod",
+      ".lock",
       ".md",
       ".txt",
       ".xml",
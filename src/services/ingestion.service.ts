@@ -10,6 +10,7 @@ import { databaseResetService } from "./database-reset.service.ts";
 import { GraphPersistence, type PersistedGraph } from "../lib/graph-persistence.ts";
 import { ContentHasher } from "../lib/content-hasher.ts";
 import { SimpleKnowledgeGraph } from "../core/graph/graph.ts";
+import type { IncrementalInput } from "../core/ingestion/incremental-processor.ts";
 
 export interface IngestionOptions {
   directoryFilter?: string;
@@ -143,8 +144,10 @@ export class IngestionService {
     onProgress?.("Checking for file changes...");
     const currentHashes = await ContentHasher.hashFiles(fileContents);
 
-    // Try to load existing graph and check if files changed
-    const existingGraph = await GraphPersistence.load(repoId);
+    // Try to load the previous graph of this repository and check if files changed
+    const baselineKey = `baseline:github:${owner}/${repo}`;
+    const existingGraph = await this.loadBaselineGraph(repoId, baselineKey);
+    let incremental: IncrementalInput | undefined;
     
     if (existingGraph && !forceRebuild) {
       const hasChanges = ContentHasher.hasChanges(currentHashes, existingGraph.fileHashes);
@@ -166,9 +169,10 @@ export class IngestionService {
       // Log what changed
       const changes = ContentHasher.compareHashes(currentHashes, existingGraph.fileHashes);
       console.log(`📊 File changes: ${changes.added.length} added, ${changes.modified.length} modified, ${changes.deleted.length} deleted`);
+      incremental = this.createIncrementalInput(existingGraph, changes);
     }
 
-    // Step 4: Reset database and run full pipeline (files changed or no cache)
+    // Step 4: Reset database and run the pipeline (incrementally when a previous graph exists)
     onProgress?.("Resetting database for fresh analysis...");
     await databaseResetService.resetDatabase({ onProgress });
 
@@ -176,7 +180,11 @@ export class IngestionService {
     const projectRoot = "";
     const filePaths = structure.allPaths;
 
-    onProgress?.("Generating knowledge graph...");
+    onProgress?.(
+      incremental
+        ? `Updating knowledge graph (${incremental.changes.added.length + incremental.changes.modified.length + incremental.changes.deleted.length} changed files)...`
+        : "Generating knowledge graph..."
+    );
 
     const worker = await getIngestionWorker();
 
@@ -186,6 +194,7 @@ export class IngestionService {
         projectRoot,
         filePaths,
         fileContents: fileContents,
+        incremental,
       });
 
       if (!result.success) {
@@ -205,7 +214,9 @@ export class IngestionService {
         projectName,
         sourceType: 'github',
         commitSha: ref,
+        functionRegistry: result.functionRegistry,
       });
+      await GraphPersistence.setMetadata(baselineKey, repoId);
 
       localStorage.setItem('gitnexus_last_repo', repoId);
 
@@ -213,6 +224,7 @@ export class IngestionService {
         graph,
         fileContents,
         fromCache: false,
+        wasIncremental: !!incremental,
       };
     } finally {
       if ("terminate" in worker) {
@@ -253,8 +265,10 @@ export class IngestionService {
     onProgress?.("Checking for file changes...");
     const currentHashes = await ContentHasher.hashFiles(fileContents);
 
-    // Check for existing cached graph
-    const existingGraph = await GraphPersistence.load(repoId);
+    // Check for a previous graph of this archive
+    const baselineKey = `baseline:zip:${file.name}`;
+    const existingGraph = await this.loadBaselineGraph(repoId, baselineKey);
+    let incremental: IncrementalInput | undefined;
     
     if (existingGraph && !forceRebuild) {
       const hasChanges = ContentHasher.hasChanges(currentHashes, existingGraph.fileHashes);
@@ -275,9 +289,10 @@ export class IngestionService {
       
       const changes = ContentHasher.compareHashes(currentHashes, existingGraph.fileHashes);
       console.log(`📊 File changes: ${changes.added.length} added, ${changes.modified.length} modified, ${changes.deleted.length} deleted`);
+      incremental = this.createIncrementalInput(existingGraph, changes);
     }
 
-    // Reset database and run full pipeline
+    // Reset database and run the pipeline (incrementally when a previous graph exists)
     onProgress?.("Resetting database for fresh analysis...");
     await databaseResetService.resetDatabase({ onProgress });
 
@@ -285,7 +300,11 @@ export class IngestionService {
     const projectRoot = "";
     const filePaths = normalizedStructure.allPaths;
 
-    onProgress?.("Generating knowledge graph...");
+    onProgress?.(
+      incremental
+        ? `Updating knowledge graph (${incremental.changes.added.length + incremental.changes.modified.length + incremental.changes.deleted.length} changed files)...`
+        : "Generating knowledge graph..."
+    );
 
     const worker = await getIngestionWorker();
 
@@ -295,6 +314,7 @@ export class IngestionService {
         projectRoot,
         filePaths,
         fileContents: fileContents,
+        incremental,
       });
 
       if (!result.success) {
@@ -313,7 +333,9 @@ export class IngestionService {
         createdAt: Date.now(),
         projectName,
         sourceType: 'zip',
+        functionRegistry: result.functionRegistry,
       });
+      await GraphPersistence.setMetadata(baselineKey, repoId);
 
       localStorage.setItem('gitnexus_last_repo', repoId);
 
@@ -321,6 +343,7 @@ export class IngestionService {
         graph,
         fileContents,
         fromCache: false,
+        wasIncremental: !!incremental,
       };
     } finally {
       if ("terminate" in worker) {
@@ -395,6 +418,30 @@ export class IngestionService {
     return structure; // No normalization if prefix isn't common enough
   }
 
+  /**
+   * Graph to update incrementally: the cached graph for this exact source, or the
+   * most recently saved graph of the same repository / archive (e.g. before a pull)
+   */
+  private async loadBaselineGraph(repoId: string, baselineKey: string): Promise<PersistedGraph | null> {
+    const existingGraph = await GraphPersistence.load(repoId);
+    if (existingGraph) return existingGraph;
+
+    const baselineRepoId = await GraphPersistence.getMetadata<string>(baselineKey);
+    return baselineRepoId && baselineRepoId !== repoId ? GraphPersistence.load(baselineRepoId) : null;
+  }
+
+  private createIncrementalInput(
+    existingGraph: PersistedGraph,
+    changes: ReturnType<typeof ContentHasher.compareHashes>
+  ): IncrementalInput {
+    return {
+      previousNodes: existingGraph.nodes,
+      previousRelationships: existingGraph.relationships,
+      changes: { added: changes.added, modified: changes.modified, deleted: changes.deleted },
+      functionRegistry: existingGraph.functionRegistry,
+    };
+  }
+
   /**
    * Restore a KnowledgeGraph from persisted data
    */
@@ -0,0 +1,39 @@
+/**
+ * Query Library Service
+ *
+ * The app-wide saved query library: built-in queries plus the user's own, kept in
+ * IndexedDB through GraphPersistence metadata. Queries run on KuzuDB when the graph
+ * has it and on the JSON graph otherwise, or when KuzuDB rejects them: the built-ins
+ * are written for the JSON graph's labels, which the KuzuDB schema doesn't have.
+ */
+
+import type { KnowledgeGraph } from '../core/graph/types.ts';
+import type { SavedQuery, SavedQueryExecutor } from '../core/graph/query-library.ts';
+import { QueryLibrary, createGraphQueryExecutor, createKuzuQueryExecutor, withFallbackExecutor } from '../core/graph/query-library.ts';
+import { DualWriteKnowledgeGraph } from '../core/graph/dual-write-knowledge-graph.ts';
+import { BUILT_IN_QUERIES } from '../core/graph/queries/index.ts';
+import { GraphPersistence } from '../lib/graph-persistence.ts';
+
+const USER_QUERIES_KEY = 'queryLibrary:userQueries';
+
+export const queryLibrary = new QueryLibrary(BUILT_IN_QUERIES, {
+  load: () => GraphPersistence.getMetadata<SavedQuery[]>(USER_QUERIES_KEY),
+  save: queries => GraphPersistence.setMetadata(USER_QUERIES_KEY, queries)
+});
+
+/**
+ * Executor for a graph: its KuzuDB side when it is a DualWriteKnowledgeGraph with
+ * KuzuDB enabled, GraphQueryEngine on the JSON graph otherwise or when KuzuDB fails
+ */
+export function createKnowledgeGraphExecutor(graph: KnowledgeGraph): SavedQueryExecutor {
+  const runInMemory = createGraphQueryExecutor(graph);
+
+  return async (cypher, params) => {
+    const kuzuGraph = graph instanceof DualWriteKnowledgeGraph ? graph.getKuzuGraph() : null;
+    if (!kuzuGraph) {
+      return runInMemory(cypher, params);
+    }
+
+    return withFallbackExecutor(createKuzuQueryExecutor(kuzuGraph), runInMemory)(cypher, params);
+  };
+}
@@ -0,0 +1,18 @@
+import { ZipService } from './zip.js';
+
+describe('ZipService text extensions', () => {
+  const service = new ZipService();
+  const isTextFile = (path: string) => service['isTextFile'](path, service.getDefaultTextExtensions());
+
+  test('should keep go.mod so Go imports of the module resolve', () => {
+    expect(isTextFile('go.mod')).toBe(true);
+    expect(isTextFile('internal/util/log.go')).toBe(true);
+    expect(isTextFile('assets/logo.png')).toBe(false);
+  });
+
+  test('should keep .NET project, solution and MSBuild property files', () => {
+    expect(isTextFile('src/Acme.Api/Acme.Api.csproj')).toBe(true);
+    expect(isTextFile('Acme.sln')).toBe(true);
+    expect(isTextFile('Directory.Build.props')).toBe(true);
+  });
+});
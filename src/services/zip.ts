@@ -33,8 +33,9 @@ export class ZipService {
   private static readonly TEXT_EXTENSIONS = new Set([
     '.js', '.ts', '.tsx', '.jsx', '.py', '.java', '.cpp', '.c', '.h', '.hpp',
     '.cs', '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.scala', '.clj',
+    '.csproj', '.sln', '.props',
     '.html', '.htm', '.xml', '.css', '.scss', '.sass', '.less', '.json',
-    '.yaml', '.yml', '.toml', '.ini', '.cfg', '.conf', '.md', '.txt',
+    '.yaml', '.yml', '.toml', '.ini', '.cfg', '.conf', '.md', '.txt', '.mod', '.lock',
     '.sql', '.sh', '.bash', '.zsh', '.fish', '.ps1', '.bat', '.cmd',
     '.dockerfile', '.gitignore', '.gitattributes', '.env', '.properties'
   ]);
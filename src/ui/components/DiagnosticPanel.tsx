@@ -1,4 +1,7 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import type { KnowledgeGraph } from '../../core/graph/types.ts';
+import { getFrequentCallees, getResolutionDiagnostics } from '../../core/ingestion/resolution-diagnostics.ts';
+import { downloadJSON, exportDiagnosticsToJSON } from '../../lib/export.ts';
 
 interface DiagnosticInfo {
   processedFiles: number;
@@ -23,17 +26,37 @@ interface DiagnosticPanelProps {
   onGetDiagnostics?: () => DiagnosticInfo | null;
   onAnalyzeFile?: (filePath: string, content: string) => Promise<FileAnalysis>;
   fileContents?: Map<string, string>;
+  graph?: KnowledgeGraph;  // Source of the UnresolvedCall / UnresolvedImport nodes
 }
 
 export default function DiagnosticPanel({ 
   onGetDiagnostics, 
   onAnalyzeFile, 
-  fileContents 
+  fileContents,
+  graph
 }: DiagnosticPanelProps) {
   const [diagnostics, setDiagnostics] = useState<DiagnosticInfo | null>(null);
   const [fileAnalysis, setFileAnalysis] = useState<FileAnalysis | null>(null);
   const [selectedFile, setSelectedFile] = useState<string>('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [kindFilter, setKindFilter] = useState<'all' | 'call' | 'import'>('all');
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [textFilter, setTextFilter] = useState<string>('');
+
+  const resolutionDiagnostics = useMemo(() => (graph ? getResolutionDiagnostics(graph) : []), [graph]);
+  const categories = useMemo(
+    () => Array.from(new Set(resolutionDiagnostics.map(diagnostic => diagnostic.category))).sort(),
+    [resolutionDiagnostics]
+  );
+  const filteredDiagnostics = useMemo(() => {
+    const needle = textFilter.toLowerCase();
+    return resolutionDiagnostics.filter(diagnostic =>
+      (kindFilter === 'all' || diagnostic.kind === kindFilter) &&
+      (categoryFilter === 'all' || diagnostic.category === categoryFilter) &&
+      (!needle || diagnostic.callee.toLowerCase().includes(needle) || diagnostic.filePath.toLowerCase().includes(needle))
+    );
+  }, [resolutionDiagnostics, kindFilter, categoryFilter, textFilter]);
+  const builtinCandidates = useMemo(() => getFrequentCallees(resolutionDiagnostics, 'not_found', 10), [resolutionDiagnostics]);
 
   const handleGetDiagnostics = () => {
     if (onGetDiagnostics) {
@@ -63,6 +86,10 @@ export default function DiagnosticPanel({
     }
   };
 
+  const handleExportDiagnostics = () => {
+    downloadJSON(exportDiagnosticsToJSON(filteredDiagnostics), 'gitnexus-unresolved.json');
+  };
+
   const fileList = fileContents ? Array.from(fileContents.keys()).sort() : [];
 
   const containerStyle: React.CSSProperties = {
@@ -100,6 +127,13 @@ export default function DiagnosticPanel({
     minWidth: '300px'
   };
 
+  const cellStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    borderBottom: '1px solid #eee',
+    textAlign: 'left',
+    fontSize: '13px'
+  };
+
   return (
     <div style={containerStyle}>
       <h2>🔍 Parsing Diagnostics</h2>
@@ -139,6 +173,82 @@ export default function DiagnosticPanel({
         )}
       </div>
 
+      {/* Unresolved Calls and Imports Section */}
+      {graph && (
+        <div style={sectionStyle}>
+          <h3>Unresolved Calls &amp; Imports ({resolutionDiagnostics.length})</h3>
+          <div style={{ marginBottom: '15px' }}>
+            <select
+              style={{ ...selectStyle, minWidth: '120px' }}
+              value={kindFilter}
+              onChange={(e) => setKindFilter(e.target.value as 'all' | 'call' | 'import')}
+            >
+              <option value="all">Calls and imports</option>
+              <option value="call">Calls</option>
+              <option value="import">Imports</option>
+            </select>
+            <select
+              style={{ ...selectStyle, minWidth: '160px' }}
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+            >
+              <option value="all">All categories</option>
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+            <input
+              style={{ ...selectStyle, minWidth: '200px' }}
+              placeholder="Filter by callee or file..."
+              value={textFilter}
+              onChange={(e) => setTextFilter(e.target.value)}
+            />
+            <button
+              style={buttonStyle}
+              onClick={handleExportDiagnostics}
+              disabled={filteredDiagnostics.length === 0}
+            >
+              Export JSON
+            </button>
+          </div>
+
+          {builtinCandidates.length > 0 && (
+            <p style={{ fontSize: '13px' }}>
+              <strong>Most frequent callees defined nowhere in the project</strong> (candidates for the <code>languages</code> builtins in gitnexus.config.ts or .gitnexus.json):{' '}
+              {builtinCandidates.map(({ callee, count }) => `${callee} (${count})`).join(', ')}
+            </p>
+          )}
+
+          <div style={{ maxHeight: '400px', overflowY: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={cellStyle}>File</th>
+                  <th style={cellStyle}>Line</th>
+                  <th style={cellStyle}>Callee</th>
+                  <th style={cellStyle}>Category</th>
+                  <th style={cellStyle}>Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredDiagnostics.slice(0, 500).map(diagnostic => (
+                  <tr key={`${diagnostic.kind}:${diagnostic.filePath}:${diagnostic.line}:${diagnostic.callee}`}>
+                    <td style={cellStyle}>{diagnostic.filePath}</td>
+                    <td style={cellStyle}>{diagnostic.line}</td>
+                    <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{diagnostic.callee}</td>
+                    <td style={cellStyle}>{diagnostic.category}</td>
+                    <td style={cellStyle}>{diagnostic.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filteredDiagnostics.length > 500 && (
+              <p style={{ fontSize: '13px' }}>Showing 500 of {filteredDiagnostics.length}; export to see all.</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Individual File Analysis Section */}
       <div style={sectionStyle}>
         <h3>Individual File Analysis</h3>
@@ -0,0 +1,340 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { KnowledgeGraph } from '../../core/graph/types.ts';
+import type {
+  SavedQuery,
+  SavedQueryColumn,
+  SavedQueryParameter,
+  SavedQueryResult,
+  SavedQueryValueType
+} from '../../core/graph/query-library.ts';
+import { QueryLibraryError, describeSavedQuery } from '../../core/graph/query-library.ts';
+import { queryLibrary, createKnowledgeGraphExecutor } from '../../services/query-library.service.ts';
+
+interface QueryLibraryPanelProps {
+  graph: KnowledgeGraph;
+}
+
+interface QueryDraft {
+  name: string;
+  description: string;
+  cypher: string;
+  parameters: string;  // One "name: type = default" per line
+  columns: string;     // "name: type, name: type"
+}
+
+const EMPTY_DRAFT: QueryDraft = { name: '', description: '', cypher: '', parameters: '', columns: '' };
+
+export default function QueryLibraryPanel({ graph }: QueryLibraryPanelProps) {
+  const [queries, setQueries] = useState<SavedQuery[]>(() => queryLibrary.list());
+  const [selectedName, setSelectedName] = useState<string>(() => queryLibrary.list()[0]?.name ?? '');
+  const [args, setArgs] = useState<Record<string, string | boolean>>({});
+  const [result, setResult] = useState<SavedQueryResult | null>(null);
+  const [error, setError] = useState<string>('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [draft, setDraft] = useState<QueryDraft | null>(null);
+
+  const refresh = useCallback(() => setQueries(queryLibrary.list()), []);
+
+  useEffect(() => {
+    queryLibrary
+      .load()
+      .then(refresh)
+      .catch(loadError => console.warn('⚠️ Could not load saved queries:', loadError));
+  }, [refresh]);
+
+  const selected = useMemo(() => queries.find(query => query.name === selectedName), [queries, selectedName]);
+
+  const selectQuery = (name: string) => {
+    setSelectedName(name);
+    setArgs({});
+    setResult(null);
+    setError('');
+  };
+
+  const handleRun = async () => {
+    if (!selected) return;
+    setIsRunning(true);
+    setError('');
+    try {
+      setResult(await queryLibrary.run(selected.name, args, createKnowledgeGraphExecutor(graph)));
+    } catch (runError) {
+      setResult(null);
+      setError(runError instanceof Error ? runError.message : String(runError));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      const saved = await queryLibrary.save(parseDraft(draft));
+      refresh();
+      selectQuery(saved.name);
+      setDraft(null);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || selected.builtIn) return;
+    try {
+      await queryLibrary.remove(selected.name);
+      refresh();
+      selectQuery(queryLibrary.list()[0]?.name ?? '');
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : String(deleteError));
+    }
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    padding: '16px',
+    borderRadius: '18px',
+    background: 'rgba(255,255,255,0.02)',
+    border: '1px solid rgba(148, 163, 184, 0.35)',
+    fontSize: '13px',
+    color: '#cbd5f5',
+    marginBottom: '16px'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '8px 14px',
+    borderRadius: '12px',
+    border: '1px solid rgba(148, 163, 184, 0.25)',
+    background: 'rgba(56,189,248,0.12)',
+    color: '#f8fafc',
+    fontSize: '13px',
+    cursor: 'pointer',
+    marginRight: '8px'
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '8px',
+    borderRadius: '10px',
+    border: '1px solid rgba(148, 163, 184, 0.35)',
+    background: 'rgba(10, 15, 30, 0.9)',
+    color: '#f8fafc',
+    fontSize: '13px',
+    boxSizing: 'border-box'
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '10px'
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    borderBottom: '1px solid rgba(148, 163, 184, 0.25)',
+    textAlign: 'left',
+    fontSize: '13px'
+  };
+
+  return (
+    <div>
+      <div style={sectionStyle}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+          <select
+            value={selectedName}
+            onChange={event => selectQuery(event.target.value)}
+            style={{ ...inputStyle, minWidth: '320px' }}
+          >
+            {queries.map(query => (
+              <option key={query.name} value={query.name}>
+                {describeSavedQuery(query)}{query.builtIn ? '' : ' · yours'}
+              </option>
+            ))}
+          </select>
+          <button style={buttonStyle} onClick={() => setDraft(draft ? null : { ...EMPTY_DRAFT })}>
+            {draft ? 'Cancel' : '➕ New query'}
+          </button>
+          {selected && !selected.builtIn && (
+            <button style={{ ...buttonStyle, background: 'rgba(248, 113, 113, 0.18)' }} onClick={handleDelete}>
+              🗑️ Delete
+            </button>
+          )}
+        </div>
+
+        {selected && (
+          <>
+            <p style={{ marginTop: 0, color: '#94a3b8' }}>{selected.description}</p>
+            {selected.parameters.map(parameter => (
+              <label key={parameter.name} style={labelStyle}>
+                <span style={{ display: 'inline-block', minWidth: '120px' }}>
+                  {parameter.name}
+                  <span style={{ color: '#6b7a90' }}> ({parameter.type})</span>
+                </span>
+                {parameter.type === 'boolean' ? (
+                  <input
+                    type="checkbox"
+                    checked={Boolean(args[parameter.name] ?? parameter.default)}
+                    onChange={event => setArgs({ ...args, [parameter.name]: event.target.checked })}
+                  />
+                ) : (
+                  <input
+                    type={parameter.type === 'string' ? 'text' : 'number'}
+                    value={String(args[parameter.name] ?? '')}
+                    placeholder={parameter.default !== undefined ? String(parameter.default) : parameter.description}
+                    min={parameter.min}
+                    max={parameter.max}
+                    title={parameter.description}
+                    onChange={event => setArgs({ ...args, [parameter.name]: event.target.value })}
+                    style={{ ...inputStyle, width: '260px' }}
+                  />
+                )}
+              </label>
+            ))}
+            <button style={buttonStyle} onClick={handleRun} disabled={isRunning}>
+              {isRunning ? 'Running…' : '▶ Run'}
+            </button>
+          </>
+        )}
+
+        {error && <div style={{ color: '#f87171', marginTop: '12px' }}>{error}</div>}
+      </div>
+
+      {draft && (
+        <div style={sectionStyle}>
+          <label style={labelStyle}>
+            Name
+            <input
+              value={draft.name}
+              placeholder="files_in"
+              onChange={event => setDraft({ ...draft, name: event.target.value })}
+              style={{ ...inputStyle, width: '100%' }}
+            />
+          </label>
+          <label style={labelStyle}>
+            Description
+            <input
+              value={draft.description}
+              onChange={event => setDraft({ ...draft, description: event.target.value })}
+              style={{ ...inputStyle, width: '100%' }}
+            />
+          </label>
+          <label style={labelStyle}>
+            Cypher
+            <textarea
+              value={draft.cypher}
+              rows={4}
+              placeholder="MATCH (f:File) WHERE f.filePath STARTS WITH $folder RETURN f.filePath AS filePath"
+              onChange={event => setDraft({ ...draft, cypher: event.target.value })}
+              style={{ ...inputStyle, width: '100%', fontFamily: 'monospace' }}
+            />
+          </label>
+          <label style={labelStyle}>
+            Parameters, one per line
+            <textarea
+              value={draft.parameters}
+              rows={2}
+              placeholder={'folder: string\nlimit: integer = 10'}
+              onChange={event => setDraft({ ...draft, parameters: event.target.value })}
+              style={{ ...inputStyle, width: '100%', fontFamily: 'monospace' }}
+            />
+          </label>
+          <label style={labelStyle}>
+            Result columns
+            <input
+              value={draft.columns}
+              placeholder="filePath: string"
+              onChange={event => setDraft({ ...draft, columns: event.target.value })}
+              style={{ ...inputStyle, width: '100%', fontFamily: 'monospace' }}
+            />
+          </label>
+          <button style={buttonStyle} onClick={handleSave}>
+            💾 Save query
+          </button>
+        </div>
+      )}
+
+      {result && (
+        <div style={sectionStyle}>
+          <div style={{ marginBottom: '8px', color: '#94a3b8' }}>
+            {result.rows.length} rows in {result.executionTime.toFixed(1)}ms
+          </div>
+          {result.rows.length > 0 && (
+            <div style={{ maxHeight: '320px', overflowY: 'auto' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    {result.columns.map(column => (
+                      <th key={column.name} style={cellStyle} title={column.description}>
+                        {column.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map((row, index) => (
+                    <tr key={index}>
+                      {result.columns.map(column => (
+                        <td key={column.name} style={cellStyle}>
+                          {formatValue(row[column.name])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function parseDraft(draft: QueryDraft): SavedQuery {
+  const parameters = draft.parameters
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line): SavedQueryParameter => {
+      const match = line.match(/^(\w+)\s*:\s*(\w+)(?:\s*=\s*(.+))?$/);
+      if (!match) {
+        throw new QueryLibraryError(`Cannot read parameter "${line}": use name: type = default`);
+      }
+      const [, name, type, defaultValue] = match;
+      return {
+        name,
+        type: type as SavedQueryValueType,
+        description: name,
+        ...(defaultValue !== undefined && { default: parseDefault(defaultValue.trim()) })
+      };
+    });
+
+  const columns = draft.columns
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry): SavedQueryColumn => {
+      const [name, type = 'string'] = entry.split(':').map(part => part.trim());
+      return { name, type: type as SavedQueryColumn['type'] };
+    });
+
+  return {
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    cypher: draft.cypher.trim(),
+    parameters,
+    columns
+  };
+}
+
+function parseDefault(value: string): string | number | boolean {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (typeof parsed === 'string' || typeof parsed === 'number' || typeof parsed === 'boolean') {
+      return parsed;
+    }
+  } catch {
+    // Not JSON: take it as a bare string
+  }
+  return value;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
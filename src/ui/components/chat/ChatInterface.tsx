@@ -6,6 +6,7 @@ import type { KnowledgeGraph } from '../../../core/graph/types.ts';
 import { LLMService, type LLMProvider, type LLMConfig } from '../../../ai/llm-service.ts';
 import { CypherGenerator } from '../../../ai/cypher-generator.ts';
 import { ReActAgent, type ReActResult, type ReActOptions } from '../../../ai/react-agent.ts';
+import { queryLibrary } from '../../../services/query-library.service.ts';
 // KuzuDB query engine removed - using SimpleKnowledgeGraph directly
 import { sessionManager, type SessionInfo } from '../../../lib/session-manager.ts';
 import { ChatSessionManager, LocalStorageChatHistory, type ChatHistoryMetadata } from '../../../lib/chat-history.ts';
@@ -95,7 +96,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [llmService] = useState(new LLMService());
   const [cypherGenerator] = useState(new CypherGenerator(llmService));
   // Create ReActAgent with initial graph, will be updated in useEffect
-  const [ragOrchestrator] = useState(() => new ReActAgent(llmService, cypherGenerator, graph));
+  const [ragOrchestrator] = useState(() => new ReActAgent(llmService, cypherGenerator, graph, queryLibrary));
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -1,7 +1,8 @@
 import React, { useState, useMemo, useRef } from 'react';
 import GraphVisualization from './Visualization.tsx';
 import FloatingSourceViewer from './FloatingSourceViewer.tsx';
-import type { KnowledgeGraph } from '../../../core/graph/types.ts';
+import type { KnowledgeGraph, GraphNode } from '../../../core/graph/types.ts';
+import { analyzeCycles } from '../../../core/graph/cycle-analysis.ts';
 
 interface GraphExplorerProps {
   graph: KnowledgeGraph | null;
@@ -15,8 +16,13 @@ export default function GraphExplorer({ graph, isLoading, onNodeSelect, fileCont
   const [floatingViewerOpen, setFloatingViewerOpen] = useState(false);
   const [floatingViewerPosition, setFloatingViewerPosition] = useState({ x: 0, y: 0 });
   const [floatingViewerPinned, setFloatingViewerPinned] = useState(false);
+  const [cycleMode, setCycleMode] = useState<'none' | 'imports' | 'calls'>('none');
   const containerRef = useRef<HTMLDivElement>(null);
 
+  const showCycles = cycleMode !== 'none';
+  const cycleAnalysis = useMemo(() => (graph && showCycles ? analyzeCycles(graph) : null), [graph, showCycles]);
+  const cycles = cycleAnalysis && cycleMode !== 'none' ? cycleAnalysis[cycleMode] : undefined;
+
   const handleNodeSelect = (nodeId: string | null, event?: MouseEvent) => {
     setSelectedNode(nodeId);
     onNodeSelect?.(nodeId);
@@ -64,9 +70,38 @@ export default function GraphExplorer({ graph, isLoading, onNodeSelect, fileCont
 
   const graphContainerStyle: React.CSSProperties = {
     flex: 1,
-    overflow: 'hidden'
+    overflow: 'hidden',
+    position: 'relative'
+  };
+
+  const cyclePanelStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: '16px',
+    left: '16px',
+    maxWidth: '320px',
+    background: 'rgba(15,23,42,0.85)',
+    color: '#f8fafc',
+    borderRadius: '16px',
+    padding: '12px 16px',
+    border: '1px solid rgba(99,102,241,0.35)',
+    fontSize: '12px',
+    boxShadow: '0 20px 40px rgba(2,6,23,0.45)',
+    lineHeight: 1.6
   };
 
+  const cycleButtonStyle = (active: boolean): React.CSSProperties => ({
+    padding: '4px 10px',
+    marginRight: '6px',
+    borderRadius: '10px',
+    border: `1px solid ${active ? '#fbbf24' : 'rgba(148,163,184,0.35)'}`,
+    background: active ? 'rgba(251,191,36,0.15)' : 'transparent',
+    color: active ? '#fde68a' : '#cbd5f5',
+    fontSize: '12px',
+    cursor: 'pointer'
+  });
+
+  const shortName = (node: GraphNode) => String(node.properties.name || node.id).split('/').pop();
+
   if (isLoading) {
     return <div style={containerStyle}><div style={loadingStyle}>Loading graph...</div></div>;
   }
@@ -83,7 +118,42 @@ export default function GraphExplorer({ graph, isLoading, onNodeSelect, fileCont
           graph={graph}
           onNodeSelect={handleNodeSelect}
           selectedNodeId={selectedNode}
+          cycles={cycles}
         />
+
+        <div style={cyclePanelStyle}>
+          <div style={{ marginBottom: cycles ? '8px' : 0 }}>
+            <button style={cycleButtonStyle(cycleMode === 'imports')} onClick={() => setCycleMode(cycleMode === 'imports' ? 'none' : 'imports')}>
+              🔁 Import cycles
+            </button>
+            <button style={cycleButtonStyle(cycleMode === 'calls')} onClick={() => setCycleMode(cycleMode === 'calls' ? 'none' : 'calls')}>
+              🔁 Call cycles
+            </button>
+          </div>
+          {cycles && cycles.length === 0 && <div style={{ color: '#94a3b8' }}>No cycles found</div>}
+          {cycles && cycles.slice(0, 5).map((cycle, index) => {
+            const { relationship } = cycle.breakingEdge;
+            const source = cycle.nodes.find(member => member.id === relationship.source);
+            const target = cycle.nodes.find(member => member.id === relationship.target);
+            return (
+              <div
+                key={cycle.nodes[0].id}
+                style={{ marginBottom: '6px', cursor: 'pointer' }}
+                onClick={() => handleNodeSelect(relationship.source)}
+                title={cycle.shortestCycle.map(shortName).join(' → ')}
+              >
+                <div style={{ color: '#fde68a' }}>
+                  #{index + 1} · {cycle.nodes.length} {cycle.relationshipType === 'IMPORTS' ? 'files' : 'functions'}
+                </div>
+                <div style={{ color: '#cbd5f5' }}>
+                  Break {source ? shortName(source) : relationship.source} → {target ? shortName(target) : relationship.target}
+                  {cycle.breakingEdge.remainingCycleSize > 0 && ` (leaves ${cycle.breakingEdge.remainingCycleSize} in a cycle)`}
+                </div>
+              </div>
+            );
+          })}
+          {cycles && cycles.length > 5 && <div style={{ color: '#94a3b8' }}>+{cycles.length - 5} more</div>}
+        </div>
       </div>
 
       {/* Floating Source Viewer */}
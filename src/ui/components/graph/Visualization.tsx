@@ -1,11 +1,13 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import type { KnowledgeGraph, GraphNode, GraphRelationship } from '../../../core/graph/types.ts';
+import type { KnowledgeGraph, GraphNode, GraphRelationship, NodeLabel } from '../../../core/graph/types.ts';
+import type { DependencyCycle } from '../../../core/graph/cycle-analysis.ts';
 
 interface GraphVisualizationProps {
   graph: KnowledgeGraph;
   onNodeSelect?: (nodeId: string | null, event?: MouseEvent) => void;
   selectedNodeId?: string | null;
+  cycles?: DependencyCycle[];  // Highlighted with their suggested breaking edges
   className?: string;
   style?: React.CSSProperties;
 }
@@ -47,10 +49,18 @@ const linkPalette: Record<string, { color: string; dash?: string }> = {
   default: { color: 'rgba(148,163,184,0.35)' },
 };
 
+// Control flow blocks outnumber every other node, and unresolved references are read in the
+// diagnostics panel: both are for queries, not the overview
+const hiddenNodeLabels = new Set<NodeLabel>(['BasicBlock', 'UnresolvedCall', 'UnresolvedImport']);
+
+const cycleColor = '#fbbf24';
+const breakingEdgeColor = '#ef4444';
+
 const GraphVisualization: React.FC<GraphVisualizationProps> = ({
   graph,
   onNodeSelect,
   selectedNodeId,
+  cycles,
   className = '',
   style = {},
 }) => {
@@ -64,10 +74,28 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
   const [isReady, setIsReady] = useState(false);
   const [hoveredNode, setHoveredNode] = useState<RenderNode | null>(null);
 
+  // Read through a ref because the simulation's tick handler keeps the first render's draw
+  const cycleHighlight = useMemo(() => {
+    const nodeIds = new Set<string>();
+    const linkIds = new Set<string>();
+    const breakingLinkIds = new Set<string>();
+    for (const cycle of cycles || []) {
+      cycle.nodes.forEach((node) => nodeIds.add(node.id));
+      cycle.relationships.forEach((rel) => linkIds.add(rel.id));
+      breakingLinkIds.add(cycle.breakingEdge.relationship.id);
+    }
+    return { nodeIds, linkIds, breakingLinkIds };
+  }, [cycles]);
+  const cycleHighlightRef = useRef(cycleHighlight);
+  cycleHighlightRef.current = cycleHighlight;
+
   const getContext = () => canvasRef.current?.getContext('2d', { alpha: false });
 
   const convertToRenderData = (kg: KnowledgeGraph) => {
-    const nodes: RenderNode[] = kg.nodes.map((node: GraphNode) => {
+    const visibleNodes = kg.nodes.filter((node: GraphNode) => !hiddenNodeLabels.has(node.label));
+    const visibleIds = new Set(visibleNodes.map((node) => node.id));
+
+    const nodes: RenderNode[] = visibleNodes.map((node: GraphNode) => {
       const color = palette[node.label.toLowerCase()] || palette.default;
       let baseSize = 7;
       switch (node.label.toLowerCase()) {
@@ -104,7 +132,9 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
     });
 
     const links: RenderLink[] = kg.relationships
-      .filter((rel: GraphRelationship) => rel.source !== rel.target)
+      .filter((rel: GraphRelationship) =>
+        rel.source !== rel.target && visibleIds.has(rel.source) && visibleIds.has(rel.target)
+      )
       .map((rel) => {
         const relType = rel.type.toLowerCase();
         const paletteEntry = linkPalette[relType] || linkPalette.default;
@@ -187,15 +217,26 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
       const target = link.target as RenderNode;
       if (!source || !target || source.x === undefined || target.x === undefined) return;
 
-      context.strokeStyle = link.color;
-      context.lineWidth = link.width;
-      if (link.dash) {
-        const [a, b] = link.dash.split(',').map((n) => Number(n.trim()));
-        context.setLineDash([a, b]);
-      } else {
+      const { linkIds, breakingLinkIds } = cycleHighlightRef.current;
+      if (breakingLinkIds.has(link.id)) {
+        context.strokeStyle = breakingEdgeColor;
+        context.lineWidth = 3.5;
+        context.setLineDash([8, 4]);
+      } else if (linkIds.has(link.id)) {
+        context.strokeStyle = cycleColor;
+        context.lineWidth = 2.5;
         context.setLineDash([]);
+      } else {
+        context.strokeStyle = link.color;
+        context.lineWidth = link.width;
+        if (link.dash) {
+          const [a, b] = link.dash.split(',').map((n) => Number(n.trim()));
+          context.setLineDash([a, b]);
+        } else {
+          context.setLineDash([]);
+        }
       }
-      context.globalAlpha = 0.8;
+      context.globalAlpha = linkIds.size > 0 && !linkIds.has(link.id) ? 0.35 : 0.8;
       context.beginPath();
       context.moveTo(source.x!, source.y!);
       context.lineTo(target.x!, target.y!);
@@ -221,6 +262,13 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
       context.fill();
       context.stroke();
 
+      if (cycleHighlightRef.current.nodeIds.has(node.id)) {
+        context.strokeStyle = cycleColor;
+        context.lineWidth = 3;
+        context.globalAlpha = 1;
+        context.stroke();
+      }
+
       if (node.id === hoveredNode?.id) {
         context.strokeStyle = '#fcd34d';
         context.lineWidth = 2;
@@ -406,7 +454,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
 
   useEffect(() => {
     scheduleDraw();
-  }, [selectedNodeId, hoveredNode]);
+  }, [selectedNodeId, hoveredNode, cycleHighlight]);
 
   const containerStyle: React.CSSProperties = {
     width: '100%',
@@ -497,6 +545,18 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
               <span>{item.label}</span>
             </div>
           ))}
+          {cycleHighlight.nodeIds.size > 0 && (
+            <>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px', marginBottom: '4px' }}>
+                <span style={{ width: '16px', height: '3px', background: cycleColor }} />
+                <span>Cycle</span>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+                <span style={{ width: '16px', height: '3px', background: breakingEdgeColor }} />
+                <span>Suggested edge to break</span>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -4,3 +4,4 @@ export { default as ErrorBoundary } from "./ErrorBoundary.tsx";
 export { default as ExportFormatModal } from "./ExportFormatModal.tsx";
 export { default as CommitHistoryViewer } from "./CommitHistoryViewer.tsx";
 export { default as ProjectEvolutionStats } from "./ProjectEvolutionStats.tsx";
+export { default as QueryLibraryPanel } from "./QueryLibraryPanel.tsx";
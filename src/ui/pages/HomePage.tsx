@@ -21,6 +21,7 @@ import GitHubRepoPicker from "../components/github/GitHubRepoPicker.tsx";
 import {
   CommitHistoryViewer,
   ProjectEvolutionStats,
+  QueryLibraryPanel,
 } from "../components/index.ts";
 import { useCommitHistory } from "../hooks/useCommitHistory.ts";
 import { useGraphPersistence } from "../hooks/useGraphPersistence.ts";
@@ -36,6 +37,7 @@ interface AppState {
   showWelcome: boolean;
   isLoading: boolean;
   showStats: boolean;
+  showQueries: boolean;
   showExportModal: boolean;
   showHistory: boolean;
 
@@ -61,6 +63,7 @@ const initialState: AppState = {
   showWelcome: true,
   isLoading: false,
   showStats: false,
+  showQueries: false,
   showExportModal: false,
   showHistory: false,
   directoryFilter: "src,lib,components,pages,utils",
@@ -1791,6 +1794,19 @@ const HomePage: React.FC = () => {
             >
               📊 Stats
             </button>
+            <button
+              style={{
+                ...styles.ghostButton,
+                backgroundColor: state.showQueries
+                  ? "rgba(99,102,241,0.18)"
+                  : "rgba(255,255,255,0.02)",
+                borderColor: state.showQueries ? colors.primary : colors.border,
+                color: state.showQueries ? colors.primaryLight : colors.text,
+              }}
+              onClick={() => updateState({ showQueries: !state.showQueries })}
+            >
+              🧭 Queries
+            </button>
             <button
               onClick={handleDownloadGraph}
               disabled={!state.graph}
@@ -1954,6 +1970,13 @@ const HomePage: React.FC = () => {
           </div>
         )}
 
+        {state.showQueries && state.graph && (
+          <div style={styles.statsPanel}>
+            <div style={styles.statsSectionTitle}>Saved queries</div>
+            <QueryLibraryPanel graph={state.graph} />
+          </div>
+        )}
+
         <div style={workspaceStyle} data-layout="workspace-grid">
           <div style={graphPanelStyle} data-panel="graph">
             <div style={styles.panelHeader}>
@@ -3,6 +3,7 @@ import { GraphPipeline, type PipelineInput } from '../core/ingestion/pipeline.ts
 import { ParallelGraphPipeline } from '../core/ingestion/parallel-pipeline.ts';
 import { isParallelParsingEnabled } from '../config/features.ts';
 import type { KnowledgeGraph, GraphNode, GraphRelationship } from '../core/graph/types.ts';
+import type { SerializedFunctionRegistry } from '../core/graph/trie.ts';
 import { ignoreService } from '../config/ignore-service.js';
 
 export interface IngestionProgress {
@@ -25,6 +26,7 @@ export interface IngestionResult {
   duration: number;
   graphType?: 'DualWriteKnowledgeGraph' | 'SimpleKnowledgeGraph';
   kuzuEnabled?: boolean;
+  functionRegistry?: SerializedFunctionRegistry;  // Persisted so the next incremental run can reuse it
 }
 
 export class IngestionWorker {
@@ -151,7 +153,8 @@ export class IngestionWorker {
         },
         duration,
         graphType: graphType as 'DualWriteKnowledgeGraph' | 'SimpleKnowledgeGraph',
-        kuzuEnabled
+        kuzuEnabled,
+        functionRegistry: this.pipeline.getFunctionRegistry()?.serialize()
       };
     } catch (error) {
       console.error('IngestionWorker: Processing failed:', error);